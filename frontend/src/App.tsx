@@ -5,6 +5,7 @@ import { AuthProvider, useAuth } from './contexts/AuthContext';
 import Layout from './components/Layout';
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
+import Vendors from './pages/Vendors';
 import AdminDashboard from './pages/admin/AdminDashboard';
 
 // Create a query client
@@ -104,6 +105,20 @@ const AppRoutes: React.FC = () => {
         </ProtectedRoute>
       } />
 
+      {/* Vendors routes */}
+      <Route path="/vendors/*" element={
+        <ProtectedRoute requiredRole={['accountant', 'manager', 'admin']}>
+          <Layout>
+            <Routes>
+              <Route index element={<Vendors />} />
+              <Route path="new" element={<div>New Vendor (Coming Soon)</div>} />
+              <Route path=":id" element={<div>Vendor Details (Coming Soon)</div>} />
+              <Route path=":id/edit" element={<div>Edit Vendor (Coming Soon)</div>} />
+            </Routes>
+          </Layout>
+        </ProtectedRoute>
+      } />
+
       {/* Invoices routes */}
       <Route path="/invoices/*" element={
         <ProtectedRoute requiredRole={['accountant', 'manager', 'admin']}>
@@ -10,7 +10,8 @@ import {
   Shield,
   Menu,
   X,
-  DollarSign
+  DollarSign,
+  Truck
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -27,6 +28,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const navigation = [
     { name: 'Dashboard', href: '/', icon: Home },
     { name: 'Customers', href: '/customers', icon: Users },
+    { name: 'Vendors', href: '/vendors', icon: Truck },
     { name: 'Invoices', href: '/invoices', icon: FileText },
     ...(canAccessAdmin ? [
       { name: 'Admin', href: '/admin', icon: Shield }
@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { Search, Truck, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { vendorsAPI, handleApiError } from '../utils/api';
+import { useAuth } from '../contexts/AuthContext';
+import type { Vendor, PaginatedResponse } from '../types';
+
+const Vendors: React.FC = () => {
+  const { hasRole } = useAuth();
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [pagination, setPagination] = useState<PaginatedResponse<Vendor>['pagination'] | null>(null);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const canDeactivate = hasRole(['manager', 'admin']);
+
+  const fetchVendors = async (currentPage: number, searchTerm: string) => {
+    try {
+      setLoading(true);
+      const response = await vendorsAPI.getVendors({
+        page: currentPage,
+        limit: 10,
+        search: searchTerm || undefined
+      });
+
+      setVendors(response.data || []);
+      setPagination(response.pagination);
+      setError('');
+    } catch (err) {
+      setError(handleApiError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchVendors(page, search);
+  }, [page, search]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  const handleDeactivate = async (vendor: Vendor) => {
+    try {
+      await vendorsAPI.deleteVendor(vendor.id);
+      await fetchVendors(page, search);
+    } catch (err) {
+      setError(handleApiError(err));
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Vendors</h1>
+      </div>
+
+      <form onSubmit={handleSearch} className="flex space-x-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by name, contact, email or code"
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <button
+          type="submit"
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          Search
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : vendors.length === 0 ? (
+          <div className="text-center py-12">
+            <Truck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No vendors found</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Bills</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                {canDeactivate && <th className="px-6 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {vendors.map((vendor) => (
+                <tr key={vendor.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{vendor.vendor_code}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{vendor.company_name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div>{vendor.contact_name || '-'}</div>
+                    <div className="text-xs text-gray-400">{vendor.email}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{vendor.bill_count || 0}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatCurrency(vendor.outstanding_balance || 0)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      vendor.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {vendor.is_active ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  {canDeactivate && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      {vendor.is_active && (
+                        <button
+                          onClick={() => handleDeactivate(vendor)}
+                          className="text-red-600 hover:text-red-800"
+                          title="Deactivate vendor"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Page {pagination.page} of {pagination.totalPages} ({pagination.total} vendors)
+          </p>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Vendors;
\ No newline at end of file
@@ -47,6 +47,7 @@ export interface Customer {
   tax_id: string | null;
   credit_limit: number;
   payment_terms: number;
+  currency: string;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -54,6 +55,27 @@ export interface Customer {
   outstanding_balance?: number;
 }
 
+export interface Vendor {
+  id: string;
+  vendor_code: string;
+  company_name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string;
+  tax_id: string | null;
+  payment_terms: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  bill_count?: number;
+  outstanding_balance?: number;
+}
+
 export type InvoiceStatus = 'draft' | 'sent' | 'viewed' | 'partial' | 'paid' | 'overdue' | 'void';
 
 export interface Invoice {
@@ -66,10 +88,17 @@ export interface Invoice {
   tax_amount: number;
   total_amount: number;
   paid_amount: number;
+  credited_amount: number;
   balance_due: number;
+  // Amounts are in the customer's currency; exchange_rate converts them to the base currency
+  currency: string;
+  exchange_rate: number;
   status: InvoiceStatus;
   notes: string | null;
   terms: string | null;
+  recurring_invoice_id: string | null;
+  sent_at: string | null;
+  viewed_at: string | null;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -98,6 +127,8 @@ export interface CreateInvoiceRequest {
   customer_id: string;
   invoice_date: string;
   due_date: string;
+  // Defaults to the rate in force on invoice_date
+  exchange_rate?: number;
   notes?: string;
   terms?: string;
   line_items: {
@@ -109,6 +140,61 @@ export interface CreateInvoiceRequest {
   }[];
 }
 
+// Draft invoices only; line_items replaces every line, and lines keep their id to be updated in place
+export interface UpdateInvoiceRequest extends Partial<Omit<CreateInvoiceRequest, 'line_items'>> {
+  line_items?: (CreateInvoiceRequest['line_items'][number] & { id?: string })[];
+}
+
+export interface InvoiceReminder {
+  id: string;
+  invoice_id: string;
+  customer_id: string;
+  dunning_level_id: string;
+  level_name: string;
+  level_days: number;
+  days_overdue: number;
+  balance_due: number;
+  to_address: string | null;
+  email_outbox_id: string | null;
+  created_at: string;
+  // Additional fields from joins
+  invoice_number?: string;
+  due_date?: string;
+  invoice_status?: InvoiceStatus;
+  current_balance_due?: number;
+  email_status?: 'pending' | 'sent' | 'failed' | null;
+  email_sent_at?: string | null;
+  email_error?: string | null;
+}
+
+export interface StatementLine {
+  date: string;
+  type: 'invoice' | 'invoice_void' | 'payment' | 'credit_note';
+  id: string;
+  reference: string;
+  description: string;
+  amount: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  customer: Customer & { name: string };
+  from_date: string;
+  to_date: string;
+  opening_balance: number;
+  lines: StatementLine[];
+  total_invoiced: number;
+  total_paid: number;
+  total_credited: number;
+  closing_balance: number;
+  aging: {
+    as_of: string;
+    buckets: { key: string; label: string; amount: number }[];
+    unapplied_credits: number;
+    total: number;
+  };
+}
+
 export interface ChartOfAccounts {
   id: string;
   account_code: string;
@@ -120,6 +206,289 @@ export interface ChartOfAccounts {
   updated_at: string;
 }
 
+export interface ChartOfAccountsNode extends ChartOfAccounts {
+  children: ChartOfAccountsNode[];
+}
+
+export interface CreateAccountRequest {
+  account_code: string;
+  account_name: string;
+  account_type: ChartOfAccounts['account_type'];
+  parent_id?: string | null;
+}
+
+export interface BankAccount {
+  id: string;
+  account_name: string;
+  bank_name: string;
+  account_number: string;
+  routing_number: string | null;
+  account_type: 'checking' | 'savings' | 'credit_card' | null;
+  currency: string;
+  account_id: string | null;
+  csv_profile_id: string | null;
+  ledger_account_code: string | null;
+  ledger_account_name: string | null;
+  // In the base currency
+  balance: number;
+  // In the account's own currency
+  currency_balance: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateBankAccountRequest {
+  account_name: string;
+  bank_name: string;
+  account_number: string;
+  routing_number?: string | null;
+  account_type: NonNullable<BankAccount['account_type']>;
+  currency?: string;
+  account_id: string;
+  csv_profile_id?: string | null;
+}
+
+export interface BankTransfer {
+  id: string;
+  from_bank_account_id: string;
+  from_bank_account_name: string;
+  to_bank_account_id: string;
+  to_bank_account_name: string;
+  transfer_date: string;
+  amount: number;
+  from_currency: string;
+  to_amount: number;
+  to_currency: string;
+  exchange_rate: number;
+  base_amount: number;
+  fee_amount: number;
+  fee_account_id: string | null;
+  reference: string | null;
+  memo: string | null;
+  journal_entry_id: string | null;
+  entry_number: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface CreateBankTransferRequest {
+  from_bank_account_id: string;
+  to_bank_account_id: string;
+  transfer_date: string;
+  amount: number;
+  to_amount?: number;
+  base_amount?: number;
+  fee_amount?: number;
+  fee_account_id?: string;
+  reference?: string | null;
+  memo?: string | null;
+}
+
+export interface CashPosition {
+  as_of: string;
+  base_currency: string;
+  accounts: BankAccount[];
+  total: number;
+}
+
+// One unit of currency is worth rate units of the base currency from rate_date on
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate_date: string;
+  rate: number;
+  source: string;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateExchangeRateRequest {
+  currency: string;
+  rate_date: string;
+  rate: number;
+  source?: string;
+  notes?: string | null;
+}
+
+export interface ExchangeRateLookup {
+  currency: string;
+  exchange_rate: number;
+  base_currency: string;
+  date: string;
+  rate_date: string;
+}
+
+export interface BankRegisterEntry {
+  date: string;
+  type: 'receipt' | 'disbursement' | 'transfer';
+  journal_entry_id: string;
+  entry_number: string;
+  reference: string | null;
+  description: string;
+  source_type: string | null;
+  source_id: string | null;
+  counterparty: string | null;
+  amount: number;
+  balance: number;
+}
+
+export interface BankCsvProfile {
+  id: string;
+  name: string;
+  delimiter: ',' | ';' | '\t' | '|';
+  skip_rows: number;
+  date_column: string;
+  date_format: 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD.MM.YYYY' | 'YYYYMMDD';
+  decimal_separator: '.' | ',';
+  amount_column: string | null;
+  debit_column: string | null;
+  credit_column: string | null;
+  description_column: string;
+  payee_column: string | null;
+  reference_column: string | null;
+  id_column: string | null;
+  bank_account_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateBankCsvProfileRequest = Omit<BankCsvProfile, 'id' | 'bank_account_count' | 'created_at' | 'updated_at'>;
+
+export interface BankStatementImport {
+  id: string;
+  bank_account_id: string;
+  format: 'ofx' | 'camt053' | 'csv';
+  filename: string | null;
+  csv_profile_id: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  opening_balance: number | null;
+  closing_balance: number | null;
+  line_count: number;
+  duplicate_count: number;
+  imported_by: string;
+  imported_by_name?: string;
+  created_at: string;
+}
+
+export interface BankStatementLine {
+  id: string;
+  bank_account_id: string;
+  import_id: string;
+  transaction_date: string;
+  value_date: string | null;
+  amount: number;
+  description: string;
+  payee: string | null;
+  reference: string | null;
+  fitid: string | null;
+  dedupe_key: string;
+  match_id?: string | null;
+  created_at: string;
+}
+
+export interface BankRegister {
+  bank_account: BankAccount;
+  from_date: string;
+  to_date: string;
+  opening_balance: number;
+  entries: BankRegisterEntry[];
+  total_receipts: number;
+  total_disbursements: number;
+  closing_balance: number;
+}
+
+export interface BankReconciliation {
+  id: string;
+  bank_account_id: string;
+  bank_account_name?: string;
+  statement_date: string;
+  statement_balance: number;
+  status: 'in_progress' | 'completed';
+  book_balance: number | null;
+  created_by: string;
+  completed_by: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateBankReconciliationRequest {
+  bank_account_id: string;
+  statement_date: string;
+  statement_balance: number;
+}
+
+export interface ReconciliationLedgerItem {
+  id: string;
+  journal_entry_id: string;
+  entry_number: string;
+  date: string;
+  reference: string | null;
+  description: string;
+  source_type: string | null;
+  source_id: string | null;
+  reversal_of_id: string | null;
+  payment_number: string | null;
+  reference_number: string | null;
+  party_name: string | null;
+  amount: number;
+}
+
+export interface BankMatch {
+  id: string;
+  reconciliation_id: string;
+  bank_account_id: string;
+  method: 'manual' | 'auto' | 'created';
+  amount: number;
+  created_by: string;
+  created_at: string;
+  statement_lines?: BankStatementLine[];
+  journal_lines?: ReconciliationLedgerItem[];
+}
+
+export interface MatchSuggestion {
+  statement_line_ids: string[];
+  journal_line_ids: string[];
+  amount: number;
+  confidence: 'high' | 'medium';
+  reason: string;
+}
+
+export interface ReconciliationReport {
+  reconciliation_id: string;
+  bank_account_id: string;
+  bank_account_name: string;
+  statement_date: string;
+  status: 'in_progress' | 'completed';
+  statement_balance: number;
+  outstanding_deposits: ReconciliationLedgerItem[];
+  total_outstanding_deposits: number;
+  outstanding_payments: ReconciliationLedgerItem[];
+  total_outstanding_payments: number;
+  adjusted_statement_balance: number;
+  book_balance: number;
+  unrecorded_items: BankStatementLine[];
+  total_unrecorded: number;
+  adjusted_book_balance: number;
+  difference: number;
+  cleared: {
+    matches: number;
+    statement_lines: number;
+    journal_lines: number;
+  };
+  completed_by: string | null;
+  completed_at: string | null;
+}
+
+export interface BankReconciliationWorkspace extends BankReconciliation {
+  report: ReconciliationReport;
+  matches: BankMatch[];
+}
+
 export interface DashboardStats {
   totalCustomers: number;
   totalInvoices: number;
@@ -186,4 +555,20 @@ export interface CreateCustomerRequest {
   tax_id?: string | null;
   credit_limit?: number;
   payment_terms?: number;
+  currency?: string;
+}
+
+export interface CreateVendorRequest {
+  vendor_code: string;
+  company_name: string;
+  contact_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postal_code?: string | null;
+  country?: string;
+  tax_id?: string | null;
+  payment_terms?: number;
 }
\ No newline at end of file
@@ -6,14 +6,40 @@ import type {
   LoginResponse,
   User,
   Customer,
+  Vendor,
   Invoice,
+  InvoiceReminder,
+  CustomerStatement,
   CreateUserRequest,
   CreateCustomerRequest,
+  CreateVendorRequest,
   CreateInvoiceRequest,
+  UpdateInvoiceRequest,
   DashboardStats,
   AdminDashboardStats,
   AuditLogEntry,
-  ChartOfAccounts
+  ChartOfAccounts,
+  ChartOfAccountsNode,
+  CreateAccountRequest,
+  BankAccount,
+  BankRegister,
+  CreateBankAccountRequest,
+  BankCsvProfile,
+  CreateBankCsvProfileRequest,
+  BankStatementImport,
+  BankStatementLine,
+  BankTransfer,
+  CreateBankTransferRequest,
+  CashPosition,
+  BankReconciliation,
+  BankReconciliationWorkspace,
+  CreateBankReconciliationRequest,
+  BankMatch,
+  MatchSuggestion,
+  ReconciliationReport,
+  ExchangeRate,
+  CreateExchangeRateRequest,
+  ExchangeRateLookup
 } from '../types';
 
 const API_BASE_URL = '/api';
@@ -68,6 +94,14 @@ export const authAPI = {
     await api.post('/auth/change-password', { currentPassword, newPassword });
   },
 
+  requestPasswordReset: async (email: string): Promise<void> => {
+    await api.post('/auth/password-reset/request', { email });
+  },
+
+  confirmPasswordReset: async (token: string, newPassword: string): Promise<void> => {
+    await api.post('/auth/password-reset/confirm', { token, newPassword });
+  },
+
   logout: async (): Promise<void> => {
     await api.post('/auth/logout');
   }
@@ -159,6 +193,72 @@ export const customersAPI = {
   }): Promise<PaginatedResponse<Invoice>> => {
     const response: AxiosResponse<PaginatedResponse<Invoice>> = await api.get(`/customers/${id}/invoices`, { params });
     return response.data;
+  },
+
+  getCustomerReminders: async (id: string, params?: {
+    page?: number;
+    limit?: number;
+    invoice_id?: string;
+  }): Promise<PaginatedResponse<InvoiceReminder>> => {
+    const response: AxiosResponse<PaginatedResponse<InvoiceReminder>> = await api.get(`/customers/${id}/reminders`, { params });
+    return response.data;
+  },
+
+  getCustomerStatement: async (id: string, params?: { from?: string; to?: string }): Promise<CustomerStatement> => {
+    const response: AxiosResponse<ApiResponse<CustomerStatement>> = await api.get(`/customers/${id}/statement`, { params });
+    return response.data.data!;
+  },
+
+  getCustomerStatementPdf: async (id: string, params?: { from?: string; to?: string }): Promise<Blob> => {
+    const response: AxiosResponse<Blob> = await api.get(`/customers/${id}/statement/pdf`, { params, responseType: 'blob' });
+    return response.data;
+  },
+
+  emailCustomerStatement: async (id: string, params?: { from?: string; to?: string }, to?: string): Promise<{ id: string; to_address: string }> => {
+    const response: AxiosResponse<ApiResponse<{ id: string; to_address: string }>> =
+      await api.post(`/customers/${id}/statement/email`, to ? { to } : {}, { params });
+    return response.data.data!;
+  }
+};
+
+// Vendors API
+export const vendorsAPI = {
+  getVendors: async (params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    active?: boolean;
+  }): Promise<PaginatedResponse<Vendor>> => {
+    const response: AxiosResponse<PaginatedResponse<Vendor>> = await api.get('/vendors', { params });
+    return response.data;
+  },
+
+  getVendor: async (id: string): Promise<Vendor> => {
+    const response: AxiosResponse<ApiResponse<Vendor>> = await api.get(`/vendors/${id}`);
+    return response.data.data!;
+  },
+
+  createVendor: async (vendorData: CreateVendorRequest): Promise<Vendor> => {
+    const response: AxiosResponse<ApiResponse<Vendor>> = await api.post('/vendors', vendorData);
+    return response.data.data!;
+  },
+
+  updateVendor: async (id: string, vendorData: Partial<CreateVendorRequest> & { is_active?: boolean }): Promise<Vendor> => {
+    const response: AxiosResponse<ApiResponse<Vendor>> = await api.put(`/vendors/${id}`, vendorData);
+    return response.data.data!;
+  },
+
+  deleteVendor: async (id: string): Promise<void> => {
+    await api.delete(`/vendors/${id}`);
+  },
+
+  getVendorBills: async (id: string, params?: {
+    page?: number;
+    limit?: number;
+    status?: string;
+  }): Promise<PaginatedResponse<any>> => {
+    const response: AxiosResponse<PaginatedResponse<any>> = await api.get(`/vendors/${id}/bills`, { params });
+    return response.data;
   }
 };
 
@@ -185,11 +285,22 @@ export const invoicesAPI = {
     return response.data.data!;
   },
 
+  updateInvoice: async (id: string, invoiceData: UpdateInvoiceRequest): Promise<Invoice & { line_items: any[] }> => {
+    const response: AxiosResponse<ApiResponse<Invoice & { line_items: any[] }>> = await api.put(`/invoices/${id}`, invoiceData);
+    return response.data.data!;
+  },
+
   updateInvoiceStatus: async (id: string, status: string): Promise<Invoice> => {
     const response: AxiosResponse<ApiResponse<Invoice>> = await api.patch(`/invoices/${id}/status`, { status });
     return response.data.data!;
   },
 
+  emailInvoice: async (id: string, to?: string): Promise<{ invoice: Invoice | null; message: { id: string; to_address: string } }> => {
+    const response: AxiosResponse<ApiResponse<{ invoice: Invoice | null; message: { id: string; to_address: string } }>> =
+      await api.post(`/invoices/${id}/email`, to ? { to } : {});
+    return response.data.data!;
+  },
+
   deleteInvoice: async (id: string): Promise<void> => {
     await api.delete(`/invoices/${id}`);
   },
@@ -210,9 +321,238 @@ export const dashboardAPI = {
 
 // Chart of Accounts API
 export const accountsAPI = {
-  getAccounts: async (): Promise<ChartOfAccounts[]> => {
-    const response: AxiosResponse<ApiResponse<ChartOfAccounts[]>> = await api.get('/accounts');
+  getAccounts: async (params?: { include_inactive?: boolean }): Promise<ChartOfAccounts[]> => {
+    const response: AxiosResponse<ApiResponse<ChartOfAccounts[]>> = await api.get('/accounts', { params });
+    return response.data.data!;
+  },
+
+  getAccountTree: async (params?: { include_inactive?: boolean }): Promise<ChartOfAccountsNode[]> => {
+    const response: AxiosResponse<ApiResponse<ChartOfAccountsNode[]>> = await api.get('/accounts/tree', { params });
+    return response.data.data!;
+  },
+
+  createAccount: async (accountData: CreateAccountRequest): Promise<ChartOfAccounts> => {
+    const response: AxiosResponse<ApiResponse<ChartOfAccounts>> = await api.post('/accounts', accountData);
     return response.data.data!;
+  },
+
+  updateAccount: async (id: string, accountData: Partial<CreateAccountRequest> & { is_active?: boolean }): Promise<ChartOfAccounts> => {
+    const response: AxiosResponse<ApiResponse<ChartOfAccounts>> = await api.put(`/accounts/${id}`, accountData);
+    return response.data.data!;
+  },
+
+  deactivateAccount: async (id: string): Promise<void> => {
+    await api.delete(`/accounts/${id}`);
+  }
+};
+
+// Bank Accounts API
+export const bankAccountsAPI = {
+  getBankAccounts: async (params?: { include_inactive?: boolean }): Promise<BankAccount[]> => {
+    const response: AxiosResponse<ApiResponse<BankAccount[]>> = await api.get('/bank-accounts', { params });
+    return response.data.data!;
+  },
+
+  getBankAccount: async (id: string): Promise<BankAccount> => {
+    const response: AxiosResponse<ApiResponse<BankAccount>> = await api.get(`/bank-accounts/${id}`);
+    return response.data.data!;
+  },
+
+  getRegister: async (id: string, params?: { from?: string; to?: string }): Promise<BankRegister> => {
+    const response: AxiosResponse<ApiResponse<BankRegister>> = await api.get(`/bank-accounts/${id}/register`, { params });
+    return response.data.data!;
+  },
+
+  createBankAccount: async (bankAccountData: CreateBankAccountRequest): Promise<BankAccount> => {
+    const response: AxiosResponse<ApiResponse<BankAccount>> = await api.post('/bank-accounts', bankAccountData);
+    return response.data.data!;
+  },
+
+  updateBankAccount: async (id: string, bankAccountData: Partial<CreateBankAccountRequest>): Promise<BankAccount> => {
+    const response: AxiosResponse<ApiResponse<BankAccount>> = await api.put(`/bank-accounts/${id}`, bankAccountData);
+    return response.data.data!;
+  },
+
+  deactivateBankAccount: async (id: string): Promise<void> => {
+    await api.delete(`/bank-accounts/${id}`);
+  },
+
+  importStatement: async (id: string, file: File, options?: { format?: BankStatementImport['format']; csv_profile_id?: string }): Promise<BankStatementImport> => {
+    const form = new FormData();
+    form.append('file', file);
+    if (options?.format) form.append('format', options.format);
+    if (options?.csv_profile_id) form.append('csv_profile_id', options.csv_profile_id);
+
+    const response: AxiosResponse<ApiResponse<BankStatementImport>> = await api.post(`/bank-accounts/${id}/statements`, form);
+    return response.data.data!;
+  },
+
+  getStatementImports: async (id: string, params?: { page?: number; limit?: number }): Promise<PaginatedResponse<BankStatementImport>> => {
+    const response: AxiosResponse<PaginatedResponse<BankStatementImport>> = await api.get(`/bank-accounts/${id}/statements`, { params });
+    return response.data;
+  },
+
+  deleteStatementImport: async (id: string, importId: string): Promise<void> => {
+    await api.delete(`/bank-accounts/${id}/statements/${importId}`);
+  },
+
+  getStatementLines: async (id: string, params?: {
+    page?: number;
+    limit?: number;
+    from?: string;
+    to?: string;
+    import_id?: string;
+    status?: 'matched' | 'unmatched';
+  }): Promise<PaginatedResponse<BankStatementLine>> => {
+    const response: AxiosResponse<PaginatedResponse<BankStatementLine>> = await api.get(`/bank-accounts/${id}/statement-lines`, { params });
+    return response.data;
+  },
+
+  getCsvProfiles: async (): Promise<BankCsvProfile[]> => {
+    const response: AxiosResponse<ApiResponse<BankCsvProfile[]>> = await api.get('/bank-accounts/csv-profiles');
+    return response.data.data!;
+  },
+
+  createCsvProfile: async (profileData: CreateBankCsvProfileRequest): Promise<BankCsvProfile> => {
+    const response: AxiosResponse<ApiResponse<BankCsvProfile>> = await api.post('/bank-accounts/csv-profiles', profileData);
+    return response.data.data!;
+  },
+
+  updateCsvProfile: async (profileId: string, profileData: Partial<CreateBankCsvProfileRequest>): Promise<BankCsvProfile> => {
+    const response: AxiosResponse<ApiResponse<BankCsvProfile>> = await api.put(`/bank-accounts/csv-profiles/${profileId}`, profileData);
+    return response.data.data!;
+  },
+
+  deleteCsvProfile: async (profileId: string): Promise<void> => {
+    await api.delete(`/bank-accounts/csv-profiles/${profileId}`);
+  },
+
+  getTransfers: async (params?: {
+    page?: number;
+    limit?: number;
+    bank_account_id?: string;
+    from?: string;
+    to?: string;
+  }): Promise<PaginatedResponse<BankTransfer>> => {
+    const response: AxiosResponse<PaginatedResponse<BankTransfer>> = await api.get('/bank-accounts/transfers', { params });
+    return response.data;
+  },
+
+  getTransfer: async (transferId: string): Promise<BankTransfer> => {
+    const response: AxiosResponse<ApiResponse<BankTransfer>> = await api.get(`/bank-accounts/transfers/${transferId}`);
+    return response.data.data!;
+  },
+
+  createTransfer: async (transferData: CreateBankTransferRequest): Promise<BankTransfer> => {
+    const response: AxiosResponse<ApiResponse<BankTransfer>> = await api.post('/bank-accounts/transfers', transferData);
+    return response.data.data!;
+  },
+
+  deleteTransfer: async (transferId: string): Promise<void> => {
+    await api.delete(`/bank-accounts/transfers/${transferId}`);
+  },
+
+  getCashPosition: async (params?: { as_of?: string }): Promise<CashPosition> => {
+    const response: AxiosResponse<ApiResponse<CashPosition>> = await api.get('/reports/cash-position', { params });
+    return response.data.data!;
+  }
+};
+
+export const bankReconciliationsAPI = {
+  getReconciliations: async (params?: {
+    page?: number;
+    limit?: number;
+    bank_account_id?: string;
+    status?: 'in_progress' | 'completed';
+  }): Promise<PaginatedResponse<BankReconciliation>> => {
+    const response: AxiosResponse<PaginatedResponse<BankReconciliation>> = await api.get('/bank-reconciliations', { params });
+    return response.data;
+  },
+
+  getReconciliation: async (id: string): Promise<BankReconciliationWorkspace> => {
+    const response: AxiosResponse<ApiResponse<BankReconciliationWorkspace>> = await api.get(`/bank-reconciliations/${id}`);
+    return response.data.data!;
+  },
+
+  createReconciliation: async (reconciliationData: CreateBankReconciliationRequest): Promise<BankReconciliation> => {
+    const response: AxiosResponse<ApiResponse<BankReconciliation>> = await api.post('/bank-reconciliations', reconciliationData);
+    return response.data.data!;
+  },
+
+  updateReconciliation: async (id: string, reconciliationData: Partial<Omit<CreateBankReconciliationRequest, 'bank_account_id'>>): Promise<BankReconciliation> => {
+    const response: AxiosResponse<ApiResponse<BankReconciliation>> = await api.put(`/bank-reconciliations/${id}`, reconciliationData);
+    return response.data.data!;
+  },
+
+  deleteReconciliation: async (id: string): Promise<void> => {
+    await api.delete(`/bank-reconciliations/${id}`);
+  },
+
+  getReport: async (id: string): Promise<ReconciliationReport> => {
+    const response: AxiosResponse<ApiResponse<ReconciliationReport>> = await api.get(`/bank-reconciliations/${id}/report`);
+    return response.data.data!;
+  },
+
+  getSuggestions: async (id: string, params?: { window_days?: number }): Promise<MatchSuggestion[]> => {
+    const response: AxiosResponse<ApiResponse<MatchSuggestion[]>> = await api.get(`/bank-reconciliations/${id}/suggestions`, { params });
+    return response.data.data!;
+  },
+
+  autoMatch: async (id: string, params?: { window_days?: number }): Promise<BankMatch[]> => {
+    const response: AxiosResponse<ApiResponse<BankMatch[]>> = await api.post(`/bank-reconciliations/${id}/auto-match`, undefined, { params });
+    return response.data.data!;
+  },
+
+  createMatch: async (id: string, matchData: { statement_line_ids?: string[]; journal_line_ids?: string[] }): Promise<BankMatch> => {
+    const response: AxiosResponse<ApiResponse<BankMatch>> = await api.post(`/bank-reconciliations/${id}/matches`, matchData);
+    return response.data.data!;
+  },
+
+  deleteMatch: async (id: string, matchId: string): Promise<void> => {
+    await api.delete(`/bank-reconciliations/${id}/matches/${matchId}`);
+  },
+
+  bookStatementLine: async (id: string, lineId: string, entryData: { account_id: string; description?: string }): Promise<{ journal_entry: { id: string; entry_number: string }; match: BankMatch }> => {
+    const response: AxiosResponse<ApiResponse<{ journal_entry: { id: string; entry_number: string }; match: BankMatch }>> = await api.post(`/bank-reconciliations/${id}/statement-lines/${lineId}/entry`, entryData);
+    return response.data.data!;
+  },
+
+  completeReconciliation: async (id: string): Promise<ReconciliationReport> => {
+    const response: AxiosResponse<ApiResponse<ReconciliationReport>> = await api.post(`/bank-reconciliations/${id}/complete`);
+    return response.data.data!;
+  }
+};
+
+// Exchange Rates API
+export const exchangeRatesAPI = {
+  getRates: async (params?: {
+    page?: number;
+    limit?: number;
+    currency?: string;
+    from_date?: string;
+    to_date?: string;
+  }): Promise<PaginatedResponse<ExchangeRate>> => {
+    const response: AxiosResponse<PaginatedResponse<ExchangeRate>> = await api.get('/exchange-rates', { params });
+    return response.data;
+  },
+
+  lookupRate: async (currency: string, date?: string): Promise<ExchangeRateLookup> => {
+    const response: AxiosResponse<ApiResponse<ExchangeRateLookup>> = await api.get('/exchange-rates/lookup', { params: { currency, date } });
+    return response.data.data!;
+  },
+
+  createRate: async (rateData: CreateExchangeRateRequest): Promise<ExchangeRate> => {
+    const response: AxiosResponse<ApiResponse<ExchangeRate>> = await api.post('/exchange-rates', rateData);
+    return response.data.data!;
+  },
+
+  updateRate: async (id: string, rateData: Partial<Pick<CreateExchangeRateRequest, 'rate' | 'source' | 'notes'>>): Promise<ExchangeRate> => {
+    const response: AxiosResponse<ApiResponse<ExchangeRate>> = await api.put(`/exchange-rates/${id}`, rateData);
+    return response.data.data!;
+  },
+
+  deleteRate: async (id: string): Promise<void> => {
+    await api.delete(`/exchange-rates/${id}`);
   }
 };
 
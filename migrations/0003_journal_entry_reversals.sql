@@ -0,0 +1,7 @@
+-- Link reversing journal entries back to the entry they reverse
+ALTER TABLE journal_entries ADD COLUMN reversal_of_id TEXT REFERENCES journal_entries(id);
+
+CREATE INDEX idx_journal_entries_status ON journal_entries(status);
+CREATE INDEX idx_journal_entries_reversal_of_id ON journal_entries(reversal_of_id);
+CREATE INDEX idx_journal_entry_lines_entry_id ON journal_entry_lines(journal_entry_id);
+CREATE INDEX idx_journal_entry_lines_account_id ON journal_entry_lines(account_id);
@@ -0,0 +1,5 @@
+-- Link system-generated journal entries back to the document that produced them
+ALTER TABLE journal_entries ADD COLUMN source_type TEXT;
+ALTER TABLE journal_entries ADD COLUMN source_id TEXT;
+
+CREATE INDEX idx_journal_entries_source ON journal_entries(source_type, source_id);
@@ -0,0 +1,17 @@
+-- Accounting periods; postings dated inside a soft-closed or closed period are restricted
+CREATE TABLE fiscal_periods (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'soft_closed', 'closed')),
+    closed_by TEXT,
+    closed_at DATETIME,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (closed_by) REFERENCES users(id),
+    CHECK (start_date <= end_date)
+);
+
+CREATE UNIQUE INDEX idx_fiscal_periods_start_date ON fiscal_periods(start_date);
+CREATE INDEX idx_fiscal_periods_end_date ON fiscal_periods(end_date);
\ No newline at end of file
@@ -0,0 +1,44 @@
+-- Numbering configuration per document type
+CREATE TABLE document_sequences (
+    document_type TEXT PRIMARY KEY CHECK (document_type IN ('invoice', 'bill', 'payment', 'journal_entry', 'credit_note')),
+    prefix TEXT NOT NULL,
+    padding INTEGER NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 12),
+    reset_yearly BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Next number to hand out per document type and fiscal year (0 when the sequence never resets).
+-- next_value is NOT NULL so a stale compare-and-set fails its batch instead of skipping a number.
+CREATE TABLE document_sequence_counters (
+    document_type TEXT NOT NULL,
+    fiscal_year INTEGER NOT NULL,
+    next_value INTEGER NOT NULL CHECK (next_value >= 1),
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (document_type, fiscal_year),
+    FOREIGN KEY (document_type) REFERENCES document_sequences(document_type)
+);
+
+INSERT INTO document_sequences (document_type, prefix, padding, reset_yearly) VALUES
+('invoice', 'INV', 4, FALSE),
+('bill', 'BILL', 4, FALSE),
+('payment', 'PMT', 4, FALSE),
+('journal_entry', 'JE', 4, FALSE),
+('credit_note', 'CN', 4, FALSE);
+
+-- Continue from the numbers already issued
+INSERT INTO document_sequence_counters (document_type, fiscal_year, next_value)
+SELECT 'invoice', 0, COALESCE(MAX(CAST(SUBSTR(invoice_number, 5) AS INTEGER)), 0) + 1
+FROM invoices WHERE invoice_number LIKE 'INV-%';
+
+INSERT INTO document_sequence_counters (document_type, fiscal_year, next_value)
+SELECT 'bill', 0, COALESCE(MAX(CAST(SUBSTR(bill_number, 6) AS INTEGER)), 0) + 1
+FROM bills WHERE bill_number LIKE 'BILL-%';
+
+INSERT INTO document_sequence_counters (document_type, fiscal_year, next_value)
+SELECT 'payment', 0, COALESCE(MAX(CAST(SUBSTR(payment_number, 5) AS INTEGER)), 0) + 1
+FROM payments WHERE payment_number LIKE 'PMT-%';
+
+INSERT INTO document_sequence_counters (document_type, fiscal_year, next_value)
+SELECT 'journal_entry', 0, COALESCE(MAX(CAST(SUBSTR(entry_number, 4) AS INTEGER)), 0) + 1
+FROM journal_entries WHERE entry_number LIKE 'JE-%';
\ No newline at end of file
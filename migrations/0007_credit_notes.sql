@@ -0,0 +1,58 @@
+-- Amount of an invoice settled by credit notes rather than payments
+ALTER TABLE invoices ADD COLUMN credited_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+-- Credit notes against issued invoices
+CREATE TABLE credit_notes (
+    id TEXT PRIMARY KEY,
+    credit_note_number TEXT UNIQUE NOT NULL,
+    invoice_id TEXT NOT NULL,
+    customer_id TEXT NOT NULL,
+    credit_date DATE NOT NULL,
+    reason TEXT NOT NULL,
+    subtotal DECIMAL(15,2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    applied_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    unapplied_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'applied', 'void')),
+    created_by TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (invoice_id) REFERENCES invoices(id),
+    FOREIGN KEY (customer_id) REFERENCES customers(id),
+    FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+-- Credited portion of each original invoice line
+CREATE TABLE credit_note_line_items (
+    id TEXT PRIMARY KEY,
+    credit_note_id TEXT NOT NULL,
+    invoice_line_item_id TEXT NOT NULL,
+    item_description TEXT NOT NULL,
+    quantity DECIMAL(10,2) NOT NULL,
+    unit_price DECIMAL(15,2) NOT NULL,
+    line_total DECIMAL(15,2) NOT NULL,
+    tax_rate DECIMAL(5,4) DEFAULT 0,
+    account_id TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (credit_note_id) REFERENCES credit_notes(id) ON DELETE CASCADE,
+    FOREIGN KEY (invoice_line_item_id) REFERENCES invoice_line_items(id),
+    FOREIGN KEY (account_id) REFERENCES chart_of_accounts(id)
+);
+
+-- Credit note amounts applied against invoices of the same customer
+CREATE TABLE credit_note_applications (
+    id TEXT PRIMARY KEY,
+    credit_note_id TEXT NOT NULL,
+    invoice_id TEXT NOT NULL,
+    applied_amount DECIMAL(15,2) NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (credit_note_id) REFERENCES credit_notes(id),
+    FOREIGN KEY (invoice_id) REFERENCES invoices(id)
+);
+
+CREATE INDEX idx_credit_notes_invoice ON credit_notes(invoice_id);
+CREATE INDEX idx_credit_notes_customer ON credit_notes(customer_id);
+CREATE INDEX idx_credit_note_line_items_invoice_line ON credit_note_line_items(invoice_line_item_id);
+CREATE INDEX idx_credit_note_applications_credit_note ON credit_note_applications(credit_note_id);
+CREATE INDEX idx_credit_note_applications_invoice ON credit_note_applications(invoice_id);
\ No newline at end of file
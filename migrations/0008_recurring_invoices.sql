@@ -0,0 +1,34 @@
+-- Templates that generate an invoice for a customer on a fixed schedule
+CREATE TABLE recurring_invoices (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    customer_id TEXT NOT NULL,
+    frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    -- Run dates are start_date plus run_count periods, so monthly runs do not drift after short months
+    next_run_date DATE,
+    run_count INTEGER NOT NULL DEFAULT 0,
+    payment_terms_days INTEGER NOT NULL DEFAULT 30,
+    auto_send BOOLEAN NOT NULL DEFAULT FALSE,
+    line_items TEXT NOT NULL, -- JSON array in the CreateInvoiceSchema line item form
+    notes TEXT,
+    terms TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_run_at DATETIME,
+    last_error TEXT,
+    created_by TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (customer_id) REFERENCES customers(id),
+    FOREIGN KEY (created_by) REFERENCES users(id),
+    CHECK (end_date IS NULL OR start_date <= end_date)
+);
+
+CREATE INDEX idx_recurring_invoices_next_run ON recurring_invoices(is_active, next_run_date);
+CREATE INDEX idx_recurring_invoices_customer ON recurring_invoices(customer_id);
+
+-- Invoices generated from a template point back at it
+ALTER TABLE invoices ADD COLUMN recurring_invoice_id TEXT REFERENCES recurring_invoices(id);
+
+CREATE INDEX idx_invoices_recurring ON invoices(recurring_invoice_id);
\ No newline at end of file
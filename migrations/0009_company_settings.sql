@@ -0,0 +1,23 @@
+-- Company details and document template settings; a single row with id 'default'
+CREATE TABLE company_settings (
+    id TEXT PRIMARY KEY CHECK (id = 'default'),
+    company_name TEXT NOT NULL,
+    address TEXT,
+    city TEXT,
+    state TEXT,
+    postal_code TEXT,
+    country TEXT,
+    email TEXT,
+    phone TEXT,
+    website TEXT,
+    tax_id TEXT,
+    logo_data TEXT, -- base64 encoded JPEG
+    accent_color TEXT NOT NULL DEFAULT '#1F4E79',
+    paper_size TEXT NOT NULL DEFAULT 'A4' CHECK (paper_size IN ('A4', 'Letter')),
+    default_terms TEXT,
+    footer_text TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO company_settings (id, company_name) VALUES ('default', 'Your Company');
\ No newline at end of file
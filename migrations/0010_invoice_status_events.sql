@@ -0,0 +1,8 @@
+-- Invoice status is driven by events: sending, the customer viewing it, settlements and the due date.
+-- The event times are kept so a status can be recomputed, e.g. when a payment is unapplied.
+ALTER TABLE invoices ADD COLUMN sent_at DATETIME;
+ALTER TABLE invoices ADD COLUMN viewed_at DATETIME;
+
+-- Invoices issued before event times were recorded; their last update is the best estimate
+UPDATE invoices SET sent_at = updated_at WHERE status != 'draft';
+UPDATE invoices SET viewed_at = updated_at WHERE status = 'viewed';
\ No newline at end of file
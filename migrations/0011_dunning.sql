@@ -0,0 +1,80 @@
+-- Outgoing email is queued here and delivered by whatever drains the outbox
+CREATE TABLE email_outbox (
+    id TEXT PRIMARY KEY,
+    to_address TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    source_type TEXT, -- e.g. 'invoice_reminder'
+    source_id TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    sent_at DATETIME
+);
+
+CREATE INDEX idx_email_outbox_status ON email_outbox(status, created_at);
+CREATE INDEX idx_email_outbox_source ON email_outbox(source_type, source_id);
+
+-- Dunning ladder: a reminder is due once an unpaid invoice is days_overdue days past its due date.
+-- Subject and body may use {{customer_name}}, {{invoice_number}}, {{invoice_date}}, {{due_date}},
+-- {{days_overdue}}, {{total_amount}}, {{balance_due}} and {{company_name}}.
+CREATE TABLE dunning_levels (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    days_overdue INTEGER NOT NULL CHECK (days_overdue > 0),
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per reminder sent for an invoice; level details are copied so later edits to the
+-- ladder do not rewrite history
+CREATE TABLE invoice_reminders (
+    id TEXT PRIMARY KEY,
+    invoice_id TEXT NOT NULL,
+    customer_id TEXT NOT NULL,
+    dunning_level_id TEXT NOT NULL,
+    level_name TEXT NOT NULL,
+    level_days INTEGER NOT NULL,
+    days_overdue INTEGER NOT NULL,
+    balance_due DECIMAL(15,2) NOT NULL,
+    to_address TEXT, -- NULL when the customer has no email address and nothing was queued
+    email_outbox_id TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (invoice_id) REFERENCES invoices(id),
+    FOREIGN KEY (customer_id) REFERENCES customers(id),
+    FOREIGN KEY (dunning_level_id) REFERENCES dunning_levels(id),
+    FOREIGN KEY (email_outbox_id) REFERENCES email_outbox(id),
+    UNIQUE (invoice_id, dunning_level_id)
+);
+
+CREATE INDEX idx_invoice_reminders_customer ON invoice_reminders(customer_id, created_at);
+
+INSERT INTO dunning_levels (id, name, days_overdue, subject, body) VALUES
+    ('dun_default_7', 'First reminder', 7,
+     'Reminder: invoice {{invoice_number}} is past due',
+     'Dear {{customer_name}},
+
+Our records show that invoice {{invoice_number}} of {{invoice_date}}, due on {{due_date}}, still has a balance of {{balance_due}}. If you have already paid, please disregard this message.
+
+Kind regards,
+{{company_name}}'),
+    ('dun_default_14', 'Second reminder', 14,
+     'Second reminder: invoice {{invoice_number}} is {{days_overdue}} days overdue',
+     'Dear {{customer_name}},
+
+Invoice {{invoice_number}}, due on {{due_date}}, is now {{days_overdue}} days overdue with {{balance_due}} outstanding. Please arrange payment at your earliest convenience.
+
+Kind regards,
+{{company_name}}'),
+    ('dun_default_30', 'Final notice', 30,
+     'Final notice: invoice {{invoice_number}}',
+     'Dear {{customer_name}},
+
+Invoice {{invoice_number}} is {{days_overdue}} days overdue with {{balance_due}} outstanding. Please pay the balance or contact us within 7 days.
+
+Kind regards,
+{{company_name}}');
\ No newline at end of file
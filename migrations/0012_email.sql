@@ -0,0 +1,53 @@
+-- Email templates, one per kind of document. Subject and body use Handlebars-style syntax:
+-- {{field}}, {{nested.field}}, {{#if field}}...{{else}}...{{/if}} and {{#each list}}...{{/each}}.
+CREATE TABLE email_templates (
+    template_key TEXT PRIMARY KEY CHECK (template_key IN ('invoice', 'customer_statement', 'password_reset')),
+    description TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Delivery tracking for the outbox. Failed deliveries are retried with backoff from
+-- next_attempt_at; a bounce reported after delivery marks the message failed with a note.
+ALTER TABLE email_outbox ADD COLUMN template_key TEXT;
+ALTER TABLE email_outbox ADD COLUMN attachments TEXT; -- JSON array of document references, rendered at delivery
+ALTER TABLE email_outbox ADD COLUMN transport TEXT;
+ALTER TABLE email_outbox ADD COLUMN provider_message_id TEXT;
+ALTER TABLE email_outbox ADD COLUMN next_attempt_at DATETIME;
+ALTER TABLE email_outbox ADD COLUMN bounced_at DATETIME;
+ALTER TABLE email_outbox ADD COLUMN bounce_reason TEXT;
+
+UPDATE email_outbox SET template_key = 'invoice_reminder' WHERE source_type = 'invoice_reminder';
+
+INSERT INTO email_templates (template_key, description, subject, body) VALUES
+    ('invoice', 'Invoice sent to a customer; the invoice PDF is attached',
+     'Invoice {{invoice.invoice_number}} from {{company.company_name}}',
+     'Dear {{customer.name}},
+
+Please find attached invoice {{invoice.invoice_number}} of {{invoice.invoice_date}} for {{invoice.total_amount}}, due on {{invoice.due_date}}.
+{{#if invoice.terms}}
+Terms: {{invoice.terms}}
+{{/if}}
+Kind regards,
+{{company.company_name}}'),
+    ('customer_statement', 'Account statement sent to a customer',
+     'Account statement from {{company.company_name}}',
+     'Dear {{customer.name}},
+
+Here is your account statement for {{statement.from_date}} to {{statement.to_date}}.
+
+Opening balance: {{statement.opening_balance}}
+{{#each statement.lines}}{{date}}  {{description}}  {{amount}}
+{{/each}}Closing balance: {{statement.closing_balance}}
+
+Kind regards,
+{{company.company_name}}'),
+    ('password_reset', 'Password reset link for a user',
+     'Reset your password',
+     'Hello {{user.first_name}},
+
+Use this link to choose a new password: {{reset_url}}
+
+The link expires in {{expires_in_minutes}} minutes. If you did not ask for a reset, you can ignore this email.');
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- Each bank account is backed by an asset account in the chart of accounts. Its balance is
+-- the posted balance of that account, so the stored current_balance goes away.
+ALTER TABLE bank_accounts ADD COLUMN account_id TEXT REFERENCES chart_of_accounts(id);
+
+-- Payments have been posting to Cash until now, so the oldest bank account takes it over.
+-- Any other bank account has to be linked to its own ledger account before it takes payments.
+UPDATE bank_accounts
+SET account_id = (SELECT id FROM chart_of_accounts WHERE account_code = '1110')
+WHERE id = (SELECT id FROM bank_accounts ORDER BY created_at ASC, id ASC LIMIT 1);
+
+ALTER TABLE bank_accounts DROP COLUMN current_balance;
+
+CREATE UNIQUE INDEX idx_bank_accounts_account ON bank_accounts(account_id);
\ No newline at end of file
@@ -0,0 +1,68 @@
+-- Column mappings for banks that only export CSV. Columns are referred to by their header
+-- text; skip_rows lines of preamble come before the header row. The amount is either one
+-- signed column or a pair of debit (money out) and credit (money in) columns.
+CREATE TABLE bank_csv_profiles (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    delimiter TEXT NOT NULL DEFAULT ',',
+    skip_rows INTEGER NOT NULL DEFAULT 0,
+    date_column TEXT NOT NULL,
+    date_format TEXT NOT NULL DEFAULT 'YYYY-MM-DD' CHECK (date_format IN ('YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'YYYYMMDD')),
+    decimal_separator TEXT NOT NULL DEFAULT '.' CHECK (decimal_separator IN ('.', ',')),
+    amount_column TEXT,
+    debit_column TEXT,
+    credit_column TEXT,
+    description_column TEXT NOT NULL,
+    payee_column TEXT,
+    reference_column TEXT,
+    id_column TEXT, -- the bank's own transaction id, when the export has one
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE bank_accounts ADD COLUMN csv_profile_id TEXT REFERENCES bank_csv_profiles(id);
+
+-- One row per uploaded statement file
+CREATE TABLE bank_statement_imports (
+    id TEXT PRIMARY KEY,
+    bank_account_id TEXT NOT NULL,
+    format TEXT NOT NULL CHECK (format IN ('ofx', 'camt053', 'csv')),
+    filename TEXT,
+    csv_profile_id TEXT,
+    start_date DATE,
+    end_date DATE,
+    opening_balance DECIMAL(15,2),
+    closing_balance DECIMAL(15,2),
+    line_count INTEGER NOT NULL DEFAULT 0,
+    duplicate_count INTEGER NOT NULL DEFAULT 0,
+    imported_by TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (bank_account_id) REFERENCES bank_accounts(id),
+    FOREIGN KEY (csv_profile_id) REFERENCES bank_csv_profiles(id),
+    FOREIGN KEY (imported_by) REFERENCES users(id)
+);
+
+-- Staged bank movements, kept for reconciliation. dedupe_key is 'fitid:<id>' when the bank
+-- gives each transaction an id and 'hash:<sha-256>' of date, amount and reference otherwise;
+-- it is unique per bank account, so a line is never imported twice.
+CREATE TABLE bank_statement_lines (
+    id TEXT PRIMARY KEY,
+    bank_account_id TEXT NOT NULL,
+    import_id TEXT NOT NULL,
+    transaction_date DATE NOT NULL,
+    value_date DATE,
+    amount DECIMAL(15,2) NOT NULL, -- money in is positive, money out negative
+    description TEXT NOT NULL,
+    payee TEXT,
+    reference TEXT,
+    fitid TEXT,
+    dedupe_key TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (bank_account_id) REFERENCES bank_accounts(id),
+    FOREIGN KEY (import_id) REFERENCES bank_statement_imports(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_bank_statement_imports_account ON bank_statement_imports(bank_account_id, created_at);
+CREATE UNIQUE INDEX idx_bank_statement_lines_dedupe ON bank_statement_lines(bank_account_id, dedupe_key);
+CREATE INDEX idx_bank_statement_lines_date ON bank_statement_lines(bank_account_id, transaction_date);
+CREATE INDEX idx_bank_statement_lines_import ON bank_statement_lines(import_id);
\ No newline at end of file
@@ -0,0 +1,55 @@
+-- A reconciliation agrees a bank statement balance with the books as of the statement date.
+-- Only one can be in progress per bank account; completing it freezes its report.
+CREATE TABLE bank_reconciliations (
+    id TEXT PRIMARY KEY,
+    bank_account_id TEXT NOT NULL,
+    statement_date DATE NOT NULL,
+    statement_balance DECIMAL(15,2) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+    book_balance DECIMAL(15,2), -- set on completion
+    report TEXT, -- JSON snapshot of the reconciliation report, set on completion
+    created_by TEXT NOT NULL,
+    completed_by TEXT,
+    completed_at DATETIME,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (bank_account_id) REFERENCES bank_accounts(id),
+    FOREIGN KEY (created_by) REFERENCES users(id),
+    FOREIGN KEY (completed_by) REFERENCES users(id)
+);
+
+CREATE UNIQUE INDEX idx_bank_reconciliations_in_progress ON bank_reconciliations(bank_account_id) WHERE status = 'in_progress';
+CREATE INDEX idx_bank_reconciliations_account ON bank_reconciliations(bank_account_id, statement_date);
+
+-- A match clears statement lines against journal lines on the bank's ledger account that add up
+-- to the same amount: one to one, one to many or many to one. Each line can be in one match only.
+CREATE TABLE bank_matches (
+    id TEXT PRIMARY KEY,
+    reconciliation_id TEXT NOT NULL,
+    bank_account_id TEXT NOT NULL,
+    method TEXT NOT NULL CHECK (method IN ('manual', 'auto', 'created')),
+    amount DECIMAL(15,2) NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (reconciliation_id) REFERENCES bank_reconciliations(id),
+    FOREIGN KEY (bank_account_id) REFERENCES bank_accounts(id),
+    FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+CREATE TABLE bank_match_statement_lines (
+    statement_line_id TEXT PRIMARY KEY,
+    match_id TEXT NOT NULL,
+    FOREIGN KEY (statement_line_id) REFERENCES bank_statement_lines(id),
+    FOREIGN KEY (match_id) REFERENCES bank_matches(id)
+);
+
+CREATE TABLE bank_match_journal_lines (
+    journal_entry_line_id TEXT PRIMARY KEY,
+    match_id TEXT NOT NULL,
+    FOREIGN KEY (journal_entry_line_id) REFERENCES journal_entry_lines(id),
+    FOREIGN KEY (match_id) REFERENCES bank_matches(id)
+);
+
+CREATE INDEX idx_bank_matches_reconciliation ON bank_matches(reconciliation_id);
+CREATE INDEX idx_bank_match_statement_lines_match ON bank_match_statement_lines(match_id);
+CREATE INDEX idx_bank_match_journal_lines_match ON bank_match_journal_lines(match_id);
\ No newline at end of file
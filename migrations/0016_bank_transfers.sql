@@ -0,0 +1,42 @@
+-- The ledger is kept in the company's base currency; a bank account may hold another currency,
+-- in which case its ledger account carries the base-currency value of its balance.
+ALTER TABLE company_settings ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE bank_accounts ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+
+UPDATE bank_accounts SET currency = (SELECT base_currency FROM company_settings WHERE id = 'default');
+
+-- Default expense account for fees charged on transfers
+INSERT INTO chart_of_accounts (id, account_code, account_name, account_type, parent_id, is_active)
+SELECT 'acc_' || lower(hex(randomblob(16))), '5270', 'Bank Charges', 'expense', NULL, TRUE
+WHERE NOT EXISTS (SELECT 1 FROM chart_of_accounts WHERE account_code = '5270');
+
+-- Money moved between two of the company's bank accounts. amount leaves the source account in
+-- its currency, to_amount arrives in the destination's currency, and base_amount is what the
+-- transfer is worth in the base currency. A fee charged by the source bank is taken from the
+-- source account on top of amount.
+CREATE TABLE bank_transfers (
+    id TEXT PRIMARY KEY,
+    from_bank_account_id TEXT NOT NULL,
+    to_bank_account_id TEXT NOT NULL,
+    transfer_date DATE NOT NULL,
+    amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+    from_currency TEXT NOT NULL,
+    to_amount DECIMAL(15,2) NOT NULL CHECK (to_amount > 0),
+    to_currency TEXT NOT NULL,
+    exchange_rate DECIMAL(18,8) NOT NULL, -- to_amount per unit of amount
+    base_amount DECIMAL(15,2) NOT NULL,
+    fee_amount DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (fee_amount >= 0),
+    fee_account_id TEXT,
+    reference TEXT,
+    memo TEXT,
+    created_by TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (from_bank_account_id) REFERENCES bank_accounts(id),
+    FOREIGN KEY (to_bank_account_id) REFERENCES bank_accounts(id),
+    FOREIGN KEY (fee_account_id) REFERENCES chart_of_accounts(id),
+    FOREIGN KEY (created_by) REFERENCES users(id),
+    CHECK (from_bank_account_id != to_bank_account_id)
+);
+
+CREATE INDEX idx_bank_transfers_from ON bank_transfers(from_bank_account_id, transfer_date);
+CREATE INDEX idx_bank_transfers_to ON bank_transfers(to_bank_account_id, transfer_date);
\ No newline at end of file
@@ -0,0 +1,52 @@
+-- Exchange rates into the base currency: one unit of `currency` is worth `rate` units of the
+-- base currency from rate_date until the next rate. Documents capture the rate in force on
+-- their date, so editing a rate later does not change anything already recorded.
+CREATE TABLE exchange_rates (
+    id TEXT PRIMARY KEY,
+    currency TEXT NOT NULL,
+    rate_date DATE NOT NULL,
+    rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+    source TEXT NOT NULL DEFAULT 'manual',
+    notes TEXT,
+    created_by TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (currency, rate_date),
+    FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+-- Customers are invoiced in one currency; invoices, credit notes, bills and payments carry the
+-- currency they are in and the rate captured on their date. Their amounts stay in that currency.
+ALTER TABLE customers ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE invoices ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE invoices ADD COLUMN exchange_rate DECIMAL(18,8) NOT NULL DEFAULT 1;
+ALTER TABLE credit_notes ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE credit_notes ADD COLUMN exchange_rate DECIMAL(18,8) NOT NULL DEFAULT 1;
+ALTER TABLE bills ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE bills ADD COLUMN exchange_rate DECIMAL(18,8) NOT NULL DEFAULT 1;
+ALTER TABLE payments ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE payments ADD COLUMN exchange_rate DECIMAL(18,8) NOT NULL DEFAULT 1;
+
+UPDATE customers SET currency = (SELECT base_currency FROM company_settings WHERE id = 'default');
+UPDATE invoices SET currency = (SELECT base_currency FROM company_settings WHERE id = 'default');
+UPDATE credit_notes SET currency = (SELECT base_currency FROM company_settings WHERE id = 'default');
+UPDATE bills SET currency = (SELECT base_currency FROM company_settings WHERE id = 'default');
+UPDATE payments SET currency = (SELECT base_currency FROM company_settings WHERE id = 'default');
+
+-- debit_amount and credit_amount stay in the base currency, so every report reads them as
+-- before. Each line also keeps the amount in the currency of the transaction it came from.
+ALTER TABLE journal_entry_lines ADD COLUMN currency TEXT;
+ALTER TABLE journal_entry_lines ADD COLUMN exchange_rate DECIMAL(18,8) NOT NULL DEFAULT 1;
+ALTER TABLE journal_entry_lines ADD COLUMN transaction_debit_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE journal_entry_lines ADD COLUMN transaction_credit_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+UPDATE journal_entry_lines SET
+    currency = (SELECT base_currency FROM company_settings WHERE id = 'default'),
+    transaction_debit_amount = COALESCE(debit_amount, 0),
+    transaction_credit_amount = COALESCE(credit_amount, 0);
+
+-- Settling a foreign-currency invoice or bill at a different rate from the one it was booked
+-- at leaves a difference in the base currency, which is realized here
+INSERT INTO chart_of_accounts (id, account_code, account_name, account_type, parent_id, is_active)
+SELECT 'acc_' || lower(hex(randomblob(16))), '4130', 'Foreign Exchange Gain/Loss', 'revenue', NULL, TRUE
+WHERE NOT EXISTS (SELECT 1 FROM chart_of_accounts WHERE account_code = '4130');
\ No newline at end of file
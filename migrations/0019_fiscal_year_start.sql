@@ -0,0 +1,3 @@
+-- Month the fiscal year starts in (1 = January). A fiscal year is named after the calendar
+-- year it starts in, so with a July start FY2025 runs from July 2025 to June 2026.
+ALTER TABLE company_settings ADD COLUMN fiscal_year_start_month INTEGER NOT NULL DEFAULT 1 CHECK (fiscal_year_start_month BETWEEN 1 AND 12);
\ No newline at end of file
@@ -3,12 +3,31 @@ import { serveStatic } from 'hono/cloudflare-workers';
 import type { Env } from './types';
 import { corsMiddleware } from './middleware/cors';
 import { generalRateLimit } from './middleware/rateLimit';
+import { DatabaseUtils } from './utils/database';
+import { RecurringUtils } from './utils/recurring';
+import { InvoiceStatusUtils } from './utils/invoice-status';
+import { DunningUtils } from './utils/dunning';
+import { EmailUtils } from './utils/email';
+import { OutboxUtils } from './utils/outbox';
 
 // Import routes
 import authRoutes from './routes/auth';
 import adminRoutes from './routes/admin';
 import customerRoutes from './routes/customers';
+import vendorRoutes from './routes/vendors';
 import invoiceRoutes from './routes/invoices';
+import creditNoteRoutes from './routes/credit-notes';
+import recurringInvoiceRoutes from './routes/recurring-invoices';
+import dunningRoutes from './routes/dunning';
+import billRoutes from './routes/bills';
+import journalEntryRoutes from './routes/journal-entries';
+import paymentRoutes from './routes/payments';
+import reportRoutes from './routes/reports';
+import fiscalPeriodRoutes from './routes/fiscal-periods';
+import accountRoutes from './routes/accounts';
+import bankAccountRoutes from './routes/bank-accounts';
+import bankReconciliationRoutes from './routes/bank-reconciliations';
+import exchangeRateRoutes from './routes/exchange-rates';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -29,7 +48,20 @@ app.get('/api/health', (c) => {
 app.route('/api/auth', authRoutes);
 app.route('/api/admin', adminRoutes);
 app.route('/api/customers', customerRoutes);
+app.route('/api/vendors', vendorRoutes);
 app.route('/api/invoices', invoiceRoutes);
+app.route('/api/credit-notes', creditNoteRoutes);
+app.route('/api/recurring-invoices', recurringInvoiceRoutes);
+app.route('/api/dunning', dunningRoutes);
+app.route('/api/bills', billRoutes);
+app.route('/api/journal-entries', journalEntryRoutes);
+app.route('/api/payments', paymentRoutes);
+app.route('/api/reports', reportRoutes);
+app.route('/api/fiscal-periods', fiscalPeriodRoutes);
+app.route('/api/accounts', accountRoutes);
+app.route('/api/bank-accounts', bankAccountRoutes);
+app.route('/api/bank-reconciliations', bankReconciliationRoutes);
+app.route('/api/exchange-rates', exchangeRateRoutes);
 
 // Additional API endpoints
 app.get('/api/dashboard/stats', async (c) => {
@@ -44,7 +76,7 @@ app.get('/api/dashboard/stats', async (c) => {
     ] = await Promise.all([
       c.env.DB.prepare('SELECT COUNT(*) as count FROM customers WHERE is_active = 1').first(),
       c.env.DB.prepare('SELECT COUNT(*) as count FROM invoices').first(),
-      c.env.DB.prepare('SELECT COALESCE(SUM(paid_amount), 0) as total FROM invoices').first(),
+      c.env.DB.prepare('SELECT ROUND(COALESCE(SUM(paid_amount * exchange_rate), 0), 2) as total FROM invoices').first(),
       c.env.DB.prepare('SELECT COUNT(*) as count FROM invoices WHERE due_date < date(\'now\') AND status NOT IN (\'paid\', \'void\')').first(),
       c.env.DB.prepare('SELECT COUNT(*) as count FROM invoices WHERE status = \'draft\'').first()
     ]);
@@ -68,26 +100,6 @@ app.get('/api/dashboard/stats', async (c) => {
   }
 });
 
-// Chart of accounts endpoints
-app.get('/api/accounts', async (c) => {
-  try {
-    const accounts = await c.env.DB.prepare(
-      'SELECT * FROM chart_of_accounts WHERE is_active = 1 ORDER BY account_code'
-    ).all();
-
-    return c.json({
-      success: true,
-      data: accounts.results
-    });
-  } catch (error) {
-    console.error('Get accounts error:', error);
-    return c.json({
-      success: false,
-      error: 'Failed to fetch accounts'
-    }, 500);
-  }
-});
-
 // Serve static files (React frontend) - this should come last
 app.get('*', serveStatic({ 
   root: './',
@@ -128,4 +140,46 @@ app.onError((err, c) => {
   return c.text('Internal Server Error', 500);
 });
 
-export default app;
\ No newline at end of file
+// Must match the daily trigger in wrangler.toml; any other trigger only delivers queued email
+const DAILY_CRON = '0 6 * * *';
+
+async function drainOutbox(env: Env): Promise<void> {
+  const transport = EmailUtils.createTransport(env);
+  const from = await EmailUtils.fromAddress(env.DB, env);
+  const summary = await OutboxUtils.drain(env.DB, transport, from);
+  if (summary.sent.length || summary.failed.length) {
+    console.log(`Outbox via ${transport.name}: ${summary.sent.length} delivered, ${summary.failed.length} failed`);
+  }
+}
+
+// Cron triggers (see wrangler.toml) generate the day's recurring invoices and deliver queued email
+async function scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+  if (controller.cron !== DAILY_CRON) {
+    ctx.waitUntil(drainOutbox(env));
+    return;
+  }
+
+  const today = DatabaseUtils.formatDate(new Date(controller.scheduledTime));
+
+  ctx.waitUntil(
+    RecurringUtils.runDue(env.DB, today).then(summary => {
+      console.log(`Recurring invoices for ${today}: ${summary.generated.length} generated, ${summary.failed.length} failed`);
+    })
+  );
+
+  // Dunning runs after the overdue sweep so reminders are recorded against current statuses,
+  // and its reminders go out straight away rather than at the next outbox run
+  ctx.waitUntil(
+    InvoiceStatusUtils.markOverdue(env.DB, today).then(async count => {
+      console.log(`Invoices marked overdue for ${today}: ${count}`);
+      const summary = await DunningUtils.runDue(env.DB, today);
+      console.log(`Dunning for ${today}: ${summary.reminded.length} reminders recorded, ${summary.failed.length} failed`);
+      await drainOutbox(env);
+    })
+  );
+}
+
+export default {
+  fetch: app.fetch,
+  scheduled
+};
\ No newline at end of file
@@ -0,0 +1,407 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, ChartOfAccounts, ApiResponse } from '../types';
+import { CreateAccountSchema } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { AccountUtils } from '../utils/accounts';
+import { SystemAccounts } from '../utils/auto-journal';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const accounts = new Hono<{ Bindings: Env }>();
+
+// All account routes require authentication
+accounts.use('*', authMiddleware);
+
+// Get all accounts as a flat list (active only unless include_inactive=true)
+accounts.get('/', async (c) => {
+  try {
+    const includeInactive = c.req.query('include_inactive') === 'true';
+
+    const result = await DatabaseUtils.executeQuery<ChartOfAccounts>(
+      c.env.DB,
+      `SELECT * FROM chart_of_accounts ${includeInactive ? '' : 'WHERE is_active = 1'} ORDER BY account_code`
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result.results
+    });
+
+  } catch (error) {
+    console.error('Get accounts error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch accounts'
+    }, 500);
+  }
+});
+
+// Get accounts nested by parent_id
+accounts.get('/tree', async (c) => {
+  try {
+    const includeInactive = c.req.query('include_inactive') === 'true';
+
+    const result = await DatabaseUtils.executeQuery<ChartOfAccounts>(
+      c.env.DB,
+      `SELECT * FROM chart_of_accounts ${includeInactive ? '' : 'WHERE is_active = 1'} ORDER BY account_code`
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: AccountUtils.buildTree(result.results)
+    });
+
+  } catch (error) {
+    console.error('Get account tree error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch account tree'
+    }, 500);
+  }
+});
+
+// Get account by ID
+accounts.get('/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    const account = await DatabaseUtils.executeQueryFirst<ChartOfAccounts>(
+      c.env.DB,
+      'SELECT * FROM chart_of_accounts WHERE id = ?',
+      [id]
+    );
+
+    if (!account) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Account not found'
+      }, 404);
+    }
+
+    const children = await DatabaseUtils.executeQuery<ChartOfAccounts>(
+      c.env.DB,
+      'SELECT * FROM chart_of_accounts WHERE parent_id = ? ORDER BY account_code',
+      [id]
+    );
+
+    const balanceCents = await AccountUtils.getPostedBalance(c.env.DB, id);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...account,
+        posted_balance: balanceCents / 100,
+        children: children.results
+      }
+    });
+
+  } catch (error) {
+    console.error('Get account error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch account'
+    }, 500);
+  }
+});
+
+// Create account
+accounts.post('/', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const accountData = CreateAccountSchema.parse(body);
+    const currentUser = c.get('user');
+
+    if (await AccountUtils.isCodeTaken(c.env.DB, accountData.account_code)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Account with this code already exists'
+      }, 400);
+    }
+
+    const parentError = await AccountUtils.validateParent(
+      c.env.DB,
+      accountData.account_type,
+      accountData.parent_id
+    );
+
+    if (parentError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: parentError
+      }, 400);
+    }
+
+    const newAccount = {
+      id: DatabaseUtils.generateId('acc'),
+      account_code: accountData.account_code,
+      account_name: accountData.account_name,
+      account_type: accountData.account_type,
+      parent_id: accountData.parent_id || null,
+      is_active: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    const createdAccount = await DatabaseUtils.insertRecord<ChartOfAccounts>(
+      c.env.DB,
+      'chart_of_accounts',
+      newAccount
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'chart_of_accounts',
+      createdAccount.id,
+      'create',
+      currentUser.userId,
+      undefined,
+      createdAccount
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdAccount,
+      message: 'Account created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create account error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create account'
+    }, 500);
+  }
+});
+
+// Update account
+accounts.put('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    const updateSchema = CreateAccountSchema.partial().extend({
+      is_active: z.boolean().optional()
+    });
+
+    const updateData = updateSchema.parse(body);
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    const oldAccount = await DatabaseUtils.executeQueryFirst<ChartOfAccounts>(
+      c.env.DB,
+      'SELECT * FROM chart_of_accounts WHERE id = ?',
+      [id]
+    );
+
+    if (!oldAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Account not found'
+      }, 404);
+    }
+
+    const codeChanged = !!updateData.account_code && updateData.account_code !== oldAccount.account_code;
+    const typeChanged = !!updateData.account_type && updateData.account_type !== oldAccount.account_type;
+
+    if ((codeChanged || typeChanged) && (Object.values(SystemAccounts) as string[]).includes(oldAccount.account_code)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Account ${oldAccount.account_code} is used for automatic postings; its code and type cannot be changed`
+      }, 400);
+    }
+
+    if (updateData.account_code && updateData.account_code !== oldAccount.account_code) {
+      if (await AccountUtils.isCodeTaken(c.env.DB, updateData.account_code, id)) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'Account with this code already exists'
+        }, 400);
+      }
+    }
+
+    const accountType = updateData.account_type || oldAccount.account_type;
+    const parentId = updateData.parent_id !== undefined ? updateData.parent_id : oldAccount.parent_id;
+
+    if (accountType !== oldAccount.account_type) {
+      if (await AccountUtils.countChildren(c.env.DB, id) > 0) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'Cannot change the type of an account that has child accounts'
+        }, 400);
+      }
+
+      if (await AccountUtils.hasPostedLines(c.env.DB, id)) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'Cannot change the type of an account with posted journal lines'
+        }, 400);
+      }
+    }
+
+    const parentError = await AccountUtils.validateParent(c.env.DB, accountType, parentId, id);
+    if (parentError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: parentError
+      }, 400);
+    }
+
+    if (updateData.is_active === false && oldAccount.is_active) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Use DELETE /api/accounts/:id to deactivate an account'
+      }, 400);
+    }
+
+    const updatedAccount = await DatabaseUtils.updateRecord<ChartOfAccounts>(
+      c.env.DB,
+      'chart_of_accounts',
+      id,
+      {
+        ...updateData,
+        ...(updateData.parent_id !== undefined ? { parent_id: updateData.parent_id || null } : {})
+      }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'chart_of_accounts',
+      id,
+      'update',
+      currentUser.userId,
+      oldAccount,
+      updatedAccount
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedAccount,
+      message: 'Account updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update account error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update account'
+    }, 500);
+  }
+});
+
+// Deactivate account (soft delete)
+accounts.delete('/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    const account = await DatabaseUtils.executeQueryFirst<ChartOfAccounts>(
+      c.env.DB,
+      'SELECT * FROM chart_of_accounts WHERE id = ?',
+      [id]
+    );
+
+    if (!account) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Account not found'
+      }, 404);
+    }
+
+    if (!account.is_active) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Account is already inactive'
+      }, 400);
+    }
+
+    if ((Object.values(SystemAccounts) as string[]).includes(account.account_code)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Account ${account.account_code} is used for automatic postings and cannot be deactivated`
+      }, 400);
+    }
+
+    const bankAccount = await DatabaseUtils.executeQueryFirst<{ account_name: string }>(
+      c.env.DB,
+      'SELECT account_name FROM bank_accounts WHERE account_id = ? AND is_active = 1',
+      [id]
+    );
+
+    if (bankAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Account ${account.account_code} backs bank account ${bankAccount.account_name}; deactivate the bank account first`
+      }, 400);
+    }
+
+    if (await AccountUtils.countChildren(c.env.DB, id, true) > 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Cannot deactivate an account with active child accounts'
+      }, 400);
+    }
+
+    if (await AccountUtils.getPostedBalance(c.env.DB, id) !== 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Cannot deactivate an account with a posted balance'
+      }, 400);
+    }
+
+    await DatabaseUtils.updateRecord(
+      c.env.DB,
+      'chart_of_accounts',
+      id,
+      { is_active: false }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'chart_of_accounts',
+      id,
+      'delete',
+      currentUser.userId,
+      account,
+      { is_active: false }
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Account deactivated successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete account error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to deactivate account'
+    }, 500);
+  }
+});
+
+export default accounts;
\ No newline at end of file
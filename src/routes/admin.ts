@@ -1,9 +1,16 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
-import type { Env, User, ApiResponse, PaginatedResponse, AuditLogEntry } from '../types';
-import { CreateUserSchema, UserRoles } from '../types';
+import type { Env, User, ApiResponse, PaginatedResponse, AuditLogEntry, EmailOutboxMessage, EmailTemplate } from '../types';
+import { CreateUserSchema, UserRoles, DocumentTypes, UpdateDocumentSequenceSchema, UpdateCompanySettingsSchema, EmailOutboxStatus,
+  RecordBounceSchema, EmailTemplateKeys, UpdateEmailTemplateSchema } from '../types';
+import type { DocumentType, EmailTemplateKey } from '../types';
 import { DatabaseUtils } from '../utils/database';
 import { AuthUtils } from '../utils/auth';
+import { SequenceUtils } from '../utils/sequences';
+import { SettingsUtils } from '../utils/settings';
+import { OutboxUtils } from '../utils/outbox';
+import { EmailUtils } from '../utils/email';
+import { TemplateUtils } from '../utils/templates';
 import { authMiddleware, requireAdmin, requireManagerOrAdmin } from '../middleware/auth';
 
 const admin = new Hono<{ Bindings: Env }>();
@@ -37,10 +44,10 @@ admin.get('/dashboard', requireManagerOrAdmin, async (c) => {
         c.env.DB,
         'SELECT COUNT(*) as count FROM invoices'
       ),
-      // Total revenue (paid invoices)
+      // Total revenue (paid invoices), in the base currency
       DatabaseUtils.executeQueryFirst<{ total: number }>(
         c.env.DB,
-        'SELECT COALESCE(SUM(paid_amount), 0) as total FROM invoices'
+        'SELECT ROUND(COALESCE(SUM(paid_amount * exchange_rate), 0), 2) as total FROM invoices'
       ),
       // Overdue invoices
       DatabaseUtils.executeQueryFirst<{ count: number }>(
@@ -460,4 +467,438 @@ admin.get('/audit-log', requireManagerOrAdmin, async (c) => {
   }
 });
 
+// Document numbering routes
+admin.get('/document-sequences', requireAdmin, async (c) => {
+  try {
+    const sequences = await SequenceUtils.listWithPreview(c.env.DB, DatabaseUtils.formatDate(new Date()));
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: sequences
+    });
+
+  } catch (error) {
+    console.error('Get document sequences error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch document sequences'
+    }, 500);
+  }
+});
+
+// Changes apply to numbers allocated from now on; documents already numbered keep their numbers
+admin.put('/document-sequences/:documentType', requireAdmin, async (c) => {
+  try {
+    const documentType = c.req.param('documentType') as DocumentType;
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    if (!DocumentTypes.includes(documentType)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Document sequence not found'
+      }, 404);
+    }
+
+    const updateData = UpdateDocumentSequenceSchema.parse(body);
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    const oldSequence = await SequenceUtils.getSequence(c.env.DB, documentType);
+    const updatedSequence = await SequenceUtils.updateSequence(c.env.DB, documentType, updateData);
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'document_sequences',
+      documentType,
+      'update',
+      currentUser.userId,
+      oldSequence,
+      updatedSequence || undefined
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedSequence,
+      message: 'Document sequence updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update document sequence error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update document sequence'
+    }, 500);
+  }
+});
+
+
+// Company settings routes: letterhead details and invoice template options
+admin.get('/company-settings', requireManagerOrAdmin, async (c) => {
+  try {
+    const settings = await SettingsUtils.getCompanySettings(c.env.DB);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: SettingsUtils.withoutLogo(settings)
+    });
+
+  } catch (error) {
+    console.error('Get company settings error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch company settings'
+    }, 500);
+  }
+});
+
+admin.put('/company-settings', requireAdmin, async (c) => {
+  try {
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    const updateData = UpdateCompanySettingsSchema.parse(body);
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    // Validate the logo and store it without any data: URL prefix
+    if (updateData.logo_data) {
+      const logoData = SettingsUtils.normalizeLogo(updateData.logo_data);
+      if (!logoData) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'Logo must be a base64 encoded JPEG image'
+        }, 400);
+      }
+      updateData.logo_data = logoData;
+    }
+
+    const oldSettings = await SettingsUtils.getCompanySettings(c.env.DB);
+
+    // Posted amounts are in the base currency, so it is fixed once anything is on the books
+    if (updateData.base_currency && updateData.base_currency !== oldSettings.base_currency) {
+      const posted = await DatabaseUtils.executeQueryFirst(
+        c.env.DB,
+        "SELECT id FROM journal_entries WHERE status = 'posted' LIMIT 1"
+      );
+
+      if (posted) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'The base currency cannot change once journal entries have been posted'
+        }, 400);
+      }
+    }
+
+    const updatedSettings = await SettingsUtils.updateCompanySettings(c.env.DB, updateData);
+
+    // Log audit (the logo itself is recorded only as present or not)
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'company_settings',
+      updatedSettings.id,
+      'update',
+      currentUser.userId,
+      SettingsUtils.withoutLogo(oldSettings),
+      SettingsUtils.withoutLogo(updatedSettings)
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: SettingsUtils.withoutLogo(updatedSettings),
+      message: 'Company settings updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update company settings error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update company settings'
+    }, 500);
+  }
+});
+
+// Email outbox routes
+admin.get('/outbox', requireAdmin, async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '20');
+    const status = c.req.query('status') || '';
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (status && EmailOutboxStatus.includes(status as any)) {
+      whereClause += ' AND status = ?';
+      params.push(status);
+    }
+
+    const result = await DatabaseUtils.paginate<EmailOutboxMessage>(
+      c.env.DB,
+      `SELECT * FROM email_outbox ${whereClause} ORDER BY created_at DESC`,
+      `SELECT COUNT(*) as count FROM email_outbox ${whereClause}`,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<EmailOutboxMessage>>({
+      success: true,
+      data: result.results,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get outbox error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch outbox'
+    }, 500);
+  }
+});
+
+// Deliver due messages now through the configured transport, as the scheduled handler does.
+// With the local transport this is the development mail stand-in: messages are only logged.
+admin.post('/outbox/drain', requireAdmin, async (c) => {
+  try {
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
+    const transport = EmailUtils.createTransport(c.env);
+    const from = await EmailUtils.fromAddress(c.env.DB, c.env);
+    const summary = await OutboxUtils.drain(c.env.DB, transport, from, limit);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { transport: transport.name, ...summary },
+      message: `${summary.sent.length} message(s) delivered, ${summary.failed.length} failed`
+    });
+
+  } catch (error) {
+    console.error('Drain outbox error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to drain outbox'
+    }, 500);
+  }
+});
+
+// Queue a failed message for delivery again
+admin.post('/outbox/:id/retry', requireAdmin, async (c) => {
+  try {
+    const id = c.req.param('id');
+    const message = await OutboxUtils.requeue(c.env.DB, id);
+
+    if (!message) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Only failed messages can be retried'
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: message,
+      message: 'Message queued for delivery'
+    });
+
+  } catch (error) {
+    console.error('Retry outbox message error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to retry message'
+    }, 500);
+  }
+});
+
+// Record a bounce reported for a delivered message
+admin.post('/outbox/:id/bounce', requireAdmin, async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const { reason } = RecordBounceSchema.parse(body);
+
+    const message = await OutboxUtils.recordBounce(c.env.DB, id, reason);
+
+    if (!message) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Only delivered messages can bounce'
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: message,
+      message: 'Bounce recorded'
+    });
+
+  } catch (error) {
+    console.error('Record bounce error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to record bounce'
+    }, 500);
+  }
+});
+
+// Email template routes
+admin.get('/email-templates', requireAdmin, async (c) => {
+  try {
+    const templates = await DatabaseUtils.executeQuery<EmailTemplate>(
+      c.env.DB,
+      'SELECT * FROM email_templates ORDER BY template_key ASC'
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: templates.results
+    });
+
+  } catch (error) {
+    console.error('Get email templates error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch email templates'
+    }, 500);
+  }
+});
+
+admin.put('/email-templates/:templateKey', requireAdmin, async (c) => {
+  try {
+    const templateKey = c.req.param('templateKey') as EmailTemplateKey;
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    if (!EmailTemplateKeys.includes(templateKey)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Email template not found'
+      }, 404);
+    }
+
+    const updateData = UpdateEmailTemplateSchema.parse(body);
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    for (const [field, template] of Object.entries(updateData)) {
+      const templateError = TemplateUtils.validate(template);
+      if (templateError) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: `Invalid ${field} template: ${templateError}`
+        }, 400);
+      }
+    }
+
+    const oldTemplate = await EmailUtils.getTemplate(c.env.DB, templateKey);
+    const updatedTemplate = await DatabaseUtils.executeQueryFirst<EmailTemplate>(
+      c.env.DB,
+      `UPDATE email_templates SET subject = ?, body = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE template_key = ?
+      RETURNING *`,
+      [updateData.subject ?? oldTemplate.subject, updateData.body ?? oldTemplate.body, templateKey]
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'email_templates',
+      templateKey,
+      'update',
+      currentUser.userId,
+      oldTemplate,
+      updatedTemplate || undefined
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedTemplate,
+      message: 'Email template updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update email template error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update email template'
+    }, 500);
+  }
+});
+
+// Render a template against sample data posted as the request body
+admin.post('/email-templates/:templateKey/preview', requireAdmin, async (c) => {
+  try {
+    const templateKey = c.req.param('templateKey') as EmailTemplateKey;
+    const context = await c.req.json();
+
+    if (!EmailTemplateKeys.includes(templateKey)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Email template not found'
+      }, 404);
+    }
+
+    const rendered = await EmailUtils.renderTemplate(c.env.DB, templateKey, context || {});
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: rendered
+    });
+
+  } catch (error) {
+    console.error('Preview email template error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to preview email template'
+    }, 500);
+  }
+});
+
 export default admin;
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { Env, User, ApiResponse } from '../types';
-import { LoginSchema, CreateUserSchema } from '../types';
+import { LoginSchema, CreateUserSchema, RequestPasswordResetSchema, ConfirmPasswordResetSchema } from '../types';
 import { AuthUtils } from '../utils/auth';
 import { DatabaseUtils } from '../utils/database';
+import { PasswordResetUtils } from '../utils/password-resets';
 import { authMiddleware, requireAdmin } from '../middleware/auth';
 import { authRateLimit } from '../middleware/rateLimit';
 
@@ -277,6 +278,125 @@ auth.post('/change-password', authMiddleware, async (c) => {
   }
 });
 
+// Request a password reset link by email. The response is the same whether or not the address
+// belongs to an active user, so it cannot be used to find out who has an account.
+auth.post('/password-reset/request', authRateLimit, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { email } = RequestPasswordResetSchema.parse(body);
+
+    // Checked before looking the user up, so the response still says nothing about the address
+    const appUrl = c.env.APP_URL;
+    if (!appUrl) {
+      console.error('Request password reset error: APP_URL is not configured');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Password reset is not configured'
+      }, 500);
+    }
+
+    const user = await DatabaseUtils.executeQueryFirst<User>(
+      c.env.DB,
+      'SELECT * FROM users WHERE email = ? AND is_active = 1',
+      [email]
+    );
+
+    if (user) {
+      await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+        const resetToken = await PasswordResetUtils.issue(tx, user, appUrl);
+
+        // Log audit
+        tx.audit(
+          'users',
+          user.id,
+          'update',
+          user.id,
+          undefined,
+          { password_reset_requested: true, password_reset_token_id: resetToken.id }
+        );
+      });
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'If the address belongs to an account, a password reset link has been sent to it'
+    }, 202);
+
+  } catch (error) {
+    console.error('Request password reset error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to request password reset'
+    }, 500);
+  }
+});
+
+// Choose a new password with the token from a reset link
+auth.post('/password-reset/confirm', authRateLimit, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { token, newPassword } = ConfirmPasswordResetSchema.parse(body);
+
+    const passwordHash = await AuthUtils.hashPassword(newPassword);
+
+    const resetToken = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const usable = await PasswordResetUtils.findUsable(tx.db, token);
+      if (!usable) {
+        return null;
+      }
+
+      PasswordResetUtils.consume(tx, usable, passwordHash);
+
+      // Log audit
+      tx.audit(
+        'users',
+        usable.user_id,
+        'update',
+        usable.user_id,
+        { password_changed: false },
+        { password_changed: true, password_reset_token_id: usable.id }
+      );
+
+      return usable;
+    });
+
+    if (!resetToken) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'This password reset link is invalid, expired or already used'
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Password has been reset'
+    });
+
+  } catch (error) {
+    console.error('Confirm password reset error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to reset password'
+    }, 500);
+  }
+});
+
 // Logout endpoint (mainly for client-side token removal)
 auth.post('/logout', authMiddleware, async (c) => {
   return c.json<ApiResponse>({
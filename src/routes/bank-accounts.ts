@@ -0,0 +1,1160 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, BankAccount, BankCsvProfile, BankStatementImport, BankStatementLine, BankTransfer, ApiResponse, PaginatedResponse } from '../types';
+import {
+  CreateBankAccountSchema,
+  UpdateBankAccountSchema,
+  CreateBankCsvProfileSchema,
+  UpdateBankCsvProfileSchema,
+  ImportBankStatementSchema,
+  CreateBankTransferSchema
+} from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { AccountUtils } from '../utils/accounts';
+import { AutoJournalUtils } from '../utils/auto-journal';
+import { BankAccountUtils } from '../utils/bank-accounts';
+import { BankTransferUtils, TRANSFER_SQL } from '../utils/bank-transfers';
+import type { BankTransferWithAccounts } from '../utils/bank-transfers';
+import { BankStatementParserUtils, StatementParseError } from '../utils/bank-statement-parsers';
+import { BankStatementUtils, MAX_STATEMENT_BYTES } from '../utils/bank-statements';
+import { PostingError } from '../utils/journal';
+import { LedgerUtils } from '../utils/ledger';
+import { SettingsUtils } from '../utils/settings';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const bankAccounts = new Hono<{ Bindings: Env }>();
+
+// All bank account routes require authentication
+bankAccounts.use('*', authMiddleware);
+
+async function findCsvProfile(db: D1Database, id: string): Promise<BankCsvProfile | null> {
+  return await DatabaseUtils.executeQueryFirst<BankCsvProfile>(
+    db,
+    'SELECT * FROM bank_csv_profiles WHERE id = ?',
+    [id]
+  );
+}
+
+// Get bank accounts with their ledger balances (active only unless include_inactive=true)
+bankAccounts.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const includeInactive = c.req.query('include_inactive') === 'true';
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: await BankAccountUtils.list(c.env.DB, includeInactive)
+    });
+
+  } catch (error) {
+    console.error('Get bank accounts error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch bank accounts'
+    }, 500);
+  }
+});
+
+// Get CSV column-mapping profiles
+bankAccounts.get('/csv-profiles', requireRole('accountant'), async (c) => {
+  try {
+    const profiles = await DatabaseUtils.executeQuery<BankCsvProfile>(
+      c.env.DB,
+      `SELECT p.*,
+        (SELECT COUNT(*) FROM bank_accounts ba WHERE ba.csv_profile_id = p.id) as bank_account_count
+      FROM bank_csv_profiles p
+      ORDER BY p.name ASC`
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: profiles.results
+    });
+
+  } catch (error) {
+    console.error('Get CSV profiles error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch CSV profiles'
+    }, 500);
+  }
+});
+
+// Create CSV column-mapping profile
+bankAccounts.post('/csv-profiles', requireRole('manager'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const profileData = CreateBankCsvProfileSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const profile = {
+      ...profileData,
+      amount_column: profileData.amount_column || null,
+      debit_column: profileData.debit_column || null,
+      credit_column: profileData.credit_column || null,
+      payee_column: profileData.payee_column || null,
+      reference_column: profileData.reference_column || null,
+      id_column: profileData.id_column || null
+    };
+
+    const mappingError = BankStatementParserUtils.validateCsvProfile(profile);
+    if (mappingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: mappingError
+      }, 400);
+    }
+
+    const existing = await DatabaseUtils.executeQueryFirst(
+      c.env.DB,
+      'SELECT id FROM bank_csv_profiles WHERE name = ?',
+      [profile.name]
+    );
+
+    if (existing) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `A CSV profile named ${profile.name} already exists`
+      }, 400);
+    }
+
+    const createdProfile = await DatabaseUtils.insertRecord<BankCsvProfile>(
+      c.env.DB,
+      'bank_csv_profiles',
+      {
+        id: DatabaseUtils.generateId('csvp'),
+        ...profile,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'bank_csv_profiles',
+      createdProfile.id,
+      'create',
+      currentUser.userId,
+      undefined,
+      createdProfile
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdProfile,
+      message: 'CSV profile created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create CSV profile error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create CSV profile'
+    }, 500);
+  }
+});
+
+// Update CSV column-mapping profile; statements already imported are not affected
+bankAccounts.put('/csv-profiles/:profileId', requireRole('manager'), async (c) => {
+  try {
+    const profileId = c.req.param('profileId');
+    const body = await c.req.json();
+    const updateData = UpdateBankCsvProfileSchema.parse(body);
+    const currentUser = c.get('user');
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    const oldProfile = await findCsvProfile(c.env.DB, profileId);
+
+    if (!oldProfile) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'CSV profile not found'
+      }, 404);
+    }
+
+    const mappingError = BankStatementParserUtils.validateCsvProfile({ ...oldProfile, ...updateData });
+    if (mappingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: mappingError
+      }, 400);
+    }
+
+    if (updateData.name && updateData.name !== oldProfile.name) {
+      const existing = await DatabaseUtils.executeQueryFirst(
+        c.env.DB,
+        'SELECT id FROM bank_csv_profiles WHERE name = ? AND id != ?',
+        [updateData.name, profileId]
+      );
+
+      if (existing) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: `A CSV profile named ${updateData.name} already exists`
+        }, 400);
+      }
+    }
+
+    const updatedProfile = await DatabaseUtils.updateRecord<BankCsvProfile>(
+      c.env.DB,
+      'bank_csv_profiles',
+      profileId,
+      updateData
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'bank_csv_profiles',
+      profileId,
+      'update',
+      currentUser.userId,
+      oldProfile,
+      updatedProfile
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedProfile,
+      message: 'CSV profile updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update CSV profile error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update CSV profile'
+    }, 500);
+  }
+});
+
+// Delete CSV column-mapping profile once no bank account uses it; past imports keep their lines
+bankAccounts.delete('/csv-profiles/:profileId', requireRole('manager'), async (c) => {
+  try {
+    const profileId = c.req.param('profileId');
+    const currentUser = c.get('user');
+
+    const profile = await findCsvProfile(c.env.DB, profileId);
+
+    if (!profile) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'CSV profile not found'
+      }, 404);
+    }
+
+    const bankAccount = await DatabaseUtils.executeQueryFirst<{ account_name: string }>(
+      c.env.DB,
+      'SELECT account_name FROM bank_accounts WHERE csv_profile_id = ?',
+      [profileId]
+    );
+
+    if (bankAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `CSV profile is used by bank account ${bankAccount.account_name}`
+      }, 400);
+    }
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      tx.add('UPDATE bank_statement_imports SET csv_profile_id = NULL WHERE csv_profile_id = ?', [profileId]);
+      tx.delete('bank_csv_profiles', profileId);
+      tx.audit('bank_csv_profiles', profileId, 'delete', currentUser.userId, profile);
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'CSV profile deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete CSV profile error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete CSV profile'
+    }, 500);
+  }
+});
+
+// Get transfers between bank accounts (paginated, newest first; filter by bank_account_id on
+// either side, from and to)
+bankAccounts.get('/transfers', requireRole('accountant'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const bankAccountId = c.req.query('bank_account_id');
+    const from = c.req.query('from');
+    const to = c.req.query('to');
+
+    if ((from && !LedgerUtils.isValidDate(from)) || (to && !LedgerUtils.isValidDate(to))) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dates must be in YYYY-MM-DD format'
+      }, 400);
+    }
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (bankAccountId) {
+      whereClause += ' AND (t.from_bank_account_id = ? OR t.to_bank_account_id = ?)';
+      params.push(bankAccountId, bankAccountId);
+    }
+
+    if (from) {
+      whereClause += ' AND t.transfer_date >= ?';
+      params.push(from);
+    }
+
+    if (to) {
+      whereClause += ' AND t.transfer_date <= ?';
+      params.push(to);
+    }
+
+    const result = await DatabaseUtils.paginate<BankTransferWithAccounts>(
+      c.env.DB,
+      `${TRANSFER_SQL} ${whereClause} ORDER BY t.transfer_date DESC, t.created_at DESC`,
+      `SELECT COUNT(*) as count FROM bank_transfers t ${whereClause}`,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<BankTransferWithAccounts>>({
+      success: true,
+      data: result.results,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get bank transfers error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch bank transfers'
+    }, 500);
+  }
+});
+
+// Move money between two bank accounts, posting one balanced entry between their ledger
+// accounts. Accounts in different currencies need the amount that arrives (to_amount), and
+// the base-currency value (base_amount) when neither side is in the base currency.
+bankAccounts.post('/transfers', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const transferData = CreateBankTransferSchema.parse(body);
+    const currentUser = c.get('user');
+
+    if (!LedgerUtils.isValidDate(transferData.transfer_date)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Transfer date must be a valid date'
+      }, 400);
+    }
+
+    if (transferData.from_bank_account_id === transferData.to_bank_account_id) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'A transfer needs two different bank accounts'
+      }, 400);
+    }
+
+    const fromAccount = await DatabaseUtils.executeQueryFirst<BankAccount>(
+      c.env.DB,
+      'SELECT * FROM bank_accounts WHERE id = ? AND is_active = 1',
+      [transferData.from_bank_account_id]
+    );
+    const toAccount = await DatabaseUtils.executeQueryFirst<BankAccount>(
+      c.env.DB,
+      'SELECT * FROM bank_accounts WHERE id = ? AND is_active = 1',
+      [transferData.to_bank_account_id]
+    );
+
+    if (!fromAccount || !toAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account not found or inactive'
+      }, 400);
+    }
+
+    for (const bankAccount of [fromAccount, toAccount]) {
+      if (!bankAccount.account_id) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: `Bank account ${bankAccount.account_name} is not linked to a ledger account`
+        }, 400);
+      }
+    }
+
+    if (transferData.fee_account_id) {
+      const feeAccount = await DatabaseUtils.executeQueryFirst(
+        c.env.DB,
+        'SELECT id FROM chart_of_accounts WHERE id = ? AND is_active = 1',
+        [transferData.fee_account_id]
+      );
+
+      if (!feeAccount) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'Fee account not found or inactive'
+        }, 400);
+      }
+    }
+
+    const settings = await SettingsUtils.getCompanySettings(c.env.DB);
+    const amounts = BankTransferUtils.resolveAmounts(fromAccount, toAccount, transferData, settings.base_currency);
+
+    if (typeof amounts === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: amounts
+      }, 400);
+    }
+
+    const createdTransfer = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const transfer = tx.insert<BankTransfer>('bank_transfers', {
+        id: DatabaseUtils.generateId('btr'),
+        from_bank_account_id: fromAccount.id,
+        to_bank_account_id: toAccount.id,
+        transfer_date: transferData.transfer_date,
+        amount: transferData.amount,
+        from_currency: fromAccount.currency,
+        to_amount: amounts.to_amount,
+        to_currency: toAccount.currency,
+        exchange_rate: amounts.exchange_rate,
+        base_amount: amounts.base_amount,
+        fee_amount: transferData.fee_amount,
+        fee_account_id: transferData.fee_account_id || null,
+        reference: transferData.reference || null,
+        memo: transferData.memo || null,
+        created_by: currentUser.userId,
+        created_at: new Date().toISOString()
+      });
+
+      await AutoJournalUtils.postBankTransfer(tx, transfer, fromAccount.account_id!, toAccount.account_id!, currentUser.userId);
+
+      // Log audit
+      tx.audit('bank_transfers', transfer.id, 'create', currentUser.userId, undefined, transfer);
+
+      return transfer;
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: await BankTransferUtils.get(c.env.DB, createdTransfer.id),
+      message: 'Transfer recorded successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create bank transfer error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to record transfer'
+    }, 500);
+  }
+});
+
+// Get transfer by ID
+bankAccounts.get('/transfers/:transferId', requireRole('accountant'), async (c) => {
+  try {
+    const transfer = await BankTransferUtils.get(c.env.DB, c.req.param('transferId'));
+
+    if (!transfer) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Transfer not found'
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: transfer
+    });
+
+  } catch (error) {
+    console.error('Get bank transfer error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch bank transfer'
+    }, 500);
+  }
+});
+
+// Delete a transfer, reversing its journal entry. Not once either side is matched in a
+// bank reconciliation.
+bankAccounts.delete('/transfers/:transferId', requireRole('manager'), async (c) => {
+  try {
+    const transferId = c.req.param('transferId');
+    const currentUser = c.get('user');
+
+    const transfer = await DatabaseUtils.executeQueryFirst<BankTransfer>(
+      c.env.DB,
+      'SELECT * FROM bank_transfers WHERE id = ?',
+      [transferId]
+    );
+
+    if (!transfer) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Transfer not found'
+      }, 404);
+    }
+
+    const matched = await DatabaseUtils.executeQueryFirst(
+      c.env.DB,
+      `SELECT mj.match_id FROM bank_match_journal_lines mj
+      JOIN journal_entry_lines jel ON mj.journal_entry_line_id = jel.id
+      JOIN journal_entries je ON jel.journal_entry_id = je.id
+      WHERE je.source_type = 'bank_transfer' AND je.source_id = ?
+      LIMIT 1`,
+      [transferId]
+    );
+
+    if (matched) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Transfer is matched in a bank reconciliation; unmatch it first'
+      }, 400);
+    }
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      await AutoJournalUtils.reverseBankTransfer(tx, transfer, currentUser.userId);
+      tx.delete('bank_transfers', transferId);
+
+      // Log audit
+      tx.audit('bank_transfers', transferId, 'delete', currentUser.userId, transfer);
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Transfer deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete bank transfer error:', error);
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete transfer'
+    }, 500);
+  }
+});
+
+// Get bank account by ID
+bankAccounts.get('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    const bankAccount = await BankAccountUtils.get(c.env.DB, id);
+
+    if (!bankAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account not found'
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: bankAccount
+    });
+
+  } catch (error) {
+    console.error('Get bank account error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch bank account'
+    }, 500);
+  }
+});
+
+// Transaction register: every receipt, disbursement and transfer in the period with a running balance
+bankAccounts.get('/:id/register', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const period = LedgerUtils.parsePeriod(c.req.query('from'), c.req.query('to'));
+
+    if (typeof period === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: period
+      }, 400);
+    }
+
+    const bankAccount = await BankAccountUtils.get(c.env.DB, id);
+
+    if (!bankAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account not found'
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: await BankAccountUtils.getRegister(c.env.DB, bankAccount, period.from, period.to)
+    });
+
+  } catch (error) {
+    console.error('Get bank register error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch bank register'
+    }, 500);
+  }
+});
+
+// Upload a bank statement (multipart form: file, plus optional format and csv_profile_id) and
+// stage its lines for reconciliation. The format is detected from the content when not given;
+// CSV files use the given profile or the bank account's own.
+bankAccounts.post('/:id/statements', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const form = await c.req.parseBody();
+    const file = form['file'];
+    const currentUser = c.get('user');
+
+    if (!(file instanceof File)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Upload the statement as the file field of a multipart form'
+      }, 400);
+    }
+
+    if (file.size > MAX_STATEMENT_BYTES) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Statement files are limited to ${MAX_STATEMENT_BYTES / 1024 / 1024} MB`
+      }, 400);
+    }
+
+    const options = ImportBankStatementSchema.parse({
+      format: form['format'] || undefined,
+      csv_profile_id: form['csv_profile_id'] || undefined
+    });
+
+    const bankAccount = await DatabaseUtils.executeQueryFirst<BankAccount>(
+      c.env.DB,
+      'SELECT * FROM bank_accounts WHERE id = ?',
+      [id]
+    );
+
+    if (!bankAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account not found'
+      }, 404);
+    }
+
+    if (!bankAccount.is_active) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Cannot import statements into an inactive bank account'
+      }, 400);
+    }
+
+    const text = await file.text();
+    const format = options.format || BankStatementParserUtils.detectFormat(text);
+    let profile: BankCsvProfile | null = null;
+
+    if (format === 'csv') {
+      const profileId = options.csv_profile_id || bankAccount.csv_profile_id;
+      profile = profileId ? await findCsvProfile(c.env.DB, profileId) : null;
+
+      if (!profile) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: profileId
+            ? 'CSV profile not found'
+            : 'CSV statements need a column-mapping profile; pass csv_profile_id or set one on the bank account'
+        }, 400);
+      }
+    }
+
+    const statement = BankStatementParserUtils.parse(text, format, profile);
+    const statementImport = await BankStatementUtils.import(c.env.DB, bankAccount, statement, {
+      filename: file.name || null,
+      csvProfileId: profile?.id ?? null,
+      userId: currentUser.userId
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: statementImport,
+      message: `Imported ${statementImport.line_count} statement lines, skipped ${statementImport.duplicate_count} duplicates`
+    }, 201);
+
+  } catch (error) {
+    console.error('Import bank statement error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof StatementParseError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to import bank statement'
+    }, 500);
+  }
+});
+
+// Get the statement imports of a bank account, newest first
+bankAccounts.get('/:id/statements', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+
+    const baseQuery = `
+      SELECT si.*, u.first_name || ' ' || u.last_name as imported_by_name
+      FROM bank_statement_imports si
+      LEFT JOIN users u ON si.imported_by = u.id
+      WHERE si.bank_account_id = ?
+      ORDER BY si.created_at DESC
+    `;
+
+    const countQuery = 'SELECT COUNT(*) as count FROM bank_statement_imports WHERE bank_account_id = ?';
+
+    const result = await DatabaseUtils.paginate<BankStatementImport>(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      [id],
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<BankStatementImport>>({
+      success: true,
+      data: result.results,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get bank statement imports error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch bank statement imports'
+    }, 500);
+  }
+});
+
+// Undo a statement import, removing the lines it staged
+bankAccounts.delete('/:id/statements/:importId', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const importId = c.req.param('importId');
+    const currentUser = c.get('user');
+
+    const statementImport = await DatabaseUtils.executeQueryFirst<BankStatementImport>(
+      c.env.DB,
+      'SELECT * FROM bank_statement_imports WHERE id = ? AND bank_account_id = ?',
+      [importId, id]
+    );
+
+    if (!statementImport) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Statement import not found'
+      }, 404);
+    }
+
+    const matched = await DatabaseUtils.executeQueryFirst<{ count: number }>(
+      c.env.DB,
+      `SELECT COUNT(*) as count FROM bank_match_statement_lines ms
+      JOIN bank_statement_lines sl ON ms.statement_line_id = sl.id
+      WHERE sl.import_id = ?`,
+      [importId]
+    );
+
+    if (matched && matched.count > 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `${matched.count} line${matched.count === 1 ? ' of this import is' : 's of this import are'} matched in a reconciliation; unmatch them first`
+      }, 400);
+    }
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      tx.add('DELETE FROM bank_statement_lines WHERE import_id = ?', [importId]);
+      tx.delete('bank_statement_imports', importId);
+      tx.audit('bank_statement_imports', importId, 'delete', currentUser.userId, statementImport);
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Statement import deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete bank statement import error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete statement import'
+    }, 500);
+  }
+});
+
+// Get staged statement lines (paginated; filter by from, to, import_id and status matched/unmatched)
+bankAccounts.get('/:id/statement-lines', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '50');
+    const from = c.req.query('from');
+    const to = c.req.query('to');
+    const importId = c.req.query('import_id');
+    const status = c.req.query('status');
+
+    if ((from && !LedgerUtils.isValidDate(from)) || (to && !LedgerUtils.isValidDate(to))) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dates must be in YYYY-MM-DD format'
+      }, 400);
+    }
+
+    if (status && status !== 'matched' && status !== 'unmatched') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Status must be matched or unmatched'
+      }, 400);
+    }
+
+    let whereClause = 'WHERE sl.bank_account_id = ?';
+    const params: any[] = [id];
+
+    if (from) {
+      whereClause += ' AND sl.transaction_date >= ?';
+      params.push(from);
+    }
+
+    if (to) {
+      whereClause += ' AND sl.transaction_date <= ?';
+      params.push(to);
+    }
+
+    if (importId) {
+      whereClause += ' AND sl.import_id = ?';
+      params.push(importId);
+    }
+
+    if (status) {
+      whereClause += status === 'matched' ? ' AND ms.match_id IS NOT NULL' : ' AND ms.match_id IS NULL';
+    }
+
+    const fromClause = `FROM bank_statement_lines sl
+      LEFT JOIN bank_match_statement_lines ms ON ms.statement_line_id = sl.id`;
+
+    const result = await DatabaseUtils.paginate<BankStatementLine>(
+      c.env.DB,
+      `SELECT sl.*, ms.match_id ${fromClause} ${whereClause} ORDER BY sl.transaction_date ASC, sl.created_at ASC, sl.id ASC`,
+      `SELECT COUNT(*) as count ${fromClause} ${whereClause}`,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<BankStatementLine>>({
+      success: true,
+      data: result.results,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get bank statement lines error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch bank statement lines'
+    }, 500);
+  }
+});
+
+// Create bank account
+bankAccounts.post('/', requireRole('manager'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const bankAccountData = CreateBankAccountSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const ledgerError = await BankAccountUtils.validateLedgerAccount(c.env.DB, bankAccountData.account_id);
+    if (ledgerError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: ledgerError
+      }, 400);
+    }
+
+    if (bankAccountData.csv_profile_id && !await findCsvProfile(c.env.DB, bankAccountData.csv_profile_id)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'CSV profile not found'
+      }, 400);
+    }
+
+    const currency = bankAccountData.currency || (await SettingsUtils.getCompanySettings(c.env.DB)).base_currency;
+
+    const createdBankAccount = await DatabaseUtils.insertRecord<BankAccount>(
+      c.env.DB,
+      'bank_accounts',
+      {
+        id: DatabaseUtils.generateId('bank'),
+        ...bankAccountData,
+        currency,
+        routing_number: bankAccountData.routing_number || null,
+        csv_profile_id: bankAccountData.csv_profile_id || null,
+        is_active: true,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'bank_accounts',
+      createdBankAccount.id,
+      'create',
+      currentUser.userId,
+      undefined,
+      createdBankAccount
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: await BankAccountUtils.get(c.env.DB, createdBankAccount.id),
+      message: 'Bank account created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create bank account error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create bank account'
+    }, 500);
+  }
+});
+
+// Update bank account. The ledger account and the currency can only change while the current
+// ledger account has no postings, as the history would otherwise stay behind on the old account
+// or be read in the wrong currency.
+bankAccounts.put('/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const updateData = UpdateBankAccountSchema.parse(body);
+    const currentUser = c.get('user');
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    const oldBankAccount = await DatabaseUtils.executeQueryFirst<BankAccount>(
+      c.env.DB,
+      'SELECT * FROM bank_accounts WHERE id = ?',
+      [id]
+    );
+
+    if (!oldBankAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account not found'
+      }, 404);
+    }
+
+    if (updateData.account_id && updateData.account_id !== oldBankAccount.account_id) {
+      const ledgerError = await BankAccountUtils.validateLedgerAccount(c.env.DB, updateData.account_id, id);
+      if (ledgerError) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: ledgerError
+        }, 400);
+      }
+
+      if (oldBankAccount.account_id && await AccountUtils.hasPostedLines(c.env.DB, oldBankAccount.account_id)) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'Cannot change the ledger account of a bank account that has posted transactions'
+        }, 400);
+      }
+    }
+
+    if (updateData.currency && updateData.currency !== oldBankAccount.currency
+      && oldBankAccount.account_id && await AccountUtils.hasPostedLines(c.env.DB, oldBankAccount.account_id)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Cannot change the currency of a bank account that has posted transactions'
+      }, 400);
+    }
+
+    if (updateData.csv_profile_id && !await findCsvProfile(c.env.DB, updateData.csv_profile_id)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'CSV profile not found'
+      }, 400);
+    }
+
+    const updatedBankAccount = await DatabaseUtils.updateRecord<BankAccount>(
+      c.env.DB,
+      'bank_accounts',
+      id,
+      updateData
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'bank_accounts',
+      id,
+      'update',
+      currentUser.userId,
+      oldBankAccount,
+      updatedBankAccount
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: await BankAccountUtils.get(c.env.DB, id),
+      message: 'Bank account updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update bank account error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update bank account'
+    }, 500);
+  }
+});
+
+// Deactivate bank account (soft delete); only once its balance is zero
+bankAccounts.delete('/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    const bankAccount = await BankAccountUtils.get(c.env.DB, id);
+
+    if (!bankAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account not found'
+      }, 404);
+    }
+
+    if (!bankAccount.is_active) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account is already inactive'
+      }, 400);
+    }
+
+    if (bankAccount.balance !== 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Cannot deactivate a bank account with a balance; transfer it out first'
+      }, 400);
+    }
+
+    await DatabaseUtils.updateRecord(
+      c.env.DB,
+      'bank_accounts',
+      id,
+      { is_active: false }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'bank_accounts',
+      id,
+      'delete',
+      currentUser.userId,
+      bankAccount,
+      { is_active: false }
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Bank account deactivated successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete bank account error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to deactivate bank account'
+    }, 500);
+  }
+});
+
+export default bankAccounts;
\ No newline at end of file
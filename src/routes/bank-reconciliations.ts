@@ -0,0 +1,915 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, BankAccount, BankReconciliation, BankMatch, BankStatementLine, ApiResponse, PaginatedResponse } from '../types';
+import {
+  CreateBankReconciliationSchema,
+  UpdateBankReconciliationSchema,
+  CreateBankMatchSchema,
+  CreateStatementLineEntrySchema
+} from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { AutoJournalUtils } from '../utils/auto-journal';
+import { CurrencyUtils } from '../utils/currency';
+import { PostingError } from '../utils/journal';
+import { LedgerUtils } from '../utils/ledger';
+import { SettingsUtils } from '../utils/settings';
+import { BankReconciliationUtils, DEFAULT_MATCH_WINDOW_DAYS, MAX_MATCH_WINDOW_DAYS } from '../utils/bank-reconciliation';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const reconciliations = new Hono<{ Bindings: Env }>();
+
+// All reconciliation routes require authentication
+reconciliations.use('*', authMiddleware);
+
+async function loadReconciliation(db: D1Database, id: string): Promise<{ reconciliation: BankReconciliation; bankAccount: BankAccount } | null> {
+  const reconciliation = await DatabaseUtils.executeQueryFirst<BankReconciliation>(
+    db,
+    'SELECT * FROM bank_reconciliations WHERE id = ?',
+    [id]
+  );
+
+  if (!reconciliation) {
+    return null;
+  }
+
+  const bankAccount = await DatabaseUtils.executeQueryFirst<BankAccount>(
+    db,
+    'SELECT * FROM bank_accounts WHERE id = ?',
+    [reconciliation.bank_account_id]
+  );
+
+  return bankAccount ? { reconciliation, bankAccount } : null;
+}
+
+// A new statement date has to follow the last completed reconciliation of the account
+async function findLaterCompleted(db: D1Database, bankAccountId: string, statementDate: string): Promise<BankReconciliation | null> {
+  return await DatabaseUtils.executeQueryFirst<BankReconciliation>(
+    db,
+    `SELECT * FROM bank_reconciliations
+    WHERE bank_account_id = ? AND status = 'completed' AND statement_date >= ?
+    ORDER BY statement_date DESC LIMIT 1`,
+    [bankAccountId, statementDate]
+  );
+}
+
+function parseWindowDays(value: string | undefined): number | null {
+  const windowDays = value === undefined ? DEFAULT_MATCH_WINDOW_DAYS : Number(value);
+  return Number.isInteger(windowDays) && windowDays >= 0 && windowDays <= MAX_MATCH_WINDOW_DAYS ? windowDays : null;
+}
+
+const lockedResponse = {
+  success: false,
+  error: 'Reconciliation is completed and locked'
+};
+
+// Get reconciliations (paginated, newest statement first; filter by bank_account_id and status)
+reconciliations.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const bankAccountId = c.req.query('bank_account_id');
+    const status = c.req.query('status');
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (bankAccountId) {
+      whereClause += ' AND r.bank_account_id = ?';
+      params.push(bankAccountId);
+    }
+
+    if (status) {
+      whereClause += ' AND r.status = ?';
+      params.push(status);
+    }
+
+    const baseQuery = `
+      SELECT r.id, r.bank_account_id, r.statement_date, r.statement_balance, r.status, r.book_balance,
+        r.created_by, r.completed_by, r.completed_at, r.created_at, r.updated_at,
+        ba.account_name as bank_account_name
+      FROM bank_reconciliations r
+      JOIN bank_accounts ba ON r.bank_account_id = ba.id
+      ${whereClause}
+      ORDER BY r.statement_date DESC, r.created_at DESC
+    `;
+
+    const countQuery = `SELECT COUNT(*) as count FROM bank_reconciliations r ${whereClause}`;
+
+    const result = await DatabaseUtils.paginate<BankReconciliation>(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<BankReconciliation>>({
+      success: true,
+      data: result.results,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get reconciliations error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch reconciliations'
+    }, 500);
+  }
+});
+
+// Start reconciling a bank statement; one reconciliation per bank account can be in progress
+reconciliations.post('/', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const reconciliationData = CreateBankReconciliationSchema.parse(body);
+    const currentUser = c.get('user');
+
+    if (!LedgerUtils.isValidDate(reconciliationData.statement_date)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Statement date must be a valid date'
+      }, 400);
+    }
+
+    const bankAccount = await DatabaseUtils.executeQueryFirst<BankAccount>(
+      c.env.DB,
+      'SELECT * FROM bank_accounts WHERE id = ?',
+      [reconciliationData.bank_account_id]
+    );
+
+    if (!bankAccount || !bankAccount.is_active) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account not found or inactive'
+      }, 400);
+    }
+
+    if (!bankAccount.account_id) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Bank account ${bankAccount.account_name} is not linked to a ledger account`
+      }, 400);
+    }
+
+    const later = await findLaterCompleted(c.env.DB, bankAccount.id, reconciliationData.statement_date);
+    if (later) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `The statement of ${later.statement_date} is already reconciled; reconcile a later statement`
+      }, 400);
+    }
+
+    const reconciliation = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const inProgress = await DatabaseUtils.executeQueryFirst(
+        c.env.DB,
+        "SELECT id FROM bank_reconciliations WHERE bank_account_id = ? AND status = 'in_progress'",
+        [bankAccount.id]
+      );
+
+      if (inProgress) {
+        return null;
+      }
+
+      // The partial unique index turns a concurrent start into a retry that finds this one
+      tx.contend('bank_reconciliations');
+
+      const created = tx.insert<BankReconciliation>('bank_reconciliations', {
+        id: DatabaseUtils.generateId('rec'),
+        ...reconciliationData,
+        status: 'in_progress',
+        created_by: currentUser.userId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      });
+
+      tx.audit('bank_reconciliations', created.id, 'create', currentUser.userId, undefined, created);
+
+      return created;
+    });
+
+    if (!reconciliation) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `A reconciliation of ${bankAccount.account_name} is already in progress`
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...reconciliation,
+        report: await BankReconciliationUtils.getReport(c.env.DB, reconciliation, bankAccount)
+      },
+      message: 'Reconciliation started successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create reconciliation error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to start reconciliation'
+    }, 500);
+  }
+});
+
+// Reconciliation workspace: the report with its open items, and the matches made so far
+reconciliations.get('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    const { reconciliation, bankAccount } = loaded;
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...reconciliation,
+        report: await BankReconciliationUtils.getReport(c.env.DB, reconciliation, bankAccount),
+        matches: await BankReconciliationUtils.getMatches(c.env.DB, reconciliation.id)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get reconciliation error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch reconciliation'
+    }, 500);
+  }
+});
+
+// Correct the statement date or balance while in progress. The date cannot move before lines
+// that are already matched.
+reconciliations.put('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const updateData = UpdateBankReconciliationSchema.parse(body);
+    const currentUser = c.get('user');
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    const { reconciliation, bankAccount } = loaded;
+
+    if (reconciliation.status === 'completed') {
+      return c.json<ApiResponse>(lockedResponse, 400);
+    }
+
+    if (updateData.statement_date && updateData.statement_date !== reconciliation.statement_date) {
+      if (!LedgerUtils.isValidDate(updateData.statement_date)) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'Statement date must be a valid date'
+        }, 400);
+      }
+
+      const later = await findLaterCompleted(c.env.DB, bankAccount.id, updateData.statement_date);
+      if (later) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: `The statement of ${later.statement_date} is already reconciled; reconcile a later statement`
+        }, 400);
+      }
+
+      const latestMatched = await DatabaseUtils.executeQueryFirst<{ latest: string | null }>(
+        c.env.DB,
+        `SELECT MAX(date) as latest FROM (
+          SELECT sl.transaction_date as date FROM bank_statement_lines sl
+          JOIN bank_match_statement_lines ms ON ms.statement_line_id = sl.id
+          JOIN bank_matches m ON ms.match_id = m.id
+          WHERE m.reconciliation_id = ?1
+          UNION ALL
+          SELECT je.entry_date FROM journal_entry_lines jel
+          JOIN journal_entries je ON jel.journal_entry_id = je.id
+          JOIN bank_match_journal_lines mj ON mj.journal_entry_line_id = jel.id
+          JOIN bank_matches m ON mj.match_id = m.id
+          WHERE m.reconciliation_id = ?1
+        )`,
+        [reconciliation.id]
+      );
+
+      if (latestMatched?.latest && latestMatched.latest > updateData.statement_date) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: `Lines dated up to ${latestMatched.latest} are already matched; unmatch them before moving the statement date earlier`
+        }, 400);
+      }
+    }
+
+    const updatedReconciliation = await DatabaseUtils.updateRecord<BankReconciliation>(
+      c.env.DB,
+      'bank_reconciliations',
+      reconciliation.id,
+      updateData
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'bank_reconciliations',
+      reconciliation.id,
+      'update',
+      currentUser.userId,
+      reconciliation,
+      updatedReconciliation
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...updatedReconciliation,
+        report: await BankReconciliationUtils.getReport(c.env.DB, updatedReconciliation, bankAccount)
+      },
+      message: 'Reconciliation updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update reconciliation error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update reconciliation'
+    }, 500);
+  }
+});
+
+// Discard a reconciliation in progress and its matches. Entries booked from statement lines
+// stay on the books; their lines are open again for the next reconciliation.
+reconciliations.delete('/:id', requireRole('manager'), async (c) => {
+  try {
+    const currentUser = c.get('user');
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    const { reconciliation } = loaded;
+
+    if (reconciliation.status === 'completed') {
+      return c.json<ApiResponse>(lockedResponse, 400);
+    }
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      tx.add(
+        'DELETE FROM bank_match_statement_lines WHERE match_id IN (SELECT id FROM bank_matches WHERE reconciliation_id = ?)',
+        [reconciliation.id]
+      );
+      tx.add(
+        'DELETE FROM bank_match_journal_lines WHERE match_id IN (SELECT id FROM bank_matches WHERE reconciliation_id = ?)',
+        [reconciliation.id]
+      );
+      tx.add('DELETE FROM bank_matches WHERE reconciliation_id = ?', [reconciliation.id]);
+      tx.delete('bank_reconciliations', reconciliation.id);
+      tx.audit('bank_reconciliations', reconciliation.id, 'delete', currentUser.userId, reconciliation);
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Reconciliation discarded successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete reconciliation error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to discard reconciliation'
+    }, 500);
+  }
+});
+
+// Reconciliation report: statement balance vs book balance with the outstanding items between them
+reconciliations.get('/:id/report', requireRole('accountant'), async (c) => {
+  try {
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: await BankReconciliationUtils.getReport(c.env.DB, loaded.reconciliation, loaded.bankAccount)
+    });
+
+  } catch (error) {
+    console.error('Get reconciliation report error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch reconciliation report'
+    }, 500);
+  }
+});
+
+// Suggested matches for the open items (window_days: how far apart dates may be, default 5)
+reconciliations.get('/:id/suggestions', requireRole('accountant'), async (c) => {
+  try {
+    const windowDays = parseWindowDays(c.req.query('window_days'));
+
+    if (windowDays === null) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `window_days must be a whole number from 0 to ${MAX_MATCH_WINDOW_DAYS}`
+      }, 400);
+    }
+
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    const { reconciliation, bankAccount } = loaded;
+
+    if (reconciliation.status === 'completed') {
+      return c.json<ApiResponse>({
+        success: true,
+        data: []
+      });
+    }
+
+    const items = await BankReconciliationUtils.getOpenItems(c.env.DB, reconciliation, bankAccount.account_id!);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: BankReconciliationUtils.suggest(items, windowDays)
+    });
+
+  } catch (error) {
+    console.error('Get match suggestions error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch match suggestions'
+    }, 500);
+  }
+});
+
+// Apply every high-confidence suggestion
+reconciliations.post('/:id/auto-match', requireRole('accountant'), async (c) => {
+  try {
+    const windowDays = parseWindowDays(c.req.query('window_days'));
+    const currentUser = c.get('user');
+
+    if (windowDays === null) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `window_days must be a whole number from 0 to ${MAX_MATCH_WINDOW_DAYS}`
+      }, 400);
+    }
+
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    const { reconciliation, bankAccount } = loaded;
+
+    if (reconciliation.status === 'completed') {
+      return c.json<ApiResponse>(lockedResponse, 400);
+    }
+
+    const matches = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      if (!await BankReconciliationUtils.guardInProgress(tx, reconciliation.id)) {
+        return null;
+      }
+
+      const items = await BankReconciliationUtils.getOpenItems(c.env.DB, reconciliation, bankAccount.account_id!);
+      const suggestions = BankReconciliationUtils.suggest(items, windowDays)
+        .filter(suggestion => suggestion.confidence === 'high');
+
+      return suggestions.map(suggestion => BankReconciliationUtils.addMatch(
+        tx,
+        reconciliation,
+        items,
+        suggestion.statement_line_ids,
+        suggestion.journal_line_ids,
+        'auto',
+        currentUser.userId
+      ));
+    });
+
+    if (!matches) {
+      return c.json<ApiResponse>(lockedResponse, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: matches,
+      message: `Matched ${matches.length} item${matches.length === 1 ? '' : 's'} automatically`
+    });
+
+  } catch (error) {
+    console.error('Auto-match error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to auto-match'
+    }, 500);
+  }
+});
+
+// Match statement lines to journal lines on the bank's ledger account: one to one, one to many
+// or many to one, as long as both sides add up to the same amount
+reconciliations.post('/:id/matches', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const matchData = CreateBankMatchSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    const { reconciliation, bankAccount } = loaded;
+
+    if (reconciliation.status === 'completed') {
+      return c.json<ApiResponse>(lockedResponse, 400);
+    }
+
+    const historyStart = await BankReconciliationUtils.getHistoryStart(c.env.DB, bankAccount.id);
+
+    const result = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      if (!await BankReconciliationUtils.guardInProgress(tx, reconciliation.id)) {
+        return { error: lockedResponse.error };
+      }
+
+      const items = await BankReconciliationUtils.getOpenItems(c.env.DB, reconciliation, bankAccount.account_id!);
+      const matchError = BankReconciliationUtils.validateMatch(
+        items,
+        matchData.statement_line_ids,
+        matchData.journal_line_ids,
+        historyStart
+      );
+
+      if (matchError) {
+        return { error: matchError };
+      }
+
+      const match = BankReconciliationUtils.addMatch(
+        tx,
+        reconciliation,
+        items,
+        matchData.statement_line_ids,
+        matchData.journal_line_ids,
+        'manual',
+        currentUser.userId
+      );
+
+      return { match };
+    });
+
+    if ('error' in result) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: result.error
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result.match,
+      message: 'Lines matched successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create match error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to match lines'
+    }, 500);
+  }
+});
+
+// Undo a match. An entry booked from the statement line is reversed, so the line is open again.
+reconciliations.delete('/:id/matches/:matchId', requireRole('accountant'), async (c) => {
+  try {
+    const matchId = c.req.param('matchId');
+    const currentUser = c.get('user');
+
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    const { reconciliation } = loaded;
+
+    const match = await DatabaseUtils.executeQueryFirst<BankMatch>(
+      c.env.DB,
+      'SELECT * FROM bank_matches WHERE id = ? AND reconciliation_id = ?',
+      [matchId, reconciliation.id]
+    );
+
+    if (!match) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Match not found'
+      }, 404);
+    }
+
+    if (reconciliation.status === 'completed') {
+      return c.json<ApiResponse>(lockedResponse, 400);
+    }
+
+    const bookedLine = match.method === 'created'
+      ? await DatabaseUtils.executeQueryFirst<BankStatementLine>(
+        c.env.DB,
+        `SELECT sl.* FROM bank_statement_lines sl
+        JOIN bank_match_statement_lines ms ON ms.statement_line_id = sl.id
+        WHERE ms.match_id = ?`,
+        [matchId]
+      )
+      : null;
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      if (bookedLine) {
+        await AutoJournalUtils.reverseStatementLine(tx, bookedLine, currentUser.userId);
+      }
+
+      tx.add('DELETE FROM bank_match_statement_lines WHERE match_id = ?', [matchId]);
+      tx.add('DELETE FROM bank_match_journal_lines WHERE match_id = ?', [matchId]);
+      tx.delete('bank_matches', matchId);
+      tx.audit('bank_matches', matchId, 'delete', currentUser.userId, match);
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Match removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete match error:', error);
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to remove match'
+    }, 500);
+  }
+});
+
+// Book a statement line that is missing from the books, such as a bank fee, interest or a
+// receipt nobody recorded, against the given account, and match the line to the new entry
+reconciliations.post('/:id/statement-lines/:lineId/entry', requireRole('accountant'), async (c) => {
+  try {
+    const lineId = c.req.param('lineId');
+    const body = await c.req.json();
+    const entryData = CreateStatementLineEntrySchema.parse(body);
+    const currentUser = c.get('user');
+
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    const { reconciliation, bankAccount } = loaded;
+    const ledgerAccountId = bankAccount.account_id!;
+
+    if (reconciliation.status === 'completed') {
+      return c.json<ApiResponse>(lockedResponse, 400);
+    }
+
+    if (entryData.account_id === ledgerAccountId) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Choose the account on the other side of the bank movement, not the bank\'s own ledger account'
+      }, 400);
+    }
+
+    const result = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const items = await BankReconciliationUtils.getOpenItems(c.env.DB, reconciliation, ledgerAccountId);
+      const line = items.statement_lines.find(statementLine => statementLine.id === lineId);
+
+      if (!line) {
+        return null;
+      }
+
+      const rate = await CurrencyUtils.resolveRate(
+        c.env.DB,
+        bankAccount.currency,
+        line.transaction_date,
+        undefined,
+        await SettingsUtils.getBaseCurrency(c.env.DB)
+      );
+
+      if (typeof rate === 'string') {
+        throw new PostingError(rate);
+      }
+
+      const entry = await AutoJournalUtils.postStatementLine(
+        tx,
+        line,
+        ledgerAccountId,
+        entryData.account_id,
+        entryData.description || line.description,
+        rate,
+        currentUser.userId
+      );
+
+      const match = BankReconciliationUtils.addEntryMatch(tx, reconciliation, line, entry.id, ledgerAccountId, currentUser.userId);
+
+      return { journal_entry: entry, match };
+    });
+
+    if (!result) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Statement line not found, already matched or dated after the statement date'
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+      message: `Journal entry ${result.journal_entry.entry_number} booked and matched`
+    }, 201);
+
+  } catch (error) {
+    console.error('Book statement line error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to book statement line'
+    }, 500);
+  }
+});
+
+// Complete the reconciliation once every statement line is matched and nothing is left
+// unexplained. The report is frozen and the matches can no longer be undone.
+reconciliations.post('/:id/complete', requireRole('manager'), async (c) => {
+  try {
+    const currentUser = c.get('user');
+    const loaded = await loadReconciliation(c.env.DB, c.req.param('id'));
+
+    if (!loaded) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation not found'
+      }, 404);
+    }
+
+    const { reconciliation, bankAccount } = loaded;
+
+    if (reconciliation.status === 'completed') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation is already completed'
+      }, 400);
+    }
+
+    const report = await BankReconciliationUtils.getReport(c.env.DB, reconciliation, bankAccount);
+
+    if (report.unrecorded_items.length > 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `${report.unrecorded_items.length} statement line${report.unrecorded_items.length === 1 ? ' is' : 's are'} not matched; match them or book the missing entries`,
+        data: report
+      }, 400);
+    }
+
+    if (report.difference !== 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `The statement balance and the books are ${Math.abs(report.difference).toFixed(2)} apart`,
+        data: report
+      }, 400);
+    }
+
+    const completedAt = new Date().toISOString();
+    const completedReport = { ...report, status: 'completed' as const, completed_by: currentUser.userId, completed_at: completedAt };
+    const completion = {
+      status: 'completed',
+      book_balance: report.book_balance,
+      report: JSON.stringify(completedReport),
+      completed_by: currentUser.userId,
+      completed_at: completedAt
+    };
+
+    const completed = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      if (!await BankReconciliationUtils.guardInProgress(tx, reconciliation.id)) {
+        return false;
+      }
+
+      tx.update('bank_reconciliations', reconciliation.id, completion);
+      tx.audit(
+        'bank_reconciliations',
+        reconciliation.id,
+        'update',
+        currentUser.userId,
+        { status: reconciliation.status },
+        { status: completion.status, book_balance: completion.book_balance, statement_balance: reconciliation.statement_balance }
+      );
+
+      return true;
+    });
+
+    if (!completed) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Reconciliation is already completed'
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: completedReport,
+      message: 'Reconciliation completed successfully'
+    });
+
+  } catch (error) {
+    console.error('Complete reconciliation error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to complete reconciliation'
+    }, 500);
+  }
+});
+
+export default reconciliations;
\ No newline at end of file
@@ -0,0 +1,448 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, Bill, ApiResponse, PaginatedResponse } from '../types';
+import { CreateBillSchema, BillStatus } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { JournalUtils, PostingError } from '../utils/journal';
+import { AutoJournalUtils } from '../utils/auto-journal';
+import { AgingUtils } from '../utils/aging';
+import { CurrencyUtils } from '../utils/currency';
+import { LedgerUtils } from '../utils/ledger';
+import { PayablesUtils } from '../utils/payables';
+import { SequenceUtils } from '../utils/sequences';
+import { SettingsUtils } from '../utils/settings';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const bills = new Hono<{ Bindings: Env }>();
+
+// All bill routes require authentication
+bills.use('*', authMiddleware);
+
+// Get all bills
+bills.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const search = c.req.query('search') || '';
+    const status = c.req.query('status') || '';
+    const vendorId = c.req.query('vendor_id') || '';
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (search) {
+      whereClause += ' AND (b.bill_number LIKE ? OR v.company_name LIKE ? OR v.vendor_code LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm, searchTerm);
+    }
+
+    if (status && BillStatus.includes(status as any)) {
+      whereClause += ' AND b.status = ?';
+      params.push(status);
+    }
+
+    if (vendorId) {
+      whereClause += ' AND b.vendor_id = ?';
+      params.push(vendorId);
+    }
+
+    const baseQuery = `
+      SELECT b.*,
+        v.company_name as vendor_name, v.vendor_code
+      FROM bills b
+      JOIN vendors v ON b.vendor_id = v.id
+      ${whereClause}
+      ORDER BY b.bill_date DESC, b.created_at DESC
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as count
+      FROM bills b
+      JOIN vendors v ON b.vendor_id = v.id
+      ${whereClause}
+    `;
+
+    const result = await DatabaseUtils.paginate<Bill & {
+      vendor_name: string;
+      vendor_code: string;
+    }>(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<Bill>>({
+      success: true,
+      data: result.results as any,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get bills error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch bills'
+    }, 500);
+  }
+});
+
+// Accounts payable aging, grouped by vendor. Balances are as they stood at the end of as_of and
+// are in the base currency at the rates the bills were booked at.
+bills.get('/reports/aging', requireRole('accountant'), async (c) => {
+  try {
+    const asOf = c.req.query('as_of') || DatabaseUtils.formatDate(new Date());
+
+    if (!LedgerUtils.isValidDate(asOf)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dates must be in YYYY-MM-DD format'
+      }, 400);
+    }
+
+    const openBills = await PayablesUtils.openBillsAsOf(c.env.DB, asOf);
+
+    const aging = AgingUtils.summarize(
+      openBills.map(bill => ({
+        party_id: bill.vendor_id,
+        party_name: bill.vendor_name,
+        due_date: bill.due_date,
+        balance_due: bill.base_balance_due
+      })),
+      asOf
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        as_of: asOf,
+        ...aging
+      }
+    });
+
+  } catch (error) {
+    console.error('Get AP aging error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to generate AP aging report'
+    }, 500);
+  }
+});
+
+// Get bill by ID
+bills.get('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    const bill = await DatabaseUtils.executeQueryFirst<Bill & {
+      vendor_name: string;
+      vendor_code: string;
+      journal_entry_id: string | null;
+    }>(
+      c.env.DB,
+      `SELECT b.*,
+        v.company_name as vendor_name, v.vendor_code,
+        (SELECT je.id FROM journal_entries je
+          WHERE je.source_type = 'bill' AND je.source_id = b.id AND je.reversal_of_id IS NULL
+          ORDER BY je.created_at DESC LIMIT 1) as journal_entry_id
+      FROM bills b
+      JOIN vendors v ON b.vendor_id = v.id
+      WHERE b.id = ?`,
+      [id]
+    );
+
+    if (!bill) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bill not found'
+      }, 404);
+    }
+
+    const lineItems = await DatabaseUtils.executeQuery(
+      c.env.DB,
+      `SELECT bli.*, coa.account_code, coa.account_name
+      FROM bill_line_items bli
+      LEFT JOIN chart_of_accounts coa ON bli.account_id = coa.id
+      WHERE bli.bill_id = ?
+      ORDER BY bli.created_at ASC`,
+      [id]
+    );
+
+    const payments = await DatabaseUtils.executeQuery(
+      c.env.DB,
+      `SELECT pa.id, pa.payment_id, pa.applied_amount, p.payment_number, p.payment_date, p.payment_method
+      FROM payment_applications pa
+      JOIN payments p ON pa.payment_id = p.id
+      WHERE pa.bill_id = ?
+      ORDER BY p.payment_date ASC`,
+      [id]
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...bill,
+        line_items: lineItems.results,
+        payments: payments.results
+      }
+    });
+
+  } catch (error) {
+    console.error('Get bill error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch bill'
+    }, 500);
+  }
+});
+
+// Create bill and post it to accounts payable
+bills.post('/', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const billData = CreateBillSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const vendor = await DatabaseUtils.executeQueryFirst<{ is_active: number }>(
+      c.env.DB,
+      'SELECT is_active FROM vendors WHERE id = ?',
+      [billData.vendor_id]
+    );
+
+    if (!vendor) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Vendor not found'
+      }, 404);
+    }
+
+    if (!vendor.is_active) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Cannot create bills for an inactive vendor'
+      }, 400);
+    }
+
+    // Every line must be coded to an active expense account
+    const accountIds = [...new Set(billData.line_items.map(item => item.account_id))];
+    const placeholders = accountIds.map(() => '?').join(', ');
+    const accounts = await DatabaseUtils.executeQuery<{ id: string }>(
+      c.env.DB,
+      `SELECT id FROM chart_of_accounts WHERE id IN (${placeholders}) AND account_type = 'expense' AND is_active = 1`,
+      accountIds
+    );
+
+    if (accounts.results.length !== accountIds.length) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Line items must be coded to active expense accounts'
+      }, 400);
+    }
+
+    // Vendor-supplied bill numbers are kept as given; otherwise one is allocated on commit
+    if (billData.bill_number) {
+      const existingBill = await DatabaseUtils.executeQueryFirst(
+        c.env.DB,
+        'SELECT id FROM bills WHERE bill_number = ?',
+        [billData.bill_number]
+      );
+
+      if (existingBill) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'Bill with this number already exists'
+        }, 400);
+      }
+    }
+
+    // Calculate totals from line items in cents so the AP credit matches the expense debits
+    const lineTotals = billData.line_items.map(item =>
+      JournalUtils.toCents(item.quantity * item.unit_price)
+    );
+    const subtotalCents = lineTotals.reduce((sum, cents) => sum + cents, 0);
+
+    if (subtotalCents <= 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bill total must be greater than zero'
+      }, 400);
+    }
+
+    const baseCurrency = await SettingsUtils.getBaseCurrency(c.env.DB);
+    const rate = await CurrencyUtils.resolveRate(
+      c.env.DB,
+      billData.currency || baseCurrency,
+      billData.bill_date,
+      billData.exchange_rate,
+      baseCurrency
+    );
+
+    if (typeof rate === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: rate
+      }, 400);
+    }
+
+    const createdBill = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const newBill = {
+        id: DatabaseUtils.generateId('bill'),
+        bill_number: billData.bill_number || await SequenceUtils.next(tx, 'bill', billData.bill_date),
+        vendor_id: billData.vendor_id,
+        bill_date: billData.bill_date,
+        due_date: billData.due_date,
+        subtotal: JournalUtils.fromCents(subtotalCents),
+        tax_amount: 0,
+        total_amount: JournalUtils.fromCents(subtotalCents),
+        paid_amount: 0,
+        balance_due: JournalUtils.fromCents(subtotalCents),
+        currency: rate.currency,
+        exchange_rate: rate.exchange_rate,
+        status: 'open' as const,
+        notes: billData.notes || null,
+        created_by: currentUser.userId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+
+      const bill = tx.insert<Bill>('bills', newBill);
+
+      const lineItems = billData.line_items.map((lineItem, index) => tx.insert<{ account_id: string; line_total: number }>(
+        'bill_line_items',
+        {
+          id: DatabaseUtils.generateId('billi'),
+          bill_id: bill.id,
+          item_description: lineItem.item_description,
+          quantity: lineItem.quantity,
+          unit_price: lineItem.unit_price,
+          line_total: JournalUtils.fromCents(lineTotals[index]),
+          account_id: lineItem.account_id,
+          created_at: new Date().toISOString()
+        }
+      ));
+
+      // The line items are not committed yet, so hand them to the posting directly
+      await AutoJournalUtils.postBill(tx, bill, currentUser.userId, lineItems);
+
+      // Log audit
+      tx.audit(
+        'bills',
+        bill.id,
+        'create',
+        currentUser.userId,
+        undefined,
+        bill
+      );
+
+      return bill;
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdBill,
+      message: 'Bill created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create bill error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create bill'
+    }, 500);
+  }
+});
+
+// Void bill
+bills.delete('/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    const billToVoid = await DatabaseUtils.executeQueryFirst<Bill>(
+      c.env.DB,
+      'SELECT * FROM bills WHERE id = ?',
+      [id]
+    );
+
+    if (!billToVoid) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bill not found'
+      }, 404);
+    }
+
+    if (billToVoid.status === 'void') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bill is already void'
+      }, 400);
+    }
+
+    const payments = await DatabaseUtils.executeQueryFirst<{ count: number }>(
+      c.env.DB,
+      'SELECT COUNT(*) as count FROM payment_applications WHERE bill_id = ?',
+      [id]
+    );
+
+    if (payments && payments.count > 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Cannot void bill with payments applied'
+      }, 400);
+    }
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      await AutoJournalUtils.reverseBill(tx, billToVoid, currentUser.userId);
+
+      tx.update('bills', id, { status: 'void', balance_due: 0 });
+
+      // Log audit
+      tx.audit(
+        'bills',
+        id,
+        'delete',
+        currentUser.userId,
+        billToVoid,
+        { status: 'void', balance_due: 0 }
+      );
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Bill voided successfully'
+    });
+
+  } catch (error) {
+    console.error('Void bill error:', error);
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to void bill'
+    }, 500);
+  }
+});
+
+export default bills;
\ No newline at end of file
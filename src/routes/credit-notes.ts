@@ -0,0 +1,538 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, CreditNote, CreditNoteApplication, Invoice, ApiResponse, PaginatedResponse } from '../types';
+import { CreateCreditNoteSchema, ApplyPaymentSchema, CreditNoteStatus } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { JournalUtils, PostingError } from '../utils/journal';
+import { AutoJournalUtils } from '../utils/auto-journal';
+import { PaymentUtils } from '../utils/payments';
+import { CreditNoteUtils } from '../utils/credit-notes';
+import { SequenceUtils } from '../utils/sequences';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const creditNotes = new Hono<{ Bindings: Env }>();
+
+// All credit note routes require authentication
+creditNotes.use('*', authMiddleware);
+
+// Get all credit notes
+creditNotes.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const status = c.req.query('status') || '';
+    const customerId = c.req.query('customer_id') || '';
+    const invoiceId = c.req.query('invoice_id') || '';
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (status && CreditNoteStatus.includes(status as any)) {
+      whereClause += ' AND cn.status = ?';
+      params.push(status);
+    }
+
+    if (customerId) {
+      whereClause += ' AND cn.customer_id = ?';
+      params.push(customerId);
+    }
+
+    if (invoiceId) {
+      whereClause += ' AND cn.invoice_id = ?';
+      params.push(invoiceId);
+    }
+
+    const baseQuery = `
+      SELECT cn.*,
+        i.invoice_number,
+        c.company_name, c.first_name, c.last_name
+      FROM credit_notes cn
+      JOIN invoices i ON cn.invoice_id = i.id
+      JOIN customers c ON cn.customer_id = c.id
+      ${whereClause}
+      ORDER BY cn.credit_date DESC, cn.created_at DESC
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as count
+      FROM credit_notes cn
+      ${whereClause}
+    `;
+
+    const result = await DatabaseUtils.paginate<CreditNote & {
+      invoice_number: string;
+      company_name: string | null;
+      first_name: string | null;
+      last_name: string | null;
+    }>(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<CreditNote>>({
+      success: true,
+      data: result.results as any,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get credit notes error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch credit notes'
+    }, 500);
+  }
+});
+
+// Get credit note by ID with its lines and applications
+creditNotes.get('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    const creditNote = await DatabaseUtils.executeQueryFirst<CreditNote>(
+      c.env.DB,
+      `SELECT cn.*,
+        i.invoice_number,
+        c.company_name, c.first_name, c.last_name, c.email,
+        (SELECT je.id FROM journal_entries je
+          WHERE je.source_type = 'credit_note' AND je.source_id = cn.id AND je.reversal_of_id IS NULL
+          ORDER BY je.created_at DESC LIMIT 1) as journal_entry_id
+      FROM credit_notes cn
+      JOIN invoices i ON cn.invoice_id = i.id
+      JOIN customers c ON cn.customer_id = c.id
+      WHERE cn.id = ?`,
+      [id]
+    );
+
+    if (!creditNote) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Credit note not found'
+      }, 404);
+    }
+
+    const lineItems = await DatabaseUtils.executeQuery(
+      c.env.DB,
+      `SELECT cnli.*, coa.account_name
+      FROM credit_note_line_items cnli
+      LEFT JOIN chart_of_accounts coa ON cnli.account_id = coa.id
+      WHERE cnli.credit_note_id = ?
+      ORDER BY cnli.created_at ASC`,
+      [id]
+    );
+
+    const applications = await DatabaseUtils.executeQuery(
+      c.env.DB,
+      `SELECT cna.*, i.invoice_number, i.invoice_date
+      FROM credit_note_applications cna
+      JOIN invoices i ON cna.invoice_id = i.id
+      WHERE cna.credit_note_id = ?
+      ORDER BY cna.created_at ASC`,
+      [id]
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...creditNote,
+        line_items: lineItems.results,
+        applications: applications.results
+      }
+    });
+
+  } catch (error) {
+    console.error('Get credit note error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch credit note'
+    }, 500);
+  }
+});
+
+// Create a credit note against an issued invoice
+creditNotes.post('/', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const creditNoteData = CreateCreditNoteSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const invoice = await DatabaseUtils.executeQueryFirst<Invoice>(
+      c.env.DB,
+      'SELECT * FROM invoices WHERE id = ?',
+      [creditNoteData.invoice_id]
+    );
+
+    if (!invoice) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invoice not found'
+      }, 404);
+    }
+
+    if (invoice.status === 'draft' || invoice.status === 'void') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Invoice ${invoice.invoice_number} is ${invoice.status}; only issued invoices can be credited`
+      }, 400);
+    }
+
+    const createdCreditNote = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const invoiceLines = await CreditNoteUtils.getCreditableLines(tx.db, invoice.id);
+      const lineError = CreditNoteUtils.validateLineItems(invoiceLines, creditNoteData.line_items);
+      if (lineError) {
+        return lineError;
+      }
+
+      const lineItems = CreditNoteUtils.buildLineItems(invoiceLines, creditNoteData.line_items);
+      const totals = CreditNoteUtils.calculateTotals(lineItems);
+      const totalCents = totals.subtotal + totals.tax;
+
+      if (totalCents <= 0) {
+        return 'Credit note total must be greater than zero';
+      }
+
+      // Whatever the original invoice still owes is settled first; the rest is left unapplied
+      const balance = await DatabaseUtils.executeQueryFirst<{ balance_due: number }>(
+        tx.db,
+        'SELECT balance_due FROM invoices WHERE id = ?',
+        [invoice.id]
+      );
+      const appliedCents = creditNoteData.apply_to_invoice
+        ? Math.min(totalCents, Math.max(JournalUtils.toCents(balance?.balance_due || 0), 0))
+        : 0;
+
+      const creditNote = tx.insert<CreditNote>('credit_notes', {
+        id: DatabaseUtils.generateId('cn'),
+        credit_note_number: await SequenceUtils.next(tx, 'credit_note', creditNoteData.credit_date),
+        invoice_id: invoice.id,
+        customer_id: invoice.customer_id,
+        credit_date: creditNoteData.credit_date,
+        reason: creditNoteData.reason,
+        subtotal: JournalUtils.fromCents(totals.subtotal),
+        tax_amount: JournalUtils.fromCents(totals.tax),
+        total_amount: JournalUtils.fromCents(totalCents),
+        applied_amount: 0,
+        unapplied_amount: JournalUtils.fromCents(totalCents),
+        // Credited at the invoice's rate, so applying it back to the invoice settles it exactly
+        currency: invoice.currency,
+        exchange_rate: invoice.exchange_rate,
+        status: 'open',
+        created_by: currentUser.userId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      });
+
+      for (const lineItem of lineItems) {
+        tx.insert('credit_note_line_items', {
+          id: DatabaseUtils.generateId('cnli'),
+          credit_note_id: creditNote.id,
+          ...lineItem,
+          created_at: new Date().toISOString()
+        });
+      }
+
+      CreditNoteUtils.guardCreditedLines(tx, lineItems);
+
+      await AutoJournalUtils.postCreditNote(tx, creditNote, currentUser.userId, lineItems);
+
+      if (appliedCents > 0) {
+        CreditNoteUtils.insertApplications(tx, creditNote.id, [
+          { invoice_id: invoice.id, amount: JournalUtils.fromCents(appliedCents) }
+        ]);
+      }
+
+      // Log audit
+      tx.audit(
+        'credit_notes',
+        creditNote.id,
+        'create',
+        currentUser.userId,
+        undefined,
+        { ...creditNote, line_items: lineItems }
+      );
+
+      return creditNote;
+    });
+
+    if (typeof createdCreditNote === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: createdCreditNote
+      }, 400);
+    }
+
+    const creditNote = await DatabaseUtils.executeQueryFirst<CreditNote>(
+      c.env.DB,
+      'SELECT * FROM credit_notes WHERE id = ?',
+      [createdCreditNote.id]
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: creditNote,
+      message: 'Credit note created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create credit note error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create credit note'
+    }, 500);
+  }
+});
+
+// Apply the unapplied part of a credit note to other invoices of the same customer
+creditNotes.post('/:id/applications', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    const creditNote = await DatabaseUtils.executeQueryFirst<CreditNote>(
+      c.env.DB,
+      'SELECT * FROM credit_notes WHERE id = ?',
+      [id]
+    );
+
+    if (!creditNote) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Credit note not found'
+      }, 404);
+    }
+
+    if (creditNote.status === 'void') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Credit note is void'
+      }, 400);
+    }
+
+    const { applications } = ApplyPaymentSchema.parse(body);
+
+    const applicationError = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const alreadyApplied = await CreditNoteUtils.getAppliedAmount(tx.db, id);
+      const error = await PaymentUtils.validateInvoiceApplications(
+        tx.db,
+        { customer_id: creditNote.customer_id, amount: creditNote.total_amount, currency: creditNote.currency },
+        alreadyApplied,
+        applications,
+        'credit note'
+      );
+
+      if (error) {
+        return error;
+      }
+
+      for (const application of CreditNoteUtils.insertApplications(tx, id, applications)) {
+        await AutoJournalUtils.postCreditNoteApplicationFx(tx, creditNote, application, currentUser.userId);
+      }
+
+      // Log audit
+      tx.audit(
+        'credit_note_applications',
+        id,
+        'create',
+        currentUser.userId,
+        undefined,
+        { credit_note_id: id, applications }
+      );
+
+      return null;
+    });
+
+    if (applicationError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: applicationError
+      }, 400);
+    }
+
+    const updatedCreditNote = await DatabaseUtils.executeQueryFirst<CreditNote>(
+      c.env.DB,
+      'SELECT * FROM credit_notes WHERE id = ?',
+      [id]
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedCreditNote,
+      message: 'Credit note applied successfully'
+    });
+
+  } catch (error) {
+    console.error('Apply credit note error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to apply credit note'
+    }, 500);
+  }
+});
+
+// Unapply a credit note from an invoice
+creditNotes.delete('/:id/applications/:applicationId', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const applicationId = c.req.param('applicationId');
+    const currentUser = c.get('user');
+
+    const application = await DatabaseUtils.executeQueryFirst<CreditNoteApplication>(
+      c.env.DB,
+      'SELECT * FROM credit_note_applications WHERE id = ? AND credit_note_id = ?',
+      [applicationId, id]
+    );
+
+    if (!application) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Credit note application not found'
+      }, 404);
+    }
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      await AutoJournalUtils.reverseApplicationFx(tx, 'credit_note_application', applicationId, currentUser.userId);
+      CreditNoteUtils.removeApplication(tx, application);
+
+      // Log audit
+      tx.audit(
+        'credit_note_applications',
+        applicationId,
+        'delete',
+        currentUser.userId,
+        application
+      );
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Credit note application removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Unapply credit note error:', error);
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to remove credit note application'
+    }, 500);
+  }
+});
+
+// Void credit note, reversing its posting and restoring the balances it settled
+creditNotes.delete('/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    const creditNoteToVoid = await DatabaseUtils.executeQueryFirst<CreditNote>(
+      c.env.DB,
+      'SELECT * FROM credit_notes WHERE id = ?',
+      [id]
+    );
+
+    if (!creditNoteToVoid) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Credit note not found'
+      }, 404);
+    }
+
+    if (creditNoteToVoid.status === 'void') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Credit note is already void'
+      }, 400);
+    }
+
+    const applications = await DatabaseUtils.executeQuery<CreditNoteApplication>(
+      c.env.DB,
+      'SELECT * FROM credit_note_applications WHERE credit_note_id = ?',
+      [id]
+    );
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      await AutoJournalUtils.reverseCreditNote(tx, creditNoteToVoid, currentUser.userId);
+
+      tx.add('DELETE FROM credit_note_applications WHERE credit_note_id = ?', [id]);
+
+      for (const application of applications.results) {
+        await AutoJournalUtils.reverseApplicationFx(tx, 'credit_note_application', application.id, currentUser.userId);
+        PaymentUtils.refreshInvoiceBalance(tx, application.invoice_id);
+      }
+
+      tx.update('credit_notes', id, { status: 'void', applied_amount: 0, unapplied_amount: 0 });
+
+      // Log audit
+      tx.audit(
+        'credit_notes',
+        id,
+        'delete',
+        currentUser.userId,
+        { ...creditNoteToVoid, applications: applications.results },
+        { status: 'void' }
+      );
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Credit note voided successfully'
+    });
+
+  } catch (error) {
+    console.error('Void credit note error:', error);
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to void credit note'
+    }, 500);
+  }
+});
+
+export default creditNotes;
\ No newline at end of file
@@ -1,8 +1,15 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
-import type { Env, Customer, ApiResponse, PaginatedResponse } from '../types';
-import { CreateCustomerSchema } from '../types';
+import type { Env, Customer, ApiResponse, PaginatedResponse, InvoiceReminder } from '../types';
+import { CreateCustomerSchema, SendDocumentEmailSchema } from '../types';
 import { DatabaseUtils } from '../utils/database';
+import { LedgerUtils } from '../utils/ledger';
+import { StatementUtils } from '../utils/statements';
+import type { CustomerStatement } from '../utils/statements';
+import { StatementPdfUtils } from '../utils/statement-pdf';
+import { SettingsUtils } from '../utils/settings';
+import { EmailUtils } from '../utils/email';
+import { OutboxUtils } from '../utils/outbox';
 import { authMiddleware, requireRole } from '../middleware/auth';
 
 const customers = new Hono<{ Bindings: Env }>();
@@ -10,6 +17,26 @@ const customers = new Hono<{ Bindings: Env }>();
 // All customer routes require authentication
 customers.use('*', authMiddleware);
 
+// Amounts formatted for the customer_statement email template
+function statementTemplateContext(statement: CustomerStatement, companyName: string): Record<string, any> {
+  return {
+    customer: statement.customer,
+    company: { company_name: companyName },
+    statement: {
+      from_date: statement.from_date,
+      to_date: statement.to_date,
+      opening_balance: EmailUtils.formatAmount(statement.opening_balance),
+      closing_balance: EmailUtils.formatAmount(statement.closing_balance),
+      lines: statement.lines.map(line => ({
+        date: line.date,
+        description: line.description,
+        amount: EmailUtils.formatAmount(line.amount),
+        balance: EmailUtils.formatAmount(line.balance)
+      }))
+    }
+  };
+}
+
 // Get all customers
 customers.get('/', requireRole('accountant'), async (c) => {
   try {
@@ -136,6 +163,7 @@ customers.post('/', requireRole('accountant'), async (c) => {
     const newCustomer = {
       id: DatabaseUtils.generateId('cust'),
       ...customerData,
+      currency: customerData.currency || await SettingsUtils.getBaseCurrency(c.env.DB),
       is_active: true,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
@@ -224,6 +252,24 @@ customers.put('/:id', requireRole('accountant'), async (c) => {
       }
     }
 
+    // Invoices and payments keep the currency they were made in, so it is fixed once there are any
+    if (updateData.currency && updateData.currency !== oldCustomer.currency) {
+      const hasDocuments = await DatabaseUtils.executeQueryFirst(
+        c.env.DB,
+        `SELECT 1 FROM invoices WHERE customer_id = ?1
+        UNION ALL SELECT 1 FROM payments WHERE customer_id = ?1
+        LIMIT 1`,
+        [id]
+      );
+
+      if (hasDocuments) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: `Customer already has ${oldCustomer.currency} invoices or payments; its currency cannot change`
+        }, 400);
+      }
+    }
+
     const updatedCustomer = await DatabaseUtils.updateRecord<Customer>(
       c.env.DB,
       'customers',
@@ -380,4 +426,210 @@ customers.get('/:id/invoices', requireRole('accountant'), async (c) => {
   }
 });
 
+// Get a customer's dunning reminder history, newest first
+customers.get('/:id/reminders', requireRole('accountant'), async (c) => {
+  try {
+    const customerId = c.req.param('id');
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const invoiceId = c.req.query('invoice_id');
+
+    let whereClause = 'WHERE r.customer_id = ?';
+    const params: any[] = [customerId];
+
+    if (invoiceId) {
+      whereClause += ' AND r.invoice_id = ?';
+      params.push(invoiceId);
+    }
+
+    const baseQuery = `
+      SELECT r.*,
+        i.invoice_number, i.due_date, i.status as invoice_status, i.balance_due as current_balance_due,
+        o.status as email_status, o.sent_at as email_sent_at, o.last_error as email_error
+      FROM invoice_reminders r
+      JOIN invoices i ON r.invoice_id = i.id
+      LEFT JOIN email_outbox o ON r.email_outbox_id = o.id
+      ${whereClause}
+      ORDER BY r.created_at DESC
+    `;
+
+    const countQuery = `SELECT COUNT(*) as count FROM invoice_reminders r ${whereClause}`;
+
+    const result = await DatabaseUtils.paginate<InvoiceReminder>(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<InvoiceReminder>>({
+      success: true,
+      data: result.results,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get customer reminders error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch customer reminders'
+    }, 500);
+  }
+});
+
+// Statement of account: opening balance, invoices, payments and credit notes in date order
+// with a running balance, the closing balance and its aging as of the end of the period
+customers.get('/:id/statement', requireRole('accountant'), async (c) => {
+  try {
+    const customerId = c.req.param('id');
+    const period = LedgerUtils.parsePeriod(c.req.query('from'), c.req.query('to'));
+
+    if (typeof period === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: period
+      }, 400);
+    }
+
+    const statement = await StatementUtils.getStatement(c.env.DB, customerId, period.from, period.to);
+
+    if (!statement) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Customer not found'
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: statement
+    });
+
+  } catch (error) {
+    console.error('Get customer statement error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to generate customer statement'
+    }, 500);
+  }
+});
+
+// The same statement as a PDF with the company letterhead
+customers.get('/:id/statement/pdf', requireRole('accountant'), async (c) => {
+  try {
+    const customerId = c.req.param('id');
+    const period = LedgerUtils.parsePeriod(c.req.query('from'), c.req.query('to'));
+
+    if (typeof period === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: period
+      }, 400);
+    }
+
+    const statement = await StatementUtils.getStatement(c.env.DB, customerId, period.from, period.to);
+
+    if (!statement) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Customer not found'
+      }, 404);
+    }
+
+    const settings = await SettingsUtils.getCompanySettings(c.env.DB);
+    const pdf = StatementPdfUtils.render(statement, settings);
+
+    return new Response(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${StatementPdfUtils.filename(statement)}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Render customer statement PDF error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to render customer statement PDF'
+    }, 500);
+  }
+});
+
+// Email the statement to the customer with the PDF attached
+customers.post('/:id/statement/email', requireRole('accountant'), async (c) => {
+  try {
+    const customerId = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+    const { to } = SendDocumentEmailSchema.parse(body);
+    const period = LedgerUtils.parsePeriod(c.req.query('from'), c.req.query('to'));
+
+    if (typeof period === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: period
+      }, 400);
+    }
+
+    const statement = await StatementUtils.getStatement(c.env.DB, customerId, period.from, period.to);
+
+    if (!statement) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Customer not found'
+      }, 404);
+    }
+
+    const toAddress = to || statement.customer.email;
+    if (!toAddress) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Customer has no email address; provide one to send to'
+      }, 400);
+    }
+
+    const { company_name } = await SettingsUtils.getCompanySettings(c.env.DB);
+    const { subject, body: text } = await EmailUtils.renderTemplate(
+      c.env.DB,
+      'customer_statement',
+      statementTemplateContext(statement, company_name)
+    );
+
+    const message = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      return OutboxUtils.enqueue(tx, {
+        to_address: toAddress,
+        subject,
+        body: text,
+        template_key: 'customer_statement',
+        attachments: [{ type: 'statement_pdf', id: customerId, from_date: period.from, to_date: period.to }],
+        source_type: 'customer',
+        source_id: customerId
+      });
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: message,
+      message: 'Statement queued for email'
+    }, 202);
+
+  } catch (error) {
+    console.error('Email customer statement error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to email customer statement'
+    }, 500);
+  }
+});
+
 export default customers;
\ No newline at end of file
@@ -0,0 +1,292 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, DunningLevel, ApiResponse } from '../types';
+import { CreateDunningLevelSchema, UpdateDunningLevelSchema } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { DunningUtils } from '../utils/dunning';
+import { InvoiceStatusUtils } from '../utils/invoice-status';
+import { TemplateUtils } from '../utils/templates';
+import { authMiddleware, requireRole, requireAdmin } from '../middleware/auth';
+
+const dunning = new Hono<{ Bindings: Env }>();
+
+// All dunning routes require authentication
+dunning.use('*', authMiddleware);
+
+// Two active levels on the same day would race each other for the same invoices
+async function findActiveLevelOnDay(db: D1Database, daysOverdue: number, excludeId?: string): Promise<DunningLevel | null> {
+  return await DatabaseUtils.executeQueryFirst<DunningLevel>(
+    db,
+    'SELECT * FROM dunning_levels WHERE is_active = 1 AND days_overdue = ? AND id != ?',
+    [daysOverdue, excludeId || '']
+  );
+}
+
+function validateTemplates(fields: { subject?: string; body?: string }): string | null {
+  for (const field of ['subject', 'body'] as const) {
+    const template = fields[field];
+    const error = template !== undefined ? TemplateUtils.validate(template) : null;
+    if (error) {
+      return `Invalid ${field} template: ${error}`;
+    }
+  }
+  return null;
+}
+
+// Get the dunning ladder
+dunning.get('/levels', requireRole('accountant'), async (c) => {
+  try {
+    const includeInactive = c.req.query('include_inactive') === 'true';
+
+    const levels = await DatabaseUtils.executeQuery<DunningLevel>(
+      c.env.DB,
+      `SELECT dl.*,
+        (SELECT COUNT(*) FROM invoice_reminders r WHERE r.dunning_level_id = dl.id) as reminder_count
+      FROM dunning_levels dl
+      ${includeInactive ? '' : 'WHERE dl.is_active = 1'}
+      ORDER BY dl.days_overdue ASC`
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: levels.results
+    });
+
+  } catch (error) {
+    console.error('Get dunning levels error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch dunning levels'
+    }, 500);
+  }
+});
+
+// Create dunning level
+dunning.post('/levels', requireRole('manager'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const levelData = CreateDunningLevelSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const templateError = validateTemplates(levelData);
+    if (templateError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: templateError
+      }, 400);
+    }
+
+    if (await findActiveLevelOnDay(c.env.DB, levelData.days_overdue)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `An active dunning level already runs at ${levelData.days_overdue} days overdue`
+      }, 400);
+    }
+
+    const createdLevel = await DatabaseUtils.insertRecord<DunningLevel>(
+      c.env.DB,
+      'dunning_levels',
+      {
+        id: DatabaseUtils.generateId('dun'),
+        ...levelData,
+        is_active: true,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'dunning_levels',
+      createdLevel.id,
+      'create',
+      currentUser.userId,
+      undefined,
+      createdLevel
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdLevel,
+      message: 'Dunning level created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create dunning level error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create dunning level'
+    }, 500);
+  }
+});
+
+// Update dunning level; reminders already sent keep the details they were sent with
+dunning.put('/levels/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const updateData = UpdateDunningLevelSchema.parse(body);
+    const currentUser = c.get('user');
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    const templateError = validateTemplates(updateData);
+    if (templateError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: templateError
+      }, 400);
+    }
+
+    const oldLevel = await DatabaseUtils.executeQueryFirst<DunningLevel>(
+      c.env.DB,
+      'SELECT * FROM dunning_levels WHERE id = ?',
+      [id]
+    );
+
+    if (!oldLevel) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dunning level not found'
+      }, 404);
+    }
+
+    const daysOverdue = updateData.days_overdue ?? oldLevel.days_overdue;
+    const isActive = updateData.is_active ?? !!oldLevel.is_active;
+
+    if (isActive && await findActiveLevelOnDay(c.env.DB, daysOverdue, id)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `An active dunning level already runs at ${daysOverdue} days overdue`
+      }, 400);
+    }
+
+    const updatedLevel = await DatabaseUtils.updateRecord<DunningLevel>(
+      c.env.DB,
+      'dunning_levels',
+      id,
+      updateData
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'dunning_levels',
+      id,
+      'update',
+      currentUser.userId,
+      oldLevel,
+      updatedLevel
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedLevel,
+      message: 'Dunning level updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update dunning level error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update dunning level'
+    }, 500);
+  }
+});
+
+// Deactivate dunning level; its reminder history is kept
+dunning.delete('/levels/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    const level = await DatabaseUtils.executeQueryFirst<DunningLevel>(
+      c.env.DB,
+      'SELECT * FROM dunning_levels WHERE id = ?',
+      [id]
+    );
+
+    if (!level) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dunning level not found'
+      }, 404);
+    }
+
+    await DatabaseUtils.updateRecord(
+      c.env.DB,
+      'dunning_levels',
+      id,
+      { is_active: false }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'dunning_levels',
+      id,
+      'delete',
+      currentUser.userId,
+      level,
+      { is_active: false }
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Dunning level deactivated successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete dunning level error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to deactivate dunning level'
+    }, 500);
+  }
+});
+
+// Run the overdue sweep and dunning now, as the scheduled handler does
+dunning.post('/run', requireAdmin, async (c) => {
+  try {
+    const today = DatabaseUtils.formatDate(new Date());
+    const markedOverdue = await InvoiceStatusUtils.markOverdue(c.env.DB, today);
+    const summary = await DunningUtils.runDue(c.env.DB, today);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { marked_overdue: markedOverdue, ...summary },
+      message: `${markedOverdue} invoice(s) marked overdue, ${summary.reminded.length} reminder(s) recorded`
+    });
+
+  } catch (error) {
+    console.error('Run dunning error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to run dunning'
+    }, 500);
+  }
+});
+
+export default dunning;
\ No newline at end of file
@@ -0,0 +1,311 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, ExchangeRate, ApiResponse, PaginatedResponse } from '../types';
+import { CreateExchangeRateSchema, UpdateExchangeRateSchema, CurrencyCodeSchema } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { CurrencyUtils } from '../utils/currency';
+import { LedgerUtils } from '../utils/ledger';
+import { SettingsUtils } from '../utils/settings';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const exchangeRates = new Hono<{ Bindings: Env }>();
+
+// All exchange rate routes require authentication
+exchangeRates.use('*', authMiddleware);
+
+// Get exchange rates, newest first
+exchangeRates.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '50');
+    const currency = c.req.query('currency') || '';
+    const fromDate = c.req.query('from_date') || '';
+    const toDate = c.req.query('to_date') || '';
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (currency) {
+      whereClause += ' AND currency = ?';
+      params.push(currency.toUpperCase());
+    }
+
+    if (fromDate) {
+      whereClause += ' AND rate_date >= ?';
+      params.push(fromDate);
+    }
+
+    if (toDate) {
+      whereClause += ' AND rate_date <= ?';
+      params.push(toDate);
+    }
+
+    const result = await DatabaseUtils.paginate<ExchangeRate>(
+      c.env.DB,
+      `SELECT * FROM exchange_rates ${whereClause} ORDER BY rate_date DESC, currency ASC`,
+      `SELECT COUNT(*) as count FROM exchange_rates ${whereClause}`,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<ExchangeRate>>({
+      success: true,
+      data: result.results,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get exchange rates error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch exchange rates'
+    }, 500);
+  }
+});
+
+// The rate a document in `currency` dated `date` would capture (defaults to today)
+exchangeRates.get('/lookup', requireRole('accountant'), async (c) => {
+  try {
+    const currency = CurrencyCodeSchema.safeParse((c.req.query('currency') || '').toUpperCase());
+    const date = c.req.query('date') || DatabaseUtils.formatDate(new Date());
+
+    if (!currency.success || !LedgerUtils.isValidDate(date)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'currency must be a three-letter code and date must be YYYY-MM-DD'
+      }, 400);
+    }
+
+    const baseCurrency = await SettingsUtils.getBaseCurrency(c.env.DB);
+    const rate = await CurrencyUtils.resolveRate(c.env.DB, currency.data, date, undefined, baseCurrency);
+
+    if (typeof rate === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: rate
+      }, 404);
+    }
+
+    const source = currency.data === baseCurrency ? null : await CurrencyUtils.findRate(c.env.DB, currency.data, date);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...rate,
+        base_currency: baseCurrency,
+        date,
+        rate_date: source ? source.rate_date : date
+      }
+    });
+
+  } catch (error) {
+    console.error('Look up exchange rate error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to look up exchange rate'
+    }, 500);
+  }
+});
+
+// Enter a rate for a currency from a date onwards
+exchangeRates.post('/', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const rateData = CreateExchangeRateSchema.parse(body);
+    const currentUser = c.get('user');
+
+    if (!LedgerUtils.isValidDate(rateData.rate_date)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'rate_date is not a valid date'
+      }, 400);
+    }
+
+    const baseCurrency = await SettingsUtils.getBaseCurrency(c.env.DB);
+    if (rateData.currency === baseCurrency) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `${baseCurrency} is the base currency; its rate is always 1`
+      }, 400);
+    }
+
+    const existingRate = await DatabaseUtils.executeQueryFirst(
+      c.env.DB,
+      'SELECT id FROM exchange_rates WHERE currency = ? AND rate_date = ?',
+      [rateData.currency, rateData.rate_date]
+    );
+
+    if (existingRate) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `A ${rateData.currency} rate for ${rateData.rate_date} already exists`
+      }, 400);
+    }
+
+    const createdRate = await DatabaseUtils.insertRecord<ExchangeRate>(
+      c.env.DB,
+      'exchange_rates',
+      {
+        id: DatabaseUtils.generateId('fx'),
+        currency: rateData.currency,
+        rate_date: rateData.rate_date,
+        rate: CurrencyUtils.roundRate(rateData.rate),
+        source: rateData.source || 'manual',
+        notes: rateData.notes || null,
+        created_by: currentUser.userId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'exchange_rates',
+      createdRate.id,
+      'create',
+      currentUser.userId,
+      undefined,
+      createdRate
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdRate,
+      message: 'Exchange rate created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create exchange rate error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create exchange rate'
+    }, 500);
+  }
+});
+
+// Correct a rate. Documents keep the rate they captured, so this only affects new ones.
+exchangeRates.put('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const updateData = UpdateExchangeRateSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const oldRate = await DatabaseUtils.executeQueryFirst<ExchangeRate>(
+      c.env.DB,
+      'SELECT * FROM exchange_rates WHERE id = ?',
+      [id]
+    );
+
+    if (!oldRate) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Exchange rate not found'
+      }, 404);
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    const updatedRate = await DatabaseUtils.updateRecord<ExchangeRate>(
+      c.env.DB,
+      'exchange_rates',
+      id,
+      updateData.rate !== undefined ? { ...updateData, rate: CurrencyUtils.roundRate(updateData.rate) } : updateData
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'exchange_rates',
+      id,
+      'update',
+      currentUser.userId,
+      oldRate,
+      updatedRate
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedRate,
+      message: 'Exchange rate updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update exchange rate error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update exchange rate'
+    }, 500);
+  }
+});
+
+// Delete a rate; documents that captured it keep their copy
+exchangeRates.delete('/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    const rateToDelete = await DatabaseUtils.executeQueryFirst<ExchangeRate>(
+      c.env.DB,
+      'SELECT * FROM exchange_rates WHERE id = ?',
+      [id]
+    );
+
+    if (!rateToDelete) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Exchange rate not found'
+      }, 404);
+    }
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      tx.delete('exchange_rates', id);
+
+      // Log audit
+      tx.audit(
+        'exchange_rates',
+        id,
+        'delete',
+        currentUser.userId,
+        rateToDelete
+      );
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Exchange rate deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete exchange rate error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete exchange rate'
+    }, 500);
+  }
+});
+
+export default exchangeRates;
\ No newline at end of file
@@ -0,0 +1,351 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, FiscalPeriod, ApiResponse } from '../types';
+import { CreateFiscalPeriodSchema, UpdateFiscalPeriodStatusSchema, FiscalYearSchema } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { AuthUtils } from '../utils/auth';
+import { PostingError } from '../utils/journal';
+import { AutoJournalUtils } from '../utils/auto-journal';
+import { PeriodUtils } from '../utils/periods';
+import { SettingsUtils } from '../utils/settings';
+import { authMiddleware, requireRole, requireAdmin } from '../middleware/auth';
+
+const fiscalPeriods = new Hono<{ Bindings: Env }>();
+
+// All fiscal period routes require authentication
+fiscalPeriods.use('*', authMiddleware);
+
+// Get all fiscal periods
+fiscalPeriods.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const year = c.req.query('year') || '';
+
+    if (year && !/^\d{4}$/.test(year)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'year must be a four-digit fiscal year'
+      }, 400);
+    }
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (year) {
+      const settings = await SettingsUtils.getCompanySettings(c.env.DB);
+      const { start_date, end_date } = PeriodUtils.fiscalYearRange(parseInt(year), settings.fiscal_year_start_month);
+      whereClause += ' AND start_date >= ? AND start_date <= ?';
+      params.push(start_date, end_date);
+    }
+
+    const periods = await DatabaseUtils.executeQuery<FiscalPeriod>(
+      c.env.DB,
+      `SELECT * FROM fiscal_periods ${whereClause} ORDER BY start_date ASC`,
+      params
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: periods.results
+    });
+
+  } catch (error) {
+    console.error('Get fiscal periods error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch fiscal periods'
+    }, 500);
+  }
+});
+
+// Create a single fiscal period
+fiscalPeriods.post('/', requireRole('manager'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const periodData = CreateFiscalPeriodSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const overlapping = await PeriodUtils.findOverlapping(c.env.DB, periodData.start_date, periodData.end_date);
+    if (overlapping) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Period overlaps with ${overlapping.name}`
+      }, 400);
+    }
+
+    const createdPeriod = await DatabaseUtils.insertRecord<FiscalPeriod>(
+      c.env.DB,
+      'fiscal_periods',
+      {
+        id: DatabaseUtils.generateId('fp'),
+        ...periodData,
+        status: 'open',
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'fiscal_periods',
+      createdPeriod.id,
+      'create',
+      currentUser.userId,
+      undefined,
+      createdPeriod
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdPeriod,
+      message: 'Fiscal period created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create fiscal period error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create fiscal period'
+    }, 500);
+  }
+});
+
+// Create the twelve monthly periods of a fiscal year
+fiscalPeriods.post('/generate', requireRole('manager'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const { fiscal_year } = FiscalYearSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const settings = await SettingsUtils.getCompanySettings(c.env.DB);
+    const { start_date, end_date } = PeriodUtils.fiscalYearRange(fiscal_year, settings.fiscal_year_start_month);
+
+    const overlapping = await PeriodUtils.findOverlapping(c.env.DB, start_date, end_date);
+    if (overlapping) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Fiscal year ${fiscal_year} already has periods (${overlapping.name})`
+      }, 400);
+    }
+
+    const createdPeriods = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const periods: FiscalPeriod[] = [];
+
+      for (const period of PeriodUtils.monthlyPeriods(fiscal_year, settings.fiscal_year_start_month)) {
+        const createdPeriod = tx.insert<FiscalPeriod>(
+          'fiscal_periods',
+          {
+            id: DatabaseUtils.generateId('fp'),
+            ...period,
+            status: 'open',
+            closed_by: null,
+            closed_at: null,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          }
+        );
+
+        tx.audit(
+          'fiscal_periods',
+          createdPeriod.id,
+          'create',
+          currentUser.userId,
+          undefined,
+          createdPeriod
+        );
+
+        periods.push(createdPeriod);
+      }
+
+      return periods;
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdPeriods,
+      message: `Fiscal year ${fiscal_year} periods created successfully`
+    }, 201);
+
+  } catch (error) {
+    console.error('Generate fiscal periods error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to generate fiscal periods'
+    }, 500);
+  }
+});
+
+// Open, soft-close or close a period. Managers can soft-close and reopen soft-closed
+// periods; fully closing a period, or reopening a closed one, is reserved for admins.
+fiscalPeriods.patch('/:id/status', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const { status } = UpdateFiscalPeriodStatusSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const period = await DatabaseUtils.executeQueryFirst<FiscalPeriod>(
+      c.env.DB,
+      'SELECT * FROM fiscal_periods WHERE id = ?',
+      [id]
+    );
+
+    if (!period) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Fiscal period not found'
+      }, 404);
+    }
+
+    if (period.status === status) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Fiscal period is already ${status}`
+      }, 400);
+    }
+
+    if ((status === 'closed' || period.status === 'closed') && !AuthUtils.isAdmin(currentUser.role)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Only an admin can close or reopen a closed period'
+      }, 403);
+    }
+
+    const updatedPeriod = await DatabaseUtils.updateRecord<FiscalPeriod>(
+      c.env.DB,
+      'fiscal_periods',
+      id,
+      {
+        status,
+        closed_by: status === 'open' ? null : currentUser.userId,
+        closed_at: status === 'open' ? null : new Date().toISOString()
+      }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'fiscal_periods',
+      id,
+      'update',
+      currentUser.userId,
+      { status: period.status },
+      { status }
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedPeriod,
+      message: 'Fiscal period status updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update fiscal period status error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update fiscal period status'
+    }, 500);
+  }
+});
+
+// Year-end close: post the retained earnings closing entry and close every period of the year
+fiscalPeriods.post('/year-end-close', requireAdmin, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { fiscal_year } = FiscalYearSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const settings = await SettingsUtils.getCompanySettings(c.env.DB);
+    const { start_date, end_date } = PeriodUtils.fiscalYearRange(fiscal_year, settings.fiscal_year_start_month);
+
+    const result = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const closingEntry = await AutoJournalUtils.postYearEndClose(tx, fiscal_year, currentUser.userId);
+
+      const openPeriods = await DatabaseUtils.executeQuery<FiscalPeriod>(
+        tx.db,
+        "SELECT * FROM fiscal_periods WHERE start_date >= ? AND end_date <= ? AND status != 'closed'",
+        [start_date, end_date]
+      );
+
+      for (const period of openPeriods.results) {
+        tx.update(
+          'fiscal_periods',
+          period.id,
+          {
+            status: 'closed',
+            closed_by: currentUser.userId,
+            closed_at: new Date().toISOString()
+          }
+        );
+
+        tx.audit(
+          'fiscal_periods',
+          period.id,
+          'update',
+          currentUser.userId,
+          { status: period.status },
+          { status: 'closed', year_end_close: fiscal_year }
+        );
+      }
+
+      return {
+        closing_entry: closingEntry,
+        periods_closed: openPeriods.results.length
+      };
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+      message: `Fiscal year ${fiscal_year} closed successfully`
+    });
+
+  } catch (error) {
+    console.error('Year-end close error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to close fiscal year'
+    }, 500);
+  }
+});
+
+export default fiscalPeriods;
\ No newline at end of file
@@ -1,8 +1,16 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { Env, Invoice, ApiResponse, PaginatedResponse } from '../types';
-import { CreateInvoiceSchema, InvoiceStatus } from '../types';
+import { CreateInvoiceSchema, UpdateInvoiceSchema, SendDocumentEmailSchema, InvoiceStatus } from '../types';
 import { DatabaseUtils } from '../utils/database';
+import { PostingError } from '../utils/journal';
+import { PeriodUtils } from '../utils/periods';
+import { InvoiceUtils } from '../utils/invoices';
+import { InvoiceStatusUtils, InvoiceTransitionError } from '../utils/invoice-status';
+import { InvoicePdfUtils } from '../utils/invoice-pdf';
+import { SettingsUtils } from '../utils/settings';
+import { EmailUtils } from '../utils/email';
+import { OutboxUtils } from '../utils/outbox';
 import { authMiddleware, requireRole } from '../middleware/auth';
 
 const invoices = new Hono<{ Bindings: Env }>();
@@ -92,25 +100,7 @@ invoices.get('/:id', requireRole('accountant'), async (c) => {
   try {
     const id = c.req.param('id');
 
-    // Get invoice with customer and line items
-    const invoice = await DatabaseUtils.executeQueryFirst<Invoice & {
-      company_name: string | null;
-      first_name: string | null;
-      last_name: string | null;
-      email: string | null;
-      created_by_first_name: string;
-      created_by_last_name: string;
-    }>(
-      c.env.DB,
-      `SELECT i.*, 
-        c.company_name, c.first_name, c.last_name, c.email, c.address, c.city, c.state, c.postal_code,
-        u.first_name as created_by_first_name, u.last_name as created_by_last_name
-      FROM invoices i
-      JOIN customers c ON i.customer_id = c.id
-      JOIN users u ON i.created_by = u.id
-      WHERE i.id = ?`,
-      [id]
-    );
+    const invoice = await InvoiceUtils.getInvoiceDetail(c.env.DB, id);
 
     if (!invoice) {
       return c.json<ApiResponse>({
@@ -119,23 +109,9 @@ invoices.get('/:id', requireRole('accountant'), async (c) => {
       }, 404);
     }
 
-    // Get line items
-    const lineItems = await DatabaseUtils.executeQuery(
-      c.env.DB,
-      `SELECT ili.*, coa.account_name
-      FROM invoice_line_items ili
-      LEFT JOIN chart_of_accounts coa ON ili.account_id = coa.id
-      WHERE ili.invoice_id = ?
-      ORDER BY ili.created_at ASC`,
-      [id]
-    );
-
     return c.json<ApiResponse>({
       success: true,
-      data: {
-        ...invoice,
-        line_items: lineItems.results
-      }
+      data: invoice
     });
 
   } catch (error) {
@@ -147,6 +123,143 @@ invoices.get('/:id', requireRole('accountant'), async (c) => {
   }
 });
 
+// Render invoice as PDF, laid out with the company letterhead settings
+invoices.get('/:id/pdf', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    const invoice = await InvoiceUtils.getInvoiceDetail(c.env.DB, id);
+
+    if (!invoice) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invoice not found'
+      }, 404);
+    }
+
+    const settings = await SettingsUtils.getCompanySettings(c.env.DB);
+    const pdf = InvoicePdfUtils.render(invoice, settings);
+
+    return new Response(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${InvoicePdfUtils.filename(invoice)}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Render invoice PDF error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to render invoice PDF'
+    }, 500);
+  }
+});
+
+// Email invoice to the customer with its PDF attached; a draft is sent (and posted) first
+invoices.post('/:id/email', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+    const { to } = SendDocumentEmailSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const invoice = await InvoiceUtils.getInvoiceDetail(c.env.DB, id);
+
+    if (!invoice) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invoice not found'
+      }, 404);
+    }
+
+    if (invoice.status === 'void') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Void invoices cannot be emailed'
+      }, 400);
+    }
+
+    const toAddress = to || invoice.email;
+    if (!toAddress) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Customer has no email address; provide one to send to'
+      }, 400);
+    }
+
+    const settings = await SettingsUtils.getCompanySettings(c.env.DB);
+    const { subject, body: text } = await EmailUtils.renderTemplate(c.env.DB, 'invoice', {
+      invoice: {
+        ...invoice,
+        subtotal: EmailUtils.formatAmount(invoice.subtotal),
+        tax_amount: EmailUtils.formatAmount(invoice.tax_amount),
+        total_amount: EmailUtils.formatAmount(invoice.total_amount),
+        balance_due: EmailUtils.formatAmount(invoice.balance_due)
+      },
+      customer: {
+        name: invoice.company_name || `${invoice.first_name || ''} ${invoice.last_name || ''}`.trim(),
+        email: toAddress
+      },
+      company: settings
+    });
+
+    const result = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const sentInvoice = invoice.status === 'draft'
+        ? await InvoiceStatusUtils.send(tx, invoice, currentUser.userId, DatabaseUtils.formatDate(new Date()))
+        : null;
+
+      const message = OutboxUtils.enqueue(tx, {
+        to_address: toAddress,
+        subject,
+        body: text,
+        template_key: 'invoice',
+        attachments: [{ type: 'invoice_pdf', id }],
+        source_type: 'invoice',
+        source_id: id
+      });
+
+      return { invoice: sentInvoice, message };
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+      message: result.invoice ? 'Invoice sent and queued for email' : 'Invoice queued for email'
+    }, 202);
+
+  } catch (error) {
+    console.error('Email invoice error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof InvoiceTransitionError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 409);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to email invoice'
+    }, 500);
+  }
+});
+
 // Create invoice
 invoices.post('/', requireRole('accountant'), async (c) => {
   try {
@@ -154,100 +267,177 @@ invoices.post('/', requireRole('accountant'), async (c) => {
     const invoiceData = CreateInvoiceSchema.parse(body);
     const currentUser = c.get('user');
 
-    // Generate invoice number
-    const lastInvoice = await DatabaseUtils.executeQueryFirst<{ invoice_number: string }>(
+    const periodError = await PeriodUtils.checkPostingDate(
       c.env.DB,
-      'SELECT invoice_number FROM invoices ORDER BY created_at DESC LIMIT 1'
+      invoiceData.invoice_date,
+      currentUser.userId,
+      'Create invoice'
     );
 
-    let invoiceNumber = 'INV-0001';
-    if (lastInvoice) {
-      const lastNumber = parseInt(lastInvoice.invoice_number.split('-')[1]) || 0;
-      invoiceNumber = `INV-${(lastNumber + 1).toString().padStart(4, '0')}`;
+    if (periodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: periodError
+      }, 400);
     }
 
-    // Calculate totals from line items
-    const subtotal = invoiceData.line_items.reduce((sum, item) => {
-      return sum + (item.quantity * item.unit_price);
-    }, 0);
+    const rate = await InvoiceUtils.resolveRate(
+      c.env.DB,
+      invoiceData.customer_id,
+      invoiceData.invoice_date,
+      invoiceData.exchange_rate
+    );
 
-    const tax_amount = invoiceData.line_items.reduce((sum, item) => {
-      return sum + (item.quantity * item.unit_price * (item.tax_rate || 0));
-    }, 0);
+    if (typeof rate === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: rate
+      }, 400);
+    }
 
-    const total_amount = subtotal + tax_amount;
+    // Invoice, line items and audit entry are committed together or not at all
+    const createdInvoice = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      return await InvoiceUtils.createInvoice(tx, invoiceData, rate, currentUser.userId);
+    });
 
-    // Create invoice using transaction
-    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
-      // Create invoice
-      const newInvoice = {
-        id: DatabaseUtils.generateId('inv'),
-        invoice_number: invoiceNumber,
-        customer_id: invoiceData.customer_id,
-        invoice_date: invoiceData.invoice_date,
-        due_date: invoiceData.due_date,
-        subtotal: subtotal,
-        tax_amount: tax_amount,
-        total_amount: total_amount,
-        paid_amount: 0,
-        balance_due: total_amount,
-        status: 'draft' as const,
-        notes: invoiceData.notes || null,
-        terms: invoiceData.terms || null,
-        created_by: currentUser.userId,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-
-      const createdInvoice = await DatabaseUtils.insertRecord<Invoice>(
-        tx,
-        'invoices',
-        newInvoice
+    return c.json<ApiResponse>({
+      success: true,
+      data: { id: createdInvoice.id, invoice_number: createdInvoice.invoice_number },
+      message: 'Invoice created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create invoice error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create invoice'
+    }, 500);
+  }
+});
+
+// Update a draft invoice; line_items, when given, replaces all of its lines
+invoices.put('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    const updateData = UpdateInvoiceSchema.parse(body);
+
+    const oldInvoice = await DatabaseUtils.executeQueryFirst<Invoice>(
+      c.env.DB,
+      'SELECT * FROM invoices WHERE id = ?',
+      [id]
+    );
+
+    if (!oldInvoice) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invoice not found'
+      }, 404);
+    }
+
+    if (oldInvoice.status !== 'draft') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Only draft invoices can be edited'
+      }, 400);
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    if (updateData.invoice_date) {
+      const periodError = await PeriodUtils.checkPostingDate(
+        c.env.DB,
+        updateData.invoice_date,
+        currentUser.userId,
+        'Update invoice'
       );
 
-      // Create line items
-      for (const lineItem of invoiceData.line_items) {
-        const lineTotal = lineItem.quantity * lineItem.unit_price;
-        
-        await DatabaseUtils.insertRecord(
-          tx,
-          'invoice_line_items',
-          {
-            id: DatabaseUtils.generateId('invli'),
-            invoice_id: createdInvoice.id,
-            item_description: lineItem.item_description,
-            quantity: lineItem.quantity,
-            unit_price: lineItem.unit_price,
-            line_total: lineTotal,
-            tax_rate: lineItem.tax_rate || 0,
-            account_id: lineItem.account_id || null,
-            created_at: new Date().toISOString()
-          }
-        );
+      if (periodError) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: periodError
+        }, 400);
       }
+    }
 
-      // Log audit
-      await DatabaseUtils.logAudit(
-        tx,
-        'invoices',
-        createdInvoice.id,
-        'create',
-        currentUser.userId,
-        undefined,
-        createdInvoice
+    // A new date or customer captures the rate in force, unless a rate is given as well
+    if (updateData.customer_id || updateData.invoice_date || updateData.exchange_rate !== undefined) {
+      const rate = await InvoiceUtils.resolveRate(
+        c.env.DB,
+        updateData.customer_id || oldInvoice.customer_id,
+        updateData.invoice_date || oldInvoice.invoice_date,
+        updateData.exchange_rate
       );
 
-      return createdInvoice;
+      if (typeof rate === 'string') {
+        return c.json<ApiResponse>({
+          success: false,
+          error: rate
+        }, 400);
+      }
+
+      Object.assign(updateData, rate);
+    }
+
+    const oldLines = await InvoiceUtils.getLineItems(c.env.DB, id);
+
+    if (updateData.line_items) {
+      const lineError = InvoiceUtils.validateLineItemIds(oldLines, updateData.line_items);
+      if (lineError) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: lineError
+        }, 400);
+      }
+    }
+
+    // Header, line changes and their audit entries are committed together
+    const result = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const currentInvoice = await DatabaseUtils.executeQueryFirst<Invoice>(
+        tx.db,
+        'SELECT * FROM invoices WHERE id = ?',
+        [id]
+      );
+
+      if (!currentInvoice || currentInvoice.status !== 'draft') {
+        throw new InvoiceTransitionError(`Invoice ${oldInvoice.invoice_number} is no longer a draft and cannot be edited`);
+      }
+
+      return InvoiceUtils.updateDraftInvoice(tx, currentInvoice, oldLines, updateData, currentUser.userId);
     });
 
+    const updatedInvoice = await InvoiceUtils.getInvoiceDetail(c.env.DB, id);
+
     return c.json<ApiResponse>({
       success: true,
-      data: { invoice_number: invoiceNumber },
-      message: 'Invoice created successfully'
-    }, 201);
+      data: {
+        ...updatedInvoice,
+        line_changes: result.line_changes && {
+          added: result.line_changes.added.map(line => line.id),
+          removed: result.line_changes.removed.map(line => line.id),
+          changed: result.line_changes.changed.map(({ after }) => after.id)
+        }
+      },
+      message: 'Invoice updated successfully'
+    });
 
   } catch (error) {
-    console.error('Create invoice error:', error);
+    console.error('Update invoice error:', error);
     if (error instanceof z.ZodError) {
       return c.json<ApiResponse>({
         success: false,
@@ -256,14 +446,21 @@ invoices.post('/', requireRole('accountant'), async (c) => {
       }, 400);
     }
 
+    if (error instanceof InvoiceTransitionError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 409);
+    }
+
     return c.json<ApiResponse>({
       success: false,
-      error: 'Failed to create invoice'
+      error: 'Failed to update invoice'
     }, 500);
   }
 });
 
-// Update invoice status
+// Record a status event (sent, viewed or void); other statuses follow from payments and due dates
 invoices.patch('/:id/status', requireRole('accountant'), async (c) => {
   try {
     const id = c.req.param('id');
@@ -290,24 +487,16 @@ invoices.patch('/:id/status', requireRole('accountant'), async (c) => {
       }, 404);
     }
 
-    // Update invoice status
-    const updatedInvoice = await DatabaseUtils.updateRecord<Invoice>(
-      c.env.DB,
-      'invoices',
-      id,
-      { status }
-    );
-
-    // Log audit
-    await DatabaseUtils.logAudit(
-      c.env.DB,
-      'invoices',
-      id,
-      'update',
-      currentUser.userId,
-      { status: oldInvoice.status },
-      { status: status }
-    );
+    // Sending posts the invoice and voiding reverses it, together with the status change
+    const updatedInvoice = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      return await InvoiceStatusUtils.applyRequestedStatus(
+        tx,
+        oldInvoice,
+        status,
+        currentUser.userId,
+        DatabaseUtils.formatDate(new Date())
+      );
+    });
 
     return c.json<ApiResponse>({
       success: true,
@@ -325,6 +514,20 @@ invoices.patch('/:id/status', requireRole('accountant'), async (c) => {
       }, 400);
     }
 
+    if (error instanceof InvoiceTransitionError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 409);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
     return c.json<ApiResponse>({
       success: false,
       error: 'Failed to update invoice status'
@@ -366,24 +569,24 @@ invoices.delete('/:id', requireRole('manager'), async (c) => {
       }, 400);
     }
 
-    // Set status to void instead of hard delete
-    await DatabaseUtils.updateRecord(
+    const creditNotes = await DatabaseUtils.executeQueryFirst<{ count: number }>(
       c.env.DB,
-      'invoices',
-      id,
-      { status: 'void' }
+      "SELECT COUNT(*) as count FROM credit_notes WHERE status != 'void' AND (invoice_id = ? OR id IN (SELECT credit_note_id FROM credit_note_applications WHERE invoice_id = ?))",
+      [id, id]
     );
 
-    // Log audit
-    await DatabaseUtils.logAudit(
-      c.env.DB,
-      'invoices',
-      id,
-      'delete',
-      currentUser.userId,
-      invoiceToDelete,
-      { status: 'void' }
-    );
+    if (creditNotes && creditNotes.count > 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Cannot delete invoice with credit notes; void the credit notes first'
+      }, 400);
+    }
+
+    // Set status to void instead of hard delete, reversing the revenue entry so the ledger
+    // agrees with the AR subledger
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      await InvoiceStatusUtils.void(tx, invoiceToDelete, currentUser.userId, 'delete');
+    });
 
     return c.json<ApiResponse>({
       success: true,
@@ -392,6 +595,20 @@ invoices.delete('/:id', requireRole('manager'), async (c) => {
 
   } catch (error) {
     console.error('Delete invoice error:', error);
+    if (error instanceof InvoiceTransitionError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 409);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
     return c.json<ApiResponse>({
       success: false,
       error: 'Failed to delete invoice'
@@ -0,0 +1,463 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, JournalEntry, ApiResponse, PaginatedResponse } from '../types';
+import { CreateJournalEntrySchema, DateSchema, JournalEntryStatus } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { JournalUtils, PostingError } from '../utils/journal';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const journalEntries = new Hono<{ Bindings: Env }>();
+
+// All journal entry routes require authentication
+journalEntries.use('*', authMiddleware);
+
+// Get all journal entries
+journalEntries.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const search = c.req.query('search') || '';
+    const status = c.req.query('status') || '';
+    const fromDate = c.req.query('from') || '';
+    const toDate = c.req.query('to') || '';
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (search) {
+      whereClause += ' AND (je.entry_number LIKE ? OR je.reference LIKE ? OR je.description LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm, searchTerm);
+    }
+
+    if (status && JournalEntryStatus.includes(status as any)) {
+      whereClause += ' AND je.status = ?';
+      params.push(status);
+    }
+
+    if (fromDate) {
+      whereClause += ' AND je.entry_date >= ?';
+      params.push(fromDate);
+    }
+
+    if (toDate) {
+      whereClause += ' AND je.entry_date <= ?';
+      params.push(toDate);
+    }
+
+    const baseQuery = `
+      SELECT je.*,
+        u.first_name as created_by_first_name, u.last_name as created_by_last_name
+      FROM journal_entries je
+      JOIN users u ON je.created_by = u.id
+      ${whereClause}
+      ORDER BY je.entry_date DESC, je.created_at DESC
+    `;
+
+    const countQuery = `SELECT COUNT(*) as count FROM journal_entries je ${whereClause}`;
+
+    const result = await DatabaseUtils.paginate<JournalEntry & {
+      created_by_first_name: string;
+      created_by_last_name: string;
+    }>(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<JournalEntry>>({
+      success: true,
+      data: result.results as any,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get journal entries error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch journal entries'
+    }, 500);
+  }
+});
+
+// Get journal entry by ID
+journalEntries.get('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    const entry = await DatabaseUtils.executeQueryFirst<JournalEntry & {
+      created_by_first_name: string;
+      created_by_last_name: string;
+    }>(
+      c.env.DB,
+      `SELECT je.*,
+        u.first_name as created_by_first_name, u.last_name as created_by_last_name,
+        (SELECT id FROM journal_entries WHERE reversal_of_id = je.id) as reversed_by_id
+      FROM journal_entries je
+      JOIN users u ON je.created_by = u.id
+      WHERE je.id = ?`,
+      [id]
+    );
+
+    if (!entry) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Journal entry not found'
+      }, 404);
+    }
+
+    const lines = await DatabaseUtils.executeQuery(
+      c.env.DB,
+      `SELECT jel.*, coa.account_code, coa.account_name
+      FROM journal_entry_lines jel
+      JOIN chart_of_accounts coa ON jel.account_id = coa.id
+      WHERE jel.journal_entry_id = ?
+      ORDER BY jel.created_at ASC, jel.rowid ASC`,
+      [id]
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...entry,
+        lines: lines.results
+      }
+    });
+
+  } catch (error) {
+    console.error('Get journal entry error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch journal entry'
+    }, 500);
+  }
+});
+
+// Create journal entry (always starts as a draft)
+journalEntries.post('/', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const entryData = CreateJournalEntrySchema.parse(body);
+    const currentUser = c.get('user');
+
+    const createdEntry = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const entry = await JournalUtils.createEntry(tx, {
+        entry_date: entryData.entry_date,
+        reference: entryData.reference,
+        description: entryData.description,
+        lines: entryData.lines,
+        status: 'draft',
+        created_by: currentUser.userId
+      });
+
+      // Log audit
+      tx.audit(
+        'journal_entries',
+        entry.id,
+        'create',
+        currentUser.userId,
+        undefined,
+        { ...entry, lines: entryData.lines }
+      );
+
+      return entry;
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdEntry,
+      message: 'Journal entry created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create journal entry error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create journal entry'
+    }, 500);
+  }
+});
+
+// Update draft journal entry
+journalEntries.put('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    const updateData = CreateJournalEntrySchema.partial().parse(body);
+
+    const oldEntry = await DatabaseUtils.executeQueryFirst<JournalEntry>(
+      c.env.DB,
+      'SELECT * FROM journal_entries WHERE id = ?',
+      [id]
+    );
+
+    if (!oldEntry) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Journal entry not found'
+      }, 404);
+    }
+
+    if (oldEntry.status !== 'draft') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Only draft journal entries can be edited'
+      }, 400);
+    }
+
+    const { lines, ...headerData } = updateData;
+
+    if (!lines && Object.keys(headerData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    const oldLines = await JournalUtils.getLines(c.env.DB, id);
+
+    const updatedEntry = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const changes: Record<string, any> = { ...headerData };
+
+      if (lines) {
+        await JournalUtils.replaceLines(tx, id, lines);
+        Object.assign(changes, JournalUtils.calculateTotals(lines));
+      }
+
+      tx.update('journal_entries', id, changes);
+      const entry = { ...oldEntry, ...changes };
+
+      // Log audit
+      tx.audit(
+        'journal_entries',
+        id,
+        'update',
+        currentUser.userId,
+        { ...oldEntry, lines: oldLines },
+        lines ? { ...entry, lines } : entry
+      );
+
+      return entry;
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedEntry,
+      message: 'Journal entry updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update journal entry error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update journal entry'
+    }, 500);
+  }
+});
+
+// Post a draft journal entry to the ledger
+journalEntries.post('/:id/post', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    const entry = await DatabaseUtils.executeQueryFirst<JournalEntry>(
+      c.env.DB,
+      'SELECT * FROM journal_entries WHERE id = ?',
+      [id]
+    );
+
+    if (!entry) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Journal entry not found'
+      }, 404);
+    }
+
+    if (entry.status !== 'draft') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Journal entry is already posted'
+      }, 400);
+    }
+
+    const lines = await JournalUtils.getLines(c.env.DB, id);
+    const validationError = await JournalUtils.validateForPosting(c.env.DB, lines);
+
+    if (validationError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, 400);
+    }
+
+    // Totals are always recomputed from the lines, never trusted from the client
+    const totals = JournalUtils.calculateTotals(lines);
+
+    const postedEntry = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      await JournalUtils.assertPeriodOpen(tx, entry.entry_date, currentUser.userId, `Journal entry ${entry.entry_number}`);
+
+      const changes = {
+        status: 'posted' as const,
+        total_debits: totals.total_debits,
+        total_credits: totals.total_credits
+      };
+
+      tx.update('journal_entries', id, changes);
+
+      // Log audit
+      tx.audit(
+        'journal_entries',
+        id,
+        'update',
+        currentUser.userId,
+        { status: entry.status, total_debits: entry.total_debits, total_credits: entry.total_credits },
+        { status: 'posted', ...totals }
+      );
+
+      return { ...entry, ...changes };
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: postedEntry,
+      message: 'Journal entry posted successfully'
+    });
+
+  } catch (error) {
+    console.error('Post journal entry error:', error);
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to post journal entry'
+    }, 500);
+  }
+});
+
+// Reverse a posted journal entry
+journalEntries.post('/:id/reverse', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+    const currentUser = c.get('user');
+
+    const reverseSchema = z.object({
+      entry_date: DateSchema.optional(),
+      description: z.string().min(1).optional()
+    });
+
+    const options = reverseSchema.parse(body);
+
+    const entry = await DatabaseUtils.executeQueryFirst<JournalEntry>(
+      c.env.DB,
+      'SELECT * FROM journal_entries WHERE id = ?',
+      [id]
+    );
+
+    if (!entry) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Journal entry not found'
+      }, 404);
+    }
+
+    if (entry.status !== 'posted') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Only posted journal entries can be reversed'
+      }, 400);
+    }
+
+    if (entry.source_type) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `This entry was generated from a ${entry.source_type}; void or adjust the ${entry.source_type} instead`
+      }, 400);
+    }
+
+    const reversal = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const existingReversal = await JournalUtils.findReversal(tx.db, id);
+      if (existingReversal) {
+        return `Journal entry has already been reversed by ${existingReversal.entry_number}`;
+      }
+
+      const reversingEntry = await JournalUtils.reverseEntry(tx, entry, currentUser.userId, options);
+
+      // Log audit
+      tx.audit(
+        'journal_entries',
+        reversingEntry.id,
+        'create',
+        currentUser.userId,
+        undefined,
+        reversingEntry
+      );
+
+      return reversingEntry;
+    });
+
+    if (typeof reversal === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: reversal
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: reversal,
+      message: 'Journal entry reversed successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Reverse journal entry error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to reverse journal entry'
+    }, 500);
+  }
+});
+
+export default journalEntries;
\ No newline at end of file
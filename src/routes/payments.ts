@@ -0,0 +1,730 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, Payment, PaymentApplication, ApiResponse, PaginatedResponse } from '../types';
+import { CreatePaymentSchema, CreateVendorPaymentSchema, ApplyPaymentSchema, ApplyVendorPaymentSchema, PaymentTypes } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { PostingError } from '../utils/journal';
+import { AutoJournalUtils } from '../utils/auto-journal';
+import { CurrencyUtils } from '../utils/currency';
+import { PaymentUtils } from '../utils/payments';
+import type { BillApplicationInput, InvoiceApplicationInput } from '../utils/payments';
+import { SequenceUtils } from '../utils/sequences';
+import { SettingsUtils } from '../utils/settings';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const payments = new Hono<{ Bindings: Env }>();
+
+// A payment is banked in an account in its own currency, or converted into the base currency
+function bankCurrencyError(bankAccount: { account_name: string; currency: string }, currency: string, baseCurrency: string): string | null {
+  if (bankAccount.currency === currency || bankAccount.currency === baseCurrency) {
+    return null;
+  }
+
+  return `Bank account ${bankAccount.account_name} is in ${bankAccount.currency}; a ${currency} payment needs a ${currency} or ${baseCurrency} account`;
+}
+
+// All payment routes require authentication
+payments.use('*', authMiddleware);
+
+// Get all payments
+payments.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const search = c.req.query('search') || '';
+    const type = c.req.query('type') || 'customer_payment';
+    const customerId = c.req.query('customer_id') || '';
+    const vendorId = c.req.query('vendor_id') || '';
+    const unapplied = c.req.query('unapplied');
+
+    let whereClause = 'WHERE p.payment_type = ?';
+    const params: any[] = [PaymentTypes.includes(type as any) ? type : 'customer_payment'];
+
+    if (search) {
+      whereClause += ' AND (p.payment_number LIKE ? OR p.reference_number LIKE ? OR c.company_name LIKE ? OR c.first_name LIKE ? OR c.last_name LIKE ? OR v.company_name LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm, searchTerm, searchTerm, searchTerm, searchTerm);
+    }
+
+    if (customerId) {
+      whereClause += ' AND p.customer_id = ?';
+      params.push(customerId);
+    }
+
+    if (vendorId) {
+      whereClause += ' AND p.vendor_id = ?';
+      params.push(vendorId);
+    }
+
+    if (unapplied === 'true') {
+      whereClause += ' AND p.amount > (SELECT COALESCE(SUM(applied_amount), 0) FROM payment_applications WHERE payment_id = p.id)';
+    }
+
+    const baseQuery = `
+      SELECT p.*,
+        c.company_name, c.first_name, c.last_name,
+        v.company_name as vendor_name,
+        (SELECT COALESCE(SUM(applied_amount), 0) FROM payment_applications WHERE payment_id = p.id) as applied_amount,
+        p.amount - (SELECT COALESCE(SUM(applied_amount), 0) FROM payment_applications WHERE payment_id = p.id) as unapplied_amount
+      FROM payments p
+      LEFT JOIN customers c ON p.customer_id = c.id
+      LEFT JOIN vendors v ON p.vendor_id = v.id
+      ${whereClause}
+      ORDER BY p.payment_date DESC, p.created_at DESC
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as count
+      FROM payments p
+      LEFT JOIN customers c ON p.customer_id = c.id
+      LEFT JOIN vendors v ON p.vendor_id = v.id
+      ${whereClause}
+    `;
+
+    const result = await DatabaseUtils.paginate<Payment & {
+      company_name: string | null;
+      first_name: string | null;
+      last_name: string | null;
+      vendor_name: string | null;
+      applied_amount: number;
+      unapplied_amount: number;
+    }>(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<Payment>>({
+      success: true,
+      data: result.results as any,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get payments error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch payments'
+    }, 500);
+  }
+});
+
+// Get payment by ID
+payments.get('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    const payment = await DatabaseUtils.executeQueryFirst<Payment & {
+      company_name: string | null;
+      first_name: string | null;
+      last_name: string | null;
+      vendor_name: string | null;
+      bank_account_name: string | null;
+    }>(
+      c.env.DB,
+      `SELECT p.*,
+        c.company_name, c.first_name, c.last_name,
+        v.company_name as vendor_name,
+        ba.account_name as bank_account_name
+      FROM payments p
+      LEFT JOIN customers c ON p.customer_id = c.id
+      LEFT JOIN vendors v ON p.vendor_id = v.id
+      LEFT JOIN bank_accounts ba ON p.bank_account_id = ba.id
+      WHERE p.id = ?`,
+      [id]
+    );
+
+    if (!payment) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Payment not found'
+      }, 404);
+    }
+
+    const applications = await DatabaseUtils.executeQuery(
+      c.env.DB,
+      `SELECT pa.*,
+        i.invoice_number, b.bill_number,
+        COALESCE(i.total_amount, b.total_amount) as total_amount,
+        COALESCE(i.balance_due, b.balance_due) as balance_due
+      FROM payment_applications pa
+      LEFT JOIN invoices i ON pa.invoice_id = i.id
+      LEFT JOIN bills b ON pa.bill_id = b.id
+      WHERE pa.payment_id = ?
+      ORDER BY pa.created_at ASC`,
+      [id]
+    );
+
+    const appliedAmount = await PaymentUtils.getAppliedAmount(c.env.DB, id);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...payment,
+        applied_amount: appliedAmount,
+        unapplied_amount: payment.amount - appliedAmount,
+        applications: applications.results
+      }
+    });
+
+  } catch (error) {
+    console.error('Get payment error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch payment'
+    }, 500);
+  }
+});
+
+// Record a customer payment and optionally apply it to invoices
+payments.post('/', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const paymentData = CreatePaymentSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const customer = await DatabaseUtils.executeQueryFirst<{ id: string; currency: string }>(
+      c.env.DB,
+      'SELECT id, currency FROM customers WHERE id = ?',
+      [paymentData.customer_id]
+    );
+
+    if (!customer) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Customer not found'
+      }, 404);
+    }
+
+    const bankAccount = await DatabaseUtils.executeQueryFirst<{ account_name: string; currency: string }>(
+      c.env.DB,
+      'SELECT account_name, currency FROM bank_accounts WHERE id = ? AND is_active = 1',
+      [paymentData.bank_account_id]
+    );
+
+    if (!bankAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account not found or inactive'
+      }, 400);
+    }
+
+    // Customers pay in the currency they are invoiced in
+    const baseCurrency = await SettingsUtils.getBaseCurrency(c.env.DB);
+    const rate = await CurrencyUtils.resolveRate(
+      c.env.DB,
+      customer.currency,
+      paymentData.payment_date,
+      paymentData.exchange_rate,
+      baseCurrency
+    );
+
+    if (typeof rate === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: rate
+      }, 400);
+    }
+
+    const bankError = bankCurrencyError(bankAccount, customer.currency, baseCurrency);
+
+    if (bankError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: bankError
+      }, 400);
+    }
+
+    const applications = paymentData.applications || [];
+
+    const createdPayment = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const applicationError = await PaymentUtils.validateInvoiceApplications(
+        tx.db,
+        { customer_id: paymentData.customer_id, amount: paymentData.amount, currency: customer.currency },
+        0,
+        applications
+      );
+
+      if (applicationError) {
+        return applicationError;
+      }
+
+      const newPayment = {
+        id: DatabaseUtils.generateId('pmt'),
+        payment_number: await SequenceUtils.next(tx, 'payment', paymentData.payment_date),
+        payment_type: 'customer_payment' as const,
+        customer_id: paymentData.customer_id,
+        vendor_id: null,
+        payment_date: paymentData.payment_date,
+        amount: paymentData.amount,
+        currency: rate.currency,
+        exchange_rate: rate.exchange_rate,
+        payment_method: paymentData.payment_method,
+        reference_number: paymentData.reference_number || null,
+        bank_account_id: paymentData.bank_account_id,
+        notes: paymentData.notes || null,
+        created_by: currentUser.userId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+
+      const payment = tx.insert<Payment>('payments', newPayment);
+
+      await AutoJournalUtils.postPayment(tx, payment, currentUser.userId);
+
+      for (const application of PaymentUtils.insertInvoiceApplications(tx, payment.id, applications)) {
+        await AutoJournalUtils.postPaymentApplicationFx(tx, payment, application, currentUser.userId);
+      }
+
+      // Log audit
+      tx.audit(
+        'payments',
+        payment.id,
+        'create',
+        currentUser.userId,
+        undefined,
+        { ...payment, applications }
+      );
+
+      return payment;
+    });
+
+    if (typeof createdPayment === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: createdPayment
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdPayment,
+      message: 'Payment recorded successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create payment error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to record payment'
+    }, 500);
+  }
+});
+
+// Record a vendor payment and optionally apply it to bills
+payments.post('/vendor', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const paymentData = CreateVendorPaymentSchema.parse(body);
+    const currentUser = c.get('user');
+
+    const vendor = await DatabaseUtils.executeQueryFirst(
+      c.env.DB,
+      'SELECT id FROM vendors WHERE id = ?',
+      [paymentData.vendor_id]
+    );
+
+    if (!vendor) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Vendor not found'
+      }, 404);
+    }
+
+    const bankAccount = await DatabaseUtils.executeQueryFirst<{ account_name: string; currency: string }>(
+      c.env.DB,
+      'SELECT account_name, currency FROM bank_accounts WHERE id = ? AND is_active = 1',
+      [paymentData.bank_account_id]
+    );
+
+    if (!bankAccount) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Bank account not found or inactive'
+      }, 400);
+    }
+
+    const baseCurrency = await SettingsUtils.getBaseCurrency(c.env.DB);
+    const currency = paymentData.currency || baseCurrency;
+    const rate = await CurrencyUtils.resolveRate(
+      c.env.DB,
+      currency,
+      paymentData.payment_date,
+      paymentData.exchange_rate,
+      baseCurrency
+    );
+
+    if (typeof rate === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: rate
+      }, 400);
+    }
+
+    const bankError = bankCurrencyError(bankAccount, currency, baseCurrency);
+
+    if (bankError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: bankError
+      }, 400);
+    }
+
+    const applications = paymentData.applications || [];
+
+    const createdPayment = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const applicationError = await PaymentUtils.validateBillApplications(
+        tx.db,
+        { vendor_id: paymentData.vendor_id, amount: paymentData.amount, currency },
+        0,
+        applications
+      );
+
+      if (applicationError) {
+        return applicationError;
+      }
+
+      const newPayment = {
+        id: DatabaseUtils.generateId('pmt'),
+        payment_number: await SequenceUtils.next(tx, 'payment', paymentData.payment_date),
+        payment_type: 'vendor_payment' as const,
+        customer_id: null,
+        vendor_id: paymentData.vendor_id,
+        payment_date: paymentData.payment_date,
+        amount: paymentData.amount,
+        currency: rate.currency,
+        exchange_rate: rate.exchange_rate,
+        payment_method: paymentData.payment_method,
+        reference_number: paymentData.reference_number || null,
+        bank_account_id: paymentData.bank_account_id,
+        notes: paymentData.notes || null,
+        created_by: currentUser.userId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+
+      const payment = tx.insert<Payment>('payments', newPayment);
+
+      await AutoJournalUtils.postPayment(tx, payment, currentUser.userId);
+
+      for (const application of PaymentUtils.insertBillApplications(tx, payment.id, applications)) {
+        await AutoJournalUtils.postPaymentApplicationFx(tx, payment, application, currentUser.userId);
+      }
+
+      // Log audit
+      tx.audit(
+        'payments',
+        payment.id,
+        'create',
+        currentUser.userId,
+        undefined,
+        { ...payment, applications }
+      );
+
+      return payment;
+    });
+
+    if (typeof createdPayment === 'string') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: createdPayment
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdPayment,
+      message: 'Vendor payment recorded successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create vendor payment error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to record vendor payment'
+    }, 500);
+  }
+});
+
+// Apply the unapplied part of a payment to invoices (customer) or bills (vendor)
+payments.post('/:id/applications', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    const payment = await DatabaseUtils.executeQueryFirst<Payment>(
+      c.env.DB,
+      'SELECT * FROM payments WHERE id = ?',
+      [id]
+    );
+
+    if (!payment) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Payment not found'
+      }, 404);
+    }
+
+    // Validated inside the unit, so a retry after losing a race re-checks the committed balances
+    const applicationError = await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      const alreadyApplied = await PaymentUtils.getAppliedAmount(tx.db, id);
+      let inserted: PaymentApplication[];
+      let applications: Array<InvoiceApplicationInput | BillApplicationInput>;
+
+      if (payment.payment_type === 'customer_payment') {
+        const invoiceApplications = ApplyPaymentSchema.parse(body).applications;
+        const error = await PaymentUtils.validateInvoiceApplications(tx.db, payment, alreadyApplied, invoiceApplications);
+        if (error) {
+          return error;
+        }
+
+        inserted = PaymentUtils.insertInvoiceApplications(tx, id, invoiceApplications);
+        applications = invoiceApplications;
+      } else {
+        const billApplications = ApplyVendorPaymentSchema.parse(body).applications;
+        const error = await PaymentUtils.validateBillApplications(tx.db, payment, alreadyApplied, billApplications);
+        if (error) {
+          return error;
+        }
+
+        inserted = PaymentUtils.insertBillApplications(tx, id, billApplications);
+        applications = billApplications;
+      }
+
+      for (const application of inserted) {
+        await AutoJournalUtils.postPaymentApplicationFx(tx, payment, application, currentUser.userId);
+      }
+
+      // Log audit
+      tx.audit(
+        'payment_applications',
+        id,
+        'create',
+        currentUser.userId,
+        undefined,
+        { payment_id: id, applications }
+      );
+
+      return null;
+    });
+
+    if (applicationError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: applicationError
+      }, 400);
+    }
+
+    const appliedAmount = await PaymentUtils.getAppliedAmount(c.env.DB, id);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...payment,
+        applied_amount: appliedAmount,
+        unapplied_amount: payment.amount - appliedAmount
+      },
+      message: 'Payment applied successfully'
+    });
+
+  } catch (error) {
+    console.error('Apply payment error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to apply payment'
+    }, 500);
+  }
+});
+
+// Unapply a payment from an invoice or bill
+payments.delete('/:id/applications/:applicationId', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const applicationId = c.req.param('applicationId');
+    const currentUser = c.get('user');
+
+    const application = await DatabaseUtils.executeQueryFirst<PaymentApplication>(
+      c.env.DB,
+      'SELECT * FROM payment_applications WHERE id = ? AND payment_id = ?',
+      [applicationId, id]
+    );
+
+    if (!application) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Payment application not found'
+      }, 404);
+    }
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      await AutoJournalUtils.reverseApplicationFx(tx, 'payment_application', applicationId, currentUser.userId);
+      tx.delete('payment_applications', applicationId);
+      PaymentUtils.refreshApplicationTarget(tx, application);
+
+      // Log audit
+      tx.audit(
+        'payment_applications',
+        applicationId,
+        'delete',
+        currentUser.userId,
+        application
+      );
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Payment application removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Unapply payment error:', error);
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to remove payment application'
+    }, 500);
+  }
+});
+
+// Delete payment, rolling back every invoice or bill it was applied to
+payments.delete('/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    const paymentToDelete = await DatabaseUtils.executeQueryFirst<Payment>(
+      c.env.DB,
+      'SELECT * FROM payments WHERE id = ?',
+      [id]
+    );
+
+    if (!paymentToDelete) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Payment not found'
+      }, 404);
+    }
+
+    // A payment cleared against the bank statement has to be unmatched before it can go
+    const matched = await DatabaseUtils.executeQueryFirst(
+      c.env.DB,
+      `SELECT mj.match_id FROM bank_match_journal_lines mj
+      JOIN journal_entry_lines jel ON mj.journal_entry_line_id = jel.id
+      JOIN journal_entries je ON jel.journal_entry_id = je.id
+      WHERE je.source_type = 'payment' AND je.source_id = ?
+      LIMIT 1`,
+      [id]
+    );
+
+    if (matched) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Payment is matched in a bank reconciliation; unmatch it first'
+      }, 400);
+    }
+
+    const applications = await DatabaseUtils.executeQuery<PaymentApplication>(
+      c.env.DB,
+      'SELECT * FROM payment_applications WHERE payment_id = ?',
+      [id]
+    );
+
+    await DatabaseUtils.transaction(c.env.DB, async (tx) => {
+      await AutoJournalUtils.reversePayment(tx, paymentToDelete, currentUser.userId);
+
+      tx.add('DELETE FROM payment_applications WHERE payment_id = ?', [id]);
+
+      for (const application of applications.results) {
+        await AutoJournalUtils.reverseApplicationFx(tx, 'payment_application', application.id, currentUser.userId);
+        PaymentUtils.refreshApplicationTarget(tx, application);
+      }
+
+      tx.delete('payments', id);
+
+      // Log audit
+      tx.audit(
+        'payments',
+        id,
+        'delete',
+        currentUser.userId,
+        { ...paymentToDelete, applications: applications.results }
+      );
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Payment deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete payment error:', error);
+    if (error instanceof PostingError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete payment'
+    }, 500);
+  }
+});
+
+export default payments;
\ No newline at end of file
@@ -0,0 +1,450 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, RecurringInvoice, ApiResponse, PaginatedResponse } from '../types';
+import { CreateRecurringInvoiceSchema, UpdateRecurringInvoiceSchema } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { LedgerUtils } from '../utils/ledger';
+import { RecurringUtils } from '../utils/recurring';
+import { authMiddleware, requireRole, requireAdmin } from '../middleware/auth';
+
+const recurringInvoices = new Hono<{ Bindings: Env }>();
+
+// All recurring invoice routes require authentication
+recurringInvoices.use('*', authMiddleware);
+
+// Schedule fields whose change moves the template to a new position in its schedule
+const SCHEDULE_FIELDS = ['frequency', 'start_date', 'end_date'] as const;
+
+async function isActiveCustomer(db: D1Database, customerId: string): Promise<boolean> {
+  const customer = await DatabaseUtils.executeQueryFirst(
+    db,
+    'SELECT id FROM customers WHERE id = ? AND is_active = 1',
+    [customerId]
+  );
+
+  return !!customer;
+}
+
+// Get all recurring invoice templates
+recurringInvoices.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const customerId = c.req.query('customer_id') || '';
+    const includeInactive = c.req.query('include_inactive') === 'true';
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (!includeInactive) {
+      whereClause += ' AND ri.is_active = 1';
+    }
+
+    if (customerId) {
+      whereClause += ' AND ri.customer_id = ?';
+      params.push(customerId);
+    }
+
+    const baseQuery = `
+      SELECT ri.*,
+        c.company_name, c.first_name, c.last_name
+      FROM recurring_invoices ri
+      JOIN customers c ON ri.customer_id = c.id
+      ${whereClause}
+      ORDER BY ri.next_run_date IS NULL, ri.next_run_date ASC, ri.name ASC
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as count
+      FROM recurring_invoices ri
+      ${whereClause}
+    `;
+
+    const result = await DatabaseUtils.paginate<RecurringInvoice>(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<RecurringInvoice>>({
+      success: true,
+      data: result.results.map(template => ({
+        ...template,
+        line_items: RecurringUtils.parseLineItems(template)
+      })) as any,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get recurring invoices error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch recurring invoices'
+    }, 500);
+  }
+});
+
+// Upcoming runs across all active templates
+recurringInvoices.get('/upcoming', requireRole('accountant'), async (c) => {
+  try {
+    const days = Math.min(Math.max(parseInt(c.req.query('days') || '30') || 30, 1), 366);
+    const today = DatabaseUtils.formatDate(new Date());
+    const until = LedgerUtils.addDays(today, days);
+
+    const templates = await DatabaseUtils.executeQuery<RecurringInvoice & {
+      company_name: string | null;
+      first_name: string | null;
+      last_name: string | null;
+    }>(
+      c.env.DB,
+      `SELECT ri.*, c.company_name, c.first_name, c.last_name
+      FROM recurring_invoices ri
+      JOIN customers c ON ri.customer_id = c.id
+      WHERE ri.is_active = 1 AND ri.next_run_date IS NOT NULL AND ri.next_run_date <= ?`,
+      [until]
+    );
+
+    const runs = templates.results.flatMap(template =>
+      RecurringUtils.preview(template, 366, until).map(run => ({
+        recurring_invoice_id: template.id,
+        name: template.name,
+        customer_id: template.customer_id,
+        company_name: template.company_name,
+        first_name: template.first_name,
+        last_name: template.last_name,
+        auto_send: template.auto_send,
+        ...run
+      }))
+    ).sort((a, b) => a.run_date.localeCompare(b.run_date));
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        from: today,
+        to: until,
+        runs
+      }
+    });
+
+  } catch (error) {
+    console.error('Get upcoming recurring invoices error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch upcoming recurring invoices'
+    }, 500);
+  }
+});
+
+// Generate everything due now, as the scheduled handler does
+recurringInvoices.post('/run', requireAdmin, async (c) => {
+  try {
+    const summary = await RecurringUtils.runDue(c.env.DB, DatabaseUtils.formatDate(new Date()));
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: summary,
+      message: `${summary.generated.length} invoice(s) generated, ${summary.failed.length} template(s) failed`
+    });
+
+  } catch (error) {
+    console.error('Run recurring invoices error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to run recurring invoices'
+    }, 500);
+  }
+});
+
+// Get template by ID with its upcoming runs and the invoices it generated
+recurringInvoices.get('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const count = Math.min(Math.max(parseInt(c.req.query('count') || '6') || 6, 1), 60);
+
+    const template = await DatabaseUtils.executeQueryFirst<RecurringInvoice>(
+      c.env.DB,
+      `SELECT ri.*, c.company_name, c.first_name, c.last_name, c.email
+      FROM recurring_invoices ri
+      JOIN customers c ON ri.customer_id = c.id
+      WHERE ri.id = ?`,
+      [id]
+    );
+
+    if (!template) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Recurring invoice not found'
+      }, 404);
+    }
+
+    const invoices = await DatabaseUtils.executeQuery(
+      c.env.DB,
+      `SELECT id, invoice_number, invoice_date, due_date, total_amount, balance_due, status
+      FROM invoices
+      WHERE recurring_invoice_id = ?
+      ORDER BY invoice_date DESC
+      LIMIT 24`,
+      [id]
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...template,
+        line_items: RecurringUtils.parseLineItems(template),
+        upcoming_runs: RecurringUtils.preview(template, count),
+        invoices: invoices.results
+      }
+    });
+
+  } catch (error) {
+    console.error('Get recurring invoice error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch recurring invoice'
+    }, 500);
+  }
+});
+
+// Create recurring invoice template
+recurringInvoices.post('/', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const templateData = CreateRecurringInvoiceSchema.parse(body);
+    const currentUser = c.get('user');
+
+    if (!await isActiveCustomer(c.env.DB, templateData.customer_id)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Customer not found or inactive'
+      }, 400);
+    }
+
+    const newTemplate = {
+      id: DatabaseUtils.generateId('rinv'),
+      name: templateData.name,
+      customer_id: templateData.customer_id,
+      frequency: templateData.frequency,
+      start_date: templateData.start_date,
+      end_date: templateData.end_date || null,
+      next_run_date: templateData.start_date,
+      run_count: 0,
+      payment_terms_days: templateData.payment_terms_days,
+      auto_send: templateData.auto_send,
+      line_items: JSON.stringify(templateData.line_items),
+      notes: templateData.notes || null,
+      terms: templateData.terms || null,
+      is_active: true,
+      created_by: currentUser.userId,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    const createdTemplate = await DatabaseUtils.insertRecord<RecurringInvoice>(
+      c.env.DB,
+      'recurring_invoices',
+      newTemplate
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'recurring_invoices',
+      createdTemplate.id,
+      'create',
+      currentUser.userId,
+      undefined,
+      createdTemplate
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...createdTemplate,
+        line_items: templateData.line_items
+      },
+      message: 'Recurring invoice created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create recurring invoice error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create recurring invoice'
+    }, 500);
+  }
+});
+
+// Update recurring invoice template; changes apply to runs that have not been generated yet
+recurringInvoices.put('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    const updateData = UpdateRecurringInvoiceSchema.parse(body);
+
+    if (Object.keys(updateData).length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, 400);
+    }
+
+    const oldTemplate = await DatabaseUtils.executeQueryFirst<RecurringInvoice>(
+      c.env.DB,
+      'SELECT * FROM recurring_invoices WHERE id = ?',
+      [id]
+    );
+
+    if (!oldTemplate) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Recurring invoice not found'
+      }, 404);
+    }
+
+    if (updateData.customer_id && !await isActiveCustomer(c.env.DB, updateData.customer_id)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Customer not found or inactive'
+      }, 400);
+    }
+
+    const schedule = {
+      frequency: updateData.frequency || oldTemplate.frequency,
+      start_date: updateData.start_date || oldTemplate.start_date,
+      end_date: updateData.end_date !== undefined ? updateData.end_date || null : oldTemplate.end_date
+    };
+
+    if (schedule.end_date && schedule.start_date > schedule.end_date) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'end_date must be on or after start_date'
+      }, 400);
+    }
+
+    const { line_items, ...fields } = updateData;
+    const changes: Record<string, any> = {
+      ...fields,
+      ...(line_items ? { line_items: JSON.stringify(line_items) } : {}),
+      ...(updateData.end_date !== undefined ? { end_date: schedule.end_date } : {})
+    };
+
+    if (SCHEDULE_FIELDS.some(field => updateData[field] !== undefined)) {
+      const lastRun = await DatabaseUtils.executeQueryFirst<{ last_run_date: string | null }>(
+        c.env.DB,
+        'SELECT MAX(invoice_date) as last_run_date FROM invoices WHERE recurring_invoice_id = ?',
+        [id]
+      );
+
+      Object.assign(changes, RecurringUtils.reschedule(schedule, lastRun?.last_run_date || null));
+    }
+
+    const updatedTemplate = await DatabaseUtils.updateRecord<RecurringInvoice>(
+      c.env.DB,
+      'recurring_invoices',
+      id,
+      changes
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'recurring_invoices',
+      id,
+      'update',
+      currentUser.userId,
+      oldTemplate,
+      updatedTemplate
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...updatedTemplate,
+        line_items: RecurringUtils.parseLineItems(updatedTemplate)
+      },
+      message: 'Recurring invoice updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update recurring invoice error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update recurring invoice'
+    }, 500);
+  }
+});
+
+// Deactivate recurring invoice template; invoices it already generated are kept
+recurringInvoices.delete('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    const template = await DatabaseUtils.executeQueryFirst<RecurringInvoice>(
+      c.env.DB,
+      'SELECT * FROM recurring_invoices WHERE id = ?',
+      [id]
+    );
+
+    if (!template) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Recurring invoice not found'
+      }, 404);
+    }
+
+    await DatabaseUtils.updateRecord(
+      c.env.DB,
+      'recurring_invoices',
+      id,
+      { is_active: false }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'recurring_invoices',
+      id,
+      'delete',
+      currentUser.userId,
+      template,
+      { is_active: false }
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Recurring invoice deactivated successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete recurring invoice error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to deactivate recurring invoice'
+    }, 500);
+  }
+});
+
+export default recurringInvoices;
\ No newline at end of file
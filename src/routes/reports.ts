@@ -0,0 +1,426 @@
+import { Hono } from 'hono';
+import type { Env, ApiResponse } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { JournalUtils } from '../utils/journal';
+import { LedgerUtils } from '../utils/ledger';
+import type { StatementRow } from '../utils/ledger';
+import { AgingUtils } from '../utils/aging';
+import { ReceivablesUtils } from '../utils/receivables';
+import { BankAccountUtils } from '../utils/bank-accounts';
+import { SettingsUtils } from '../utils/settings';
+import { CsvUtils } from '../utils/csv';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const reports = new Hono<{ Bindings: Env }>();
+
+// All report routes require authentication
+reports.use('*', authMiddleware);
+
+const TRIAL_BALANCE_COLUMNS = ['opening', 'debits', 'credits'];
+
+// Trial balance: opening balance, period activity and closing balance per account
+reports.get('/trial-balance', requireRole('accountant'), async (c) => {
+  try {
+    const asOf = c.req.query('as_of') || DatabaseUtils.formatDate(new Date());
+    const { fiscal_year_start_month } = await SettingsUtils.getCompanySettings(c.env.DB);
+    const from = c.req.query('from') || LedgerUtils.startOfFiscalYear(asOf, fiscal_year_start_month);
+
+    if (!LedgerUtils.isValidDate(asOf) || !LedgerUtils.isValidDate(from)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dates must be in YYYY-MM-DD format'
+      }, 400);
+    }
+
+    if (from > asOf) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'from must be on or before as_of'
+      }, 400);
+    }
+
+    const accounts = await LedgerUtils.getAccounts(c.env.DB);
+    const opening = await LedgerUtils.getActivity(c.env.DB, { to: LedgerUtils.addDays(from, -1) });
+    const period = await LedgerUtils.getActivity(c.env.DB, { from, to: asOf });
+
+    // Own amounts in cents; balances are signed with debits positive
+    const amounts = new Map<string, Record<string, number>>();
+    for (const account of accounts) {
+      const openingActivity = opening.get(account.id);
+      const periodActivity = period.get(account.id);
+      amounts.set(account.id, {
+        opening: openingActivity ? openingActivity.debit - openingActivity.credit : 0,
+        debits: periodActivity?.debit || 0,
+        credits: periodActivity?.credit || 0
+      });
+    }
+
+    const rolled = LedgerUtils.rollUp(accounts, amounts, TRIAL_BALANCE_COLUMNS);
+
+    const rows = LedgerUtils.orderAsTree(accounts).map(account => {
+      const totals = rolled.get(account.id)!;
+      const closing = totals.opening + totals.debits - totals.credits;
+
+      return {
+        id: account.id,
+        account_code: account.account_code,
+        account_name: account.account_name,
+        account_type: account.account_type,
+        parent_id: account.parent_id,
+        level: account.level,
+        has_children: account.has_children,
+        opening_balance: JournalUtils.fromCents(totals.opening),
+        period_debits: JournalUtils.fromCents(totals.debits),
+        period_credits: JournalUtils.fromCents(totals.credits),
+        closing_balance: JournalUtils.fromCents(closing),
+        closing_debit: closing > 0 ? JournalUtils.fromCents(closing) : 0,
+        closing_credit: closing < 0 ? JournalUtils.fromCents(-closing) : 0
+      };
+    });
+
+    // Grand totals come from each account's own amounts so parents are not counted twice
+    const grand = { debits: 0, credits: 0, closing_debits: 0, closing_credits: 0 };
+    for (const own of amounts.values()) {
+      const closing = own.opening + own.debits - own.credits;
+      grand.debits += own.debits;
+      grand.credits += own.credits;
+      if (closing > 0) {
+        grand.closing_debits += closing;
+      } else {
+        grand.closing_credits -= closing;
+      }
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        from,
+        as_of: asOf,
+        accounts: rows,
+        totals: {
+          period_debits: JournalUtils.fromCents(grand.debits),
+          period_credits: JournalUtils.fromCents(grand.credits),
+          closing_debits: JournalUtils.fromCents(grand.closing_debits),
+          closing_credits: JournalUtils.fromCents(grand.closing_credits)
+        },
+        is_balanced: grand.debits === grand.credits && grand.closing_debits === grand.closing_credits
+      }
+    });
+
+  } catch (error) {
+    console.error('Get trial balance error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to generate trial balance'
+    }, 500);
+  }
+});
+
+// Balance sheet as of a date, with current-year earnings shown in equity
+reports.get('/balance-sheet', requireRole('accountant'), async (c) => {
+  try {
+    const asOf = c.req.query('as_of') || DatabaseUtils.formatDate(new Date());
+    const comparisons = LedgerUtils.parseComparisons(c.req.query('compare'));
+
+    if (!LedgerUtils.isValidDate(asOf)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dates must be in YYYY-MM-DD format'
+      }, 400);
+    }
+
+    if (!comparisons) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'compare must be a list of prior_period, prior_year'
+      }, 400);
+    }
+
+    const columns = LedgerUtils.balanceSheetColumns(asOf, comparisons);
+    const accounts = await LedgerUtils.getAccounts(c.env.DB);
+    const { fiscal_year_start_month } = await SettingsUtils.getCompanySettings(c.env.DB);
+    const balances = await LedgerUtils.getColumnBalances(c.env.DB, columns);
+
+    const assets = LedgerUtils.buildSection(accounts, balances, columns, 'asset');
+    const liabilities = LedgerUtils.buildSection(accounts, balances, columns, 'liability');
+    const equity = LedgerUtils.buildSection(accounts, balances, columns, 'equity');
+
+    // Revenue and expense accounts are only closed into retained earnings at year end, so
+    // their balances are carried into equity here to keep the statement in balance
+    const currentYearEarnings: Record<string, number> = {};
+    const unclosedEarnings: Record<string, number> = {};
+    for (const column of columns) {
+      const yearStart = LedgerUtils.startOfFiscalYear(column.to, fiscal_year_start_month);
+      currentYearEarnings[column.key] = JournalUtils.fromCents(
+        await LedgerUtils.getNetIncome(c.env.DB, accounts, { from: yearStart, to: column.to })
+      );
+      unclosedEarnings[column.key] = JournalUtils.fromCents(
+        await LedgerUtils.getNetIncome(c.env.DB, accounts, { to: LedgerUtils.addDays(yearStart, -1) })
+      );
+    }
+
+    const earningsRows: StatementRow[] = [];
+    if (Object.values(unclosedEarnings).some(amount => amount !== 0)) {
+      earningsRows.push({
+        id: 'unclosed_prior_year_earnings',
+        account_code: '',
+        account_name: 'Prior Years Earnings (Not Closed)',
+        parent_id: null,
+        level: 0,
+        has_children: false,
+        amounts: unclosedEarnings
+      });
+    }
+    earningsRows.push({
+      id: 'current_year_earnings',
+      account_code: '',
+      account_name: 'Current Year Earnings',
+      parent_id: null,
+      level: 0,
+      has_children: false,
+      amounts: currentYearEarnings
+    });
+
+    equity.accounts.push(...earningsRows);
+    for (const column of columns) {
+      const earningsCents = earningsRows.reduce((sum, row) => sum + JournalUtils.toCents(row.amounts[column.key]), 0);
+      equity.total[column.key] = JournalUtils.fromCents(JournalUtils.toCents(equity.total[column.key]) + earningsCents);
+    }
+
+    const totalLiabilitiesAndEquity: Record<string, number> = {};
+    const isBalanced: Record<string, boolean> = {};
+    for (const column of columns) {
+      const cents = JournalUtils.toCents(liabilities.total[column.key]) + JournalUtils.toCents(equity.total[column.key]);
+      totalLiabilitiesAndEquity[column.key] = JournalUtils.fromCents(cents);
+      isBalanced[column.key] = cents === JournalUtils.toCents(assets.total[column.key]);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        as_of: asOf,
+        columns,
+        assets,
+        liabilities,
+        equity,
+        total_liabilities_and_equity: totalLiabilitiesAndEquity,
+        is_balanced: isBalanced
+      }
+    });
+
+  } catch (error) {
+    console.error('Get balance sheet error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to generate balance sheet'
+    }, 500);
+  }
+});
+
+// Income statement for a date range
+reports.get('/income-statement', requireRole('accountant'), async (c) => {
+  try {
+    const to = c.req.query('to') || DatabaseUtils.formatDate(new Date());
+    const { fiscal_year_start_month } = await SettingsUtils.getCompanySettings(c.env.DB);
+    const from = c.req.query('from') || LedgerUtils.startOfFiscalYear(to, fiscal_year_start_month);
+    const comparisons = LedgerUtils.parseComparisons(c.req.query('compare'));
+
+    if (!LedgerUtils.isValidDate(from) || !LedgerUtils.isValidDate(to)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dates must be in YYYY-MM-DD format'
+      }, 400);
+    }
+
+    if (from > to) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'from must be on or before to'
+      }, 400);
+    }
+
+    if (!comparisons) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'compare must be a list of prior_period, prior_year'
+      }, 400);
+    }
+
+    const columns = LedgerUtils.incomeStatementColumns(from, to, comparisons);
+    const accounts = await LedgerUtils.getAccounts(c.env.DB);
+    const balances = await LedgerUtils.getColumnBalances(c.env.DB, columns, { excludeClosingEntries: true });
+
+    const revenue = LedgerUtils.buildSection(accounts, balances, columns, 'revenue');
+    const expenses = LedgerUtils.buildSection(accounts, balances, columns, 'expense');
+
+    const netIncome: Record<string, number> = {};
+    for (const column of columns) {
+      netIncome[column.key] = JournalUtils.fromCents(
+        JournalUtils.toCents(revenue.total[column.key]) - JournalUtils.toCents(expenses.total[column.key])
+      );
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        from,
+        to,
+        columns,
+        revenue,
+        expenses,
+        net_income: netIncome
+      }
+    });
+
+  } catch (error) {
+    console.error('Get income statement error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to generate income statement'
+    }, 500);
+  }
+});
+
+// Accounts receivable aging, grouped by customer. Balances are as they stood at the end of
+// as_of, so month-end aging can be reproduced later, and are in the base currency at the rates
+// the invoices were booked at. `buckets` takes the day boundaries
+// (default 30,60,90), `detail=true` lists the invoices behind each row and `format=csv`
+// downloads the report.
+reports.get('/ar-aging', requireRole('accountant'), async (c) => {
+  try {
+    const asOf = c.req.query('as_of') || DatabaseUtils.formatDate(new Date());
+    const buckets = AgingUtils.parseBuckets(c.req.query('buckets'));
+    const customerId = c.req.query('customer_id');
+    const detail = c.req.query('detail') === 'true';
+    const format = c.req.query('format') || 'json';
+
+    if (!LedgerUtils.isValidDate(asOf)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dates must be in YYYY-MM-DD format'
+      }, 400);
+    }
+
+    if (!buckets) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'buckets must be ascending day boundaries, e.g. 30,60,90'
+      }, 400);
+    }
+
+    if (!['json', 'csv'].includes(format)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'format must be json or csv'
+      }, 400);
+    }
+
+    const openInvoices = (await ReceivablesUtils.openInvoicesAsOf(c.env.DB, asOf, customerId)).map(invoice => {
+      const daysPastDue = AgingUtils.daysPastDue(invoice.due_date, asOf);
+      return { ...invoice, days_past_due: daysPastDue, bucket: AgingUtils.bucketFor(daysPastDue, buckets).key };
+    });
+
+    const aging = AgingUtils.summarize(
+      openInvoices.map(invoice => ({
+        party_id: invoice.customer_id,
+        party_name: invoice.customer_name,
+        due_date: invoice.due_date,
+        balance_due: invoice.base_balance_due
+      })),
+      asOf,
+      buckets
+    );
+
+    if (format === 'csv') {
+      const csv = detail
+        ? CsvUtils.stringify(
+          ['Customer', 'Invoice', 'Invoice Date', 'Due Date', 'Days Past Due', 'Bucket', 'Currency', 'Total Amount', 'Balance Due', 'Base Balance Due'],
+          openInvoices.map(invoice => [
+            invoice.customer_name,
+            invoice.invoice_number,
+            invoice.invoice_date,
+            invoice.due_date,
+            invoice.days_past_due,
+            buckets.find(bucket => bucket.key === invoice.bucket)!.label,
+            invoice.currency,
+            invoice.total_amount.toFixed(2),
+            invoice.balance_due.toFixed(2),
+            invoice.base_balance_due.toFixed(2)
+          ])
+        )
+        : CsvUtils.stringify(
+          ['Customer', ...buckets.map(bucket => bucket.label), 'Total'],
+          [
+            ...aging.rows.map(row => [
+              row.party_name,
+              ...buckets.map(bucket => row.buckets[bucket.key].toFixed(2)),
+              row.total.toFixed(2)
+            ]),
+            ['Total', ...buckets.map(bucket => aging.totals[bucket.key].toFixed(2)), aging.grand_total.toFixed(2)]
+          ]
+        );
+
+      return CsvUtils.response(csv, `ar-aging-${asOf}.csv`);
+    }
+
+    const rows = detail
+      ? aging.rows.map(row => ({
+        ...row,
+        invoices: openInvoices.filter(invoice => invoice.customer_id === row.party_id)
+      }))
+      : aging.rows;
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        as_of: asOf,
+        buckets: buckets.map(bucket => ({
+          key: bucket.key,
+          label: bucket.label,
+          min: Number.isFinite(bucket.min) ? bucket.min : null,
+          max: bucket.max
+        })),
+        rows,
+        totals: aging.totals,
+        grand_total: aging.grand_total
+      }
+    });
+
+  } catch (error) {
+    console.error('Get AR aging error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to generate AR aging report'
+    }, 500);
+  }
+});
+
+// Cash position: the balance of every bank account at the end of as_of, in the base currency
+reports.get('/cash-position', requireRole('accountant'), async (c) => {
+  try {
+    const asOf = c.req.query('as_of') || DatabaseUtils.formatDate(new Date());
+
+    if (!LedgerUtils.isValidDate(asOf)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Dates must be in YYYY-MM-DD format'
+      }, 400);
+    }
+
+    const settings = await SettingsUtils.getCompanySettings(c.env.DB);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: await BankAccountUtils.getCashPosition(c.env.DB, asOf, settings.base_currency)
+    });
+
+  } catch (error) {
+    console.error('Get cash position error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to generate cash position'
+    }, 500);
+  }
+});
+
+export default reports;
\ No newline at end of file
@@ -0,0 +1,383 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env, Vendor, ApiResponse, PaginatedResponse } from '../types';
+import { CreateVendorSchema } from '../types';
+import { DatabaseUtils } from '../utils/database';
+import { authMiddleware, requireRole } from '../middleware/auth';
+
+const vendors = new Hono<{ Bindings: Env }>();
+
+// All vendor routes require authentication
+vendors.use('*', authMiddleware);
+
+// Get all vendors
+vendors.get('/', requireRole('accountant'), async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const search = c.req.query('search') || '';
+    const active = c.req.query('active');
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (search) {
+      whereClause += ' AND (company_name LIKE ? OR contact_name LIKE ? OR email LIKE ? OR vendor_code LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm, searchTerm, searchTerm);
+    }
+
+    if (active === 'true' || active === 'false') {
+      whereClause += ' AND is_active = ?';
+      params.push(active === 'true' ? 1 : 0);
+    }
+
+    const baseQuery = `
+      SELECT *,
+        (SELECT COUNT(*) FROM bills WHERE vendor_id = vendors.id) as bill_count,
+        (SELECT ROUND(COALESCE(SUM(balance_due * exchange_rate), 0), 2) FROM bills WHERE vendor_id = vendors.id AND status NOT IN ('paid', 'void')) as outstanding_balance
+      FROM vendors
+      ${whereClause}
+      ORDER BY created_at DESC
+    `;
+
+    const countQuery = `SELECT COUNT(*) as count FROM vendors ${whereClause}`;
+
+    const result = await DatabaseUtils.paginate<Vendor & {
+      bill_count: number;
+      outstanding_balance: number;
+    }>(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<Vendor>>({
+      success: true,
+      data: result.results as any,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get vendors error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch vendors'
+    }, 500);
+  }
+});
+
+// Get vendor by ID
+vendors.get('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+
+    const vendor = await DatabaseUtils.executeQueryFirst<Vendor & {
+      bill_count: number;
+      outstanding_balance: number;
+      total_paid: number;
+    }>(
+      c.env.DB,
+      `SELECT v.*,
+        (SELECT COUNT(*) FROM bills WHERE vendor_id = v.id) as bill_count,
+        (SELECT ROUND(COALESCE(SUM(balance_due * exchange_rate), 0), 2) FROM bills WHERE vendor_id = v.id AND status NOT IN ('paid', 'void')) as outstanding_balance,
+        (SELECT ROUND(COALESCE(SUM(paid_amount * exchange_rate), 0), 2) FROM bills WHERE vendor_id = v.id) as total_paid
+      FROM vendors v
+      WHERE v.id = ?`,
+      [id]
+    );
+
+    if (!vendor) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Vendor not found'
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: vendor
+    });
+
+  } catch (error) {
+    console.error('Get vendor error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch vendor'
+    }, 500);
+  }
+});
+
+// Create vendor
+vendors.post('/', requireRole('accountant'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const vendorData = CreateVendorSchema.parse(body);
+    const currentUser = c.get('user');
+
+    // Check if vendor code already exists
+    const existingVendor = await DatabaseUtils.executeQueryFirst(
+      c.env.DB,
+      'SELECT id FROM vendors WHERE vendor_code = ?',
+      [vendorData.vendor_code]
+    );
+
+    if (existingVendor) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Vendor with this code already exists'
+      }, 400);
+    }
+
+    // Create new vendor
+    const newVendor = {
+      id: DatabaseUtils.generateId('vend'),
+      ...vendorData,
+      is_active: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    const createdVendor = await DatabaseUtils.insertRecord<Vendor>(
+      c.env.DB,
+      'vendors',
+      newVendor
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'vendors',
+      createdVendor.id,
+      'create',
+      currentUser.userId,
+      undefined,
+      createdVendor
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: createdVendor,
+      message: 'Vendor created successfully'
+    }, 201);
+
+  } catch (error) {
+    console.error('Create vendor error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to create vendor'
+    }, 500);
+  }
+});
+
+// Update vendor
+vendors.put('/:id', requireRole('accountant'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json();
+    const currentUser = c.get('user');
+
+    const updateSchema = CreateVendorSchema.partial().extend({
+      is_active: z.boolean().optional()
+    });
+
+    const updateData = updateSchema.parse(body);
+
+    // Get current vendor data for audit
+    const oldVendor = await DatabaseUtils.executeQueryFirst<Vendor>(
+      c.env.DB,
+      'SELECT * FROM vendors WHERE id = ?',
+      [id]
+    );
+
+    if (!oldVendor) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Vendor not found'
+      }, 404);
+    }
+
+    // Check if vendor code already exists (if being updated)
+    if (updateData.vendor_code && updateData.vendor_code !== oldVendor.vendor_code) {
+      const existingVendor = await DatabaseUtils.executeQueryFirst(
+        c.env.DB,
+        'SELECT id FROM vendors WHERE vendor_code = ? AND id != ?',
+        [updateData.vendor_code, id]
+      );
+
+      if (existingVendor) {
+        return c.json<ApiResponse>({
+          success: false,
+          error: 'Vendor with this code already exists'
+        }, 400);
+      }
+    }
+
+    const updatedVendor = await DatabaseUtils.updateRecord<Vendor>(
+      c.env.DB,
+      'vendors',
+      id,
+      updateData
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'vendors',
+      id,
+      'update',
+      currentUser.userId,
+      oldVendor,
+      updatedVendor
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: updatedVendor,
+      message: 'Vendor updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Update vendor error:', error);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request data',
+        data: error.errors
+      }, 400);
+    }
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to update vendor'
+    }, 500);
+  }
+});
+
+// Delete vendor (soft delete)
+vendors.delete('/:id', requireRole('manager'), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const currentUser = c.get('user');
+
+    // Get vendor data for audit
+    const vendorToDelete = await DatabaseUtils.executeQueryFirst<Vendor>(
+      c.env.DB,
+      'SELECT * FROM vendors WHERE id = ?',
+      [id]
+    );
+
+    if (!vendorToDelete) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Vendor not found'
+      }, 404);
+    }
+
+    // Check if vendor has open bills
+    const openBills = await DatabaseUtils.executeQueryFirst<{ count: number }>(
+      c.env.DB,
+      'SELECT COUNT(*) as count FROM bills WHERE vendor_id = ? AND status NOT IN (\'paid\', \'void\')',
+      [id]
+    );
+
+    if (openBills && openBills.count > 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Cannot delete vendor with open bills'
+      }, 400);
+    }
+
+    // Soft delete by setting is_active to false
+    await DatabaseUtils.updateRecord(
+      c.env.DB,
+      'vendors',
+      id,
+      { is_active: false }
+    );
+
+    // Log audit
+    await DatabaseUtils.logAudit(
+      c.env.DB,
+      'vendors',
+      id,
+      'delete',
+      currentUser.userId,
+      vendorToDelete,
+      { is_active: false }
+    );
+
+    return c.json<ApiResponse>({
+      success: true,
+      message: 'Vendor deactivated successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete vendor error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to delete vendor'
+    }, 500);
+  }
+});
+
+// Get vendor's bills
+vendors.get('/:id/bills', requireRole('accountant'), async (c) => {
+  try {
+    const vendorId = c.req.param('id');
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '10');
+    const status = c.req.query('status');
+
+    let whereClause = 'WHERE vendor_id = ?';
+    const params: any[] = [vendorId];
+
+    if (status) {
+      whereClause += ' AND status = ?';
+      params.push(status);
+    }
+
+    const baseQuery = `
+      SELECT * FROM bills
+      ${whereClause}
+      ORDER BY bill_date DESC, created_at DESC
+    `;
+
+    const countQuery = `SELECT COUNT(*) as count FROM bills ${whereClause}`;
+
+    const result = await DatabaseUtils.paginate(
+      c.env.DB,
+      baseQuery,
+      countQuery,
+      params,
+      page,
+      limit
+    );
+
+    return c.json<PaginatedResponse<any>>({
+      success: true,
+      data: result.results,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('Get vendor bills error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch vendor bills'
+    }, 500);
+  }
+});
+
+export default vendors;
\ No newline at end of file
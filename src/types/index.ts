@@ -5,8 +5,30 @@ export interface Env {
   DB: D1Database;
   JWT_SECRET?: string;
   ENVIRONMENT?: string;
+  // Outgoing email: 'local' (log only, the default) or 'http' (provider API at EMAIL_HTTP_URL)
+  EMAIL_TRANSPORT?: string;
+  EMAIL_FROM?: string;
+  EMAIL_HTTP_URL?: string;
+  EMAIL_HTTP_API_KEY?: string;
+  // Where the frontend is served, for links in emails; password resets are refused without it
+  APP_URL?: string;
 }
 
+// ISO 4217 currency code, such as USD or BDT
+export const CurrencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'Currency must be a three-letter ISO 4217 code');
+
+// Calendar date as YYYY-MM-DD. Dates are compared as strings (period locks, aging), so any
+// other shape or a day that does not exist, such as 2025-02-30, is rejected.
+export const DateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format')
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, 'Not a valid date');
+
+// Units of the base currency per unit of a document's currency, captured on the document's date
+export const ExchangeRateValueSchema = z.number().positive().max(1e9);
+
 // User types
 export const UserRoles = ['admin', 'manager', 'accountant', 'user'] as const;
 export type UserRole = typeof UserRoles[number];
@@ -39,6 +61,26 @@ export const LoginSchema = z.object({
   password: z.string()
 });
 
+export const RequestPasswordResetSchema = z.object({
+  email: z.string().email()
+});
+
+export const ConfirmPasswordResetSchema = z.object({
+  token: z.string().min(1),
+  newPassword: z.string().min(6)
+});
+
+export const PasswordResetTokenSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  token_hash: z.string(),
+  expires_at: z.string(),
+  used_at: z.string().nullable(),
+  created_at: z.string()
+});
+
+export type PasswordResetToken = z.infer<typeof PasswordResetTokenSchema>;
+
 // Customer types
 export const CustomerSchema = z.object({
   id: z.string(),
@@ -56,6 +98,8 @@ export const CustomerSchema = z.object({
   tax_id: z.string().nullable(),
   credit_limit: z.number().default(0),
   payment_terms: z.number().default(30),
+  // Currency the customer is invoiced in
+  currency: z.string(),
   is_active: z.boolean().default(true),
   created_at: z.string(),
   updated_at: z.string()
@@ -77,11 +121,50 @@ export const CreateCustomerSchema = z.object({
   country: z.string().default('USA'),
   tax_id: z.string().nullable(),
   credit_limit: z.number().default(0),
-  payment_terms: z.number().default(30)
+  payment_terms: z.number().default(30),
+  // Defaults to the company's base currency
+  currency: CurrencyCodeSchema.optional()
 }).refine(data => data.company_name || (data.first_name && data.last_name), {
   message: "Either company_name or both first_name and last_name must be provided"
 });
 
+// Vendor types
+export const VendorSchema = z.object({
+  id: z.string(),
+  vendor_code: z.string(),
+  company_name: z.string(),
+  contact_name: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  address: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  postal_code: z.string().nullable(),
+  country: z.string().default('USA'),
+  tax_id: z.string().nullable(),
+  payment_terms: z.number().default(30),
+  is_active: z.boolean().default(true),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type Vendor = z.infer<typeof VendorSchema>;
+
+export const CreateVendorSchema = z.object({
+  vendor_code: z.string().min(1),
+  company_name: z.string().min(1),
+  contact_name: z.string().nullable(),
+  email: z.string().email().nullable(),
+  phone: z.string().nullable(),
+  address: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  postal_code: z.string().nullable(),
+  country: z.string().default('USA'),
+  tax_id: z.string().nullable(),
+  payment_terms: z.number().default(30)
+});
+
 // Invoice types
 export const InvoiceStatus = ['draft', 'sent', 'viewed', 'partial', 'paid', 'overdue', 'void'] as const;
 export type InvoiceStatusType = typeof InvoiceStatus[number];
@@ -90,16 +173,22 @@ export const InvoiceSchema = z.object({
   id: z.string(),
   invoice_number: z.string(),
   customer_id: z.string(),
-  invoice_date: z.string(),
-  due_date: z.string(),
+  invoice_date: DateSchema,
+  due_date: DateSchema,
   subtotal: z.number(),
   tax_amount: z.number(),
   total_amount: z.number(),
   paid_amount: z.number(),
+  credited_amount: z.number(),
   balance_due: z.number(),
+  currency: z.string(),
+  exchange_rate: z.number(),
   status: z.enum(InvoiceStatus),
   notes: z.string().nullable(),
   terms: z.string().nullable(),
+  recurring_invoice_id: z.string().nullable(),
+  sent_at: z.string().nullable(),
+  viewed_at: z.string().nullable(),
   created_by: z.string(),
   created_at: z.string(),
   updated_at: z.string()
@@ -109,8 +198,10 @@ export type Invoice = z.infer<typeof InvoiceSchema>;
 
 export const CreateInvoiceSchema = z.object({
   customer_id: z.string(),
-  invoice_date: z.string(),
-  due_date: z.string(),
+  invoice_date: DateSchema,
+  due_date: DateSchema,
+  // Invoices are in the customer's currency; the rate defaults to the one in force on invoice_date
+  exchange_rate: ExchangeRateValueSchema.optional(),
   notes: z.string().optional(),
   terms: z.string().optional(),
   line_items: z.array(z.object({
@@ -122,6 +213,399 @@ export const CreateInvoiceSchema = z.object({
   }))
 });
 
+// Draft edits: line_items, when given, replaces every line. A line that carries the id of one of
+// the invoice's current lines is updated in place; lines without an id are added.
+export const UpdateInvoiceSchema = CreateInvoiceSchema.extend({
+  line_items: z.array(CreateInvoiceSchema.shape.line_items.element.extend({
+    id: z.string().optional()
+  })).min(1)
+}).partial();
+
+// Credit note types
+export const CreditNoteStatus = ['open', 'applied', 'void'] as const;
+export type CreditNoteStatusType = typeof CreditNoteStatus[number];
+
+export const CreditNoteSchema = z.object({
+  id: z.string(),
+  credit_note_number: z.string(),
+  invoice_id: z.string(),
+  customer_id: z.string(),
+  credit_date: z.string(),
+  reason: z.string(),
+  subtotal: z.number(),
+  tax_amount: z.number(),
+  total_amount: z.number(),
+  applied_amount: z.number(),
+  unapplied_amount: z.number(),
+  // Those of the credited invoice
+  currency: z.string(),
+  exchange_rate: z.number(),
+  status: z.enum(CreditNoteStatus),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type CreditNote = z.infer<typeof CreditNoteSchema>;
+
+export const CreditNoteApplicationSchema = z.object({
+  id: z.string(),
+  credit_note_id: z.string(),
+  invoice_id: z.string(),
+  applied_amount: z.number(),
+  created_at: z.string()
+});
+
+export type CreditNoteApplication = z.infer<typeof CreditNoteApplicationSchema>;
+
+export const CreateCreditNoteSchema = z.object({
+  invoice_id: z.string(),
+  credit_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  reason: z.string().min(1),
+  // Apply the credit to the original invoice's balance straight away; any excess stays unapplied
+  apply_to_invoice: z.boolean().default(true),
+  line_items: z.array(z.object({
+    invoice_line_item_id: z.string(),
+    // Defaults to the original quantity; a lower unit_price credits a price adjustment
+    quantity: z.number().positive().optional(),
+    unit_price: z.number().nonnegative().optional()
+  })).min(1)
+});
+
+// Bill types
+export const BillStatus = ['open', 'partial', 'paid', 'void'] as const;
+export type BillStatusType = typeof BillStatus[number];
+
+export const BillSchema = z.object({
+  id: z.string(),
+  bill_number: z.string(),
+  vendor_id: z.string(),
+  bill_date: DateSchema,
+  due_date: DateSchema,
+  subtotal: z.number(),
+  tax_amount: z.number(),
+  total_amount: z.number(),
+  paid_amount: z.number(),
+  balance_due: z.number(),
+  currency: z.string(),
+  exchange_rate: z.number(),
+  status: z.enum(BillStatus),
+  notes: z.string().nullable(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type Bill = z.infer<typeof BillSchema>;
+
+export const CreateBillSchema = z.object({
+  vendor_id: z.string(),
+  // The vendor's own invoice number; generated when omitted
+  bill_number: z.string().min(1).optional(),
+  bill_date: DateSchema,
+  due_date: DateSchema,
+  // Defaults to the base currency; the rate defaults to the one in force on bill_date
+  currency: CurrencyCodeSchema.optional(),
+  exchange_rate: ExchangeRateValueSchema.optional(),
+  notes: z.string().optional(),
+  line_items: z.array(z.object({
+    item_description: z.string(),
+    quantity: z.number().positive(),
+    unit_price: z.number(),
+    account_id: z.string()
+  })).min(1)
+});
+
+// Fiscal period types
+export const FiscalPeriodStatus = ['open', 'soft_closed', 'closed'] as const;
+export type FiscalPeriodStatusType = typeof FiscalPeriodStatus[number];
+
+export const FiscalPeriodSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  status: z.enum(FiscalPeriodStatus),
+  closed_by: z.string().nullable(),
+  closed_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type FiscalPeriod = z.infer<typeof FiscalPeriodSchema>;
+
+export const CreateFiscalPeriodSchema = z.object({
+  name: z.string().min(1),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+}).refine(period => period.start_date <= period.end_date, {
+  message: 'start_date must be on or before end_date',
+  path: ['end_date']
+});
+
+export const UpdateFiscalPeriodStatusSchema = z.object({
+  status: z.enum(FiscalPeriodStatus)
+});
+
+export const FiscalYearSchema = z.object({
+  fiscal_year: z.number().int().min(1900).max(9999)
+});
+
+// Document numbering types
+export const DocumentTypes = ['invoice', 'bill', 'payment', 'journal_entry', 'credit_note'] as const;
+export type DocumentType = typeof DocumentTypes[number];
+
+export const DocumentSequenceSchema = z.object({
+  document_type: z.enum(DocumentTypes),
+  prefix: z.string(),
+  padding: z.number().int(),
+  reset_yearly: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type DocumentSequence = z.infer<typeof DocumentSequenceSchema>;
+
+export const UpdateDocumentSequenceSchema = z.object({
+  prefix: z.string().min(1).max(10).regex(/^[A-Za-z0-9]+$/, 'Prefix may only contain letters and digits'),
+  padding: z.number().int().min(1).max(12),
+  reset_yearly: z.boolean()
+}).partial();
+
+// Payment types
+export const PaymentTypes = ['customer_payment', 'vendor_payment'] as const;
+export type PaymentType = typeof PaymentTypes[number];
+
+export const PaymentMethods = ['cash', 'check', 'credit_card', 'bank_transfer', 'other'] as const;
+export type PaymentMethod = typeof PaymentMethods[number];
+
+export const PaymentSchema = z.object({
+  id: z.string(),
+  payment_number: z.string(),
+  payment_type: z.enum(PaymentTypes),
+  customer_id: z.string().nullable(),
+  vendor_id: z.string().nullable(),
+  payment_date: DateSchema,
+  amount: z.number(),
+  currency: z.string(),
+  exchange_rate: z.number(),
+  payment_method: z.enum(PaymentMethods).nullable(),
+  reference_number: z.string().nullable(),
+  bank_account_id: z.string().nullable(),
+  notes: z.string().nullable(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type Payment = z.infer<typeof PaymentSchema>;
+
+export const PaymentApplicationSchema = z.object({
+  id: z.string(),
+  payment_id: z.string(),
+  invoice_id: z.string().nullable(),
+  bill_id: z.string().nullable(),
+  applied_amount: z.number(),
+  created_at: z.string()
+});
+
+export type PaymentApplication = z.infer<typeof PaymentApplicationSchema>;
+
+export type CreateInvoiceInput = z.infer<typeof CreateInvoiceSchema>;
+export type UpdateInvoiceInput = z.infer<typeof UpdateInvoiceSchema>;
+
+// Recurring invoice types
+export const RecurringFrequencies = ['weekly', 'monthly', 'quarterly', 'yearly'] as const;
+export type RecurringFrequency = typeof RecurringFrequencies[number];
+
+export const RecurringInvoiceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  customer_id: z.string(),
+  frequency: z.enum(RecurringFrequencies),
+  start_date: z.string(),
+  end_date: z.string().nullable(),
+  next_run_date: z.string().nullable(),
+  run_count: z.number(),
+  payment_terms_days: z.number(),
+  auto_send: z.boolean(),
+  line_items: z.string(),
+  notes: z.string().nullable(),
+  terms: z.string().nullable(),
+  is_active: z.boolean(),
+  last_run_at: z.string().nullable(),
+  last_error: z.string().nullable(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type RecurringInvoice = z.infer<typeof RecurringInvoiceSchema>;
+
+const RecurringInvoiceFieldsSchema = z.object({
+  name: z.string().min(1),
+  customer_id: z.string(),
+  frequency: z.enum(RecurringFrequencies),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  payment_terms_days: z.number().int().min(0).max(365).default(30),
+  // Generated invoices are issued (and posted) straight away instead of left as drafts
+  auto_send: z.boolean().default(false),
+  notes: z.string().optional(),
+  terms: z.string().optional(),
+  line_items: CreateInvoiceSchema.shape.line_items.min(1)
+});
+
+export const CreateRecurringInvoiceSchema = RecurringInvoiceFieldsSchema.refine(
+  template => !template.end_date || template.start_date <= template.end_date,
+  { message: 'end_date must be on or after start_date', path: ['end_date'] }
+);
+
+export const UpdateRecurringInvoiceSchema = RecurringInvoiceFieldsSchema.partial().extend({
+  is_active: z.boolean().optional()
+});
+
+// Dunning types
+export const DunningLevelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  days_overdue: z.number(),
+  subject: z.string(),
+  body: z.string(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type DunningLevel = z.infer<typeof DunningLevelSchema>;
+
+export const CreateDunningLevelSchema = z.object({
+  name: z.string().min(1),
+  days_overdue: z.number().int().positive().max(3650),
+  subject: z.string().min(1).max(200),
+  body: z.string().min(1)
+});
+
+export const UpdateDunningLevelSchema = CreateDunningLevelSchema.partial().extend({
+  is_active: z.boolean().optional()
+});
+
+export const InvoiceReminderSchema = z.object({
+  id: z.string(),
+  invoice_id: z.string(),
+  customer_id: z.string(),
+  dunning_level_id: z.string(),
+  level_name: z.string(),
+  level_days: z.number(),
+  days_overdue: z.number(),
+  balance_due: z.number(),
+  to_address: z.string().nullable(),
+  email_outbox_id: z.string().nullable(),
+  created_at: z.string()
+});
+
+export type InvoiceReminder = z.infer<typeof InvoiceReminderSchema>;
+
+// Email outbox types
+export const EmailOutboxStatus = ['pending', 'sent', 'failed'] as const;
+export type EmailOutboxStatusType = typeof EmailOutboxStatus[number];
+
+export const EmailOutboxMessageSchema = z.object({
+  id: z.string(),
+  to_address: z.string(),
+  subject: z.string(),
+  body: z.string(),
+  status: z.enum(EmailOutboxStatus),
+  source_type: z.string().nullable(),
+  source_id: z.string().nullable(),
+  template_key: z.string().nullable(),
+  attachments: z.string().nullable(),
+  attempts: z.number(),
+  last_error: z.string().nullable(),
+  transport: z.string().nullable(),
+  provider_message_id: z.string().nullable(),
+  next_attempt_at: z.string().nullable(),
+  bounced_at: z.string().nullable(),
+  bounce_reason: z.string().nullable(),
+  created_at: z.string(),
+  sent_at: z.string().nullable()
+});
+
+export type EmailOutboxMessage = z.infer<typeof EmailOutboxMessageSchema>;
+
+export const RecordBounceSchema = z.object({
+  reason: z.string().min(1).max(1000)
+});
+
+// Email template types
+export const EmailTemplateKeys = ['invoice', 'customer_statement', 'password_reset'] as const;
+export type EmailTemplateKey = typeof EmailTemplateKeys[number];
+
+export const EmailTemplateSchema = z.object({
+  template_key: z.enum(EmailTemplateKeys),
+  description: z.string(),
+  subject: z.string(),
+  body: z.string(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type EmailTemplate = z.infer<typeof EmailTemplateSchema>;
+
+export const UpdateEmailTemplateSchema = z.object({
+  subject: z.string().min(1).max(200),
+  body: z.string().min(1)
+}).partial();
+
+// Emailing an invoice or statement to the customer
+export const SendDocumentEmailSchema = z.object({
+  // Defaults to the customer's email address
+  to: z.string().email().optional()
+});
+
+export const ApplyPaymentSchema = z.object({
+  applications: z.array(z.object({
+    invoice_id: z.string(),
+    amount: z.number().positive()
+  })).min(1)
+});
+
+export const ApplyVendorPaymentSchema = z.object({
+  applications: z.array(z.object({
+    bill_id: z.string(),
+    amount: z.number().positive()
+  })).min(1)
+});
+
+export const CreatePaymentSchema = z.object({
+  customer_id: z.string(),
+  payment_date: DateSchema,
+  // In the customer's currency; the rate defaults to the one in force on payment_date
+  amount: z.number().positive(),
+  exchange_rate: ExchangeRateValueSchema.optional(),
+  payment_method: z.enum(PaymentMethods),
+  reference_number: z.string().optional(),
+  bank_account_id: z.string(),
+  notes: z.string().optional(),
+  // Anything not applied stays on the payment as customer credit
+  applications: ApplyPaymentSchema.shape.applications.optional()
+});
+
+export const CreateVendorPaymentSchema = z.object({
+  vendor_id: z.string(),
+  payment_date: DateSchema,
+  amount: z.number().positive(),
+  // Defaults to the base currency; bills it is applied to must be in the same currency
+  currency: CurrencyCodeSchema.optional(),
+  exchange_rate: ExchangeRateValueSchema.optional(),
+  payment_method: z.enum(PaymentMethods),
+  reference_number: z.string().optional(),
+  bank_account_id: z.string(),
+  notes: z.string().optional(),
+  // Anything not applied stays on the payment as a vendor prepayment
+  applications: ApplyVendorPaymentSchema.shape.applications.optional()
+});
+
 // Chart of Accounts types
 export const AccountTypes = ['asset', 'liability', 'equity', 'revenue', 'expense'] as const;
 export type AccountType = typeof AccountTypes[number];
@@ -139,6 +623,317 @@ export const ChartOfAccountsSchema = z.object({
 
 export type ChartOfAccounts = z.infer<typeof ChartOfAccountsSchema>;
 
+export const CreateAccountSchema = z.object({
+  account_code: z.string().min(1),
+  account_name: z.string().min(1),
+  account_type: z.enum(AccountTypes),
+  parent_id: z.string().nullable().optional()
+});
+
+// Bank account types
+export const BankAccountTypes = ['checking', 'savings', 'credit_card'] as const;
+export type BankAccountType = typeof BankAccountTypes[number];
+
+export const BankAccountSchema = z.object({
+  id: z.string(),
+  account_name: z.string(),
+  bank_name: z.string(),
+  account_number: z.string(),
+  routing_number: z.string().nullable(),
+  account_type: z.enum(BankAccountTypes).nullable(),
+  currency: z.string(),
+  // Asset account in the chart of accounts that carries the bank balance
+  account_id: z.string().nullable(),
+  // CSV column mapping used for this account's statement imports
+  csv_profile_id: z.string().nullable(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type BankAccount = z.infer<typeof BankAccountSchema>;
+
+export const CreateBankAccountSchema = z.object({
+  account_name: z.string().min(1),
+  bank_name: z.string().min(1),
+  account_number: z.string().min(1),
+  routing_number: z.string().nullable().optional(),
+  account_type: z.enum(BankAccountTypes),
+  // Defaults to the company's base currency
+  currency: CurrencyCodeSchema.optional(),
+  account_id: z.string().min(1),
+  csv_profile_id: z.string().min(1).nullable().optional()
+});
+
+export const UpdateBankAccountSchema = CreateBankAccountSchema.partial();
+
+// Bank transfer types
+export const BankTransferSchema = z.object({
+  id: z.string(),
+  from_bank_account_id: z.string(),
+  to_bank_account_id: z.string(),
+  transfer_date: z.string(),
+  amount: z.number(),
+  from_currency: z.string(),
+  to_amount: z.number(),
+  to_currency: z.string(),
+  exchange_rate: z.number(),
+  base_amount: z.number(),
+  fee_amount: z.number(),
+  fee_account_id: z.string().nullable(),
+  reference: z.string().nullable(),
+  memo: z.string().nullable(),
+  created_by: z.string(),
+  created_at: z.string()
+});
+
+export type BankTransfer = z.infer<typeof BankTransferSchema>;
+
+export const CreateBankTransferSchema = z.object({
+  from_bank_account_id: z.string().min(1),
+  to_bank_account_id: z.string().min(1),
+  transfer_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  // Leaves the source account, in its currency
+  amount: z.number().positive(),
+  // Arrives in the destination account, in its currency; required when the currencies differ
+  to_amount: z.number().positive().optional(),
+  // Value in the base currency; required when neither account is in the base currency
+  base_amount: z.number().positive().optional(),
+  // Charged by the source bank in the source currency, on top of amount
+  fee_amount: z.number().nonnegative().default(0),
+  // Defaults to Bank Charges
+  fee_account_id: z.string().min(1).optional(),
+  reference: z.string().nullable().optional(),
+  memo: z.string().nullable().optional()
+});
+
+// Bank statement import types
+export const BankStatementFormats = ['ofx', 'camt053', 'csv'] as const;
+export type BankStatementFormat = typeof BankStatementFormats[number];
+
+export const CsvDateFormats = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'YYYYMMDD'] as const;
+export type CsvDateFormat = typeof CsvDateFormats[number];
+
+export const BankCsvProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  delimiter: z.string(),
+  skip_rows: z.number(),
+  date_column: z.string(),
+  date_format: z.enum(CsvDateFormats),
+  decimal_separator: z.enum(['.', ',']),
+  amount_column: z.string().nullable(),
+  debit_column: z.string().nullable(),
+  credit_column: z.string().nullable(),
+  description_column: z.string(),
+  payee_column: z.string().nullable(),
+  reference_column: z.string().nullable(),
+  id_column: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type BankCsvProfile = z.infer<typeof BankCsvProfileSchema>;
+
+export const CreateBankCsvProfileSchema = z.object({
+  name: z.string().min(1),
+  delimiter: z.enum([',', ';', '\t', '|']).default(','),
+  skip_rows: z.number().int().min(0).max(50).default(0),
+  date_column: z.string().min(1),
+  date_format: z.enum(CsvDateFormats).default('YYYY-MM-DD'),
+  decimal_separator: z.enum(['.', ',']).default('.'),
+  amount_column: z.string().min(1).nullable().optional(),
+  debit_column: z.string().min(1).nullable().optional(),
+  credit_column: z.string().min(1).nullable().optional(),
+  description_column: z.string().min(1),
+  payee_column: z.string().min(1).nullable().optional(),
+  reference_column: z.string().min(1).nullable().optional(),
+  id_column: z.string().min(1).nullable().optional()
+});
+
+export const UpdateBankCsvProfileSchema = CreateBankCsvProfileSchema.partial();
+
+export const ImportBankStatementSchema = z.object({
+  format: z.enum(BankStatementFormats).optional(),
+  csv_profile_id: z.string().min(1).optional()
+});
+
+export const BankStatementImportSchema = z.object({
+  id: z.string(),
+  bank_account_id: z.string(),
+  format: z.enum(BankStatementFormats),
+  filename: z.string().nullable(),
+  csv_profile_id: z.string().nullable(),
+  start_date: z.string().nullable(),
+  end_date: z.string().nullable(),
+  opening_balance: z.number().nullable(),
+  closing_balance: z.number().nullable(),
+  line_count: z.number(),
+  duplicate_count: z.number(),
+  imported_by: z.string(),
+  created_at: z.string()
+});
+
+export type BankStatementImport = z.infer<typeof BankStatementImportSchema>;
+
+export const BankStatementLineSchema = z.object({
+  id: z.string(),
+  bank_account_id: z.string(),
+  import_id: z.string(),
+  transaction_date: z.string(),
+  value_date: z.string().nullable(),
+  amount: z.number(),
+  description: z.string(),
+  payee: z.string().nullable(),
+  reference: z.string().nullable(),
+  fitid: z.string().nullable(),
+  dedupe_key: z.string(),
+  created_at: z.string()
+});
+
+export type BankStatementLine = z.infer<typeof BankStatementLineSchema>;
+
+// Bank reconciliation types
+export const BankReconciliationStatuses = ['in_progress', 'completed'] as const;
+export type BankReconciliationStatus = typeof BankReconciliationStatuses[number];
+
+export const BankMatchMethods = ['manual', 'auto', 'created'] as const;
+export type BankMatchMethod = typeof BankMatchMethods[number];
+
+export const BankReconciliationSchema = z.object({
+  id: z.string(),
+  bank_account_id: z.string(),
+  statement_date: z.string(),
+  statement_balance: z.number(),
+  status: z.enum(BankReconciliationStatuses),
+  book_balance: z.number().nullable(),
+  report: z.string().nullable(),
+  created_by: z.string(),
+  completed_by: z.string().nullable(),
+  completed_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type BankReconciliation = z.infer<typeof BankReconciliationSchema>;
+
+export const CreateBankReconciliationSchema = z.object({
+  bank_account_id: z.string().min(1),
+  statement_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  statement_balance: z.number()
+});
+
+export const UpdateBankReconciliationSchema = CreateBankReconciliationSchema.omit({ bank_account_id: true }).partial();
+
+export const BankMatchSchema = z.object({
+  id: z.string(),
+  reconciliation_id: z.string(),
+  bank_account_id: z.string(),
+  method: z.enum(BankMatchMethods),
+  amount: z.number(),
+  created_by: z.string(),
+  created_at: z.string()
+});
+
+export type BankMatch = z.infer<typeof BankMatchSchema>;
+
+export const CreateBankMatchSchema = z.object({
+  statement_line_ids: z.array(z.string().min(1)).default([]),
+  journal_line_ids: z.array(z.string().min(1)).default([])
+});
+
+export const CreateStatementLineEntrySchema = z.object({
+  account_id: z.string().min(1),
+  description: z.string().min(1).optional()
+});
+
+// Exchange rate types
+export const ExchangeRateSchema = z.object({
+  id: z.string(),
+  currency: z.string(),
+  rate_date: z.string(),
+  rate: z.number(),
+  source: z.string(),
+  notes: z.string().nullable(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type ExchangeRate = z.infer<typeof ExchangeRateSchema>;
+
+export const CreateExchangeRateSchema = z.object({
+  currency: CurrencyCodeSchema,
+  rate_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  rate: ExchangeRateValueSchema,
+  source: z.string().min(1).optional(),
+  notes: z.string().nullable().optional()
+});
+
+export const UpdateExchangeRateSchema = CreateExchangeRateSchema.omit({ currency: true, rate_date: true }).partial();
+
+// Journal entry types
+export const JournalEntryStatus = ['draft', 'posted'] as const;
+export type JournalEntryStatusType = typeof JournalEntryStatus[number];
+
+// Documents that generate journal entries automatically
+export const JournalSourceTypes = ['invoice', 'bill', 'payment', 'credit_note', 'year_end_close', 'bank_statement_line', 'bank_transfer',
+  'payment_application', 'credit_note_application'] as const;
+export type JournalSourceType = typeof JournalSourceTypes[number];
+
+export const JournalEntrySchema = z.object({
+  id: z.string(),
+  entry_number: z.string(),
+  entry_date: DateSchema,
+  reference: z.string().nullable(),
+  description: z.string(),
+  total_debits: z.number(),
+  total_credits: z.number(),
+  status: z.enum(JournalEntryStatus),
+  reversal_of_id: z.string().nullable(),
+  source_type: z.enum(JournalSourceTypes).nullable(),
+  source_id: z.string().nullable(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type JournalEntry = z.infer<typeof JournalEntrySchema>;
+
+export const JournalEntryLineSchema = z.object({
+  id: z.string(),
+  journal_entry_id: z.string(),
+  account_id: z.string(),
+  description: z.string().nullable(),
+  // Base currency
+  debit_amount: z.number(),
+  credit_amount: z.number(),
+  // The same amounts in the currency of the transaction the line came from
+  currency: z.string(),
+  exchange_rate: z.number(),
+  transaction_debit_amount: z.number(),
+  transaction_credit_amount: z.number(),
+  created_at: z.string()
+});
+
+export type JournalEntryLine = z.infer<typeof JournalEntryLineSchema>;
+
+export const CreateJournalEntrySchema = z.object({
+  entry_date: DateSchema,
+  reference: z.string().optional(),
+  description: z.string().min(1),
+  lines: z.array(z.object({
+    account_id: z.string(),
+    description: z.string().optional(),
+    debit_amount: z.number().nonnegative().default(0),
+    credit_amount: z.number().nonnegative().default(0)
+  }).refine(line => (line.debit_amount > 0) !== (line.credit_amount > 0), {
+    message: 'Each line must have either a debit or a credit amount, not both'
+  })).min(2)
+});
+
+export type CreateJournalEntryInput = z.infer<typeof CreateJournalEntrySchema>;
+
 // JWT payload type
 export interface JWTPayload {
   userId: string;
@@ -165,6 +960,58 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   };
 }
 
+// Company settings types
+export const PaperSizes = ['A4', 'Letter'] as const;
+export type PaperSize = typeof PaperSizes[number];
+
+export const CompanySettingsSchema = z.object({
+  id: z.string(),
+  company_name: z.string(),
+  address: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  postal_code: z.string().nullable(),
+  country: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  website: z.string().nullable(),
+  tax_id: z.string().nullable(),
+  logo_data: z.string().nullable(),
+  accent_color: z.string(),
+  paper_size: z.enum(PaperSizes),
+  default_terms: z.string().nullable(),
+  footer_text: z.string().nullable(),
+  // Currency the ledger is kept in
+  base_currency: z.string(),
+  // Month the fiscal year starts in; a fiscal year is named after the year it starts in
+  fiscal_year_start_month: z.number(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type CompanySettings = z.infer<typeof CompanySettingsSchema>;
+
+export const UpdateCompanySettingsSchema = z.object({
+  company_name: z.string().min(1),
+  address: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  postal_code: z.string().nullable(),
+  country: z.string().nullable(),
+  email: z.string().email().nullable(),
+  phone: z.string().nullable(),
+  website: z.string().nullable(),
+  tax_id: z.string().nullable(),
+  // Base64 encoded JPEG (a data: URL prefix is accepted); null removes the logo
+  logo_data: z.string().max(700000).nullable(),
+  accent_color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a hex value like #1F4E79'),
+  paper_size: z.enum(PaperSizes),
+  default_terms: z.string().nullable(),
+  footer_text: z.string().nullable(),
+  base_currency: CurrencyCodeSchema,
+  fiscal_year_start_month: z.number().int().min(1).max(12)
+}).partial();
+
 // Audit log types
 export const AuditActions = ['create', 'update', 'delete'] as const;
 export type AuditAction = typeof AuditActions[number];
@@ -0,0 +1,126 @@
+import type { AccountType, ChartOfAccounts } from '../types';
+import { DatabaseUtils } from './database';
+
+export interface AccountTreeNode extends ChartOfAccounts {
+  children: AccountTreeNode[];
+}
+
+export class AccountUtils {
+  // Returns an error message when the account cannot sit under the given parent, null otherwise.
+  // accountId is omitted for new accounts, which cannot be part of a cycle yet.
+  static async validateParent(
+    db: D1Database,
+    accountType: AccountType,
+    parentId: string | null | undefined,
+    accountId?: string
+  ): Promise<string | null> {
+    if (!parentId) {
+      return null;
+    }
+
+    if (parentId === accountId) {
+      return 'An account cannot be its own parent';
+    }
+
+    const parent = await DatabaseUtils.executeQueryFirst<ChartOfAccounts>(
+      db,
+      'SELECT * FROM chart_of_accounts WHERE id = ?',
+      [parentId]
+    );
+
+    if (!parent) {
+      return 'Parent account not found';
+    }
+
+    if (parent.account_type !== accountType) {
+      return `Parent account ${parent.account_code} is ${parent.account_type}; child accounts must have the same type`;
+    }
+
+    if (accountId) {
+      // Walk up from the new parent; reaching the account itself means the move would create a cycle
+      const seen = new Set<string>();
+      let currentId: string | null = parent.parent_id;
+      while (currentId && !seen.has(currentId)) {
+        if (currentId === accountId) {
+          return 'Parent account cannot be a descendant of this account';
+        }
+        seen.add(currentId);
+
+        const ancestor: { parent_id: string | null } | null = await DatabaseUtils.executeQueryFirst<{ parent_id: string | null }>(
+          db,
+          'SELECT parent_id FROM chart_of_accounts WHERE id = ?',
+          [currentId]
+        );
+        currentId = ancestor?.parent_id || null;
+      }
+    }
+
+    return null;
+  }
+
+  static async isCodeTaken(db: D1Database, accountCode: string, excludeId?: string): Promise<boolean> {
+    const existing = await DatabaseUtils.executeQueryFirst(
+      db,
+      'SELECT id FROM chart_of_accounts WHERE account_code = ? AND id != ?',
+      [accountCode, excludeId || '']
+    );
+
+    return !!existing;
+  }
+
+  // Debit-positive balance of posted lines, in cents
+  static async getPostedBalance(db: D1Database, accountId: string): Promise<number> {
+    const result = await DatabaseUtils.executeQueryFirst<{ total_debits: number; total_credits: number }>(
+      db,
+      `SELECT COALESCE(SUM(jel.debit_amount), 0) as total_debits, COALESCE(SUM(jel.credit_amount), 0) as total_credits
+      FROM journal_entry_lines jel
+      JOIN journal_entries je ON jel.journal_entry_id = je.id
+      WHERE jel.account_id = ? AND je.status = 'posted'`,
+      [accountId]
+    );
+
+    return Math.round((result?.total_debits || 0) * 100) - Math.round((result?.total_credits || 0) * 100);
+  }
+
+  static async hasPostedLines(db: D1Database, accountId: string): Promise<boolean> {
+    const result = await DatabaseUtils.executeQueryFirst(
+      db,
+      `SELECT jel.id FROM journal_entry_lines jel
+      JOIN journal_entries je ON jel.journal_entry_id = je.id
+      WHERE jel.account_id = ? AND je.status = 'posted'
+      LIMIT 1`,
+      [accountId]
+    );
+
+    return !!result;
+  }
+
+  static async countChildren(db: D1Database, accountId: string, activeOnly: boolean = false): Promise<number> {
+    const result = await DatabaseUtils.executeQueryFirst<{ count: number }>(
+      db,
+      `SELECT COUNT(*) as count FROM chart_of_accounts WHERE parent_id = ?${activeOnly ? ' AND is_active = 1' : ''}`,
+      [accountId]
+    );
+
+    return result?.count || 0;
+  }
+
+  // Nests accounts under their parents. Accounts whose parent is not in the list become roots.
+  static buildTree(accounts: ChartOfAccounts[]): AccountTreeNode[] {
+    const nodes = new Map<string, AccountTreeNode>(
+      accounts.map(account => [account.id, { ...account, children: [] }])
+    );
+    const roots: AccountTreeNode[] = [];
+
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+}
\ No newline at end of file
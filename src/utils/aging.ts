@@ -0,0 +1,134 @@
+export interface AgingBucket {
+  key: string;
+  label: string;
+  // Inclusive range of days past due; max null means open-ended
+  min: number;
+  max: number | null;
+}
+
+export const DEFAULT_AGING_BUCKETS: AgingBucket[] = [
+  { key: 'current', label: 'Current', min: Number.NEGATIVE_INFINITY, max: 0 },
+  { key: 'days_1_30', label: '1-30', min: 1, max: 30 },
+  { key: 'days_31_60', label: '31-60', min: 31, max: 60 },
+  { key: 'days_61_90', label: '61-90', min: 61, max: 90 },
+  { key: 'days_over_90', label: '90+', min: 91, max: null }
+];
+
+export interface AgingDocument {
+  party_id: string;
+  party_name: string;
+  due_date: string;
+  balance_due: number;
+}
+
+export interface AgingRow {
+  party_id: string;
+  party_name: string;
+  buckets: Record<string, number>;
+  total: number;
+}
+
+// Upper bound of the last bucket that may be asked for, and how many buckets that may take
+const MAX_BUCKET_DAYS = 3650;
+const MAX_BUCKET_BOUNDARIES = 12;
+
+export class AgingUtils {
+  // Buckets from ascending day boundaries: [30, 60, 90] gives current, 1-30, 31-60, 61-90, 90+
+  static bucketsFromBoundaries(boundaries: number[]): AgingBucket[] {
+    const buckets: AgingBucket[] = [
+      { key: 'current', label: 'Current', min: Number.NEGATIVE_INFINITY, max: 0 }
+    ];
+
+    let min = 1;
+    for (const max of boundaries) {
+      buckets.push({ key: `days_${min}_${max}`, label: `${min}-${max}`, min, max });
+      min = max + 1;
+    }
+
+    const last = boundaries[boundaries.length - 1];
+    buckets.push({ key: `days_over_${last}`, label: `${last}+`, min, max: null });
+
+    return buckets;
+  }
+
+  // Parses a comma-separated list of ascending day boundaries such as "30,60,90"; null when
+  // the list is not one
+  static parseBuckets(value: string | undefined): AgingBucket[] | null {
+    if (!value) {
+      return DEFAULT_AGING_BUCKETS;
+    }
+
+    const parts = value.split(',').map(part => part.trim());
+    if (parts.length > MAX_BUCKET_BOUNDARIES || !parts.every(part => /^\d+$/.test(part))) {
+      return null;
+    }
+
+    const boundaries = parts.map(Number);
+    const ascending = boundaries.every((days, index) => days > (index === 0 ? 0 : boundaries[index - 1]));
+    if (!ascending || boundaries[boundaries.length - 1] > MAX_BUCKET_DAYS) {
+      return null;
+    }
+
+    return this.bucketsFromBoundaries(boundaries);
+  }
+
+  static daysPastDue(dueDate: string, asOf: string): number {
+    const due = Date.parse(`${dueDate.substring(0, 10)}T00:00:00Z`);
+    const reference = Date.parse(`${asOf.substring(0, 10)}T00:00:00Z`);
+    return Math.floor((reference - due) / 86400000);
+  }
+
+  static bucketFor(daysPastDue: number, buckets: AgingBucket[] = DEFAULT_AGING_BUCKETS): AgingBucket {
+    const bucket = buckets.find(b => daysPastDue >= b.min && (b.max === null || daysPastDue <= b.max));
+    return bucket || buckets[buckets.length - 1];
+  }
+
+  static emptyBuckets(buckets: AgingBucket[]): Record<string, number> {
+    return Object.fromEntries(buckets.map(bucket => [bucket.key, 0]));
+  }
+
+  // Groups open documents by party and sums their balances into the buckets.
+  // Sums are kept in cents so the bucket totals always add up to the row total.
+  static summarize(
+    documents: AgingDocument[],
+    asOf: string,
+    buckets: AgingBucket[] = DEFAULT_AGING_BUCKETS
+  ): { rows: AgingRow[]; totals: Record<string, number>; grand_total: number } {
+    const rowsByParty = new Map<string, { party_name: string; cents: Record<string, number> }>();
+    const totalCents = this.emptyBuckets(buckets);
+
+    for (const document of documents) {
+      const bucket = this.bucketFor(this.daysPastDue(document.due_date, asOf), buckets);
+      const cents = Math.round(document.balance_due * 100);
+
+      let row = rowsByParty.get(document.party_id);
+      if (!row) {
+        row = { party_name: document.party_name, cents: this.emptyBuckets(buckets) };
+        rowsByParty.set(document.party_id, row);
+      }
+
+      row.cents[bucket.key] += cents;
+      totalCents[bucket.key] += cents;
+    }
+
+    const toAmounts = (cents: Record<string, number>) =>
+      Object.fromEntries(Object.entries(cents).map(([key, value]) => [key, value / 100]));
+    const sumCents = (cents: Record<string, number>) =>
+      Object.values(cents).reduce((sum, value) => sum + value, 0);
+
+    const rows = [...rowsByParty.entries()]
+      .map(([partyId, row]) => ({
+        party_id: partyId,
+        party_name: row.party_name,
+        buckets: toAmounts(row.cents),
+        total: sumCents(row.cents) / 100
+      }))
+      .sort((a, b) => a.party_name.localeCompare(b.party_name));
+
+    return {
+      rows,
+      totals: toAmounts(totalCents),
+      grand_total: sumCents(totalCents) / 100
+    };
+  }
+}
\ No newline at end of file
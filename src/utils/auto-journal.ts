@@ -0,0 +1,776 @@
+import type {
+  BankStatementLine, BankTransfer, Bill, CreditNote, CreditNoteApplication, Invoice, JournalEntry, JournalSourceType,
+  Payment, PaymentApplication
+} from '../types';
+import { CurrencyUtils } from './currency';
+import type { CurrencyRate } from './currency';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { JournalUtils, PostingError } from './journal';
+import type { JournalLineInput } from './journal';
+import { LedgerUtils } from './ledger';
+import { PeriodUtils } from './periods';
+import { SettingsUtils } from './settings';
+
+// Account codes from the default chart of accounts that automatic postings rely on
+export const SystemAccounts = {
+  CASH: '1110',
+  ACCOUNTS_RECEIVABLE: '1120',
+  ACCOUNTS_PAYABLE: '2110',
+  SALES_TAX_PAYABLE: '2120',
+  RETAINED_EARNINGS: '3110',
+  SALES_REVENUE: '4100',
+  FX_GAIN_LOSS: '4130',
+  BANK_CHARGES: '5270'
+} as const;
+
+export interface DocumentLineItem {
+  account_id: string | null;
+  line_total: number;
+}
+
+export class AutoJournalUtils {
+  static async getAccountIdByCode(db: D1Database, accountCode: string): Promise<string> {
+    const account = await DatabaseUtils.executeQueryFirst<{ id: string }>(
+      db,
+      'SELECT id FROM chart_of_accounts WHERE account_code = ? AND is_active = 1',
+      [accountCode]
+    );
+
+    if (!account) {
+      throw new PostingError(`System account ${accountCode} is missing or inactive`);
+    }
+
+    return account.id;
+  }
+
+  // The posted entry currently representing a document, ignoring entries that have been reversed
+  static async findActiveEntry(
+    db: D1Database,
+    sourceType: JournalSourceType,
+    sourceId: string
+  ): Promise<JournalEntry | null> {
+    return await DatabaseUtils.executeQueryFirst<JournalEntry>(
+      db,
+      `SELECT je.* FROM journal_entries je
+      WHERE je.source_type = ? AND je.source_id = ?
+        AND je.status = 'posted'
+        AND je.reversal_of_id IS NULL
+        AND NOT EXISTS (SELECT 1 FROM journal_entries r WHERE r.reversal_of_id = je.id)
+      ORDER BY je.created_at DESC
+      LIMIT 1`,
+      [sourceType, sourceId]
+    );
+  }
+
+  // Dr Accounts Receivable, Cr revenue per line item account, Cr Sales Tax Payable, converted
+  // from the invoice's currency at its rate. Line items are loaded from the database unless the
+  // caller already has them in hand (for example because they are being inserted in the same
+  // unit of work).
+  static async buildInvoiceLines(
+    db: D1Database,
+    invoice: Invoice,
+    lineItems?: DocumentLineItem[]
+  ): Promise<JournalLineInput[]> {
+    const items = lineItems || (await DatabaseUtils.executeQuery<DocumentLineItem>(
+      db,
+      'SELECT account_id, line_total FROM invoice_line_items WHERE invoice_id = ? ORDER BY created_at ASC',
+      [invoice.id]
+    )).results;
+
+    const revenueByAccount = new Map<string, number>();
+    let defaultRevenueAccountId: string | null = null;
+
+    for (const item of items) {
+      let accountId = item.account_id;
+      if (!accountId) {
+        defaultRevenueAccountId = defaultRevenueAccountId || await this.getAccountIdByCode(db, SystemAccounts.SALES_REVENUE);
+        accountId = defaultRevenueAccountId;
+      }
+
+      revenueByAccount.set(accountId, (revenueByAccount.get(accountId) || 0) + JournalUtils.toCents(item.line_total));
+    }
+
+    const lines: JournalLineInput[] = [];
+
+    for (const [accountId, cents] of revenueByAccount) {
+      if (cents !== 0) {
+        lines.push({
+          account_id: accountId,
+          description: `Revenue - invoice ${invoice.invoice_number}`,
+          debit_amount: cents < 0 ? JournalUtils.fromCents(-cents) : 0,
+          credit_amount: cents > 0 ? JournalUtils.fromCents(cents) : 0
+        });
+      }
+    }
+
+    const taxCents = JournalUtils.toCents(invoice.tax_amount);
+    if (taxCents > 0) {
+      lines.push({
+        account_id: await this.getAccountIdByCode(db, SystemAccounts.SALES_TAX_PAYABLE),
+        description: `Sales tax - invoice ${invoice.invoice_number}`,
+        debit_amount: 0,
+        credit_amount: JournalUtils.fromCents(taxCents)
+      });
+    }
+
+    // The receivable is derived from the credits so rounding can never unbalance the entry
+    const { total_debits, total_credits } = JournalUtils.calculateTotals(lines);
+    const receivableCents = JournalUtils.toCents(total_credits) - JournalUtils.toCents(total_debits);
+
+    if (receivableCents > 0) {
+      lines.unshift({
+        account_id: await this.getAccountIdByCode(db, SystemAccounts.ACCOUNTS_RECEIVABLE),
+        description: `Receivable - invoice ${invoice.invoice_number}`,
+        debit_amount: JournalUtils.fromCents(receivableCents),
+        credit_amount: 0
+      });
+    }
+
+    return CurrencyUtils.convertLines(lines, invoice);
+  }
+
+  // Validates and posts a system-generated entry for a document, unless it is already on the books
+  static async postDocument(
+    uow: UnitOfWork,
+    document: {
+      source_type: JournalSourceType;
+      source_id: string;
+      label: string;
+      entry_date: string;
+      reference: string;
+      description: string;
+      lines: JournalLineInput[];
+    },
+    userId: string
+  ): Promise<JournalEntry> {
+    const existingEntry = await this.findActiveEntry(uow.db, document.source_type, document.source_id);
+    if (existingEntry) {
+      return existingEntry;
+    }
+
+    const validationError = await JournalUtils.validateForPosting(uow.db, document.lines);
+    if (validationError) {
+      throw new PostingError(`Cannot post ${document.label}: ${validationError}`);
+    }
+
+    return await JournalUtils.createEntry(uow, {
+      entry_date: document.entry_date,
+      reference: document.reference,
+      description: document.description,
+      lines: document.lines,
+      status: 'posted',
+      created_by: userId,
+      source_type: document.source_type,
+      source_id: document.source_id
+    });
+  }
+
+  // Reverses the document's active entry, if it has one
+  static async reverseDocument(
+    uow: UnitOfWork,
+    sourceType: JournalSourceType,
+    sourceId: string,
+    userId: string,
+    description: string
+  ): Promise<JournalEntry | null> {
+    const activeEntry = await this.findActiveEntry(uow.db, sourceType, sourceId);
+    if (!activeEntry) {
+      return null;
+    }
+
+    return await JournalUtils.reverseEntry(uow, activeEntry, userId, { description });
+  }
+
+  // Posts the revenue recognition entry for an invoice leaving draft. Returns null for zero-value invoices.
+  static async postInvoice(
+    uow: UnitOfWork,
+    invoice: Invoice,
+    userId: string,
+    lineItems?: DocumentLineItem[]
+  ): Promise<JournalEntry | null> {
+    const existingEntry = await this.findActiveEntry(uow.db, 'invoice', invoice.id);
+    if (existingEntry) {
+      return existingEntry;
+    }
+
+    const lines = await this.buildInvoiceLines(uow.db, invoice, lineItems);
+    if (lines.length === 0) {
+      return null;
+    }
+
+    return await this.postDocument(uow, {
+      source_type: 'invoice',
+      source_id: invoice.id,
+      label: `invoice ${invoice.invoice_number}`,
+      entry_date: invoice.invoice_date,
+      reference: invoice.invoice_number,
+      description: `Invoice ${invoice.invoice_number}`,
+      lines
+    }, userId);
+  }
+
+  static async reverseInvoice(
+    uow: UnitOfWork,
+    invoice: Invoice,
+    userId: string,
+    reason: string = 'Void'
+  ): Promise<JournalEntry | null> {
+    return await this.reverseDocument(uow, 'invoice', invoice.id, userId, `${reason} of invoice ${invoice.invoice_number}`);
+  }
+
+  // The mirror image of an invoice posting: Dr revenue per credited line's account,
+  // Dr Sales Tax Payable, Cr Accounts Receivable. Unapplied credit stays as a credit
+  // balance in receivables until it is applied to an invoice. Converted at the credit note's
+  // rate, which is the credited invoice's.
+  static async buildCreditNoteLines(
+    db: D1Database,
+    creditNote: CreditNote,
+    lineItems?: DocumentLineItem[]
+  ): Promise<JournalLineInput[]> {
+    const items = lineItems || (await DatabaseUtils.executeQuery<DocumentLineItem>(
+      db,
+      'SELECT account_id, line_total FROM credit_note_line_items WHERE credit_note_id = ? ORDER BY created_at ASC',
+      [creditNote.id]
+    )).results;
+
+    const revenueByAccount = new Map<string, number>();
+    let defaultRevenueAccountId: string | null = null;
+
+    for (const item of items) {
+      let accountId = item.account_id;
+      if (!accountId) {
+        defaultRevenueAccountId = defaultRevenueAccountId || await this.getAccountIdByCode(db, SystemAccounts.SALES_REVENUE);
+        accountId = defaultRevenueAccountId;
+      }
+
+      revenueByAccount.set(accountId, (revenueByAccount.get(accountId) || 0) + JournalUtils.toCents(item.line_total));
+    }
+
+    const lines: JournalLineInput[] = [];
+
+    for (const [accountId, cents] of revenueByAccount) {
+      if (cents !== 0) {
+        lines.push({
+          account_id: accountId,
+          description: `Revenue - credit note ${creditNote.credit_note_number}`,
+          debit_amount: cents > 0 ? JournalUtils.fromCents(cents) : 0,
+          credit_amount: cents < 0 ? JournalUtils.fromCents(-cents) : 0
+        });
+      }
+    }
+
+    const taxCents = JournalUtils.toCents(creditNote.tax_amount);
+    if (taxCents > 0) {
+      lines.push({
+        account_id: await this.getAccountIdByCode(db, SystemAccounts.SALES_TAX_PAYABLE),
+        description: `Sales tax - credit note ${creditNote.credit_note_number}`,
+        debit_amount: JournalUtils.fromCents(taxCents),
+        credit_amount: 0
+      });
+    }
+
+    const { total_debits, total_credits } = JournalUtils.calculateTotals(lines);
+    const receivableCents = JournalUtils.toCents(total_debits) - JournalUtils.toCents(total_credits);
+
+    if (receivableCents > 0) {
+      lines.push({
+        account_id: await this.getAccountIdByCode(db, SystemAccounts.ACCOUNTS_RECEIVABLE),
+        description: `Receivable - credit note ${creditNote.credit_note_number}`,
+        debit_amount: 0,
+        credit_amount: JournalUtils.fromCents(receivableCents)
+      });
+    }
+
+    return CurrencyUtils.convertLines(lines, creditNote);
+  }
+
+  static async postCreditNote(
+    uow: UnitOfWork,
+    creditNote: CreditNote,
+    userId: string,
+    lineItems?: DocumentLineItem[]
+  ): Promise<JournalEntry | null> {
+    const lines = await this.buildCreditNoteLines(uow.db, creditNote, lineItems);
+    if (lines.length === 0) {
+      return null;
+    }
+
+    return await this.postDocument(uow, {
+      source_type: 'credit_note',
+      source_id: creditNote.id,
+      label: `credit note ${creditNote.credit_note_number}`,
+      entry_date: creditNote.credit_date,
+      reference: creditNote.credit_note_number,
+      description: `Credit note ${creditNote.credit_note_number}: ${creditNote.reason}`,
+      lines
+    }, userId);
+  }
+
+  static async reverseCreditNote(uow: UnitOfWork, creditNote: CreditNote, userId: string): Promise<JournalEntry | null> {
+    return await this.reverseDocument(
+      uow,
+      'credit_note',
+      creditNote.id,
+      userId,
+      `Void of credit note ${creditNote.credit_note_number}`
+    );
+  }
+
+  // Dr expense per line item account, Cr Accounts Payable, converted at the bill's rate
+  static async buildBillLines(
+    db: D1Database,
+    bill: Bill,
+    lineItems?: DocumentLineItem[]
+  ): Promise<JournalLineInput[]> {
+    const items = lineItems || (await DatabaseUtils.executeQuery<DocumentLineItem>(
+      db,
+      'SELECT account_id, line_total FROM bill_line_items WHERE bill_id = ? ORDER BY created_at ASC',
+      [bill.id]
+    )).results;
+
+    const expenseByAccount = new Map<string, number>();
+    for (const item of items) {
+      const accountId = item.account_id!;
+      expenseByAccount.set(accountId, (expenseByAccount.get(accountId) || 0) + JournalUtils.toCents(item.line_total));
+    }
+
+    const lines: JournalLineInput[] = [];
+    for (const [accountId, cents] of expenseByAccount) {
+      if (cents !== 0) {
+        lines.push({
+          account_id: accountId,
+          description: `Expense - bill ${bill.bill_number}`,
+          debit_amount: cents > 0 ? JournalUtils.fromCents(cents) : 0,
+          credit_amount: cents < 0 ? JournalUtils.fromCents(-cents) : 0
+        });
+      }
+    }
+
+    const { total_debits, total_credits } = JournalUtils.calculateTotals(lines);
+    const payableCents = JournalUtils.toCents(total_debits) - JournalUtils.toCents(total_credits);
+
+    if (payableCents > 0) {
+      lines.push({
+        account_id: await this.getAccountIdByCode(db, SystemAccounts.ACCOUNTS_PAYABLE),
+        description: `Payable - bill ${bill.bill_number}`,
+        debit_amount: 0,
+        credit_amount: JournalUtils.fromCents(payableCents)
+      });
+    }
+
+    return CurrencyUtils.convertLines(lines, bill);
+  }
+
+  // Posts the expense entry for a newly entered bill. Returns null for zero-value bills.
+  static async postBill(
+    uow: UnitOfWork,
+    bill: Bill,
+    userId: string,
+    lineItems?: DocumentLineItem[]
+  ): Promise<JournalEntry | null> {
+    const lines = await this.buildBillLines(uow.db, bill, lineItems);
+    if (lines.length === 0) {
+      return null;
+    }
+
+    return await this.postDocument(uow, {
+      source_type: 'bill',
+      source_id: bill.id,
+      label: `bill ${bill.bill_number}`,
+      entry_date: bill.bill_date,
+      reference: bill.bill_number,
+      description: `Bill ${bill.bill_number}`,
+      lines
+    }, userId);
+  }
+
+  static async reverseBill(uow: UnitOfWork, bill: Bill, userId: string): Promise<JournalEntry | null> {
+    return await this.reverseDocument(uow, 'bill', bill.id, userId, `Void of bill ${bill.bill_number}`);
+  }
+
+  // The ledger account behind a bank account and the currency it holds; payments recorded
+  // without one post to Cash, which is kept in the base currency
+  static async getBankLedgerAccount(
+    db: D1Database,
+    bankAccountId: string | null
+  ): Promise<{ account_id: string; currency: string }> {
+    if (!bankAccountId) {
+      return {
+        account_id: await this.getAccountIdByCode(db, SystemAccounts.CASH),
+        currency: await SettingsUtils.getBaseCurrency(db)
+      };
+    }
+
+    const bankAccount = await DatabaseUtils.executeQueryFirst<{ account_name: string; account_id: string | null; currency: string }>(
+      db,
+      'SELECT account_name, account_id, currency FROM bank_accounts WHERE id = ?',
+      [bankAccountId]
+    );
+
+    if (!bankAccount?.account_id) {
+      throw new PostingError(`Bank account ${bankAccount?.account_name || bankAccountId} is not linked to a ledger account`);
+    }
+
+    return { account_id: bankAccount.account_id, currency: bankAccount.currency };
+  }
+
+  // Customer receipts: Dr the bank account's ledger account, Cr Accounts Receivable for the full
+  // amount. Unapplied amounts stay as a credit balance in receivables until they are applied to
+  // an invoice. Vendor payments mirror this against Accounts Payable. Both sides are converted at
+  // the payment's rate; a payment in a foreign currency banked in a base-currency account
+  // arrives there as its base-currency value.
+  static async postPayment(uow: UnitOfWork, payment: Payment, userId: string): Promise<JournalEntry> {
+    const isCustomerPayment = payment.payment_type === 'customer_payment';
+    const bank = await this.getBankLedgerAccount(uow.db, payment.bank_account_id);
+    const counterAccountId = await this.getAccountIdByCode(
+      uow.db,
+      isCustomerPayment ? SystemAccounts.ACCOUNTS_RECEIVABLE : SystemAccounts.ACCOUNTS_PAYABLE
+    );
+    const lineDescription = `${isCustomerPayment ? 'Receipt' : 'Disbursement'} ${payment.payment_number}`;
+
+    const lines = CurrencyUtils.convertLines([
+      {
+        account_id: isCustomerPayment ? bank.account_id : counterAccountId,
+        description: lineDescription,
+        debit_amount: payment.amount,
+        credit_amount: 0
+      },
+      {
+        account_id: isCustomerPayment ? counterAccountId : bank.account_id,
+        description: lineDescription,
+        debit_amount: 0,
+        credit_amount: payment.amount
+      }
+    ], payment);
+
+    const bankLine = lines.find(line => line.account_id === bank.account_id);
+    if (bankLine && bank.currency !== payment.currency) {
+      Object.assign(bankLine, {
+        currency: bank.currency,
+        exchange_rate: 1,
+        transaction_debit_amount: bankLine.debit_amount,
+        transaction_credit_amount: bankLine.credit_amount
+      });
+    }
+
+    return await this.postDocument(uow, {
+      source_type: 'payment',
+      source_id: payment.id,
+      label: `payment ${payment.payment_number}`,
+      entry_date: payment.payment_date,
+      reference: payment.reference_number || payment.payment_number,
+      description: `${isCustomerPayment ? 'Customer' : 'Vendor'} payment ${payment.payment_number}`,
+      lines
+    }, userId);
+  }
+
+  static async reversePayment(uow: UnitOfWork, payment: Payment, userId: string): Promise<JournalEntry | null> {
+    return await this.reverseDocument(uow, 'payment', payment.id, userId, `Deletion of payment ${payment.payment_number}`);
+  }
+
+  // Settling part of a foreign-currency invoice or bill at a different rate from the one it was
+  // booked at leaves the difference behind in receivables or payables. This moves it to Foreign
+  // Exchange Gain/Loss, dated when the settlement happened: the later of the two documents'
+  // dates. Returns null when the rates agree to the cent.
+  private static async postRealizedFx(
+    uow: UnitOfWork,
+    settlement: {
+      source_type: 'payment_application' | 'credit_note_application';
+      source_id: string;
+      side: 'receivable' | 'payable';
+      amount: number;
+      document: CurrencyRate & { number: string; date: string };
+      settledBy: CurrencyRate & { number: string; date: string };
+    },
+    userId: string
+  ): Promise<JournalEntry | null> {
+    const { document, settledBy } = settlement;
+    const bookedCents = CurrencyUtils.toBaseCents(settlement.amount, document.exchange_rate);
+    const settledCents = CurrencyUtils.toBaseCents(settlement.amount, settledBy.exchange_rate);
+
+    // What is left on the document's side of the control account: a debit in receivables when
+    // it was booked at the higher rate, a credit in payables
+    const leftCents = settlement.side === 'receivable' ? bookedCents - settledCents : settledCents - bookedCents;
+    if (leftCents === 0) {
+      return null;
+    }
+
+    const controlAccountId = await this.getAccountIdByCode(
+      uow.db,
+      settlement.side === 'receivable' ? SystemAccounts.ACCOUNTS_RECEIVABLE : SystemAccounts.ACCOUNTS_PAYABLE
+    );
+    const fxAccountId = await this.getAccountIdByCode(uow.db, SystemAccounts.FX_GAIN_LOSS);
+    const amount = JournalUtils.fromCents(Math.abs(leftCents));
+    const description = `Exchange difference - ${document.number} settled by ${settledBy.number}`;
+
+    return await this.postDocument(uow, {
+      source_type: settlement.source_type,
+      source_id: settlement.source_id,
+      label: `exchange difference on ${document.number}`,
+      entry_date: document.date > settledBy.date ? document.date : settledBy.date,
+      reference: settledBy.number,
+      description,
+      lines: [
+        {
+          account_id: leftCents > 0 ? fxAccountId : controlAccountId,
+          description,
+          debit_amount: amount,
+          credit_amount: 0
+        },
+        {
+          account_id: leftCents > 0 ? controlAccountId : fxAccountId,
+          description,
+          debit_amount: 0,
+          credit_amount: amount
+        }
+      ]
+    }, userId);
+  }
+
+  static async postPaymentApplicationFx(
+    uow: UnitOfWork,
+    payment: Payment,
+    application: PaymentApplication,
+    userId: string
+  ): Promise<JournalEntry | null> {
+    const document = application.invoice_id
+      ? await DatabaseUtils.executeQueryFirst<CurrencyRate & { number: string; date: string }>(
+        uow.db,
+        'SELECT invoice_number as number, invoice_date as date, currency, exchange_rate FROM invoices WHERE id = ?',
+        [application.invoice_id]
+      )
+      : await DatabaseUtils.executeQueryFirst<CurrencyRate & { number: string; date: string }>(
+        uow.db,
+        'SELECT bill_number as number, bill_date as date, currency, exchange_rate FROM bills WHERE id = ?',
+        [application.bill_id]
+      );
+
+    if (!document) {
+      return null;
+    }
+
+    return await this.postRealizedFx(uow, {
+      source_type: 'payment_application',
+      source_id: application.id,
+      side: application.invoice_id ? 'receivable' : 'payable',
+      amount: application.applied_amount,
+      document,
+      settledBy: { number: payment.payment_number, date: payment.payment_date, currency: payment.currency, exchange_rate: payment.exchange_rate }
+    }, userId);
+  }
+
+  static async postCreditNoteApplicationFx(
+    uow: UnitOfWork,
+    creditNote: CreditNote,
+    application: CreditNoteApplication,
+    userId: string
+  ): Promise<JournalEntry | null> {
+    const invoice = await DatabaseUtils.executeQueryFirst<Invoice>(
+      uow.db,
+      'SELECT * FROM invoices WHERE id = ?',
+      [application.invoice_id]
+    );
+
+    if (!invoice) {
+      return null;
+    }
+
+    return await this.postRealizedFx(uow, {
+      source_type: 'credit_note_application',
+      source_id: application.id,
+      side: 'receivable',
+      amount: application.applied_amount,
+      document: { number: invoice.invoice_number, date: invoice.invoice_date, currency: invoice.currency, exchange_rate: invoice.exchange_rate },
+      settledBy: {
+        number: creditNote.credit_note_number,
+        date: creditNote.credit_date,
+        currency: creditNote.currency,
+        exchange_rate: creditNote.exchange_rate
+      }
+    }, userId);
+  }
+
+  // Takes back the exchange difference realized by an application that is being removed
+  static async reverseApplicationFx(
+    uow: UnitOfWork,
+    sourceType: 'payment_application' | 'credit_note_application',
+    applicationId: string,
+    userId: string
+  ): Promise<JournalEntry | null> {
+    return await this.reverseDocument(uow, sourceType, applicationId, userId, 'Removal of settled exchange difference');
+  }
+
+  // Books a bank movement that is on the statement but not in the books, such as a bank fee or
+  // interest: money in debits the bank's ledger account and credits `accountId`, money out the
+  // other way round. Dated on the statement line's transaction date and converted from the
+  // bank account's currency at `rate`.
+  static async postStatementLine(
+    uow: UnitOfWork,
+    line: BankStatementLine,
+    bankLedgerAccountId: string,
+    accountId: string,
+    description: string,
+    rate: CurrencyRate,
+    userId: string
+  ): Promise<JournalEntry> {
+    const amount = Math.abs(line.amount);
+    const isReceipt = line.amount > 0;
+
+    return await this.postDocument(uow, {
+      source_type: 'bank_statement_line',
+      source_id: line.id,
+      label: `statement line of ${line.transaction_date}`,
+      entry_date: line.transaction_date,
+      reference: line.reference || 'Bank statement',
+      description,
+      lines: CurrencyUtils.convertLines([
+        {
+          account_id: isReceipt ? bankLedgerAccountId : accountId,
+          description,
+          debit_amount: amount,
+          credit_amount: 0
+        },
+        {
+          account_id: isReceipt ? accountId : bankLedgerAccountId,
+          description,
+          debit_amount: 0,
+          credit_amount: amount
+        }
+      ], rate)
+    }, userId);
+  }
+
+  static async reverseStatementLine(uow: UnitOfWork, line: BankStatementLine, userId: string): Promise<JournalEntry | null> {
+    return await this.reverseDocument(uow, 'bank_statement_line', line.id, userId, `Unmatched statement line of ${line.transaction_date}: ${line.description}`);
+  }
+
+  // Dr the destination bank's ledger account, Cr the source bank's, both at the transfer's
+  // base-currency value, each line keeping the amount in its own account's currency. A fee comes
+  // out of the source account as well and is expensed, converted at the transfer's own rate when
+  // the source account is in a foreign currency.
+  static async postBankTransfer(
+    uow: UnitOfWork,
+    transfer: BankTransfer,
+    fromLedgerAccountId: string,
+    toLedgerAccountId: string,
+    userId: string
+  ): Promise<JournalEntry> {
+    const baseCents = JournalUtils.toCents(transfer.base_amount);
+    const feeCents = Math.round(JournalUtils.toCents(transfer.fee_amount) * baseCents / JournalUtils.toCents(transfer.amount));
+    const description = transfer.memo || `Transfer of ${transfer.amount.toFixed(2)} ${transfer.from_currency}`;
+
+    const fromRate = CurrencyUtils.roundRate(baseCents / JournalUtils.toCents(transfer.amount));
+
+    const lines: JournalLineInput[] = [
+      {
+        account_id: toLedgerAccountId,
+        description,
+        debit_amount: JournalUtils.fromCents(baseCents),
+        credit_amount: 0,
+        currency: transfer.to_currency,
+        exchange_rate: CurrencyUtils.roundRate(baseCents / JournalUtils.toCents(transfer.to_amount)),
+        transaction_debit_amount: transfer.to_amount,
+        transaction_credit_amount: 0
+      }
+    ];
+
+    if (feeCents > 0) {
+      lines.push({
+        account_id: transfer.fee_account_id || await this.getAccountIdByCode(uow.db, SystemAccounts.BANK_CHARGES),
+        description: `Bank fee - ${description}`,
+        debit_amount: JournalUtils.fromCents(feeCents),
+        credit_amount: 0,
+        currency: transfer.from_currency,
+        exchange_rate: fromRate,
+        transaction_debit_amount: transfer.fee_amount,
+        transaction_credit_amount: 0
+      });
+    }
+
+    lines.push({
+      account_id: fromLedgerAccountId,
+      description,
+      debit_amount: 0,
+      credit_amount: JournalUtils.fromCents(baseCents + feeCents),
+      currency: transfer.from_currency,
+      exchange_rate: fromRate,
+      transaction_debit_amount: 0,
+      transaction_credit_amount: JournalUtils.fromCents(JournalUtils.toCents(transfer.amount) + JournalUtils.toCents(transfer.fee_amount))
+    });
+
+    return await this.postDocument(uow, {
+      source_type: 'bank_transfer',
+      source_id: transfer.id,
+      label: `transfer of ${transfer.transfer_date}`,
+      entry_date: transfer.transfer_date,
+      reference: transfer.reference || 'Bank transfer',
+      description,
+      lines
+    }, userId);
+  }
+
+  static async reverseBankTransfer(uow: UnitOfWork, transfer: BankTransfer, userId: string): Promise<JournalEntry | null> {
+    return await this.reverseDocument(uow, 'bank_transfer', transfer.id, userId, `Deletion of transfer of ${transfer.transfer_date}`);
+  }
+
+  // Zeroes every revenue and expense account for the fiscal year into Retained Earnings, dated
+  // on the last day of the year. Returns null when there is nothing to close.
+  static async postYearEndClose(uow: UnitOfWork, fiscalYear: number, userId: string): Promise<JournalEntry | null> {
+    const existingEntry = await this.findActiveEntry(uow.db, 'year_end_close', String(fiscalYear));
+    if (existingEntry) {
+      return existingEntry;
+    }
+
+    const settings = await SettingsUtils.getCompanySettings(uow.db);
+    const { start_date: yearStart, end_date: yearEnd } = PeriodUtils.fiscalYearRange(fiscalYear, settings.fiscal_year_start_month);
+    const accounts = await LedgerUtils.getAccounts(uow.db);
+    const activity = await LedgerUtils.getActivity(uow.db, { from: yearStart, to: yearEnd });
+
+    const lines: JournalLineInput[] = [];
+    let netIncomeCents = 0;
+
+    for (const account of accounts) {
+      if (account.account_type !== 'revenue' && account.account_type !== 'expense') {
+        continue;
+      }
+
+      const totals = activity.get(account.id);
+      const balanceCents = totals ? totals.debit - totals.credit : 0;
+      if (balanceCents === 0) {
+        continue;
+      }
+
+      netIncomeCents -= balanceCents;
+      lines.push({
+        account_id: account.id,
+        description: `Close ${account.account_code} ${account.account_name}`,
+        debit_amount: balanceCents < 0 ? JournalUtils.fromCents(-balanceCents) : 0,
+        credit_amount: balanceCents > 0 ? JournalUtils.fromCents(balanceCents) : 0
+      });
+    }
+
+    if (lines.length === 0) {
+      return null;
+    }
+
+    if (netIncomeCents !== 0) {
+      lines.push({
+        account_id: await this.getAccountIdByCode(uow.db, SystemAccounts.RETAINED_EARNINGS),
+        description: `Net ${netIncomeCents > 0 ? 'income' : 'loss'} for ${fiscalYear}`,
+        debit_amount: netIncomeCents < 0 ? JournalUtils.fromCents(-netIncomeCents) : 0,
+        credit_amount: netIncomeCents > 0 ? JournalUtils.fromCents(netIncomeCents) : 0
+      });
+    }
+
+    return await this.postDocument(uow, {
+      source_type: 'year_end_close',
+      source_id: String(fiscalYear),
+      label: `year-end close for ${fiscalYear}`,
+      entry_date: yearEnd,
+      reference: `FY${fiscalYear}`,
+      description: `Year-end close ${fiscalYear}`,
+      lines
+    }, userId);
+  }
+}
\ No newline at end of file
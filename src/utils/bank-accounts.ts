@@ -0,0 +1,227 @@
+import type { BankAccount, ChartOfAccounts, JournalSourceType } from '../types';
+import { DatabaseUtils } from './database';
+import { JournalUtils } from './journal';
+
+export interface BankAccountWithBalance extends BankAccount {
+  ledger_account_code: string | null;
+  ledger_account_name: string | null;
+  // In the base currency
+  balance: number;
+  // In the bank account's own currency
+  currency_balance: number;
+}
+
+export type RegisterEntryType = 'receipt' | 'disbursement' | 'transfer';
+
+export interface RegisterEntry {
+  date: string;
+  type: RegisterEntryType;
+  journal_entry_id: string;
+  entry_number: string;
+  reference: string | null;
+  description: string;
+  source_type: JournalSourceType | null;
+  source_id: string | null;
+  // Customer or vendor of a payment, or the other bank account of a transfer
+  counterparty: string | null;
+  // Money in is positive, money out negative
+  amount: number;
+  balance: number;
+}
+
+export interface BankRegister {
+  bank_account: BankAccountWithBalance;
+  from_date: string;
+  to_date: string;
+  opening_balance: number;
+  entries: RegisterEntry[];
+  total_receipts: number;
+  total_disbursements: number;
+  closing_balance: number;
+}
+
+// Balances and the total are in the base currency, the currency the ledger is kept in; each
+// account also shows its balance in its own currency
+export interface CashPosition {
+  as_of: string;
+  base_currency: string;
+  accounts: BankAccountWithBalance[];
+  total: number;
+}
+
+interface RegisterRow {
+  date: string;
+  journal_entry_id: string;
+  entry_number: string;
+  reference: string | null;
+  description: string;
+  source_type: JournalSourceType | null;
+  source_id: string | null;
+  amount: number;
+  other_bank_account: string | null;
+  party_name: string | null;
+}
+
+// Debit-positive posted balance of a bank account's ledger account, optionally up to a date. With
+// the transaction amounts it is in the account's own currency rather than the base currency.
+const balanceSql = (dateFilter: string = '', amounts: '' | 'transaction_' = '') => `ROUND(COALESCE((
+  SELECT SUM(COALESCE(jel.${amounts}debit_amount, 0) - COALESCE(jel.${amounts}credit_amount, 0))
+  FROM journal_entry_lines jel
+  JOIN journal_entries je ON jel.journal_entry_id = je.id
+  WHERE jel.account_id = ba.account_id AND je.status = 'posted' ${dateFilter}
+), 0), 2)`;
+
+const BANK_ACCOUNT_SQL = `
+  SELECT ba.*, coa.account_code as ledger_account_code, coa.account_name as ledger_account_name,
+    ${balanceSql()} as balance, ${balanceSql('', 'transaction_')} as currency_balance
+  FROM bank_accounts ba
+  LEFT JOIN chart_of_accounts coa ON ba.account_id = coa.id`;
+
+export class BankAccountUtils {
+  static async list(db: D1Database, includeInactive: boolean = false): Promise<BankAccountWithBalance[]> {
+    const result = await DatabaseUtils.executeQuery<BankAccountWithBalance>(
+      db,
+      `${BANK_ACCOUNT_SQL} ${includeInactive ? '' : 'WHERE ba.is_active = 1'} ORDER BY ba.account_name ASC`
+    );
+    return result.results;
+  }
+
+  static async get(db: D1Database, id: string): Promise<BankAccountWithBalance | null> {
+    return await DatabaseUtils.executeQueryFirst<BankAccountWithBalance>(
+      db,
+      `${BANK_ACCOUNT_SQL} WHERE ba.id = ?`,
+      [id]
+    );
+  }
+
+  // Returns an error message when the ledger account cannot back the bank account, null otherwise.
+  // bankAccountId is omitted for new bank accounts.
+  static async validateLedgerAccount(db: D1Database, accountId: string, bankAccountId?: string): Promise<string | null> {
+    const account = await DatabaseUtils.executeQueryFirst<ChartOfAccounts>(
+      db,
+      'SELECT * FROM chart_of_accounts WHERE id = ?',
+      [accountId]
+    );
+
+    if (!account || !account.is_active) {
+      return 'Ledger account not found or inactive';
+    }
+
+    if (account.account_type !== 'asset') {
+      return `Ledger account ${account.account_code} is ${account.account_type}; bank accounts must be backed by an asset account`;
+    }
+
+    const linked = await DatabaseUtils.executeQueryFirst<{ account_name: string }>(
+      db,
+      'SELECT account_name FROM bank_accounts WHERE account_id = ? AND id != ?',
+      [accountId, bankAccountId || '']
+    );
+
+    if (linked) {
+      return `Ledger account ${account.account_code} already backs bank account ${linked.account_name}`;
+    }
+
+    return null;
+  }
+
+  // Balance of every bank account at the end of asOf. Inactive accounts are left out unless
+  // they still held money on that date.
+  static async getCashPosition(db: D1Database, asOf: string, baseCurrency: string): Promise<CashPosition> {
+    const result = await DatabaseUtils.executeQuery<BankAccountWithBalance>(
+      db,
+      `SELECT * FROM (
+        SELECT ba.*, coa.account_code as ledger_account_code, coa.account_name as ledger_account_name,
+          ${balanceSql('AND je.entry_date <= ?1')} as balance,
+          ${balanceSql('AND je.entry_date <= ?1', 'transaction_')} as currency_balance
+        FROM bank_accounts ba
+        LEFT JOIN chart_of_accounts coa ON ba.account_id = coa.id
+      )
+      WHERE is_active = 1 OR balance != 0
+      ORDER BY account_name ASC`,
+      [asOf]
+    );
+
+    const totalCents = result.results.reduce((sum, account) => sum + JournalUtils.toCents(account.balance), 0);
+
+    return {
+      as_of: asOf,
+      base_currency: baseCurrency,
+      accounts: result.results,
+      total: JournalUtils.fromCents(totalCents)
+    };
+  }
+
+  // Every posted movement on the bank account's ledger account in the period, oldest first, with
+  // a running balance. An entry whose other side is another bank account is a transfer.
+  static async getRegister(db: D1Database, bankAccount: BankAccountWithBalance, fromDate: string, toDate: string): Promise<BankRegister> {
+    const opening = await DatabaseUtils.executeQueryFirst<{ balance: number }>(
+      db,
+      `SELECT ${balanceSql('AND je.entry_date < ?')} as balance FROM bank_accounts ba WHERE ba.id = ?`,
+      [fromDate, bankAccount.id]
+    );
+
+    const rows = await DatabaseUtils.executeQuery<RegisterRow>(
+      db,
+      `SELECT je.entry_date as date, je.id as journal_entry_id, je.entry_number, je.reference, je.description,
+        je.source_type, je.source_id,
+        COALESCE(jel.debit_amount, 0) - COALESCE(jel.credit_amount, 0) as amount,
+        (SELECT ob.account_name FROM journal_entry_lines ol
+          JOIN bank_accounts ob ON ob.account_id = ol.account_id
+          WHERE ol.journal_entry_id = je.id AND ol.account_id != jel.account_id
+          LIMIT 1) as other_bank_account,
+        CASE WHEN je.source_type = 'payment' THEN (
+          SELECT COALESCE(v.company_name, c.company_name,
+            TRIM(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '')))
+          FROM payments p
+          LEFT JOIN customers c ON p.customer_id = c.id
+          LEFT JOIN vendors v ON p.vendor_id = v.id
+          WHERE p.id = je.source_id) END as party_name
+      FROM journal_entry_lines jel
+      JOIN journal_entries je ON jel.journal_entry_id = je.id
+      WHERE jel.account_id = ? AND je.status = 'posted' AND je.entry_date BETWEEN ? AND ?
+      ORDER BY je.entry_date ASC, je.created_at ASC, je.entry_number ASC`,
+      [bankAccount.account_id, fromDate, toDate]
+    );
+
+    // Running balance in cents so it always ends exactly on the closing balance
+    const openingCents = JournalUtils.toCents(opening?.balance || 0);
+    let balanceCents = openingCents;
+    let receiptCents = 0;
+    let disbursementCents = 0;
+
+    const entries = rows.results.map(row => {
+      const cents = JournalUtils.toCents(row.amount);
+      balanceCents += cents;
+      if (cents > 0) {
+        receiptCents += cents;
+      } else {
+        disbursementCents -= cents;
+      }
+
+      return {
+        date: row.date,
+        type: (row.other_bank_account ? 'transfer' : cents >= 0 ? 'receipt' : 'disbursement') as RegisterEntryType,
+        journal_entry_id: row.journal_entry_id,
+        entry_number: row.entry_number,
+        reference: row.reference,
+        description: row.description,
+        source_type: row.source_type,
+        source_id: row.source_id,
+        counterparty: row.other_bank_account || row.party_name || null,
+        amount: JournalUtils.fromCents(cents),
+        balance: JournalUtils.fromCents(balanceCents)
+      };
+    });
+
+    return {
+      bank_account: bankAccount,
+      from_date: fromDate,
+      to_date: toDate,
+      opening_balance: JournalUtils.fromCents(openingCents),
+      entries,
+      total_receipts: JournalUtils.fromCents(receiptCents),
+      total_disbursements: JournalUtils.fromCents(disbursementCents),
+      closing_balance: JournalUtils.fromCents(balanceCents)
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,550 @@
+import type {
+  BankAccount,
+  BankMatch,
+  BankMatchMethod,
+  BankReconciliation,
+  BankReconciliationStatus,
+  BankStatementLine,
+  JournalSourceType
+} from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { JournalUtils } from './journal';
+
+export const DEFAULT_MATCH_WINDOW_DAYS = 5;
+export const MAX_MATCH_WINDOW_DAYS = 60;
+
+// Group suggestions look for up to this many lines, among the closest few by date, that add
+// up to a single line on the other side
+const MAX_GROUP_SIZE = 4;
+const MAX_GROUP_CANDIDATES = 12;
+
+// A posted journal line on the bank's ledger account, with what is known about its source
+export interface LedgerItem {
+  id: string;
+  journal_entry_id: string;
+  entry_number: string;
+  date: string;
+  reference: string | null;
+  description: string;
+  source_type: JournalSourceType | null;
+  source_id: string | null;
+  reversal_of_id: string | null;
+  payment_number: string | null;
+  reference_number: string | null;
+  party_name: string | null;
+  // Money in is positive, money out negative, in the bank account's currency like the statement
+  amount: number;
+}
+
+// Statement lines and journal lines up to the statement date that are not in any match yet
+export interface OpenItems {
+  statement_lines: BankStatementLine[];
+  journal_lines: LedgerItem[];
+}
+
+export interface MatchSuggestion {
+  statement_line_ids: string[];
+  journal_line_ids: string[];
+  amount: number;
+  // High confidence suggestions are the ones auto-matching applies
+  confidence: 'high' | 'medium';
+  reason: string;
+}
+
+export interface MatchWithItems extends BankMatch {
+  statement_lines: BankStatementLine[];
+  journal_lines: LedgerItem[];
+}
+
+// Statement balance plus what the bank has yet to clear should equal the book balance plus
+// what the books have yet to record; the difference has to be zero to complete.
+export interface ReconciliationReport {
+  reconciliation_id: string;
+  bank_account_id: string;
+  bank_account_name: string;
+  statement_date: string;
+  status: BankReconciliationStatus;
+  statement_balance: number;
+  outstanding_deposits: LedgerItem[];
+  total_outstanding_deposits: number;
+  outstanding_payments: LedgerItem[];
+  total_outstanding_payments: number;
+  adjusted_statement_balance: number;
+  book_balance: number;
+  unrecorded_items: BankStatementLine[];
+  total_unrecorded: number;
+  adjusted_book_balance: number;
+  difference: number;
+  cleared: {
+    matches: number;
+    statement_lines: number;
+    journal_lines: number;
+  };
+  completed_by: string | null;
+  completed_at: string | null;
+}
+
+const LEDGER_ITEM_COLUMNS = `
+  jel.id, jel.journal_entry_id, je.entry_number, je.entry_date as date, je.reference, je.description,
+  je.source_type, je.source_id, je.reversal_of_id, p.payment_number, p.reference_number,
+  COALESCE(v.company_name, c.company_name,
+    NULLIF(TRIM(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '')), '')) as party_name,
+  ROUND(COALESCE(jel.transaction_debit_amount, 0) - COALESCE(jel.transaction_credit_amount, 0), 2) as amount`;
+
+const LEDGER_ITEM_TABLES = `
+  FROM journal_entry_lines jel
+  JOIN journal_entries je ON jel.journal_entry_id = je.id
+  LEFT JOIN payments p ON je.source_type = 'payment' AND p.id = je.source_id
+  LEFT JOIN customers c ON p.customer_id = c.id
+  LEFT JOIN vendors v ON p.vendor_id = v.id`;
+
+function normalizeReference(text: string | null | undefined): string {
+  return (text || '').toLowerCase().replace(/[^0-9a-z]/g, '');
+}
+
+// The reference that ties a statement line to a posting, if any: the payment's reference
+// number, payment number or entry reference quoted on the statement, or the statement's
+// reference quoted on the posting. Short references match too much to count.
+function matchingReference(line: BankStatementLine, item: LedgerItem): string | null {
+  const statementText = normalizeReference([line.reference, line.description, line.payee].join(' '));
+  for (const reference of [item.reference_number, item.payment_number, item.reference]) {
+    const token = normalizeReference(reference);
+    if (token.length >= 4 && statementText.includes(token)) {
+      return reference;
+    }
+  }
+
+  const statementReference = normalizeReference(line.reference);
+  const ledgerText = normalizeReference([item.reference_number, item.reference, item.description].join(' '));
+  if (statementReference.length >= 4 && ledgerText.includes(statementReference)) {
+    return line.reference;
+  }
+
+  return null;
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86400000;
+}
+
+// Indexes of two to MAX_GROUP_SIZE amounts adding up to the target, or null. All amounts are in
+// cents with the target's sign and smaller than it, so the remainder only ever shrinks.
+function findGroup(amounts: number[], target: number): number[] | null {
+  const search = (start: number, remaining: number, chosen: number[]): number[] | null => {
+    if (remaining === 0) {
+      return chosen.length >= 2 ? chosen : null;
+    }
+    if (chosen.length === MAX_GROUP_SIZE) {
+      return null;
+    }
+
+    for (let i = start; i < amounts.length; i++) {
+      if (Math.abs(amounts[i]) <= Math.abs(remaining)) {
+        const found = search(i + 1, remaining - amounts[i], [...chosen, i]);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return null;
+  };
+
+  return search(0, target, []);
+}
+
+export class BankReconciliationUtils {
+  static async getOpenItems(db: D1Database, reconciliation: BankReconciliation, ledgerAccountId: string): Promise<OpenItems> {
+    const statementLines = await DatabaseUtils.executeQuery<BankStatementLine>(
+      db,
+      `SELECT sl.* FROM bank_statement_lines sl
+      WHERE sl.bank_account_id = ? AND sl.transaction_date <= ?
+        AND NOT EXISTS (SELECT 1 FROM bank_match_statement_lines ms WHERE ms.statement_line_id = sl.id)
+      ORDER BY sl.transaction_date ASC, sl.created_at ASC, sl.id ASC`,
+      [reconciliation.bank_account_id, reconciliation.statement_date]
+    );
+
+    const journalLines = await DatabaseUtils.executeQuery<LedgerItem>(
+      db,
+      `SELECT ${LEDGER_ITEM_COLUMNS} ${LEDGER_ITEM_TABLES}
+      WHERE jel.account_id = ? AND je.status = 'posted' AND je.entry_date <= ?
+        AND COALESCE(jel.transaction_debit_amount, 0) - COALESCE(jel.transaction_credit_amount, 0) != 0
+        AND NOT EXISTS (SELECT 1 FROM bank_match_journal_lines mj WHERE mj.journal_entry_line_id = jel.id)
+      ORDER BY je.entry_date ASC, je.entry_number ASC`,
+      [ledgerAccountId, reconciliation.statement_date]
+    );
+
+    return { statement_lines: statementLines.results, journal_lines: journalLines.results };
+  }
+
+  static async getMatches(db: D1Database, reconciliationId: string): Promise<MatchWithItems[]> {
+    const matches = await DatabaseUtils.executeQuery<BankMatch>(
+      db,
+      'SELECT * FROM bank_matches WHERE reconciliation_id = ? ORDER BY created_at ASC, id ASC',
+      [reconciliationId]
+    );
+
+    const statementLines = await DatabaseUtils.executeQuery<BankStatementLine & { match_id: string }>(
+      db,
+      `SELECT sl.*, ms.match_id FROM bank_statement_lines sl
+      JOIN bank_match_statement_lines ms ON ms.statement_line_id = sl.id
+      JOIN bank_matches m ON ms.match_id = m.id
+      WHERE m.reconciliation_id = ?
+      ORDER BY sl.transaction_date ASC, sl.id ASC`,
+      [reconciliationId]
+    );
+
+    const journalLines = await DatabaseUtils.executeQuery<LedgerItem & { match_id: string }>(
+      db,
+      `SELECT ${LEDGER_ITEM_COLUMNS}, mj.match_id ${LEDGER_ITEM_TABLES}
+      JOIN bank_match_journal_lines mj ON mj.journal_entry_line_id = jel.id
+      JOIN bank_matches m ON mj.match_id = m.id
+      WHERE m.reconciliation_id = ?
+      ORDER BY je.entry_date ASC, je.entry_number ASC`,
+      [reconciliationId]
+    );
+
+    return matches.results.map(match => ({
+      ...match,
+      statement_lines: statementLines.results.filter(line => line.match_id === match.id),
+      journal_lines: journalLines.results.filter(line => line.match_id === match.id)
+    }));
+  }
+
+  // Date of the earliest imported statement line; postings before it cleared before the
+  // statement history in the system begins
+  static async getHistoryStart(db: D1Database, bankAccountId: string): Promise<string | null> {
+    const result = await DatabaseUtils.executeQueryFirst<{ start_date: string | null }>(
+      db,
+      'SELECT MIN(transaction_date) as start_date FROM bank_statement_lines WHERE bank_account_id = ?',
+      [bankAccountId]
+    );
+    return result?.start_date || null;
+  }
+
+  // Returns an error message when the lines cannot be matched, null otherwise. Statement lines
+  // must add up to the journal lines. Journal lines alone can only be cleared when they cancel
+  // out, like a posting and its reversal, or predate the imported statement history.
+  static validateMatch(
+    items: OpenItems,
+    statementLineIds: string[],
+    journalLineIds: string[],
+    historyStart: string | null
+  ): string | null {
+    if (statementLineIds.length === 0 && journalLineIds.length === 0) {
+      return 'Select the statement lines and journal lines to match';
+    }
+
+    if (new Set(statementLineIds).size !== statementLineIds.length || new Set(journalLineIds).size !== journalLineIds.length) {
+      return 'A line can only be selected once';
+    }
+
+    const statementLines = statementLineIds.map(id => items.statement_lines.find(line => line.id === id));
+    const journalLines = journalLineIds.map(id => items.journal_lines.find(line => line.id === id));
+
+    if (statementLines.some(line => !line)) {
+      return 'Statement lines must belong to this bank account, be dated on or before the statement date and not be matched yet';
+    }
+
+    if (journalLines.some(line => !line)) {
+      return 'Journal lines must be posted to this bank account\'s ledger account, be dated on or before the statement date and not be matched yet';
+    }
+
+    const statementCents = statementLines.reduce((sum, line) => sum + JournalUtils.toCents(line!.amount), 0);
+    const journalCents = journalLines.reduce((sum, line) => sum + JournalUtils.toCents(line!.amount), 0);
+
+    if (statementLines.length === 0) {
+      const predatesHistory = !historyStart || journalLines.every(line => line!.date < historyStart);
+      if (journalCents !== 0 && !predatesHistory) {
+        return 'Journal lines can only be cleared without statement lines when they cancel out or predate the imported statements';
+      }
+      return null;
+    }
+
+    if (journalLines.length === 0) {
+      return 'Statement lines need journal lines to match; book the missing entry from the statement line instead';
+    }
+
+    if (statementCents !== journalCents) {
+      return `Statement lines total ${JournalUtils.fromCents(statementCents).toFixed(2)} but journal lines total ${JournalUtils.fromCents(journalCents).toFixed(2)}`;
+    }
+
+    return null;
+  }
+
+  // Re-reads the status inside the unit of work; false once the reconciliation is completed.
+  // While it is in progress, a compare-and-set is queued so that completing it before this batch
+  // commits sets statement_date to NULL, the NOT NULL constraint fails the batch and the unit is
+  // retried against the completed reconciliation. Queue it ahead of the reconciliation's changes.
+  static async guardInProgress(tx: UnitOfWork, reconciliationId: string): Promise<boolean> {
+    const current = await DatabaseUtils.executeQueryFirst<Pick<BankReconciliation, 'status'>>(
+      tx.db,
+      'SELECT status FROM bank_reconciliations WHERE id = ?',
+      [reconciliationId]
+    );
+
+    if (current?.status !== 'in_progress') {
+      return false;
+    }
+
+    tx.contend('bank_reconciliations');
+    tx.add(
+      "UPDATE bank_reconciliations SET statement_date = CASE WHEN status = 'in_progress' THEN statement_date ELSE NULL END WHERE id = ?",
+      [reconciliationId]
+    );
+
+    return true;
+  }
+
+  // Queues a match of already validated lines. The line tables are contended, so a concurrent
+  // match of the same line makes the unit retry and fail validation.
+  static addMatch(
+    tx: UnitOfWork,
+    reconciliation: BankReconciliation,
+    items: OpenItems,
+    statementLineIds: string[],
+    journalLineIds: string[],
+    method: BankMatchMethod,
+    userId: string
+  ): BankMatch {
+    const amountCents = statementLineIds.length > 0
+      ? items.statement_lines.filter(line => statementLineIds.includes(line.id)).reduce((sum, line) => sum + JournalUtils.toCents(line.amount), 0)
+      : items.journal_lines.filter(line => journalLineIds.includes(line.id)).reduce((sum, line) => sum + JournalUtils.toCents(line.amount), 0);
+
+    const match = tx.insert<BankMatch>('bank_matches', {
+      id: DatabaseUtils.generateId('bm'),
+      reconciliation_id: reconciliation.id,
+      bank_account_id: reconciliation.bank_account_id,
+      method,
+      amount: JournalUtils.fromCents(amountCents),
+      created_by: userId,
+      created_at: new Date().toISOString()
+    });
+
+    tx.contend('bank_match_statement_lines');
+    tx.contend('bank_match_journal_lines');
+
+    for (const statementLineId of statementLineIds) {
+      tx.add('INSERT INTO bank_match_statement_lines (statement_line_id, match_id) VALUES (?, ?)', [statementLineId, match.id]);
+    }
+
+    for (const journalLineId of journalLineIds) {
+      tx.add('INSERT INTO bank_match_journal_lines (journal_entry_line_id, match_id) VALUES (?, ?)', [journalLineId, match.id]);
+    }
+
+    return match;
+  }
+
+  // Queues the match of a statement line to the entry just booked for it. The entry's line ids
+  // are generated as it is queued, so its line on the bank's ledger account is found in SQL.
+  static addEntryMatch(
+    tx: UnitOfWork,
+    reconciliation: BankReconciliation,
+    line: BankStatementLine,
+    journalEntryId: string,
+    ledgerAccountId: string,
+    userId: string
+  ): BankMatch {
+    const match = tx.insert<BankMatch>('bank_matches', {
+      id: DatabaseUtils.generateId('bm'),
+      reconciliation_id: reconciliation.id,
+      bank_account_id: reconciliation.bank_account_id,
+      method: 'created',
+      amount: line.amount,
+      created_by: userId,
+      created_at: new Date().toISOString()
+    });
+
+    tx.contend('bank_match_statement_lines');
+    tx.add('INSERT INTO bank_match_statement_lines (statement_line_id, match_id) VALUES (?, ?)', [line.id, match.id]);
+    tx.add(
+      `INSERT INTO bank_match_journal_lines (journal_entry_line_id, match_id)
+      SELECT id, ? FROM journal_entry_lines WHERE journal_entry_id = ? AND account_id = ?`,
+      [match.id, journalEntryId, ledgerAccountId]
+    );
+
+    return match;
+  }
+
+  // Suggested matches among the open items, each line in at most one suggestion:
+  // 1. a posting and its reversal that both wait to clear, which the bank never saw;
+  // 2. one statement line to one posting of the same amount within the date window, preferring
+  //    a matching reference and then the closest date. High confidence when the reference
+  //    matches or neither side has another candidate;
+  // 3. one statement line to several postings, or one posting to several statement lines,
+  //    adding up exactly within the date window, like a deposit of several receipts.
+  static suggest(items: OpenItems, windowDays: number = DEFAULT_MATCH_WINDOW_DAYS): MatchSuggestion[] {
+    const suggestions: MatchSuggestion[] = [];
+    const usedStatementLines = new Set<string>();
+    const usedJournalLines = new Set<string>();
+    const cents = (amount: number) => JournalUtils.toCents(amount);
+
+    const byEntry = new Map(items.journal_lines.map(line => [line.journal_entry_id, line]));
+    for (const reversal of items.journal_lines) {
+      const original = reversal.reversal_of_id ? byEntry.get(reversal.reversal_of_id) : undefined;
+      if (original && !usedJournalLines.has(original.id) && !usedJournalLines.has(reversal.id) && cents(original.amount) === -cents(reversal.amount)) {
+        usedJournalLines.add(original.id);
+        usedJournalLines.add(reversal.id);
+        suggestions.push({
+          statement_line_ids: [],
+          journal_line_ids: [original.id, reversal.id],
+          amount: 0,
+          confidence: 'high',
+          reason: `${reversal.entry_number} reverses ${original.entry_number}`
+        });
+      }
+    }
+
+    const openJournalLines = () => items.journal_lines.filter(line => !usedJournalLines.has(line.id));
+    const openStatementLines = () => items.statement_lines.filter(line => !usedStatementLines.has(line.id));
+
+    const pairs: Array<{ line: BankStatementLine; item: LedgerItem; reference: string | null; distance: number }> = [];
+    const statementCandidates = new Map<string, number>();
+    const journalCandidates = new Map<string, number>();
+
+    for (const line of items.statement_lines) {
+      for (const item of openJournalLines()) {
+        const distance = daysApart(line.transaction_date, item.date);
+        if (cents(line.amount) === cents(item.amount) && distance <= windowDays) {
+          pairs.push({ line, item, reference: matchingReference(line, item), distance });
+          statementCandidates.set(line.id, (statementCandidates.get(line.id) || 0) + 1);
+          journalCandidates.set(item.id, (journalCandidates.get(item.id) || 0) + 1);
+        }
+      }
+    }
+
+    pairs.sort((a, b) => Number(!!b.reference) - Number(!!a.reference) || a.distance - b.distance);
+
+    for (const { line, item, reference, distance } of pairs) {
+      if (usedStatementLines.has(line.id) || usedJournalLines.has(item.id)) {
+        continue;
+      }
+
+      usedStatementLines.add(line.id);
+      usedJournalLines.add(item.id);
+
+      const unique = statementCandidates.get(line.id) === 1 && journalCandidates.get(item.id) === 1;
+      suggestions.push({
+        statement_line_ids: [line.id],
+        journal_line_ids: [item.id],
+        amount: line.amount,
+        confidence: reference || unique ? 'high' : 'medium',
+        reason: reference
+          ? `Reference ${reference} and amount match`
+          : `Same amount ${distance === 0 ? 'on the same day' : `${distance} day${distance === 1 ? '' : 's'} apart`}`
+      });
+    }
+
+    for (const line of openStatementLines()) {
+      const candidates = openJournalLines()
+        .filter(item => Math.sign(item.amount) === Math.sign(line.amount) && Math.abs(cents(item.amount)) < Math.abs(cents(line.amount))
+          && daysApart(line.transaction_date, item.date) <= windowDays)
+        .sort((a, b) => daysApart(line.transaction_date, a.date) - daysApart(line.transaction_date, b.date))
+        .slice(0, MAX_GROUP_CANDIDATES);
+
+      const group = findGroup(candidates.map(item => cents(item.amount)), cents(line.amount));
+      if (group) {
+        const journalLineIds = group.map(index => candidates[index].id);
+        usedStatementLines.add(line.id);
+        journalLineIds.forEach(id => usedJournalLines.add(id));
+        suggestions.push({
+          statement_line_ids: [line.id],
+          journal_line_ids: journalLineIds,
+          amount: line.amount,
+          confidence: 'medium',
+          reason: `${journalLineIds.length} postings add up to the statement line`
+        });
+      }
+    }
+
+    for (const item of openJournalLines()) {
+      const candidates = openStatementLines()
+        .filter(line => Math.sign(line.amount) === Math.sign(item.amount) && Math.abs(cents(line.amount)) < Math.abs(cents(item.amount))
+          && daysApart(line.transaction_date, item.date) <= windowDays)
+        .sort((a, b) => daysApart(a.transaction_date, item.date) - daysApart(b.transaction_date, item.date))
+        .slice(0, MAX_GROUP_CANDIDATES);
+
+      const group = findGroup(candidates.map(line => cents(line.amount)), cents(item.amount));
+      if (group) {
+        const statementLineIds = group.map(index => candidates[index].id);
+        usedJournalLines.add(item.id);
+        statementLineIds.forEach(id => usedStatementLines.add(id));
+        suggestions.push({
+          statement_line_ids: statementLineIds,
+          journal_line_ids: [item.id],
+          amount: item.amount,
+          confidence: 'medium',
+          reason: `${statementLineIds.length} statement lines add up to posting ${item.entry_number}`
+        });
+      }
+    }
+
+    return suggestions;
+  }
+
+  // In the bank account's currency: the transaction amounts of the lines on its ledger account
+  static async getBookBalance(db: D1Database, ledgerAccountId: string, asOf: string): Promise<number> {
+    const result = await DatabaseUtils.executeQueryFirst<{ balance: number | null }>(
+      db,
+      `SELECT ROUND(SUM(COALESCE(jel.transaction_debit_amount, 0) - COALESCE(jel.transaction_credit_amount, 0)), 2) as balance
+      FROM journal_entry_lines jel
+      JOIN journal_entries je ON jel.journal_entry_id = je.id
+      WHERE jel.account_id = ? AND je.status = 'posted' AND je.entry_date <= ?`,
+      [ledgerAccountId, asOf]
+    );
+    return result?.balance || 0;
+  }
+
+  // The report as it stands, or as it was frozen when the reconciliation was completed
+  static async getReport(db: D1Database, reconciliation: BankReconciliation, bankAccount: BankAccount): Promise<ReconciliationReport> {
+    if (reconciliation.status === 'completed' && reconciliation.report) {
+      return JSON.parse(reconciliation.report) as ReconciliationReport;
+    }
+
+    const items = await this.getOpenItems(db, reconciliation, bankAccount.account_id!);
+    const bookBalance = await this.getBookBalance(db, bankAccount.account_id!, reconciliation.statement_date);
+    const cleared = await DatabaseUtils.executeQueryFirst<ReconciliationReport['cleared']>(
+      db,
+      `SELECT COUNT(*) as matches,
+        (SELECT COUNT(*) FROM bank_match_statement_lines ms JOIN bank_matches m ON ms.match_id = m.id WHERE m.reconciliation_id = ?1) as statement_lines,
+        (SELECT COUNT(*) FROM bank_match_journal_lines mj JOIN bank_matches m ON mj.match_id = m.id WHERE m.reconciliation_id = ?1) as journal_lines
+      FROM bank_matches WHERE reconciliation_id = ?1`,
+      [reconciliation.id]
+    );
+
+    const sum = (amounts: number[]) => amounts.reduce((total, amount) => total + JournalUtils.toCents(amount), 0);
+    const outstandingDeposits = items.journal_lines.filter(item => item.amount > 0);
+    const outstandingPayments = items.journal_lines.filter(item => item.amount < 0);
+
+    const statementCents = JournalUtils.toCents(reconciliation.statement_balance);
+    const depositCents = sum(outstandingDeposits.map(item => item.amount));
+    const paymentCents = -sum(outstandingPayments.map(item => item.amount));
+    const bookCents = JournalUtils.toCents(bookBalance);
+    const unrecordedCents = sum(items.statement_lines.map(line => line.amount));
+
+    const adjustedStatementCents = statementCents + depositCents - paymentCents;
+    const adjustedBookCents = bookCents + unrecordedCents;
+
+    return {
+      reconciliation_id: reconciliation.id,
+      bank_account_id: bankAccount.id,
+      bank_account_name: bankAccount.account_name,
+      statement_date: reconciliation.statement_date,
+      status: reconciliation.status,
+      statement_balance: JournalUtils.fromCents(statementCents),
+      outstanding_deposits: outstandingDeposits,
+      total_outstanding_deposits: JournalUtils.fromCents(depositCents),
+      outstanding_payments: outstandingPayments,
+      total_outstanding_payments: JournalUtils.fromCents(paymentCents),
+      adjusted_statement_balance: JournalUtils.fromCents(adjustedStatementCents),
+      book_balance: JournalUtils.fromCents(bookCents),
+      unrecorded_items: items.statement_lines,
+      total_unrecorded: JournalUtils.fromCents(unrecordedCents),
+      adjusted_book_balance: JournalUtils.fromCents(adjustedBookCents),
+      difference: JournalUtils.fromCents(adjustedStatementCents - adjustedBookCents),
+      cleared: cleared || { matches: 0, statement_lines: 0, journal_lines: 0 },
+      completed_by: reconciliation.completed_by,
+      completed_at: reconciliation.completed_at
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,440 @@
+import type { BankCsvProfile, BankStatementFormat, CsvDateFormat } from '../types';
+import { CsvUtils } from './csv';
+import { JournalUtils } from './journal';
+
+export interface ParsedStatementLine {
+  transaction_date: string;
+  value_date: string | null;
+  // Money in is positive, money out negative
+  amount: number;
+  description: string;
+  payee: string | null;
+  reference: string | null;
+  // The bank's own id for the transaction, when the format carries one
+  fitid: string | null;
+}
+
+export interface ParsedStatement {
+  format: BankStatementFormat;
+  account_number: string | null;
+  currency: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  opening_balance: number | null;
+  closing_balance: number | null;
+  lines: ParsedStatementLine[];
+}
+
+export type CsvProfileMapping = Omit<BankCsvProfile, 'id' | 'name' | 'created_at' | 'updated_at'>;
+
+// Raised when an uploaded file cannot be read; the message is safe to show to the user
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+// Comments, CDATA, declarations, closing tags, opening tags and text, in that order of groups
+const XML_TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][^>]*>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+const XML_ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const CSV_DATE_PATTERNS: Record<CsvDateFormat, RegExp> = {
+  'YYYY-MM-DD': /^(?<y>\d{4})-(?<m>\d{1,2})-(?<d>\d{1,2})/,
+  'DD/MM/YYYY': /^(?<d>\d{1,2})\/(?<m>\d{1,2})\/(?<y>\d{4})/,
+  'MM/DD/YYYY': /^(?<m>\d{1,2})\/(?<d>\d{1,2})\/(?<y>\d{4})/,
+  'DD.MM.YYYY': /^(?<d>\d{1,2})\.(?<m>\d{1,2})\.(?<y>\d{4})/,
+  'YYYYMMDD': /^(?<y>\d{4})(?<m>\d{2})(?<d>\d{2})/
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower] ?? entity;
+  });
+}
+
+// Element tree of an XML document, enough for bank statements: namespace prefixes are
+// dropped, so <camt:Ntry> and <Ntry> are the same element, and text is entity-decoded.
+function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+
+  for (const [, cdata, closeName, openName, attributeText, selfClosing, chars] of text.matchAll(XML_TOKEN)) {
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (chars !== undefined) {
+      current.text += decodeEntities(chars);
+    } else if (closeName !== undefined) {
+      if (stack.length === 1 || current.name !== localName(closeName)) {
+        throw new StatementParseError(`Malformed XML: unexpected </${closeName}>`);
+      }
+      stack.pop();
+    } else if (openName !== undefined) {
+      const attributes: Record<string, string> = {};
+      for (const [, name, doubleQuoted, singleQuoted] of attributeText.matchAll(XML_ATTRIBUTE)) {
+        attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+
+      const element: XmlElement = { name: localName(openName), attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new StatementParseError(`Malformed XML: <${stack[stack.length - 1].name}> is not closed`);
+  }
+
+  return root;
+}
+
+function localName(name: string): string {
+  return name.substring(name.indexOf(':') + 1);
+}
+
+// First element down the path of child names
+function xmlChild(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  return path.reduce<XmlElement | undefined>((current, name) => current?.children.find(child => child.name === name), element);
+}
+
+function xmlText(element: XmlElement | undefined, ...path: string[]): string | null {
+  return xmlChild(element, ...path)?.text.trim() || null;
+}
+
+// Value of an OFX element. OFX 1.x is SGML and leaves elements unclosed, so the value runs to
+// the next tag or line break; OFX 2.x closes them, which ends the value the same way.
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1]).trim() || null : null;
+}
+
+function ofxBlock(text: string, tag: string): string | null {
+  return text.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i'))?.[1] ?? null;
+}
+
+function isoDate(year: string, month: string, day: string): string | null {
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCFullYear() !== Number(year) || date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+    return null;
+  }
+  return date.toISOString().substring(0, 10);
+}
+
+function parseDate(value: string | null, format: CsvDateFormat): string | null {
+  const groups = value?.match(CSV_DATE_PATTERNS[format])?.groups;
+  return groups ? isoDate(groups.y, groups.m, groups.d) : null;
+}
+
+// Amount as exported by a bank: currency symbols and spaces are ignored, the other separator
+// groups thousands, and a leading or trailing minus or parentheses make it negative
+function parseAmount(value: string | null, decimalSeparator: '.' | ',' = '.'): number | null {
+  let text = (value || '').replace(/[^\d.,()+-]/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  text = text.split(decimalSeparator === '.' ? ',' : '.').join('').replace(',', '.');
+  if (!/^(\d+(\.\d*)?|\.\d+)$/.test(text)) {
+    return null;
+  }
+
+  const amount = JournalUtils.fromCents(JournalUtils.toCents(Number(text)));
+  return negative ? -amount : amount;
+}
+
+function rangeOf(lines: ParsedStatementLine[]): { start_date: string | null; end_date: string | null } {
+  const dates = lines.map(line => line.transaction_date).sort();
+  return { start_date: dates[0] ?? null, end_date: dates[dates.length - 1] ?? null };
+}
+
+export class BankStatementParserUtils {
+  // Guesses the format from the content; anything that is not OFX or CAMT.053 is taken as CSV
+  static detectFormat(text: string): BankStatementFormat {
+    const head = text.substring(0, 4096);
+    if (/OFXHEADER|<OFX>/i.test(head)) {
+      return 'ofx';
+    }
+    if (/camt\.053|BkToCstmrStmt/.test(head)) {
+      return 'camt053';
+    }
+    return 'csv';
+  }
+
+  static parse(text: string, format: BankStatementFormat, profile?: CsvProfileMapping | null): ParsedStatement {
+    switch (format) {
+      case 'ofx':
+        return this.parseOfx(text);
+      case 'camt053':
+        return this.parseCamt053(text);
+      case 'csv':
+        if (!profile) {
+          throw new StatementParseError('CSV statements need a column-mapping profile');
+        }
+        return this.parseCsv(text, profile);
+    }
+  }
+
+  // OFX 1.x (SGML) and 2.x (XML), which QFX files also are. One bank or credit card statement
+  // per file; LEDGERBAL is taken as the closing balance.
+  static parseOfx(text: string): ParsedStatement {
+    if (!/<OFX>/i.test(text)) {
+      throw new StatementParseError('Not an OFX file: the <OFX> element is missing');
+    }
+
+    const statements = [...text.matchAll(/<(CC)?STMTRS>([\s\S]*?)<\/(CC)?STMTRS>/gi)];
+    if (statements.length !== 1) {
+      throw new StatementParseError(statements.length === 0
+        ? 'The OFX file has no bank or credit card statement'
+        : `The OFX file holds ${statements.length} statements; export one account at a time`);
+    }
+
+    const statement = statements[0][2];
+    const transactionList = ofxBlock(statement, 'BANKTRANLIST') || '';
+    const ledgerBalance = ofxBlock(statement, 'LEDGERBAL');
+    const lines: ParsedStatementLine[] = [];
+
+    for (const [, transaction] of transactionList.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+      const posted = ofxValue(transaction, 'DTPOSTED');
+      const date = parseDate(posted, 'YYYYMMDD');
+      if (!date) {
+        throw new StatementParseError(`Transaction ${ofxValue(transaction, 'FITID') || lines.length + 1}: DTPOSTED "${posted}" is not a date`);
+      }
+
+      const rawAmount = ofxValue(transaction, 'TRNAMT');
+      const amount = parseAmount(rawAmount, rawAmount?.includes(',') && !rawAmount.includes('.') ? ',' : '.');
+      if (amount === null) {
+        throw new StatementParseError(`Transaction ${ofxValue(transaction, 'FITID') || lines.length + 1}: TRNAMT "${rawAmount}" is not an amount`);
+      }
+
+      const name = ofxValue(transaction, 'NAME');
+      lines.push({
+        transaction_date: date,
+        value_date: null,
+        amount,
+        description: ofxValue(transaction, 'MEMO') || name || ofxValue(transaction, 'TRNTYPE') || 'Bank transaction',
+        payee: name,
+        reference: ofxValue(transaction, 'CHECKNUM') || ofxValue(transaction, 'REFNUM'),
+        fitid: ofxValue(transaction, 'FITID')
+      });
+    }
+
+    const range = rangeOf(lines);
+    return {
+      format: 'ofx',
+      account_number: ofxValue(statement, 'ACCTID'),
+      currency: ofxValue(statement, 'CURDEF'),
+      start_date: parseDate(ofxValue(transactionList, 'DTSTART'), 'YYYYMMDD') || range.start_date,
+      end_date: parseDate(ofxValue(transactionList, 'DTEND'), 'YYYYMMDD') || range.end_date,
+      opening_balance: null,
+      closing_balance: ledgerBalance ? parseAmount(ofxValue(ledgerBalance, 'BALAMT')) : null,
+      lines
+    };
+  }
+
+  // ISO 20022 bank-to-customer statement. Only booked entries are taken; an entry is one line
+  // however many transactions it batches, as that is the amount that moved on the account.
+  static parseCamt053(text: string): ParsedStatement {
+    const message = xmlChild(parseXml(text), 'Document', 'BkToCstmrStmt');
+    if (!message) {
+      throw new StatementParseError('Not a CAMT.053 statement: BkToCstmrStmt is missing');
+    }
+
+    const statements = message.children.filter(child => child.name === 'Stmt');
+    if (statements.length !== 1) {
+      throw new StatementParseError(statements.length === 0
+        ? 'The CAMT.053 file has no statement'
+        : `The CAMT.053 file holds ${statements.length} statements; export one account at a time`);
+    }
+
+    const statement = statements[0];
+    const signedAmount = (element: XmlElement, label: string): number => {
+      const amount = parseAmount(xmlText(element, 'Amt'));
+      if (amount === null) {
+        throw new StatementParseError(`${label}: amount "${xmlText(element, 'Amt')}" is not an amount`);
+      }
+      return xmlText(element, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+    };
+    const dateOf = (element: XmlElement | undefined): string | null =>
+      parseDate(xmlText(element, 'Dt') || xmlText(element, 'DtTm'), 'YYYY-MM-DD');
+
+    let openingBalance: number | null = null;
+    let closingBalance: number | null = null;
+
+    for (const balance of statement.children.filter(child => child.name === 'Bal')) {
+      const code = xmlText(balance, 'Tp', 'CdOrPrtry', 'Cd');
+      if (code === 'OPBD' || (code === 'PRCD' && openingBalance === null)) {
+        openingBalance = signedAmount(balance, `Balance ${code}`);
+      } else if (code === 'CLBD') {
+        closingBalance = signedAmount(balance, `Balance ${code}`);
+      }
+    }
+
+    const lines: ParsedStatementLine[] = [];
+
+    for (const entry of statement.children.filter(child => child.name === 'Ntry')) {
+      const status = xmlText(entry, 'Sts', 'Cd') || xmlText(entry, 'Sts');
+      if (status && status !== 'BOOK') {
+        continue;
+      }
+
+      const label = `Entry ${xmlText(entry, 'AcctSvcrRef') || xmlText(entry, 'NtryRef') || lines.length + 1}`;
+      const date = dateOf(xmlChild(entry, 'BookgDt'));
+      if (!date) {
+        throw new StatementParseError(`${label}: booking date is missing`);
+      }
+
+      const amount = signedAmount(entry, label);
+      const details = xmlChild(entry, 'NtryDtls', 'TxDtls');
+      // The other party: who paid us on a credit, who we paid on a debit
+      const party = amount >= 0 ? 'Dbtr' : 'Cdtr';
+      const endToEndId = xmlText(details, 'Refs', 'EndToEndId');
+
+      lines.push({
+        transaction_date: date,
+        value_date: dateOf(xmlChild(entry, 'ValDt')),
+        amount,
+        description: xmlText(details, 'RmtInf', 'Ustrd') || xmlText(details, 'AddtlTxInf') || xmlText(entry, 'AddtlNtryInf') || 'Bank transaction',
+        payee: xmlText(details, 'RltdPties', party, 'Nm') || xmlText(details, 'RltdPties', party, 'Pty', 'Nm'),
+        reference: xmlText(details, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref')
+          || (endToEndId !== 'NOTPROVIDED' ? endToEndId : null)
+          || xmlText(entry, 'NtryRef'),
+        fitid: xmlText(entry, 'AcctSvcrRef')
+      });
+    }
+
+    const range = rangeOf(lines);
+    return {
+      format: 'camt053',
+      account_number: xmlText(statement, 'Acct', 'Id', 'IBAN') || xmlText(statement, 'Acct', 'Id', 'Othr', 'Id'),
+      currency: xmlText(statement, 'Acct', 'Ccy'),
+      start_date: parseDate(xmlText(statement, 'FrToDt', 'FrDtTm'), 'YYYY-MM-DD') || range.start_date,
+      end_date: parseDate(xmlText(statement, 'FrToDt', 'ToDtTm'), 'YYYY-MM-DD') || range.end_date,
+      opening_balance: openingBalance,
+      closing_balance: closingBalance,
+      lines
+    };
+  }
+
+  // CSV mapped by a profile. Any row that cannot be read fails the whole file, so a statement
+  // is never half imported.
+  static parseCsv(text: string, profile: CsvProfileMapping): ParsedStatement {
+    const rows = CsvUtils.parse(text, profile.delimiter).slice(profile.skip_rows);
+    const header = rows.shift();
+    if (!header) {
+      throw new StatementParseError('The CSV file has no header row');
+    }
+
+    const columns = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+    const column = (name: string | null): number | null => {
+      if (!name) {
+        return null;
+      }
+      const index = columns.get(name.trim().toLowerCase());
+      if (index === undefined) {
+        throw new StatementParseError(`Column "${name}" is not in the header row`);
+      }
+      return index;
+    };
+
+    const dateColumn = column(profile.date_column)!;
+    const amountColumn = column(profile.amount_column);
+    const debitColumn = column(profile.debit_column);
+    const creditColumn = column(profile.credit_column);
+    const descriptionColumn = column(profile.description_column)!;
+    const payeeColumn = column(profile.payee_column);
+    const referenceColumn = column(profile.reference_column);
+    const idColumn = column(profile.id_column);
+    const lines: ParsedStatementLine[] = [];
+
+    rows.forEach((row, index) => {
+      if (row.every(value => value.trim() === '')) {
+        return;
+      }
+
+      const rowNumber = profile.skip_rows + index + 2;
+      const cell = (columnIndex: number | null): string | null =>
+        columnIndex === null ? null : (row[columnIndex] ?? '').trim() || null;
+
+      const date = parseDate(cell(dateColumn), profile.date_format);
+      if (!date) {
+        throw new StatementParseError(`Row ${rowNumber}: "${cell(dateColumn) ?? ''}" is not a ${profile.date_format} date`);
+      }
+
+      let amount: number | null;
+      if (amountColumn !== null) {
+        amount = parseAmount(cell(amountColumn), profile.decimal_separator);
+      } else {
+        // Either side may be blank; banks differ on whether debits carry a minus sign
+        const debit = cell(debitColumn) ? parseAmount(cell(debitColumn), profile.decimal_separator) : 0;
+        const credit = cell(creditColumn) ? parseAmount(cell(creditColumn), profile.decimal_separator) : 0;
+        amount = debit === null || credit === null
+          ? null
+          : JournalUtils.fromCents(JournalUtils.toCents(Math.abs(credit)) - JournalUtils.toCents(Math.abs(debit)));
+      }
+
+      if (amount === null) {
+        throw new StatementParseError(`Row ${rowNumber}: the amount is not a number`);
+      }
+
+      lines.push({
+        transaction_date: date,
+        value_date: null,
+        amount,
+        description: cell(descriptionColumn) || cell(payeeColumn) || 'Bank transaction',
+        payee: cell(payeeColumn),
+        reference: cell(referenceColumn),
+        fitid: cell(idColumn)
+      });
+    });
+
+    return {
+      format: 'csv',
+      account_number: null,
+      currency: null,
+      ...rangeOf(lines),
+      opening_balance: null,
+      closing_balance: null,
+      lines
+    };
+  }
+
+  // Returns an error message when the profile cannot map a statement, null otherwise
+  static validateCsvProfile(profile: Partial<CsvProfileMapping>): string | null {
+    if (profile.amount_column && (profile.debit_column || profile.credit_column)) {
+      return 'Map either amount_column or debit_column and credit_column, not both';
+    }
+
+    if (!profile.amount_column && !(profile.debit_column && profile.credit_column)) {
+      return 'Map amount_column, or both debit_column and credit_column';
+    }
+
+    return null;
+  }
+}
\ No newline at end of file
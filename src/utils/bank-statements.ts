@@ -0,0 +1,140 @@
+import type { BankAccount, BankStatementImport } from '../types';
+import { DatabaseUtils } from './database';
+import { JournalUtils } from './journal';
+import type { ParsedStatement, ParsedStatementLine } from './bank-statement-parsers';
+import { StatementParseError } from './bank-statement-parsers';
+
+// An import is written in a single D1 batch, so one file is capped
+export const MAX_STATEMENT_LINES = 2000;
+export const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+
+// D1 binds at most 100 parameters per statement
+const KEY_LOOKUP_CHUNK = 90;
+
+export interface StatementImportOptions {
+  filename: string | null;
+  csvProfileId: string | null;
+  userId: string;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Account numbers as banks print them: spacing and punctuation vary, statements may mask the
+// leading digits, and an IBAN ends with the domestic account number
+function normalizeAccountNumber(value: string): string {
+  return value.toUpperCase().replace(/[^0-9A-Z]/g, '').replace(/^X+/, '');
+}
+
+export class BankStatementUtils {
+  // Identity of each line for duplicate detection. The bank's transaction id is used when
+  // there is one; otherwise a hash of date, amount and reference (or description). Identical
+  // lines in one file, such as two equal card payments on a day, are told apart by the order
+  // they appear in, so re-importing the file matches each one to itself.
+  static async dedupeKeys(lines: ParsedStatementLine[]): Promise<string[]> {
+    const occurrences = new Map<string, number>();
+
+    return await Promise.all(lines.map(async line => {
+      if (line.fitid) {
+        return `fitid:${line.fitid}`;
+      }
+
+      const basis = [
+        line.transaction_date,
+        JournalUtils.toCents(line.amount),
+        (line.reference || line.description).toLowerCase().replace(/\s+/g, ' ').trim()
+      ].join('|');
+      const occurrence = (occurrences.get(basis) || 0) + 1;
+      occurrences.set(basis, occurrence);
+
+      return `hash:${await sha256(`${basis}|${occurrence}`)}`;
+    }));
+  }
+
+  static isSameAccount(bankAccount: BankAccount, statementAccountNumber: string): boolean {
+    const ours = normalizeAccountNumber(bankAccount.account_number);
+    const theirs = normalizeAccountNumber(statementAccountNumber);
+    return !ours || !theirs || ours.endsWith(theirs) || theirs.endsWith(ours);
+  }
+
+  // Stages the statement's lines against the bank account, skipping any line already imported
+  // from an earlier file (or earlier in this one). The import is recorded even when every
+  // line was a duplicate, so the upload history stays complete.
+  static async import(
+    db: D1Database,
+    bankAccount: BankAccount,
+    statement: ParsedStatement,
+    options: StatementImportOptions
+  ): Promise<BankStatementImport> {
+    if (statement.lines.length > MAX_STATEMENT_LINES) {
+      throw new StatementParseError(`The statement has ${statement.lines.length} lines; import at most ${MAX_STATEMENT_LINES} at a time`);
+    }
+
+    if (statement.account_number && !this.isSameAccount(bankAccount, statement.account_number)) {
+      throw new StatementParseError(`The statement is for account ${statement.account_number}, not ${bankAccount.account_name}`);
+    }
+
+    const keys = await this.dedupeKeys(statement.lines);
+
+    return await DatabaseUtils.transaction(db, async (tx) => {
+      const seen = new Set<string>();
+
+      for (let start = 0; start < keys.length; start += KEY_LOOKUP_CHUNK) {
+        const chunk = keys.slice(start, start + KEY_LOOKUP_CHUNK);
+        const existing = await DatabaseUtils.executeQuery<{ dedupe_key: string }>(
+          db,
+          `SELECT dedupe_key FROM bank_statement_lines
+          WHERE bank_account_id = ? AND dedupe_key IN (${chunk.map(() => '?').join(', ')})`,
+          [bankAccount.id, ...chunk]
+        );
+        existing.results.forEach(row => seen.add(row.dedupe_key));
+      }
+
+      const importId = DatabaseUtils.generateId('bsi');
+      const newLines: Array<{ line: ParsedStatementLine; key: string }> = [];
+
+      statement.lines.forEach((line, index) => {
+        if (!seen.has(keys[index])) {
+          seen.add(keys[index]);
+          newLines.push({ line, key: keys[index] });
+        }
+      });
+
+      const record = tx.insert<BankStatementImport>('bank_statement_imports', {
+        id: importId,
+        bank_account_id: bankAccount.id,
+        format: statement.format,
+        filename: options.filename,
+        csv_profile_id: options.csvProfileId,
+        start_date: statement.start_date,
+        end_date: statement.end_date,
+        opening_balance: statement.opening_balance,
+        closing_balance: statement.closing_balance,
+        line_count: newLines.length,
+        duplicate_count: statement.lines.length - newLines.length,
+        imported_by: options.userId,
+        created_at: new Date().toISOString()
+      });
+
+      // A concurrent upload of an overlapping file trips the unique key; the retry re-reads it
+      tx.contend('bank_statement_lines');
+
+      for (const { line, key } of newLines) {
+        tx.insert('bank_statement_lines', {
+          id: DatabaseUtils.generateId('bsl'),
+          bank_account_id: bankAccount.id,
+          import_id: importId,
+          ...line,
+          dedupe_key: key,
+          created_at: record.created_at
+        });
+      }
+
+      tx.audit('bank_statement_imports', importId, 'create', options.userId, undefined, record);
+
+      return record;
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import type { BankAccount, BankTransfer } from '../types';
+import { DatabaseUtils } from './database';
+import { JournalUtils } from './journal';
+
+export interface TransferAmounts {
+  to_amount: number;
+  base_amount: number;
+  exchange_rate: number;
+}
+
+export interface BankTransferWithAccounts extends BankTransfer {
+  from_bank_account_name: string;
+  to_bank_account_name: string;
+  journal_entry_id: string | null;
+  entry_number: string | null;
+}
+
+export const TRANSFER_SQL = `
+  SELECT t.*, fa.account_name as from_bank_account_name, ta.account_name as to_bank_account_name,
+    je.id as journal_entry_id, je.entry_number
+  FROM bank_transfers t
+  JOIN bank_accounts fa ON t.from_bank_account_id = fa.id
+  JOIN bank_accounts ta ON t.to_bank_account_id = ta.id
+  LEFT JOIN journal_entries je ON je.source_type = 'bank_transfer' AND je.source_id = t.id
+    AND je.reversal_of_id IS NULL`;
+
+export class BankTransferUtils {
+  // Works out what arrives and what the transfer is worth in the base currency. Amounts the
+  // currencies already determine may be given but have to agree. Returns an error message when
+  // an amount is missing or inconsistent.
+  static resolveAmounts(
+    from: BankAccount,
+    to: BankAccount,
+    input: { amount: number; to_amount?: number; base_amount?: number },
+    baseCurrency: string
+  ): TransferAmounts | string {
+    const amountCents = JournalUtils.toCents(input.amount);
+    let toCents: number;
+
+    if (from.currency === to.currency) {
+      if (input.to_amount !== undefined && JournalUtils.toCents(input.to_amount) !== amountCents) {
+        return `Both accounts are in ${from.currency}, so to_amount must equal amount`;
+      }
+      toCents = amountCents;
+    } else if (input.to_amount === undefined) {
+      return `to_amount in ${to.currency} is required for a transfer from ${from.currency}`;
+    } else {
+      toCents = JournalUtils.toCents(input.to_amount);
+    }
+
+    let baseCents: number;
+
+    if (from.currency === baseCurrency || to.currency === baseCurrency) {
+      baseCents = from.currency === baseCurrency ? amountCents : toCents;
+      if (input.base_amount !== undefined && JournalUtils.toCents(input.base_amount) !== baseCents) {
+        return `base_amount must equal the ${baseCurrency} side of the transfer`;
+      }
+    } else if (input.base_amount === undefined) {
+      return `base_amount in ${baseCurrency} is required when neither account is in ${baseCurrency}`;
+    } else {
+      baseCents = JournalUtils.toCents(input.base_amount);
+    }
+
+    if (amountCents <= 0 || toCents <= 0 || baseCents <= 0) {
+      return 'Transfer amounts must be at least 0.01';
+    }
+
+    return {
+      to_amount: JournalUtils.fromCents(toCents),
+      base_amount: JournalUtils.fromCents(baseCents),
+      exchange_rate: Math.round(toCents / amountCents * 1e8) / 1e8
+    };
+  }
+
+  static async get(db: D1Database, id: string): Promise<BankTransferWithAccounts | null> {
+    return await DatabaseUtils.executeQueryFirst<BankTransferWithAccounts>(
+      db,
+      `${TRANSFER_SQL} WHERE t.id = ?`,
+      [id]
+    );
+  }
+}
\ No newline at end of file
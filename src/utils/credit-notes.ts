@@ -0,0 +1,197 @@
+import type { CreditNoteApplication } from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { JournalUtils } from './journal';
+import { PaymentUtils } from './payments';
+import type { InvoiceApplicationInput } from './payments';
+
+// An invoice line together with how much of it earlier credit notes have already credited
+export interface CreditableLine {
+  id: string;
+  item_description: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  tax_rate: number | null;
+  account_id: string | null;
+  credited_total: number;
+}
+
+export interface CreditLineRequest {
+  invoice_line_item_id: string;
+  quantity?: number;
+  unit_price?: number;
+}
+
+export interface CreditNoteLineItem {
+  invoice_line_item_id: string;
+  item_description: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  tax_rate: number;
+  account_id: string | null;
+}
+
+export class CreditNoteUtils {
+  static async getCreditableLines(db: D1Database, invoiceId: string): Promise<CreditableLine[]> {
+    const { results } = await DatabaseUtils.executeQuery<CreditableLine>(
+      db,
+      `SELECT ili.id, ili.item_description, ili.quantity, ili.unit_price, ili.line_total, ili.tax_rate, ili.account_id,
+        (SELECT COALESCE(SUM(cnli.line_total), 0)
+          FROM credit_note_line_items cnli
+          JOIN credit_notes cn ON cnli.credit_note_id = cn.id
+          WHERE cnli.invoice_line_item_id = ili.id AND cn.status != 'void') as credited_total
+      FROM invoice_line_items ili
+      WHERE ili.invoice_id = ?
+      ORDER BY ili.created_at ASC`,
+      [invoiceId]
+    );
+
+    return results;
+  }
+
+  // Returns an error message when the lines cannot be credited, null otherwise. A line can be
+  // credited several times, but never for more than its original total across all credit notes.
+  static validateLineItems(invoiceLines: CreditableLine[], requested: CreditLineRequest[]): string | null {
+    const lineIds = requested.map(line => line.invoice_line_item_id);
+    if (new Set(lineIds).size !== lineIds.length) {
+      return 'Each invoice line can only appear once per credit note';
+    }
+
+    const linesById = new Map(invoiceLines.map(line => [line.id, line]));
+
+    for (const request of requested) {
+      const original = linesById.get(request.invoice_line_item_id);
+      if (!original) {
+        return `Line item ${request.invoice_line_item_id} is not on this invoice`;
+      }
+
+      if (JournalUtils.toCents(original.line_total) <= 0) {
+        return `Line "${original.item_description}" has no positive amount to credit`;
+      }
+
+      if (request.quantity !== undefined && request.quantity > original.quantity) {
+        return `Cannot credit more than the ${original.quantity} invoiced for "${original.item_description}"`;
+      }
+
+      if (request.unit_price !== undefined && request.unit_price > original.unit_price) {
+        return `Credited unit price for "${original.item_description}" exceeds the invoiced price`;
+      }
+
+      const creditCents = this.lineTotalCents(original, request);
+      const remainingCents = JournalUtils.toCents(original.line_total) - JournalUtils.toCents(original.credited_total);
+
+      if (creditCents > remainingCents) {
+        return `Only ${JournalUtils.fromCents(remainingCents).toFixed(2)} of "${original.item_description}" remains to be credited`;
+      }
+    }
+
+    return null;
+  }
+
+  static buildLineItems(invoiceLines: CreditableLine[], requested: CreditLineRequest[]): CreditNoteLineItem[] {
+    const linesById = new Map(invoiceLines.map(line => [line.id, line]));
+
+    return requested.map(request => {
+      const original = linesById.get(request.invoice_line_item_id)!;
+
+      return {
+        invoice_line_item_id: original.id,
+        item_description: original.item_description,
+        quantity: request.quantity ?? original.quantity,
+        unit_price: request.unit_price ?? original.unit_price,
+        line_total: JournalUtils.fromCents(this.lineTotalCents(original, request)),
+        tax_rate: original.tax_rate || 0,
+        account_id: original.account_id
+      };
+    });
+  }
+
+  // Subtotal and tax in cents, with tax worked out per line at the original line's rate
+  static calculateTotals(lineItems: CreditNoteLineItem[]): { subtotal: number; tax: number } {
+    return lineItems.reduce((totals, item) => ({
+      subtotal: totals.subtotal + JournalUtils.toCents(item.line_total),
+      tax: totals.tax + JournalUtils.toCents(item.line_total * item.tax_rate)
+    }), { subtotal: 0, tax: 0 });
+  }
+
+  static async getAppliedAmount(db: D1Database, creditNoteId: string): Promise<number> {
+    const result = await DatabaseUtils.executeQueryFirst<{ total: number }>(
+      db,
+      'SELECT COALESCE(SUM(applied_amount), 0) as total FROM credit_note_applications WHERE credit_note_id = ?',
+      [creditNoteId]
+    );
+
+    return result?.total || 0;
+  }
+
+  static insertApplications(uow: UnitOfWork, creditNoteId: string, applications: InvoiceApplicationInput[]): CreditNoteApplication[] {
+    const inserted = applications.map(application => {
+      const record = uow.insert<CreditNoteApplication>('credit_note_applications', {
+        id: DatabaseUtils.generateId('cnapp'),
+        credit_note_id: creditNoteId,
+        invoice_id: application.invoice_id,
+        applied_amount: JournalUtils.fromCents(JournalUtils.toCents(application.amount)),
+        created_at: new Date().toISOString()
+      });
+
+      PaymentUtils.refreshInvoiceBalance(uow, application.invoice_id);
+      return record;
+    });
+
+    this.refreshBalance(uow, creditNoteId);
+    return inserted;
+  }
+
+  static removeApplication(uow: UnitOfWork, application: CreditNoteApplication): void {
+    uow.delete('credit_note_applications', application.id);
+    PaymentUtils.refreshInvoiceBalance(uow, application.invoice_id);
+    this.refreshBalance(uow, application.credit_note_id);
+  }
+
+  // Credit notes are open while any of their amount is unapplied, like payments in receivables.
+  // Applications are checked against what was applied when the unit read it; if another request
+  // applied the same credit note in the meantime and it is now over-applied, unapplied_amount
+  // becomes NULL, the NOT NULL constraint fails the batch and the unit is run again.
+  static refreshBalance(uow: UnitOfWork, creditNoteId: string): void {
+    const applied = 'ROUND((SELECT COALESCE(SUM(applied_amount), 0) FROM credit_note_applications WHERE credit_note_id = credit_notes.id), 2)';
+
+    uow.contend('credit_notes');
+    uow.add(
+      `UPDATE credit_notes SET
+        applied_amount = ${applied},
+        unapplied_amount = CASE WHEN ${applied} > ROUND(total_amount, 2) THEN NULL ELSE ROUND(total_amount - ${applied}, 2) END,
+        status = CASE
+          WHEN status = 'void' THEN status
+          WHEN ${applied} >= ROUND(total_amount, 2) THEN 'applied'
+          ELSE 'open'
+        END,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+      [creditNoteId]
+    );
+  }
+
+  // Lines are validated against what earlier credit notes had credited when the unit read them.
+  // A line credited past its total by a credit note created concurrently has its line_total set
+  // to NULL, failing the batch so the unit is retried against the committed credit notes.
+  static guardCreditedLines(uow: UnitOfWork, lineItems: CreditNoteLineItem[]): void {
+    const credited = `ROUND((SELECT COALESCE(SUM(cnli.line_total), 0)
+      FROM credit_note_line_items cnli
+      JOIN credit_notes cn ON cnli.credit_note_id = cn.id
+      WHERE cnli.invoice_line_item_id = invoice_line_items.id AND cn.status != 'void'), 2)`;
+
+    uow.contend('invoice_line_items');
+    for (const lineItem of lineItems) {
+      uow.add(
+        `UPDATE invoice_line_items SET line_total = CASE WHEN ${credited} > ROUND(line_total, 2) THEN NULL ELSE line_total END WHERE id = ?`,
+        [lineItem.invoice_line_item_id]
+      );
+    }
+  }
+
+  private static lineTotalCents(original: CreditableLine, request: CreditLineRequest): number {
+    return JournalUtils.toCents((request.quantity ?? original.quantity) * (request.unit_price ?? original.unit_price));
+  }
+}
\ No newline at end of file
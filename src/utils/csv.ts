@@ -0,0 +1,80 @@
+export type CsvValue = string | number | null | undefined;
+
+export class CsvUtils {
+  // RFC 4180: fields with a comma, quote or line break are quoted, with quotes doubled.
+  // Text starting with a formula character (other than a plain negative number) is prefixed
+  // with a quote so spreadsheets show it as text instead of evaluating it.
+  static escape(value: CsvValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && isNaN(Number(text))) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  static stringify(header: string[], rows: CsvValue[][]): string {
+    return [header, ...rows].map(row => row.map(value => this.escape(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  // Splits RFC 4180 text into rows of fields. Quoted fields may hold the delimiter, doubled
+  // quotes and line breaks; a leading byte order mark and a trailing line break are ignored.
+  static parse(text: string, delimiter: string = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    for (; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  static response(csv: string, filename: string): Response {
+    return new Response(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  }
+}
\ No newline at end of file
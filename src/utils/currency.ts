@@ -0,0 +1,96 @@
+import type { ExchangeRate } from '../types';
+import { DatabaseUtils } from './database';
+import { JournalUtils } from './journal';
+import type { JournalLineInput } from './journal';
+
+// The currency a document is in and the rate captured on its date, in units of the base
+// currency per unit of `currency`. Invoices, credit notes, bills and payments all satisfy it.
+export interface CurrencyRate {
+  currency: string;
+  exchange_rate: number;
+}
+
+export class CurrencyUtils {
+  static roundRate(rate: number): number {
+    return Math.round(rate * 1e8) / 1e8;
+  }
+
+  // The rate in force on a date: the latest one entered on or before it
+  static async findRate(db: D1Database, currency: string, date: string): Promise<ExchangeRate | null> {
+    return await DatabaseUtils.executeQueryFirst<ExchangeRate>(
+      db,
+      `SELECT * FROM exchange_rates
+      WHERE currency = ? AND rate_date <= ?
+      ORDER BY rate_date DESC
+      LIMIT 1`,
+      [currency, date]
+    );
+  }
+
+  // The rate to capture on a document dated `date`: the one given, or else the one in force.
+  // The base currency is always at 1. Returns an error message when there is no rate to use.
+  static async resolveRate(
+    db: D1Database,
+    currency: string,
+    date: string,
+    given: number | undefined,
+    baseCurrency: string
+  ): Promise<CurrencyRate | string> {
+    if (currency === baseCurrency) {
+      if (given !== undefined && given !== 1) {
+        return `${baseCurrency} is the base currency, so its exchange rate is always 1`;
+      }
+
+      return { currency, exchange_rate: 1 };
+    }
+
+    if (given !== undefined) {
+      return { currency, exchange_rate: this.roundRate(given) };
+    }
+
+    const rate = await this.findRate(db, currency, date);
+    if (!rate) {
+      return `No ${currency} exchange rate on or before ${date}; add one or give exchange_rate`;
+    }
+
+    return { currency, exchange_rate: rate.rate };
+  }
+
+  static toBaseCents(amount: number, rate: number): number {
+    return Math.round(JournalUtils.toCents(amount) * rate);
+  }
+
+  // Turns lines written in a document's currency into base-currency lines that keep the
+  // original amounts as their transaction amounts. Converting each line on its own can leave
+  // the entry a cent or two out, which goes on the largest line of the lighter side. Lines too
+  // small to be worth a cent in the base currency are dropped.
+  static convertLines(lines: JournalLineInput[], rate: CurrencyRate): JournalLineInput[] {
+    const converted = lines
+      .map(line => ({
+        ...line,
+        debit_amount: JournalUtils.fromCents(this.toBaseCents(line.debit_amount, rate.exchange_rate)),
+        credit_amount: JournalUtils.fromCents(this.toBaseCents(line.credit_amount, rate.exchange_rate)),
+        currency: rate.currency,
+        exchange_rate: rate.exchange_rate,
+        transaction_debit_amount: line.debit_amount,
+        transaction_credit_amount: line.credit_amount
+      }))
+      .filter(line => JournalUtils.toCents(line.debit_amount) > 0 || JournalUtils.toCents(line.credit_amount) > 0);
+
+    const { total_debits, total_credits } = JournalUtils.calculateTotals(converted);
+    const differenceCents = JournalUtils.toCents(total_debits) - JournalUtils.toCents(total_credits);
+
+    if (differenceCents !== 0) {
+      const side = differenceCents > 0 ? 'credit_amount' : 'debit_amount';
+      const largest = converted
+        .filter(line => JournalUtils.toCents(line[side]) > 0)
+        .reduce<JournalLineInput | null>((max, line) => (!max || line[side] > max[side] ? line : max), null);
+
+      if (largest) {
+        largest[side] = JournalUtils.fromCents(JournalUtils.toCents(largest[side]) + Math.abs(differenceCents));
+      }
+    }
+
+    return converted;
+  }
+}
\ No newline at end of file
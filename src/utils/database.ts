@@ -1,5 +1,16 @@
 import type { Env, AuditAction } from '../types';
 
+// How many times a unit of work is re-run after losing a race for a contended row
+const MAX_TRANSACTION_ATTEMPTS = 3;
+
+// Raised when a batch fails because another request changed a row this unit compared against
+export class ConcurrencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConcurrencyError';
+  }
+}
+
 export class DatabaseUtils {
   static generateId(prefix: string = ''): string {
     const timestamp = Date.now().toString(36);
@@ -182,17 +193,29 @@ export class DatabaseUtils {
     };
   }
 
+  // Runs `work` against a unit of work and commits everything it queued in a single D1 batch,
+  // so either all of the writes are applied or none are. Reads made inside `work` see the
+  // database as it was before the unit started, not the writes queued so far. When the
+  // batch loses a race for a contended row, `work` is run again from scratch.
   static async transaction<T>(
     db: D1Database,
-    operations: (tx: D1Database) => Promise<T>
+    work: (uow: UnitOfWork) => Promise<T>
   ): Promise<T> {
-    // D1 doesn't support explicit transactions yet, so we'll simulate it
-    // In a real implementation, you'd use proper transaction handling
-    try {
-      return await operations(db);
-    } catch (error) {
-      console.error('Transaction failed:', error);
-      throw error;
+    for (let attempt = 1; ; attempt++) {
+      const uow = new UnitOfWork(db);
+
+      try {
+        const result = await work(uow);
+        await uow.commit();
+        return result;
+      } catch (error) {
+        if (error instanceof ConcurrencyError && attempt < MAX_TRANSACTION_ATTEMPTS) {
+          continue;
+        }
+
+        console.error('Transaction failed:', error);
+        throw error;
+      }
     }
   }
 
@@ -201,10 +224,10 @@ export class DatabaseUtils {
     return emailRegex.test(email);
   }
 
-  static formatCurrency(amount: number): string {
+  static formatCurrency(amount: number, currency: string = 'USD'): string {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD'
+      currency
     }).format(amount);
   }
 
@@ -215,4 +238,117 @@ export class DatabaseUtils {
   static formatDate(date: Date): string {
     return date.toISOString().split('T')[0];
   }
+}
+
+// Collects writes as prepared statements and commits them atomically with D1's batch().
+// IDs are generated up front, so later statements can reference rows inserted earlier in
+// the same unit; values that depend on earlier writes should be computed in SQL.
+export class UnitOfWork {
+  private statements: D1PreparedStatement[] = [];
+  private counters = new Map<string, number>();
+  private contendedTables = new Set<string>();
+  private committed = false;
+
+  constructor(public readonly db: D1Database) {}
+
+  get size(): number {
+    return this.statements.length;
+  }
+
+  add(query: string, params: any[] = []): void {
+    if (this.committed) {
+      throw new Error('Unit of work has already been committed');
+    }
+
+    this.statements.push(this.db.prepare(query).bind(...params));
+  }
+
+  // Queues an insert and returns the row as it will be written; data must include the id
+  insert<T = Record<string, any>>(table: string, data: Record<string, any>): T {
+    const columns = Object.keys(data);
+    const placeholders = columns.map(() => '?').join(', ');
+
+    this.add(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`,
+      Object.values(data)
+    );
+
+    return data as T;
+  }
+
+  update(table: string, id: string, data: Record<string, any>, touchUpdatedAt: boolean = true): void {
+    const setClause = Object.keys(data).map(col => `${col} = ?`);
+    if (touchUpdatedAt) {
+      setClause.push('updated_at = CURRENT_TIMESTAMP');
+    }
+
+    this.add(
+      `UPDATE ${table} SET ${setClause.join(', ')} WHERE id = ?`,
+      [...Object.values(data), id]
+    );
+  }
+
+  delete(table: string, id: string): void {
+    this.add(`DELETE FROM ${table} WHERE id = ?`, [id]);
+  }
+
+  // Audit rows are written in the same batch, so they only exist if the change they describe does
+  audit(
+    tableName: string,
+    recordId: string,
+    action: AuditAction,
+    userId: string,
+    oldValues?: Record<string, any>,
+    newValues?: Record<string, any>
+  ): void {
+    this.insert('audit_log', {
+      id: DatabaseUtils.generateId('audit'),
+      table_name: tableName,
+      record_id: recordId,
+      action,
+      old_values: oldValues ? JSON.stringify(oldValues) : null,
+      new_values: newValues ? JSON.stringify(newValues) : null,
+      user_id: userId,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Marks a table whose statements compare against values read before the batch; a constraint
+  // failure on it means another request committed first and the unit should be retried
+  contend(table: string): void {
+    this.contendedTables.add(table);
+  }
+
+  // Hands out consecutive numbers for a document series. The last committed number is only
+  // loaded once, so several documents numbered in the same unit do not collide.
+  async nextNumber(series: string, loadLastNumber: () => Promise<number>): Promise<number> {
+    const last = this.counters.has(series) ? this.counters.get(series)! : await loadLastNumber();
+    this.counters.set(series, last + 1);
+    return last + 1;
+  }
+
+  async commit(): Promise<void> {
+    if (this.committed) {
+      throw new Error('Unit of work has already been committed');
+    }
+    this.committed = true;
+
+    if (this.statements.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db.batch(this.statements);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      for (const table of this.contendedTables) {
+        if (message.includes(`constraint failed: ${table}`)) {
+          throw new ConcurrencyError(`Concurrent update to ${table}`);
+        }
+      }
+
+      console.error('Database batch error:', error);
+      throw new Error('Failed to commit changes');
+    }
+  }
 }
\ No newline at end of file
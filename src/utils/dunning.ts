@@ -0,0 +1,189 @@
+import type { DunningLevel, InvoiceReminder } from '../types';
+import { DatabaseUtils } from './database';
+import { AgingUtils } from './aging';
+import { LedgerUtils } from './ledger';
+import { EmailUtils } from './email';
+import { OutboxUtils } from './outbox';
+import { SettingsUtils } from './settings';
+import { TemplateUtils } from './templates';
+
+// Invoices that can be chased: issued, not void and with something still owed
+const DUNNABLE_STATUSES = ['sent', 'viewed', 'overdue', 'partial'];
+
+export interface DunningCandidate {
+  invoice_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  due_date: string;
+  total_amount: number;
+  balance_due: number;
+  customer_id: string;
+  customer_name: string;
+  email: string | null;
+  last_level_days: number | null;
+}
+
+export interface DunningRunSummary {
+  reminded: Array<{
+    invoice_id: string;
+    invoice_number: string;
+    level_name: string;
+    days_overdue: number;
+    queued: boolean;
+  }>;
+  failed: Array<{ invoice_id: string; error: string }>;
+}
+
+export class DunningUtils {
+  static async getActiveLevels(db: D1Database): Promise<DunningLevel[]> {
+    const result = await DatabaseUtils.executeQuery<DunningLevel>(
+      db,
+      'SELECT * FROM dunning_levels WHERE is_active = 1 ORDER BY days_overdue ASC',
+      []
+    );
+    return result.results;
+  }
+
+  // The level an invoice is due for: the highest one it has reached, unless that level (or a
+  // later one) was already sent. An invoice that reaches several levels at once, e.g. when the
+  // ladder is first set up, only gets the latest reminder.
+  static levelDue(levels: DunningLevel[], daysOverdue: number, lastLevelDays: number | null): DunningLevel | null {
+    const reached = levels.filter(level => level.days_overdue <= daysOverdue);
+    const level = reached[reached.length - 1];
+
+    if (!level || (lastLevelDays !== null && level.days_overdue <= lastLevelDays)) {
+      return null;
+    }
+
+    return level;
+  }
+
+  static async getCandidates(db: D1Database, dueOnOrBefore: string, invoiceId?: string): Promise<DunningCandidate[]> {
+    const placeholders = DUNNABLE_STATUSES.map(() => '?').join(', ');
+    const params: any[] = [...DUNNABLE_STATUSES, dueOnOrBefore];
+    let invoiceFilter = '';
+
+    if (invoiceId) {
+      invoiceFilter = 'AND i.id = ?';
+      params.push(invoiceId);
+    }
+
+    const result = await DatabaseUtils.executeQuery<DunningCandidate>(
+      db,
+      `SELECT i.id as invoice_id, i.invoice_number, i.invoice_date, i.due_date, i.total_amount, i.balance_due,
+        c.id as customer_id, c.email,
+        COALESCE(c.company_name, TRIM(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, ''))) as customer_name,
+        (SELECT MAX(r.level_days) FROM invoice_reminders r WHERE r.invoice_id = i.id) as last_level_days
+      FROM invoices i
+      JOIN customers c ON i.customer_id = c.id
+      WHERE i.status IN (${placeholders}) AND i.balance_due > 0 AND i.due_date <= ? ${invoiceFilter}
+      ORDER BY i.due_date ASC`,
+      params
+    );
+
+    return result.results;
+  }
+
+  // Records the reminder and queues its email in one batch. The unique (invoice, level) key
+  // turns a reminder another run already recorded into a conflict, and the retry then finds
+  // the invoice no longer due. Returns null when nothing was due.
+  static async remind(
+    db: D1Database,
+    invoiceId: string,
+    levels: DunningLevel[],
+    today: string,
+    companyName: string
+  ): Promise<InvoiceReminder | null> {
+    return await DatabaseUtils.transaction(db, async (tx) => {
+      const [candidate] = await this.getCandidates(tx.db, today, invoiceId);
+      if (!candidate) {
+        return null;
+      }
+
+      const daysOverdue = AgingUtils.daysPastDue(candidate.due_date, today);
+      const level = this.levelDue(levels, daysOverdue, candidate.last_level_days);
+      if (!level) {
+        return null;
+      }
+
+      const reminderId = DatabaseUtils.generateId('rem');
+      let outboxId: string | null = null;
+
+      if (candidate.email) {
+        const values: Record<string, string> = {
+          customer_name: candidate.customer_name,
+          invoice_number: candidate.invoice_number,
+          invoice_date: candidate.invoice_date,
+          due_date: candidate.due_date,
+          days_overdue: String(daysOverdue),
+          total_amount: EmailUtils.formatAmount(candidate.total_amount),
+          balance_due: EmailUtils.formatAmount(candidate.balance_due),
+          company_name: companyName
+        };
+
+        outboxId = OutboxUtils.enqueue(tx, {
+          to_address: candidate.email,
+          subject: TemplateUtils.render(level.subject, values),
+          body: TemplateUtils.render(level.body, values),
+          template_key: 'invoice_reminder',
+          source_type: 'invoice_reminder',
+          source_id: reminderId
+        }).id;
+      }
+
+      tx.contend('invoice_reminders');
+      return tx.insert<InvoiceReminder>('invoice_reminders', {
+        id: reminderId,
+        invoice_id: candidate.invoice_id,
+        customer_id: candidate.customer_id,
+        dunning_level_id: level.id,
+        level_name: level.name,
+        level_days: level.days_overdue,
+        days_overdue: daysOverdue,
+        balance_due: candidate.balance_due,
+        to_address: candidate.email || null,
+        email_outbox_id: outboxId,
+        created_at: new Date().toISOString()
+      });
+    });
+  }
+
+  // Sends every reminder due on `today`. Invoices are handled one at a time, so one failure
+  // does not hold back the rest; a failed invoice is picked up again on the next run.
+  static async runDue(db: D1Database, today: string): Promise<DunningRunSummary> {
+    const summary: DunningRunSummary = { reminded: [], failed: [] };
+
+    const levels = await this.getActiveLevels(db);
+    if (levels.length === 0) {
+      return summary;
+    }
+
+    const { company_name } = await SettingsUtils.getCompanySettings(db);
+    const candidates = await this.getCandidates(db, LedgerUtils.addDays(today, -levels[0].days_overdue));
+
+    for (const candidate of candidates) {
+      const daysOverdue = AgingUtils.daysPastDue(candidate.due_date, today);
+      if (!this.levelDue(levels, daysOverdue, candidate.last_level_days)) {
+        continue;
+      }
+
+      try {
+        const reminder = await this.remind(db, candidate.invoice_id, levels, today, company_name);
+        if (reminder) {
+          summary.reminded.push({
+            invoice_id: candidate.invoice_id,
+            invoice_number: candidate.invoice_number,
+            level_name: reminder.level_name,
+            days_overdue: reminder.days_overdue,
+            queued: !!reminder.email_outbox_id
+          });
+        }
+      } catch (error) {
+        console.error(`Dunning reminder for invoice ${candidate.invoice_id} error:`, error);
+        summary.failed.push({ invoice_id: candidate.invoice_id, error: 'Failed to record reminder' });
+      }
+    }
+
+    return summary;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,218 @@
+import type { Env, EmailTemplate, EmailTemplateKey } from '../types';
+import { DatabaseUtils } from './database';
+import { TemplateUtils } from './templates';
+import { InvoiceUtils } from './invoices';
+import { InvoicePdfUtils } from './invoice-pdf';
+import { StatementUtils } from './statements';
+import { StatementPdfUtils } from './statement-pdf';
+import { SettingsUtils } from './settings';
+
+export interface EmailAttachment {
+  filename: string;
+  content_type: string;
+  content: Uint8Array;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+// Outbox messages refer to the documents they attach, which are rendered when delivered
+export type EmailAttachmentReference =
+  | { type: 'invoice_pdf'; id: string }
+  | { type: 'statement_pdf'; id: string; from_date: string; to_date: string };
+
+// Raised by a transport when a message could not be delivered. Permanent failures (e.g. the
+// provider rejected the address) are not retried.
+export class EmailDeliveryError extends Error {
+  constructor(message: string, public readonly permanent: boolean = false) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+  }
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<{ provider_message_id: string | null }>;
+}
+
+// Development and offline transport: logs each message and keeps it in `delivered`
+export class LocalEmailTransport implements EmailTransport {
+  readonly name = 'local';
+  readonly delivered: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<{ provider_message_id: string | null }> {
+    this.delivered.push(message);
+
+    const attachments = message.attachments.map(attachment => `${attachment.filename} (${attachment.content.length} bytes)`);
+    console.log(
+      `[email] From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\n` +
+      `${attachments.length ? `Attachments: ${attachments.join(', ')}\n` : ''}\n${message.text}`
+    );
+
+    return { provider_message_id: `local-${Date.now()}-${this.delivered.length}` };
+  }
+}
+
+// Posts each message as JSON to an email provider's HTTP API (or an HTTP-to-SMTP relay):
+// { from, to, subject, text, attachments: [{ filename, content_type, content (base64) }] }.
+// The provider's message id is read from an `id` or `message_id` field of the response.
+export class HttpEmailTransport implements EmailTransport {
+  readonly name = 'http';
+
+  constructor(private readonly url: string, private readonly apiKey?: string) {}
+
+  async send(message: EmailMessage): Promise<{ provider_message_id: string | null }> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          attachments: message.attachments.map(attachment => ({
+            filename: attachment.filename,
+            content_type: attachment.content_type,
+            content: encodeBase64(attachment.content)
+          }))
+        })
+      });
+    } catch (error) {
+      throw new EmailDeliveryError(`Email provider unreachable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 500);
+      // Client errors other than throttling and timeouts will fail the same way on every retry
+      const permanent = response.status >= 400 && response.status < 500 && ![408, 429].includes(response.status);
+      throw new EmailDeliveryError(`Email provider returned ${response.status}: ${detail}`, permanent);
+    }
+
+    const result = await response.json().catch(() => ({})) as { id?: string; message_id?: string };
+    return { provider_message_id: result.id || result.message_id || null };
+  }
+}
+
+export class EmailUtils {
+  static createTransport(env: Env): EmailTransport {
+    const transport = env.EMAIL_TRANSPORT || 'local';
+
+    if (transport === 'local') {
+      return new LocalEmailTransport();
+    }
+
+    if (transport === 'http') {
+      if (!env.EMAIL_HTTP_URL) {
+        throw new Error('EMAIL_HTTP_URL must be set for the http email transport');
+      }
+      return new HttpEmailTransport(env.EMAIL_HTTP_URL, env.EMAIL_HTTP_API_KEY);
+    }
+
+    throw new Error(`Unknown email transport: ${transport}`);
+  }
+
+  // EMAIL_FROM, falling back to the company's email address
+  static async fromAddress(db: D1Database, env: Env): Promise<string> {
+    if (env.EMAIL_FROM) {
+      return env.EMAIL_FROM;
+    }
+
+    const settings = await SettingsUtils.getCompanySettings(db);
+    if (!settings.email) {
+      throw new Error('Set EMAIL_FROM or a company email address before sending email');
+    }
+
+    return settings.company_name ? `${settings.company_name} <${settings.email}>` : settings.email;
+  }
+
+  static async getTemplate(db: D1Database, templateKey: EmailTemplateKey): Promise<EmailTemplate> {
+    const template = await DatabaseUtils.executeQueryFirst<EmailTemplate>(
+      db,
+      'SELECT * FROM email_templates WHERE template_key = ?',
+      [templateKey]
+    );
+
+    if (!template) {
+      throw new Error(`No email template configured for ${templateKey}`);
+    }
+
+    return template;
+  }
+
+  static async renderTemplate(
+    db: D1Database,
+    templateKey: EmailTemplateKey,
+    context: Record<string, any>
+  ): Promise<{ subject: string; body: string }> {
+    const template = await this.getTemplate(db, templateKey);
+
+    return {
+      subject: TemplateUtils.render(template.subject, context).replace(/\s+/g, ' ').trim(),
+      body: TemplateUtils.render(template.body, context)
+    };
+  }
+
+  static formatAmount(value: number): string {
+    return Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+
+  static parseAttachments(value: string | null): EmailAttachmentReference[] {
+    return value ? JSON.parse(value) : [];
+  }
+
+  // A document that no longer exists makes the message undeliverable, so that failure is permanent
+  static async resolveAttachments(db: D1Database, references: EmailAttachmentReference[]): Promise<EmailAttachment[]> {
+    const attachments: EmailAttachment[] = [];
+
+    for (const reference of references) {
+      if (reference.type === 'invoice_pdf') {
+        const invoice = await InvoiceUtils.getInvoiceDetail(db, reference.id);
+        if (!invoice) {
+          throw new EmailDeliveryError(`Attached invoice ${reference.id} no longer exists`, true);
+        }
+
+        const settings = await SettingsUtils.getCompanySettings(db);
+        attachments.push({
+          filename: InvoicePdfUtils.filename(invoice),
+          content_type: 'application/pdf',
+          content: InvoicePdfUtils.render(invoice, settings)
+        });
+      } else if (reference.type === 'statement_pdf') {
+        const statement = await StatementUtils.getStatement(db, reference.id, reference.from_date, reference.to_date);
+        if (!statement) {
+          throw new EmailDeliveryError(`Customer ${reference.id} of the attached statement no longer exists`, true);
+        }
+
+        const settings = await SettingsUtils.getCompanySettings(db);
+        attachments.push({
+          filename: StatementPdfUtils.filename(statement),
+          content_type: 'application/pdf',
+          content: StatementPdfUtils.render(statement, settings)
+        });
+      }
+    }
+
+    return attachments;
+  }
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large attachments do not overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
\ No newline at end of file
@@ -0,0 +1,176 @@
+import type { CompanySettings } from '../types';
+import type { InvoiceDetail } from './invoices';
+import { PdfDocument } from './pdf';
+import {
+  LetterheadUtils, MARGIN, FOOTER_SPACE, BODY_SIZE, ROW_LINE_HEIGHT, MUTED, RULE, WHITE, formatAmount, joinParts
+} from './letterhead';
+
+function formatQuantity(value: number): string {
+  return Number(value).toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+function formatRate(rate: number | null): string {
+  return rate ? `${Number((rate * 100).toFixed(3))}%` : '';
+}
+
+export class InvoicePdfUtils {
+  static filename(invoice: Pick<InvoiceDetail, 'invoice_number'>): string {
+    return `${invoice.invoice_number.replace(/[^A-Za-z0-9_-]/g, '_')}.pdf`;
+  }
+
+  // Lays out the invoice on as many pages as the line items need
+  static render(invoice: InvoiceDetail, settings: CompanySettings): Uint8Array {
+    const { pdf, accent } = LetterheadUtils.createDocument(settings);
+    const right = pdf.width - MARGIN;
+    const bottom = pdf.height - FOOTER_SPACE;
+
+    pdf.addPage();
+    let y = LetterheadUtils.drawHeader(pdf, settings, invoice.status === 'draft' ? 'DRAFT INVOICE' : 'INVOICE', accent);
+
+    // Bill-to block and invoice facts side by side
+    const customerName = invoice.company_name || joinParts([invoice.first_name, invoice.last_name], ' ');
+    const billTo = [
+      invoice.company_name ? joinParts([invoice.first_name, invoice.last_name], ' ') : null,
+      invoice.address,
+      joinParts([invoice.city, joinParts([invoice.state, invoice.postal_code], ' ')], ', '),
+      invoice.country,
+      invoice.email
+    ];
+
+    let billToY = y;
+    pdf.text(MARGIN, billToY, 'BILL TO', { size: 8, bold: true, color: MUTED });
+    billToY += 13;
+    pdf.text(MARGIN, billToY, customerName, { size: 11, bold: true });
+    billToY += 15;
+    for (const line of billTo) {
+      if (line) {
+        pdf.text(MARGIN, billToY, line, { size: BODY_SIZE });
+        billToY += 12;
+      }
+    }
+
+    const facts: Array<[string, string]> = [
+      ['Invoice Number', invoice.invoice_number],
+      ['Invoice Date', invoice.invoice_date],
+      ['Due Date', invoice.due_date],
+      ['Currency', invoice.currency],
+      ['Balance Due', formatAmount(invoice.balance_due)]
+    ];
+    if (['paid', 'void'].includes(invoice.status)) {
+      facts.push(['Status', invoice.status.toUpperCase()]);
+    }
+
+    let factsY = y;
+    for (const [label, value] of facts) {
+      pdf.text(right - 110, factsY, label, { size: BODY_SIZE, color: MUTED, align: 'right' });
+      pdf.text(right, factsY, value, { size: BODY_SIZE, bold: true, align: 'right' });
+      factsY += 14;
+    }
+
+    y = Math.max(billToY, factsY) + 20;
+
+    // Line item table
+    const columns = {
+      description: MARGIN + 6,
+      quantity: right - 190,
+      unitPrice: right - 115,
+      tax: right - 70,
+      amount: right - 6
+    };
+    const descriptionWidth = columns.quantity - 40 - columns.description;
+
+    const tableHeader = () => {
+      pdf.rect(MARGIN, y, right - MARGIN, 18, accent);
+      const headerOptions = { size: 8, bold: true, color: WHITE };
+      pdf.text(columns.description, y + 5, 'DESCRIPTION', headerOptions);
+      pdf.text(columns.quantity, y + 5, 'QTY', { ...headerOptions, align: 'right' });
+      pdf.text(columns.unitPrice, y + 5, 'UNIT PRICE', { ...headerOptions, align: 'right' });
+      pdf.text(columns.tax, y + 5, 'TAX', { ...headerOptions, align: 'right' });
+      pdf.text(columns.amount, y + 5, 'AMOUNT', { ...headerOptions, align: 'right' });
+      y += 24;
+    };
+
+    const ensureSpace = (height: number, repeatHeader: boolean) => {
+      if (y + height > bottom) {
+        pdf.addPage();
+        y = MARGIN;
+        if (repeatHeader) {
+          tableHeader();
+        }
+      }
+    };
+
+    tableHeader();
+
+    for (const item of invoice.line_items) {
+      const lines = PdfDocument.wrapText(item.item_description, descriptionWidth, BODY_SIZE);
+      ensureSpace(lines.length * ROW_LINE_HEIGHT + 8, true);
+
+      lines.forEach((line, index) => {
+        pdf.text(columns.description, y + index * ROW_LINE_HEIGHT, line, { size: BODY_SIZE });
+      });
+      pdf.text(columns.quantity, y, formatQuantity(item.quantity), { size: BODY_SIZE, align: 'right' });
+      pdf.text(columns.unitPrice, y, formatAmount(item.unit_price), { size: BODY_SIZE, align: 'right' });
+      pdf.text(columns.tax, y, formatRate(item.tax_rate), { size: BODY_SIZE, align: 'right' });
+      pdf.text(columns.amount, y, formatAmount(item.line_total), { size: BODY_SIZE, align: 'right' });
+
+      y += lines.length * ROW_LINE_HEIGHT + 4;
+      pdf.line(MARGIN, y, right, y, { color: RULE });
+      y += 6;
+    }
+
+    // Totals
+    const totals: Array<[string, number, boolean]> = [
+      ['Subtotal', invoice.subtotal, false],
+      ['Tax', invoice.tax_amount, false],
+      ['Total', invoice.total_amount, true]
+    ];
+    if (invoice.paid_amount > 0) {
+      totals.push(['Paid', -invoice.paid_amount, false]);
+    }
+    if (invoice.credited_amount > 0) {
+      totals.push(['Credited', -invoice.credited_amount, false]);
+    }
+
+    ensureSpace(totals.length * 16 + 30, false);
+    y += 6;
+
+    for (const [label, value, bold] of totals) {
+      pdf.text(columns.tax, y, label, { size: BODY_SIZE + 1, bold, align: 'right' });
+      pdf.text(columns.amount, y, formatAmount(value), { size: BODY_SIZE + 1, bold, align: 'right' });
+      y += 16;
+    }
+
+    pdf.rect(columns.unitPrice - 60, y - 2, right - (columns.unitPrice - 60), 22, accent);
+    pdf.text(columns.tax, y + 4, 'Balance Due', { size: 11, bold: true, color: WHITE, align: 'right' });
+    pdf.text(columns.amount, y + 4, formatAmount(invoice.balance_due), { size: 11, bold: true, color: WHITE, align: 'right' });
+    y += 40;
+
+    // Notes and terms
+    const sections: Array<[string, string | null]> = [
+      ['Notes', invoice.notes],
+      ['Terms', invoice.terms || settings.default_terms]
+    ];
+
+    for (const [heading, body] of sections) {
+      if (!body) {
+        continue;
+      }
+
+      ensureSpace(30, false);
+      pdf.text(MARGIN, y, heading.toUpperCase(), { size: 8, bold: true, color: MUTED });
+      y += 13;
+
+      for (const line of PdfDocument.wrapText(body, right - MARGIN, BODY_SIZE)) {
+        ensureSpace(ROW_LINE_HEIGHT, false);
+        pdf.text(MARGIN, y, line, { size: BODY_SIZE });
+        y += ROW_LINE_HEIGHT;
+      }
+      y += 12;
+    }
+
+    LetterheadUtils.drawFooters(pdf, settings, invoice.invoice_number);
+
+    return pdf.toBytes();
+  }
+}
\ No newline at end of file
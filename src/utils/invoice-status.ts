@@ -0,0 +1,158 @@
+import type { Invoice, InvoiceStatusType } from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { AutoJournalUtils } from './auto-journal';
+
+// Every status an invoice can move to from each status. Void is terminal; partial and paid
+// move back to an open status when payments or credit notes are unapplied.
+const TRANSITIONS: Record<InvoiceStatusType, readonly InvoiceStatusType[]> = {
+  draft: ['sent', 'void'],
+  sent: ['viewed', 'overdue', 'partial', 'paid', 'void'],
+  viewed: ['overdue', 'partial', 'paid', 'void'],
+  overdue: ['partial', 'paid', 'void'],
+  partial: ['sent', 'viewed', 'overdue', 'paid'],
+  paid: ['sent', 'viewed', 'overdue', 'partial'],
+  void: []
+};
+
+// Statuses a user can ask for; the rest follow from settlements and due dates
+const MANUAL_STATUSES: readonly InvoiceStatusType[] = ['sent', 'viewed', 'void'];
+
+// Raised for a status change the state machine does not allow; routes answer it with 409
+export class InvoiceTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvoiceTransitionError';
+  }
+}
+
+export class InvoiceStatusUtils {
+  // Status of an issued invoice with nothing settled, as SQL over an invoices row
+  static readonly OPEN_STATUS_SQL =
+    "CASE WHEN due_date < date('now') THEN 'overdue' WHEN viewed_at IS NOT NULL THEN 'viewed' ELSE 'sent' END";
+
+  static canTransition(from: InvoiceStatusType, to: InvoiceStatusType): boolean {
+    return TRANSITIONS[from].includes(to);
+  }
+
+  static assertTransition(invoice: Pick<Invoice, 'invoice_number' | 'status'>, to: InvoiceStatusType): void {
+    if (invoice.status === to) {
+      throw new InvoiceTransitionError(`Invoice ${invoice.invoice_number} is already ${to}`);
+    }
+
+    if (!this.canTransition(invoice.status, to)) {
+      throw new InvoiceTransitionError(`Invoice ${invoice.invoice_number} cannot move from ${invoice.status} to ${to}`);
+    }
+  }
+
+  // Status of an issued invoice with nothing settled
+  static openStatus(invoice: Pick<Invoice, 'due_date' | 'viewed_at'>, today: string): InvoiceStatusType {
+    if (invoice.due_date < today) {
+      return 'overdue';
+    }
+    return invoice.viewed_at ? 'viewed' : 'sent';
+  }
+
+  // Applies a status requested through the API. Only sending, viewing and voiding are events a
+  // user can record; paid, partial and overdue are derived and cannot be set by hand.
+  static async applyRequestedStatus(
+    uow: UnitOfWork,
+    invoice: Invoice,
+    status: InvoiceStatusType,
+    userId: string,
+    today: string
+  ): Promise<Invoice> {
+    if (!MANUAL_STATUSES.includes(status)) {
+      throw new InvoiceTransitionError(
+        status === 'draft'
+          ? `Invoice ${invoice.invoice_number} cannot return to draft; issue a credit note or void it instead`
+          : `Invoice status ${status} follows from payments, credit notes and due dates and cannot be set directly`
+      );
+    }
+
+    if (status === 'sent') {
+      return await this.send(uow, invoice, userId, today);
+    }
+
+    if (status === 'viewed') {
+      return this.markViewed(uow, invoice, userId);
+    }
+
+    return await this.void(uow, invoice, userId);
+  }
+
+  // Issues a draft: posts it to the ledger and opens it, straight to overdue if already past due
+  static async send(uow: UnitOfWork, invoice: Invoice, userId: string, today: string): Promise<Invoice> {
+    this.assertTransition(invoice, 'sent');
+
+    await AutoJournalUtils.postInvoice(uow, invoice, userId);
+
+    const changes = {
+      status: this.openStatus({ ...invoice, viewed_at: null }, today),
+      sent_at: new Date().toISOString()
+    };
+
+    return this.apply(uow, invoice, changes, userId);
+  }
+
+  // Records that the customer has seen the invoice. Only a sent invoice changes status; for an
+  // overdue or settled one the time is still kept, so it shows as viewed if it reopens.
+  static markViewed(uow: UnitOfWork, invoice: Invoice, userId: string): Invoice {
+    if (['draft', 'void'].includes(invoice.status)) {
+      throw new InvoiceTransitionError(`Invoice ${invoice.invoice_number} is ${invoice.status} and cannot be viewed`);
+    }
+
+    if (invoice.viewed_at) {
+      throw new InvoiceTransitionError(`Invoice ${invoice.invoice_number} has already been viewed`);
+    }
+
+    const changes: Partial<Invoice> = { viewed_at: new Date().toISOString() };
+    if (invoice.status === 'sent') {
+      changes.status = 'viewed';
+    }
+
+    return this.apply(uow, invoice, changes, userId);
+  }
+
+  // Voids the invoice and reverses its ledger entry. Settled invoices must have their payments
+  // and credit notes unapplied first, which moves them back to an open status.
+  static async void(uow: UnitOfWork, invoice: Invoice, userId: string, action: 'update' | 'delete' = 'update'): Promise<Invoice> {
+    this.assertTransition(invoice, 'void');
+
+    await AutoJournalUtils.reverseInvoice(uow, invoice, userId);
+
+    return this.apply(uow, invoice, { status: 'void' }, userId, action);
+  }
+
+  // Moves open invoices past their due date to overdue; run daily from the cron trigger
+  static async markOverdue(db: D1Database, today: string): Promise<number> {
+    const result = await DatabaseUtils.executeQuery(
+      db,
+      `UPDATE invoices SET status = 'overdue', updated_at = CURRENT_TIMESTAMP
+      WHERE status IN ('sent', 'viewed') AND due_date < ? AND balance_due > 0`,
+      [today]
+    );
+
+    return result.meta.changes || 0;
+  }
+
+  private static apply(
+    uow: UnitOfWork,
+    invoice: Invoice,
+    changes: Partial<Invoice>,
+    userId: string,
+    action: 'update' | 'delete' = 'update'
+  ): Invoice {
+    uow.update('invoices', invoice.id, changes);
+
+    const oldValues: Record<string, any> = {};
+    for (const field of Object.keys(changes) as Array<keyof Invoice>) {
+      oldValues[field] = invoice[field];
+    }
+
+    // Log audit
+    uow.audit('invoices', invoice.id, action, userId, oldValues, changes);
+
+    return { ...invoice, ...changes };
+  }
+}
\ No newline at end of file
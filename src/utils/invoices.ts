@@ -0,0 +1,395 @@
+import type { CreateInvoiceInput, Invoice, UpdateInvoiceInput } from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { AutoJournalUtils } from './auto-journal';
+import type { DocumentLineItem } from './auto-journal';
+import { CurrencyUtils } from './currency';
+import type { CurrencyRate } from './currency';
+import { SequenceUtils } from './sequences';
+import { SettingsUtils } from './settings';
+import { InvoiceStatusUtils } from './invoice-status';
+
+export interface CreateInvoiceOptions {
+  // Invoices are created as drafts unless issued straight away, in which case they are posted too
+  status?: 'draft' | 'sent';
+  recurring_invoice_id?: string;
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  invoice_id: string;
+  item_description: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  tax_rate: number | null;
+  account_id: string | null;
+  created_at: string;
+}
+
+export interface LineItemDiff {
+  added: InvoiceLineItem[];
+  removed: InvoiceLineItem[];
+  changed: Array<{ before: InvoiceLineItem; after: InvoiceLineItem }>;
+}
+
+// Line fields a draft edit can change; line_total follows from quantity and unit_price
+const EDITABLE_LINE_FIELDS = ['item_description', 'quantity', 'unit_price', 'tax_rate', 'account_id'] as const;
+
+// Older rows may hold NULL where new ones hold 0 or null, which is not a change
+function lineValue(line: InvoiceLineItem, field: keyof InvoiceLineItem): string | number | null {
+  return field === 'tax_rate' ? line.tax_rate || 0 : line[field] ?? null;
+}
+
+// Everything GET /api/invoices/:id returns, which is also what documents are rendered from
+export interface InvoiceDetail extends Invoice {
+  company_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string | null;
+  created_by_first_name: string;
+  created_by_last_name: string;
+  journal_entry_id: string | null;
+  line_items: Array<InvoiceLineItem & { account_name: string | null }>;
+  credit_notes: Array<{
+    id: string;
+    credit_note_number: string;
+    credit_date: string;
+    reason: string;
+    total_amount: number;
+    unapplied_amount: number;
+    status: string;
+  }>;
+}
+
+export class InvoiceUtils {
+  static async getInvoiceDetail(db: D1Database, id: string): Promise<InvoiceDetail | null> {
+    // Get invoice with customer and line items
+    const invoice = await DatabaseUtils.executeQueryFirst<Omit<InvoiceDetail, 'line_items' | 'credit_notes'>>(
+      db,
+      `SELECT i.*, 
+        c.company_name, c.first_name, c.last_name, c.email, c.address, c.city, c.state, c.postal_code, c.country,
+        u.first_name as created_by_first_name, u.last_name as created_by_last_name,
+        (SELECT je.id FROM journal_entries je
+          WHERE je.source_type = 'invoice' AND je.source_id = i.id AND je.reversal_of_id IS NULL
+          ORDER BY je.created_at DESC LIMIT 1) as journal_entry_id
+      FROM invoices i
+      JOIN customers c ON i.customer_id = c.id
+      JOIN users u ON i.created_by = u.id
+      WHERE i.id = ?`,
+      [id]
+    );
+
+    if (!invoice) {
+      return null;
+    }
+
+    // Get line items
+    const lineItems = await DatabaseUtils.executeQuery<InvoiceDetail['line_items'][number]>(
+      db,
+      `SELECT ili.*, coa.account_name
+      FROM invoice_line_items ili
+      LEFT JOIN chart_of_accounts coa ON ili.account_id = coa.id
+      WHERE ili.invoice_id = ?
+      ORDER BY ili.created_at ASC`,
+      [id]
+    );
+
+    const creditNotes = await DatabaseUtils.executeQuery<InvoiceDetail['credit_notes'][number]>(
+      db,
+      `SELECT id, credit_note_number, credit_date, reason, total_amount, unapplied_amount, status
+      FROM credit_notes
+      WHERE invoice_id = ?
+      ORDER BY credit_date ASC, created_at ASC`,
+      [id]
+    );
+
+    return {
+      ...invoice,
+      line_items: lineItems.results,
+      credit_notes: creditNotes.results
+    };
+  }
+
+  static async getLineItems(db: D1Database, invoiceId: string): Promise<InvoiceLineItem[]> {
+    const result = await DatabaseUtils.executeQuery<InvoiceLineItem>(
+      db,
+      'SELECT * FROM invoice_line_items WHERE invoice_id = ? ORDER BY created_at ASC',
+      [invoiceId]
+    );
+    return result.results;
+  }
+
+  // Ids in a replacement list must name lines of this invoice, each at most once
+  static validateLineItemIds(
+    existing: InvoiceLineItem[],
+    lineItems: NonNullable<UpdateInvoiceInput['line_items']>
+  ): string | null {
+    const existingIds = new Set(existing.map(line => line.id));
+    const seen = new Set<string>();
+
+    for (const lineItem of lineItems) {
+      if (!lineItem.id) {
+        continue;
+      }
+
+      if (!existingIds.has(lineItem.id)) {
+        return `Line item ${lineItem.id} does not belong to this invoice`;
+      }
+
+      if (seen.has(lineItem.id)) {
+        return `Line item ${lineItem.id} appears more than once`;
+      }
+
+      seen.add(lineItem.id);
+    }
+
+    return null;
+  }
+
+  // Compares the invoice's current lines with a replacement list. Lines are matched by id;
+  // a matched line only counts as changed if one of its editable fields differs.
+  static diffLineItems(
+    invoiceId: string,
+    existing: InvoiceLineItem[],
+    lineItems: NonNullable<UpdateInvoiceInput['line_items']>
+  ): LineItemDiff {
+    const diff: LineItemDiff = { added: [], removed: [], changed: [] };
+    const byId = new Map(existing.map(line => [line.id, line]));
+
+    for (const lineItem of lineItems) {
+      const line: InvoiceLineItem = {
+        id: lineItem.id || DatabaseUtils.generateId('invli'),
+        invoice_id: invoiceId,
+        item_description: lineItem.item_description,
+        quantity: lineItem.quantity,
+        unit_price: lineItem.unit_price,
+        line_total: lineItem.quantity * lineItem.unit_price,
+        tax_rate: lineItem.tax_rate || 0,
+        account_id: lineItem.account_id || null,
+        created_at: new Date().toISOString()
+      };
+
+      const before = lineItem.id ? byId.get(lineItem.id) : undefined;
+      if (!before) {
+        diff.added.push(line);
+        continue;
+      }
+
+      byId.delete(before.id);
+      const after = { ...line, created_at: before.created_at };
+      if (EDITABLE_LINE_FIELDS.some(field => lineValue(before, field) !== lineValue(after, field))) {
+        diff.changed.push({ before, after });
+      }
+    }
+
+    diff.removed.push(...byId.values());
+    return diff;
+  }
+
+  // Queues an edit of a draft invoice with its audit entries: one for the invoice header and
+  // one per added, removed or changed line. Totals are recalculated when lines are replaced.
+  static updateDraftInvoice(
+    uow: UnitOfWork,
+    invoice: Invoice,
+    existingLines: InvoiceLineItem[],
+    invoiceData: UpdateInvoiceInput,
+    userId: string
+  ): { invoice: Invoice; line_changes: LineItemDiff | null } {
+    const { line_items, ...headerData } = invoiceData;
+    const changes: Record<string, any> = { ...headerData };
+    let lineChanges: LineItemDiff | null = null;
+
+    // If the invoice is issued before this batch commits, invoice_number becomes NULL and the
+    // NOT NULL constraint fails the batch, so the edit is retried against the issued invoice
+    uow.contend('invoices');
+    uow.add(
+      "UPDATE invoices SET invoice_number = CASE WHEN status = 'draft' THEN invoice_number ELSE NULL END WHERE id = ?",
+      [invoice.id]
+    );
+
+    if (line_items) {
+      lineChanges = this.diffLineItems(invoice.id, existingLines, line_items);
+
+      for (const line of lineChanges.removed) {
+        uow.delete('invoice_line_items', line.id);
+        uow.audit('invoice_line_items', line.id, 'delete', userId, line);
+      }
+
+      for (const { before, after } of lineChanges.changed) {
+        const fields = [...EDITABLE_LINE_FIELDS, 'line_total'] as const;
+        const oldValues: Record<string, any> = { invoice_id: invoice.id };
+        const newValues: Record<string, any> = { invoice_id: invoice.id };
+
+        for (const field of fields) {
+          if (lineValue(before, field) !== lineValue(after, field)) {
+            oldValues[field] = before[field];
+            newValues[field] = after[field];
+          }
+        }
+
+        const { id, invoice_id, created_at, ...lineData } = after;
+        uow.update('invoice_line_items', id, lineData, false);
+        uow.audit('invoice_line_items', id, 'update', userId, oldValues, newValues);
+      }
+
+      for (const line of lineChanges.added) {
+        uow.insert('invoice_line_items', line);
+        uow.audit('invoice_line_items', line.id, 'create', userId, undefined, line);
+      }
+
+      const totals = this.calculateTotals(line_items);
+      Object.assign(changes, totals, {
+        balance_due: totals.total_amount - invoice.paid_amount - invoice.credited_amount
+      });
+    }
+
+    const oldValues: Record<string, any> = {};
+    const newValues: Record<string, any> = {};
+    for (const [field, value] of Object.entries(changes)) {
+      oldValues[field] = invoice[field as keyof Invoice];
+      newValues[field] = value;
+    }
+
+    uow.update('invoices', invoice.id, changes);
+
+    // Log audit
+    uow.audit(
+      'invoices',
+      invoice.id,
+      'update',
+      userId,
+      oldValues,
+      lineChanges
+        ? {
+            ...newValues,
+            line_items: {
+              added: lineChanges.added.length,
+              removed: lineChanges.removed.length,
+              changed: lineChanges.changed.length
+            }
+          }
+        : newValues
+    );
+
+    return { invoice: { ...invoice, ...changes }, line_changes: lineChanges };
+  }
+
+  // Invoices are in their customer's currency, at the rate given or else the one in force on
+  // the invoice date. Returns an error message when the customer or a rate is missing.
+  static async resolveRate(
+    db: D1Database,
+    customerId: string,
+    invoiceDate: string,
+    given?: number
+  ): Promise<CurrencyRate | string> {
+    const customer = await DatabaseUtils.executeQueryFirst<{ currency: string }>(
+      db,
+      'SELECT currency FROM customers WHERE id = ?',
+      [customerId]
+    );
+
+    if (!customer) {
+      return 'Customer not found';
+    }
+
+    return await CurrencyUtils.resolveRate(db, customer.currency, invoiceDate, given, await SettingsUtils.getBaseCurrency(db));
+  }
+
+  static calculateTotals(lineItems: CreateInvoiceInput['line_items']): { subtotal: number; tax_amount: number; total_amount: number } {
+    const subtotal = lineItems.reduce((sum, item) => {
+      return sum + (item.quantity * item.unit_price);
+    }, 0);
+
+    const tax_amount = lineItems.reduce((sum, item) => {
+      return sum + (item.quantity * item.unit_price * (item.tax_rate || 0));
+    }, 0);
+
+    return { subtotal, tax_amount, total_amount: subtotal + tax_amount };
+  }
+
+  // Queues the invoice, its line items and the audit entry on the unit of work
+  static async createInvoice(
+    uow: UnitOfWork,
+    invoiceData: CreateInvoiceInput,
+    rate: CurrencyRate,
+    userId: string,
+    options: CreateInvoiceOptions = {}
+  ): Promise<Invoice> {
+    const { subtotal, tax_amount, total_amount } = this.calculateTotals(invoiceData.line_items);
+    const status = options.status || 'draft';
+
+    const newInvoice = {
+      id: DatabaseUtils.generateId('inv'),
+      invoice_number: await SequenceUtils.next(uow, 'invoice', invoiceData.invoice_date),
+      customer_id: invoiceData.customer_id,
+      invoice_date: invoiceData.invoice_date,
+      due_date: invoiceData.due_date,
+      subtotal: subtotal,
+      tax_amount: tax_amount,
+      total_amount: total_amount,
+      paid_amount: 0,
+      credited_amount: 0,
+      balance_due: total_amount,
+      currency: rate.currency,
+      exchange_rate: rate.exchange_rate,
+      // An invoice issued with a due date already behind it opens as overdue
+      status: status === 'sent'
+        ? InvoiceStatusUtils.openStatus({ due_date: invoiceData.due_date, viewed_at: null }, DatabaseUtils.formatDate(new Date()))
+        : status,
+      notes: invoiceData.notes || null,
+      terms: invoiceData.terms || null,
+      recurring_invoice_id: options.recurring_invoice_id || null,
+      sent_at: status === 'sent' ? new Date().toISOString() : null,
+      viewed_at: null,
+      created_by: userId,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    const invoice = uow.insert<Invoice>('invoices', newInvoice);
+    const lineItems: DocumentLineItem[] = [];
+
+    for (const lineItem of invoiceData.line_items) {
+      const lineTotal = lineItem.quantity * lineItem.unit_price;
+
+      uow.insert(
+        'invoice_line_items',
+        {
+          id: DatabaseUtils.generateId('invli'),
+          invoice_id: invoice.id,
+          item_description: lineItem.item_description,
+          quantity: lineItem.quantity,
+          unit_price: lineItem.unit_price,
+          line_total: lineTotal,
+          tax_rate: lineItem.tax_rate || 0,
+          account_id: lineItem.account_id || null,
+          created_at: new Date().toISOString()
+        }
+      );
+
+      lineItems.push({ account_id: lineItem.account_id || null, line_total: lineTotal });
+    }
+
+    if (status === 'sent') {
+      await AutoJournalUtils.postInvoice(uow, invoice, userId, lineItems);
+    }
+
+    // Log audit
+    uow.audit(
+      'invoices',
+      invoice.id,
+      'create',
+      userId,
+      undefined,
+      invoice
+    );
+
+    return invoice;
+  }
+}
\ No newline at end of file
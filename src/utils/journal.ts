@@ -0,0 +1,234 @@
+import type { JournalEntry, JournalEntryLine, JournalEntryStatusType, JournalSourceType } from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { PeriodUtils } from './periods';
+import { SequenceUtils } from './sequences';
+import { SettingsUtils } from './settings';
+
+// Debits and credits are in the base currency. Lines that came from a transaction in another
+// currency also carry the amounts in that currency and the rate they were converted at; lines
+// without a currency are base-currency lines.
+export interface JournalLineInput {
+  account_id: string;
+  description?: string | null;
+  debit_amount: number;
+  credit_amount: number;
+  currency?: string;
+  exchange_rate?: number;
+  transaction_debit_amount?: number;
+  transaction_credit_amount?: number;
+}
+
+export interface JournalEntryInput {
+  entry_date: string;
+  reference?: string | null;
+  description: string;
+  lines: JournalLineInput[];
+  status: JournalEntryStatusType;
+  created_by: string;
+  reversal_of_id?: string | null;
+  source_type?: JournalSourceType | null;
+  source_id?: string | null;
+}
+
+// Raised when an entry cannot be posted; the message is safe to show to the user
+export class PostingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PostingError';
+  }
+}
+
+export class JournalUtils {
+  // Amounts are compared in integer cents so floating point noise never
+  // makes a balanced entry look unbalanced (or the other way round)
+  static toCents(amount: number): number {
+    return Math.round((amount || 0) * 100);
+  }
+
+  static fromCents(cents: number): number {
+    return cents / 100;
+  }
+
+  static calculateTotals(lines: JournalLineInput[]): { total_debits: number; total_credits: number } {
+    const debitCents = lines.reduce((sum, line) => sum + this.toCents(line.debit_amount), 0);
+    const creditCents = lines.reduce((sum, line) => sum + this.toCents(line.credit_amount), 0);
+
+    return {
+      total_debits: this.fromCents(debitCents),
+      total_credits: this.fromCents(creditCents)
+    };
+  }
+
+  // Returns an error message when the lines cannot be posted, null otherwise
+  static async validateForPosting(db: D1Database, lines: JournalLineInput[]): Promise<string | null> {
+    if (lines.length < 2) {
+      return 'A journal entry needs at least two lines';
+    }
+
+    for (const line of lines) {
+      const debitCents = this.toCents(line.debit_amount);
+      const creditCents = this.toCents(line.credit_amount);
+
+      if (debitCents < 0 || creditCents < 0) {
+        return 'Journal line amounts cannot be negative';
+      }
+
+      if ((debitCents > 0) === (creditCents > 0)) {
+        return 'Each line must have either a debit or a credit amount, not both';
+      }
+    }
+
+    const { total_debits, total_credits } = this.calculateTotals(lines);
+
+    if (this.toCents(total_debits) !== this.toCents(total_credits)) {
+      return `Journal entry is not balanced: debits ${total_debits.toFixed(2)} do not equal credits ${total_credits.toFixed(2)}`;
+    }
+
+    const accountIds = [...new Set(lines.map(line => line.account_id))];
+    const placeholders = accountIds.map(() => '?').join(', ');
+    const accounts = await DatabaseUtils.executeQuery<{ id: string }>(
+      db,
+      `SELECT id FROM chart_of_accounts WHERE is_active = 1 AND id IN (${placeholders})`,
+      accountIds
+    );
+
+    if (accounts.results.length !== accountIds.length) {
+      return 'One or more accounts do not exist or are inactive';
+    }
+
+    return null;
+  }
+
+  static async getLines(db: D1Database, journalEntryId: string): Promise<JournalEntryLine[]> {
+    const { results } = await DatabaseUtils.executeQuery<JournalEntryLine>(
+      db,
+      'SELECT * FROM journal_entry_lines WHERE journal_entry_id = ? ORDER BY created_at ASC, rowid ASC',
+      [journalEntryId]
+    );
+
+    return results;
+  }
+
+  static insertLines(uow: UnitOfWork, journalEntryId: string, lines: JournalLineInput[], baseCurrency: string): void {
+    for (const line of lines) {
+      const isForeign = !!line.currency && line.currency !== baseCurrency;
+
+      uow.insert(
+        'journal_entry_lines',
+        {
+          id: DatabaseUtils.generateId('jel'),
+          journal_entry_id: journalEntryId,
+          account_id: line.account_id,
+          description: line.description || null,
+          debit_amount: this.fromCents(this.toCents(line.debit_amount)),
+          credit_amount: this.fromCents(this.toCents(line.credit_amount)),
+          currency: isForeign ? line.currency : baseCurrency,
+          exchange_rate: isForeign ? line.exchange_rate ?? 1 : 1,
+          transaction_debit_amount: this.fromCents(this.toCents(isForeign ? line.transaction_debit_amount ?? 0 : line.debit_amount)),
+          transaction_credit_amount: this.fromCents(this.toCents(isForeign ? line.transaction_credit_amount ?? 0 : line.credit_amount)),
+          created_at: new Date().toISOString()
+        }
+      );
+    }
+  }
+
+  static async replaceLines(uow: UnitOfWork, journalEntryId: string, lines: JournalLineInput[]): Promise<void> {
+    const baseCurrency = await SettingsUtils.getBaseCurrency(uow.db);
+    uow.add('DELETE FROM journal_entry_lines WHERE journal_entry_id = ?', [journalEntryId]);
+    this.insertLines(uow, journalEntryId, lines, baseCurrency);
+  }
+
+  // Every posting path goes through here so closed periods cannot be back-dated into
+  static async assertPeriodOpen(uow: UnitOfWork, entryDate: string, userId: string, context: string): Promise<void> {
+    const periodError = await PeriodUtils.checkPostingDate(uow.db, entryDate, userId, context, uow);
+    if (periodError) {
+      throw new PostingError(periodError);
+    }
+  }
+
+  static async createEntry(uow: UnitOfWork, entry: JournalEntryInput): Promise<JournalEntry> {
+    if (entry.status === 'posted') {
+      await this.assertPeriodOpen(uow, entry.entry_date, entry.created_by, entry.description);
+    }
+
+    const totals = this.calculateTotals(entry.lines);
+
+    const newEntry = {
+      id: DatabaseUtils.generateId('je'),
+      entry_number: await SequenceUtils.next(uow, 'journal_entry', entry.entry_date),
+      entry_date: entry.entry_date,
+      reference: entry.reference || null,
+      description: entry.description,
+      total_debits: totals.total_debits,
+      total_credits: totals.total_credits,
+      status: entry.status,
+      reversal_of_id: entry.reversal_of_id || null,
+      source_type: entry.source_type || null,
+      source_id: entry.source_id || null,
+      created_by: entry.created_by,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    const createdEntry = uow.insert<JournalEntry>('journal_entries', newEntry);
+    this.insertLines(uow, createdEntry.id, entry.lines, await SettingsUtils.getBaseCurrency(uow.db));
+
+    return createdEntry;
+  }
+
+  // Creates a posted entry that mirrors the original with debits and credits swapped. An entry
+  // is reversed at most once: if another request reversed it in the meantime, the batch fails
+  // and the unit of work is run again.
+  static async reverseEntry(
+    uow: UnitOfWork,
+    original: JournalEntry,
+    userId: string,
+    options: { entry_date?: string; description?: string } = {}
+  ): Promise<JournalEntry> {
+    const originalLines = await this.getLines(uow.db, original.id);
+
+    const reversal = await this.createEntry(uow, {
+      entry_date: options.entry_date || DatabaseUtils.formatDate(new Date()),
+      reference: original.entry_number,
+      description: options.description || `Reversal of ${original.entry_number}: ${original.description}`,
+      lines: originalLines.map(line => ({
+        account_id: line.account_id,
+        description: line.description,
+        debit_amount: line.credit_amount || 0,
+        credit_amount: line.debit_amount || 0,
+        currency: line.currency,
+        exchange_rate: line.exchange_rate,
+        transaction_debit_amount: line.transaction_credit_amount || 0,
+        transaction_credit_amount: line.transaction_debit_amount || 0
+      })),
+      status: 'posted',
+      created_by: userId,
+      reversal_of_id: original.id,
+      source_type: original.source_type,
+      source_id: original.source_id
+    });
+
+    // A second reversal sets entry_number to NULL, which the NOT NULL constraint rejects
+    uow.contend('journal_entries');
+    uow.add(
+      `UPDATE journal_entries
+      SET entry_number = CASE
+        WHEN (SELECT COUNT(*) FROM journal_entries r WHERE r.reversal_of_id = journal_entries.id) > 1 THEN NULL
+        ELSE entry_number
+      END
+      WHERE id = ?`,
+      [original.id]
+    );
+
+    return reversal;
+  }
+
+  static async findReversal(db: D1Database, journalEntryId: string): Promise<JournalEntry | null> {
+    return await DatabaseUtils.executeQueryFirst<JournalEntry>(
+      db,
+      'SELECT * FROM journal_entries WHERE reversal_of_id = ?',
+      [journalEntryId]
+    );
+  }
+}
\ No newline at end of file
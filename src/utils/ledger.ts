@@ -0,0 +1,373 @@
+import type { AccountType } from '../types';
+import { DateSchema } from '../types';
+import { DatabaseUtils } from './database';
+import { JournalUtils } from './journal';
+import { PeriodUtils } from './periods';
+
+export interface LedgerAccount {
+  id: string;
+  account_code: string;
+  account_name: string;
+  account_type: AccountType;
+  parent_id: string | null;
+  is_active: number | boolean;
+}
+
+export interface OrderedLedgerAccount extends LedgerAccount {
+  level: number;
+  has_children: boolean;
+}
+
+// Debit and credit totals for one account, in cents
+export interface AccountActivity {
+  debit: number;
+  credit: number;
+}
+
+export interface ActivityRange {
+  // Inclusive bounds on entry_date; omit either side for an open range
+  from?: string;
+  to?: string;
+}
+
+export interface ActivityOptions {
+  // Leave out year-end closing entries, so revenue and expenses show what was earned and
+  // spent rather than the zero balance left after closing into retained earnings
+  excludeClosingEntries?: boolean;
+}
+
+export const ComparisonTypes = ['prior_period', 'prior_year'] as const;
+export type ComparisonType = typeof ComparisonTypes[number];
+
+// One amount column of a financial statement. Balance sheet columns only use `to`.
+export interface StatementColumn extends ActivityRange {
+  key: 'current' | ComparisonType;
+  to: string;
+}
+
+export interface StatementRow {
+  id: string;
+  account_code: string;
+  account_name: string;
+  parent_id: string | null;
+  level: number;
+  has_children: boolean;
+  amounts: Record<string, number>;
+}
+
+export interface StatementSection {
+  account_type: AccountType;
+  accounts: StatementRow[];
+  total: Record<string, number>;
+}
+
+export class LedgerUtils {
+  static isValidDate(value: string): boolean {
+    return DateSchema.safeParse(value).success;
+  }
+
+  // Period from `from` and `to` query parameters: `to` defaults to today and `from` to the first
+  // of that month. Returns the reason when the period is not valid.
+  static parsePeriod(fromQuery?: string, toQuery?: string): { from: string; to: string } | string {
+    const to = toQuery || DatabaseUtils.formatDate(new Date());
+    const from = fromQuery || `${to.substring(0, 7)}-01`;
+
+    if (!this.isValidDate(from) || !this.isValidDate(to)) {
+      return 'Dates must be in YYYY-MM-DD format';
+    }
+
+    if (from > to) {
+      return 'from must be on or before to';
+    }
+
+    return { from, to };
+  }
+
+  static addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return DatabaseUtils.formatDate(result);
+  }
+
+  // Clamps to the last day of the target month, so Jan 31 + 1 month is Feb 28 (or 29)
+  static addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+    return DatabaseUtils.formatDate(new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))));
+  }
+
+  // Shifts a date by whole years, clamping Feb 29 to Feb 28 in non-leap years
+  static addYears(date: string, years: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year + years, month, 0)).getUTCDate();
+    return DatabaseUtils.formatDate(new Date(Date.UTC(year + years, month - 1, Math.min(day, lastDay))));
+  }
+
+  static daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+  }
+
+  // Accepts a comma separated list such as "prior_period,prior_year"; returns null if any value is unknown
+  static parseComparisons(value: string | undefined): ComparisonType[] | null {
+    if (!value) {
+      return [];
+    }
+
+    const comparisons = [...new Set(value.split(',').map(part => part.trim()).filter(Boolean))];
+    if (comparisons.some(comparison => !ComparisonTypes.includes(comparison as ComparisonType))) {
+      return null;
+    }
+
+    return comparisons as ComparisonType[];
+  }
+
+  // Prior period is the range of the same length immediately before `from`;
+  // prior year is the same range one year earlier
+  static incomeStatementColumns(from: string, to: string, comparisons: ComparisonType[]): StatementColumn[] {
+    const columns: StatementColumn[] = [{ key: 'current', from, to }];
+
+    if (comparisons.includes('prior_period')) {
+      const length = this.daysBetween(from, to) + 1;
+      columns.push({ key: 'prior_period', from: this.addDays(from, -length), to: this.addDays(from, -1) });
+    }
+
+    if (comparisons.includes('prior_year')) {
+      columns.push({ key: 'prior_year', from: this.addYears(from, -1), to: this.addYears(to, -1) });
+    }
+
+    return columns;
+  }
+
+  // Prior period is the end of the previous month; prior year is the same date one year earlier
+  static balanceSheetColumns(asOf: string, comparisons: ComparisonType[]): StatementColumn[] {
+    const columns: StatementColumn[] = [{ key: 'current', to: asOf }];
+
+    if (comparisons.includes('prior_period')) {
+      columns.push({ key: 'prior_period', to: this.addDays(`${asOf.substring(0, 7)}-01`, -1) });
+    }
+
+    if (comparisons.includes('prior_year')) {
+      columns.push({ key: 'prior_year', to: this.addYears(asOf, -1) });
+    }
+
+    return columns;
+  }
+
+  // The first day of the fiscal year the date falls in
+  static startOfFiscalYear(date: string, startMonth: number): string {
+    return `${PeriodUtils.fiscalYearOf(date, startMonth)}-${String(startMonth).padStart(2, '0')}-01`;
+  }
+
+  // Asset and expense accounts carry debit balances, everything else credit balances
+  static isDebitNormal(accountType: AccountType): boolean {
+    return accountType === 'asset' || accountType === 'expense';
+  }
+
+  static async getAccounts(db: D1Database): Promise<LedgerAccount[]> {
+    const result = await DatabaseUtils.executeQuery<LedgerAccount>(
+      db,
+      'SELECT id, account_code, account_name, account_type, parent_id, is_active FROM chart_of_accounts ORDER BY account_code ASC'
+    );
+
+    return result.results;
+  }
+
+  // Sums posted journal lines per account. Drafts never touch the ledger; reversed entries
+  // stay posted and are cancelled out by their (also posted) reversal.
+  static async getActivity(
+    db: D1Database,
+    range: ActivityRange = {},
+    options: ActivityOptions = {}
+  ): Promise<Map<string, AccountActivity>> {
+    let whereClause = "WHERE je.status = 'posted'";
+    const params: any[] = [];
+
+    if (options.excludeClosingEntries) {
+      whereClause += " AND (je.source_type IS NULL OR je.source_type != 'year_end_close')";
+    }
+
+    if (range.from) {
+      whereClause += ' AND je.entry_date >= ?';
+      params.push(range.from);
+    }
+
+    if (range.to) {
+      whereClause += ' AND je.entry_date <= ?';
+      params.push(range.to);
+    }
+
+    const result = await DatabaseUtils.executeQuery<{
+      account_id: string;
+      total_debits: number;
+      total_credits: number;
+    }>(
+      db,
+      `SELECT jel.account_id,
+        COALESCE(SUM(jel.debit_amount), 0) as total_debits,
+        COALESCE(SUM(jel.credit_amount), 0) as total_credits
+      FROM journal_entry_lines jel
+      JOIN journal_entries je ON jel.journal_entry_id = je.id
+      ${whereClause}
+      GROUP BY jel.account_id`,
+      params
+    );
+
+    const activity = new Map<string, AccountActivity>();
+    for (const row of result.results) {
+      activity.set(row.account_id, {
+        debit: Math.round(row.total_debits * 100),
+        credit: Math.round(row.total_credits * 100)
+      });
+    }
+
+    return activity;
+  }
+
+  // Orders accounts depth-first through parent_id so children follow their parent.
+  // Accounts whose parent is missing are treated as top level.
+  static orderAsTree(accounts: LedgerAccount[]): OrderedLedgerAccount[] {
+    const ids = new Set(accounts.map(account => account.id));
+    const childrenByParent = new Map<string | null, LedgerAccount[]>();
+
+    for (const account of accounts) {
+      const parentId = account.parent_id && ids.has(account.parent_id) ? account.parent_id : null;
+      const siblings = childrenByParent.get(parentId) || [];
+      siblings.push(account);
+      childrenByParent.set(parentId, siblings);
+    }
+
+    const ordered: OrderedLedgerAccount[] = [];
+    const visited = new Set<string>();
+
+    const visit = (account: LedgerAccount, level: number) => {
+      if (visited.has(account.id)) {
+        return;
+      }
+      visited.add(account.id);
+
+      const children = childrenByParent.get(account.id) || [];
+      ordered.push({ ...account, level, has_children: children.length > 0 });
+      children.forEach(child => visit(child, level + 1));
+    };
+
+    (childrenByParent.get(null) || []).forEach(account => visit(account, 0));
+
+    // Anything left is part of a parent_id cycle; list it flat rather than dropping it
+    accounts.filter(account => !visited.has(account.id)).forEach(account => visit(account, 0));
+
+    return ordered;
+  }
+
+  // Adds every account's own amounts into all of its ancestors, so a parent row shows
+  // the total of its subtree. Values are keyed by column name and must be in cents.
+  static rollUp(
+    accounts: LedgerAccount[],
+    amounts: Map<string, Record<string, number>>,
+    columns: string[]
+  ): Map<string, Record<string, number>> {
+    const accountsById = new Map(accounts.map(account => [account.id, account]));
+    const rolled = new Map<string, Record<string, number>>();
+
+    for (const account of accounts) {
+      rolled.set(account.id, Object.fromEntries(columns.map(column => [column, 0])));
+    }
+
+    for (const account of accounts) {
+      const own = amounts.get(account.id);
+      if (!own) {
+        continue;
+      }
+
+      const seen = new Set<string>();
+      let current: LedgerAccount | undefined = account;
+      while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        const totals = rolled.get(current.id)!;
+        for (const column of columns) {
+          totals[column] += own[column] || 0;
+        }
+        current = current.parent_id ? accountsById.get(current.parent_id) : undefined;
+      }
+    }
+
+    return rolled;
+  }
+
+  // Revenue less expenses over the range, in cents (credit positive)
+  static async getNetIncome(db: D1Database, accounts: LedgerAccount[], range: ActivityRange): Promise<number> {
+    const profitAndLossIds = new Set(
+      accounts
+        .filter(account => account.account_type === 'revenue' || account.account_type === 'expense')
+        .map(account => account.id)
+    );
+
+    const activity = await this.getActivity(db, range);
+    let netIncome = 0;
+    for (const [accountId, totals] of activity) {
+      if (profitAndLossIds.has(accountId)) {
+        netIncome += totals.credit - totals.debit;
+      }
+    }
+
+    return netIncome;
+  }
+
+  // Signed (debit positive) balance in cents per account and column
+  static async getColumnBalances(
+    db: D1Database,
+    columns: StatementColumn[],
+    options: ActivityOptions = {}
+  ): Promise<Map<string, Record<string, number>>> {
+    const balances = new Map<string, Record<string, number>>();
+
+    for (const column of columns) {
+      const activity = await this.getActivity(db, { from: column.from, to: column.to }, options);
+      for (const [accountId, totals] of activity) {
+        const row = balances.get(accountId) || {};
+        row[column.key] = totals.debit - totals.credit;
+        balances.set(accountId, row);
+      }
+    }
+
+    return balances;
+  }
+
+  // Builds one statement section for an account type. Amounts are shown with the type's
+  // normal balance as positive and parents include their children's balances.
+  static buildSection(
+    accounts: LedgerAccount[],
+    balances: Map<string, Record<string, number>>,
+    columns: StatementColumn[],
+    accountType: AccountType
+  ): StatementSection {
+    const keys = columns.map(column => column.key);
+    const sign = this.isDebitNormal(accountType) ? 1 : -1;
+    const sectionAccounts = accounts.filter(account => account.account_type === accountType);
+    const rolled = this.rollUp(sectionAccounts, balances, keys);
+
+    const toAmounts = (cents: Record<string, number>) =>
+      Object.fromEntries(keys.map(key => [key, JournalUtils.fromCents(sign * (cents[key] || 0))]));
+
+    const totalCents: Record<string, number> = Object.fromEntries(keys.map(key => [key, 0]));
+    for (const account of sectionAccounts) {
+      const own = balances.get(account.id);
+      for (const key of keys) {
+        totalCents[key] += own?.[key] || 0;
+      }
+    }
+
+    return {
+      account_type: accountType,
+      accounts: this.orderAsTree(sectionAccounts).map(account => ({
+        id: account.id,
+        account_code: account.account_code,
+        account_name: account.account_name,
+        parent_id: account.parent_id,
+        level: account.level,
+        has_children: account.has_children,
+        amounts: toAmounts(rolled.get(account.id)!)
+      })),
+      total: toAmounts(totalCents)
+    };
+  }
+}
\ No newline at end of file
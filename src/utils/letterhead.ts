@@ -0,0 +1,106 @@
+import type { CompanySettings } from '../types';
+import { PdfDocument, PaperSizePoints, decodeBase64 } from './pdf';
+import type { PdfColor, PdfImage } from './pdf';
+
+// Page furniture shared by the documents sent to customers: the company letterhead at the
+// top of the first page and a footer on every page
+
+export const MARGIN = 50;
+export const FOOTER_SPACE = 70;
+export const BODY_SIZE = 9;
+export const ROW_LINE_HEIGHT = 12;
+
+export const MUTED: PdfColor = [0.4, 0.4, 0.4];
+export const RULE: PdfColor = [0.8, 0.8, 0.8];
+export const WHITE: PdfColor = [1, 1, 1];
+
+const LOGO_MAX_WIDTH = 160;
+const LOGO_MAX_HEIGHT = 60;
+
+export function formatAmount(value: number): string {
+  return Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function joinParts(parts: Array<string | null | undefined>, separator: string): string {
+  return parts.filter(Boolean).join(separator);
+}
+
+export class LetterheadUtils {
+  static createDocument(settings: CompanySettings): { pdf: PdfDocument; accent: PdfColor } {
+    const paper = PaperSizePoints[settings.paper_size] || PaperSizePoints.A4;
+    return {
+      pdf: new PdfDocument(paper.width, paper.height),
+      accent: PdfDocument.hexColor(settings.accent_color || '#1F4E79')
+    };
+  }
+
+  // Draws logo and document title on the left and company details on the right of the
+  // current page, and returns where the body starts. A logo that is not a readable JPEG is
+  // left out rather than failing the whole document.
+  static drawHeader(pdf: PdfDocument, settings: CompanySettings, title: string, accent: PdfColor): number {
+    const right = pdf.width - MARGIN;
+
+    let logo: PdfImage | null = null;
+    if (settings.logo_data) {
+      try {
+        logo = PdfDocument.readJpeg(decodeBase64(settings.logo_data));
+      } catch {
+        logo = null;
+      }
+    }
+
+    let leftY = MARGIN;
+    if (logo) {
+      const scale = Math.min(LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height, 1);
+      pdf.image(logo, MARGIN, leftY, logo.width * scale, logo.height * scale);
+      leftY += logo.height * scale + 12;
+    }
+
+    pdf.text(MARGIN, leftY, title, { size: 22, bold: true, color: accent });
+    leftY += 30;
+
+    let rightY = MARGIN;
+    pdf.text(right, rightY, settings.company_name, { size: 13, bold: true, align: 'right' });
+    rightY += 18;
+
+    const companyLines = [
+      settings.address,
+      joinParts([settings.city, joinParts([settings.state, settings.postal_code], ' ')], ', '),
+      settings.country,
+      settings.email,
+      settings.phone,
+      settings.website,
+      settings.tax_id ? `Tax ID: ${settings.tax_id}` : null
+    ];
+
+    for (const line of companyLines) {
+      if (line) {
+        pdf.text(right, rightY, line, { size: BODY_SIZE, color: MUTED, align: 'right' });
+        rightY += 12;
+      }
+    }
+
+    const y = Math.max(leftY, rightY) + 16;
+    pdf.line(MARGIN, y, right, y, { color: accent, width: 1 });
+    return y + 16;
+  }
+
+  // Footers go on last, once the page count is known
+  static drawFooters(pdf: PdfDocument, settings: CompanySettings, label: string): void {
+    const right = pdf.width - MARGIN;
+
+    for (let page = 0; page < pdf.pageCount; page++) {
+      pdf.goToPage(page);
+      const footerY = pdf.height - MARGIN + 10;
+      pdf.line(MARGIN, footerY - 8, right, footerY - 8, { color: RULE });
+      if (settings.footer_text) {
+        pdf.text(MARGIN, footerY, settings.footer_text, { size: 8, color: MUTED });
+      }
+      pdf.text(right, footerY, `${label} - Page ${page + 1} of ${pdf.pageCount}`, {
+        size: 8,
+        color: MUTED,
+        align: 'right'
+      });
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,271 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Miniflare } from 'miniflare';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EmailOutboxMessage } from '../types';
+import { DatabaseUtils } from './database';
+import { EmailDeliveryError, LocalEmailTransport } from './email';
+import type { EmailMessage, EmailTransport } from './email';
+import { OutboxUtils } from './outbox';
+import type { OutboxMessageInput } from './outbox';
+
+const FROM = 'Acme Ltd <billing@acme.test>';
+
+// Splits a migration into statements on semicolons outside string literals and comments
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let inString = false;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+
+    if (!inString && char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      current += '\n';
+      continue;
+    }
+
+    if (char === "'") {
+      inString = !inString;
+    }
+
+    if (!inString && char === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+async function applyMigrations(db: D1Database): Promise<void> {
+  const directory = join(dirname(fileURLToPath(import.meta.url)), '../../migrations');
+
+  for (const file of readdirSync(directory).filter(name => name.endsWith('.sql')).sort()) {
+    for (const statement of splitStatements(readFileSync(join(directory, file), 'utf8'))) {
+      await db.prepare(statement).run();
+    }
+  }
+}
+
+// Fails the next sends with the queued errors, then hands messages to the local transport
+class FlakyTransport implements EmailTransport {
+  readonly name = 'local';
+  readonly local = new LocalEmailTransport();
+  readonly failures: EmailDeliveryError[] = [];
+
+  get delivered(): EmailMessage[] {
+    return this.local.delivered;
+  }
+
+  async send(message: EmailMessage): Promise<{ provider_message_id: string | null }> {
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    return await this.local.send(message);
+  }
+}
+
+describe('OutboxUtils', () => {
+  let mf: Miniflare;
+  let db: D1Database;
+
+  const enqueue = (message: Partial<OutboxMessageInput> = {}) =>
+    DatabaseUtils.transaction(db, async (tx) => OutboxUtils.enqueue(tx, {
+      to_address: 'customer@example.test',
+      subject: 'Invoice INV-0001',
+      body: 'Please find your invoice attached.',
+      template_key: 'invoice',
+      ...message
+    }));
+
+  const getMessage = (id: string) =>
+    DatabaseUtils.executeQueryFirst<EmailOutboxMessage>(db, 'SELECT * FROM email_outbox WHERE id = ?', [id]);
+
+  beforeAll(async () => {
+    mf = new Miniflare({
+      modules: true,
+      script: 'export default { fetch() { return new Response(null, { status: 404 }); } }',
+      d1Databases: ['DB']
+    });
+    db = await mf.getD1Database('DB') as unknown as D1Database;
+    await applyMigrations(db);
+  });
+
+  afterAll(async () => {
+    await mf.dispose();
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-02T09:00:00.000Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await db.prepare('DELETE FROM email_outbox').run();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('delivers pending messages through the local transport', async () => {
+    const transport = new LocalEmailTransport();
+    const message = await enqueue();
+
+    const summary = await OutboxUtils.drain(db, transport, FROM);
+
+    expect(transport.delivered).toEqual([{
+      from: FROM,
+      to: 'customer@example.test',
+      subject: 'Invoice INV-0001',
+      text: 'Please find your invoice attached.',
+      attachments: []
+    }]);
+    expect(summary.failed).toEqual([]);
+    expect(summary.sent.map(sent => sent.id)).toEqual([message.id]);
+
+    const stored = await getMessage(message.id);
+    expect(stored).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      transport: 'local',
+      sent_at: '2026-03-02T09:00:00.000Z',
+      next_attempt_at: null,
+      last_error: null
+    });
+    expect(stored!.provider_message_id).toMatch(/^local-/);
+
+    // Nothing is left to deliver on the next run
+    await OutboxUtils.drain(db, transport, FROM);
+    expect(transport.delivered).toHaveLength(1);
+  });
+
+  it('doubles the wait before each retry', () => {
+    expect([1, 2, 3, 4].map(attempts => OutboxUtils.retryDelayMinutes(attempts))).toEqual([5, 10, 20, 40]);
+  });
+
+  it('retries a failed delivery once its backoff has passed', async () => {
+    const transport = new FlakyTransport();
+    transport.failures.push(new EmailDeliveryError('Email provider returned 503: unavailable'));
+    const message = await enqueue();
+
+    const summary = await OutboxUtils.drain(db, transport, FROM);
+
+    expect(summary.sent).toEqual([]);
+    expect(summary.failed).toEqual([{
+      id: message.id,
+      to_address: 'customer@example.test',
+      error: 'Email provider returned 503: unavailable',
+      will_retry: true
+    }]);
+    expect(await getMessage(message.id)).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      last_error: 'Email provider returned 503: unavailable',
+      next_attempt_at: new Date(Date.now() + OutboxUtils.retryDelayMinutes(1) * 60000).toISOString()
+    });
+
+    // Not due yet a minute before the backoff ends
+    vi.setSystemTime(new Date('2026-03-02T09:04:00.000Z'));
+    await OutboxUtils.drain(db, transport, FROM);
+    expect(transport.delivered).toHaveLength(0);
+
+    vi.setSystemTime(new Date('2026-03-02T09:05:00.000Z'));
+    const retry = await OutboxUtils.drain(db, transport, FROM);
+
+    expect(retry.sent.map(sent => sent.id)).toEqual([message.id]);
+    expect(transport.delivered).toHaveLength(1);
+    expect(await getMessage(message.id)).toMatchObject({ status: 'sent', attempts: 2, last_error: null });
+  });
+
+  it('gives up on a message the provider rejects outright', async () => {
+    const transport = new FlakyTransport();
+    transport.failures.push(new EmailDeliveryError('Email provider returned 422: invalid recipient', true));
+    const message = await enqueue();
+
+    const summary = await OutboxUtils.drain(db, transport, FROM);
+
+    expect(summary.failed).toEqual([expect.objectContaining({ id: message.id, will_retry: false })]);
+    expect(await getMessage(message.id)).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      last_error: 'Email provider returned 422: invalid recipient',
+      next_attempt_at: null
+    });
+    expect(transport.delivered).toHaveLength(0);
+  });
+
+  it('gives up on a message whose attached document no longer exists', async () => {
+    const transport = new LocalEmailTransport();
+    const message = await enqueue({ attachments: [{ type: 'invoice_pdf', id: 'inv_missing' }] });
+
+    const summary = await OutboxUtils.drain(db, transport, FROM);
+
+    expect(summary.failed).toEqual([expect.objectContaining({ id: message.id, will_retry: false })]);
+    expect(await getMessage(message.id)).toMatchObject({ status: 'failed', next_attempt_at: null });
+    expect(transport.delivered).toHaveLength(0);
+  });
+
+  it('marks a message failed after the last attempt', async () => {
+    const transport = new FlakyTransport();
+    const message = await enqueue();
+
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      transport.failures.push(new EmailDeliveryError('Email provider unreachable: timeout'));
+      const summary = await OutboxUtils.drain(db, transport, FROM);
+      expect(summary.failed).toEqual([expect.objectContaining({ id: message.id, will_retry: attempt < 5 })]);
+
+      vi.setSystemTime(new Date(Date.now() + OutboxUtils.retryDelayMinutes(attempt) * 60000));
+    }
+
+    expect(await getMessage(message.id)).toMatchObject({ status: 'failed', attempts: 5, next_attempt_at: null });
+
+    const summary = await OutboxUtils.drain(db, transport, FROM);
+    expect(summary).toEqual({ sent: [], failed: [] });
+  });
+
+  it('records a bounce only for a sent message', async () => {
+    const transport = new LocalEmailTransport();
+    const message = await enqueue();
+
+    expect(await OutboxUtils.recordBounce(db, message.id, 'Mailbox full')).toBeNull();
+
+    await OutboxUtils.drain(db, transport, FROM);
+    const bounced = await OutboxUtils.recordBounce(db, message.id, 'Mailbox full');
+
+    expect(bounced).toMatchObject({
+      id: message.id,
+      status: 'failed',
+      bounce_reason: 'Mailbox full',
+      bounced_at: '2026-03-02T09:00:00.000Z'
+    });
+    expect(await OutboxUtils.recordBounce(db, message.id, 'Mailbox full')).toBeNull();
+  });
+
+  it('requeues a failed message with a fresh set of attempts', async () => {
+    const transport = new FlakyTransport();
+    transport.failures.push(new EmailDeliveryError('Email provider returned 422: invalid recipient', true));
+    const message = await enqueue();
+
+    expect(await OutboxUtils.requeue(db, message.id)).toBeNull();
+
+    await OutboxUtils.drain(db, transport, FROM);
+    const requeued = await OutboxUtils.requeue(db, message.id);
+
+    expect(requeued).toMatchObject({ id: message.id, status: 'pending', attempts: 0, next_attempt_at: null });
+
+    const summary = await OutboxUtils.drain(db, transport, FROM);
+    expect(summary.sent.map(sent => sent.id)).toEqual([message.id]);
+    expect(transport.delivered).toHaveLength(1);
+    expect(await OutboxUtils.requeue(db, message.id)).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,164 @@
+import type { EmailOutboxMessage } from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { EmailDeliveryError, EmailUtils } from './email';
+import type { EmailAttachmentReference, EmailTransport } from './email';
+
+// A message that keeps failing is given up on after this many delivery attempts
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Wait before the first retry; it doubles with every further attempt
+const RETRY_BASE_MINUTES = 5;
+
+export interface OutboxMessageInput {
+  to_address: string;
+  subject: string;
+  body: string;
+  template_key?: string;
+  attachments?: EmailAttachmentReference[];
+  source_type?: string;
+  source_id?: string;
+}
+
+export interface OutboxDrainSummary {
+  sent: EmailOutboxMessage[];
+  failed: Array<{ id: string; to_address: string; error: string; will_retry: boolean }>;
+}
+
+export class OutboxUtils {
+  // Queued in the same batch as the change that produced the message, so a message exists
+  // exactly when its source does
+  static enqueue(uow: UnitOfWork, message: OutboxMessageInput): EmailOutboxMessage {
+    return uow.insert<EmailOutboxMessage>('email_outbox', {
+      id: DatabaseUtils.generateId('mail'),
+      to_address: message.to_address,
+      subject: message.subject,
+      body: message.body,
+      status: 'pending',
+      template_key: message.template_key || null,
+      attachments: message.attachments?.length ? JSON.stringify(message.attachments) : null,
+      source_type: message.source_type || null,
+      source_id: message.source_id || null,
+      attempts: 0,
+      last_error: null,
+      transport: null,
+      provider_message_id: null,
+      next_attempt_at: null,
+      bounced_at: null,
+      bounce_reason: null,
+      created_at: new Date().toISOString(),
+      sent_at: null
+    });
+  }
+
+  static retryDelayMinutes(attempts: number): number {
+    return RETRY_BASE_MINUTES * 2 ** (attempts - 1);
+  }
+
+  // Delivers pending messages that are due, oldest first. Each message is claimed by bumping its
+  // attempt count with a compare-and-set first, so overlapping drains never deliver it twice.
+  // Failures are retried with exponential backoff until MAX_DELIVERY_ATTEMPTS.
+  static async drain(
+    db: D1Database,
+    transport: EmailTransport,
+    from: string,
+    limit: number = 50
+  ): Promise<OutboxDrainSummary> {
+    const summary: OutboxDrainSummary = { sent: [], failed: [] };
+    const now = new Date();
+
+    const pending = await DatabaseUtils.executeQuery<EmailOutboxMessage>(
+      db,
+      `SELECT * FROM email_outbox
+      WHERE status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+      ORDER BY created_at ASC
+      LIMIT ?`,
+      [now.toISOString(), limit]
+    );
+
+    for (const message of pending.results) {
+      const claim = await DatabaseUtils.executeQuery(
+        db,
+        "UPDATE email_outbox SET attempts = attempts + 1, transport = ? WHERE id = ? AND status = 'pending' AND attempts = ?",
+        [transport.name, message.id, message.attempts]
+      );
+
+      if (!claim.meta.changes) {
+        continue;
+      }
+
+      const attempts = message.attempts + 1;
+
+      try {
+        const attachments = await EmailUtils.resolveAttachments(db, EmailUtils.parseAttachments(message.attachments));
+        const { provider_message_id } = await transport.send({
+          from,
+          to: message.to_address,
+          subject: message.subject,
+          text: message.body,
+          attachments
+        });
+
+        const sentAt = new Date().toISOString();
+        await DatabaseUtils.executeQuery(
+          db,
+          `UPDATE email_outbox SET status = 'sent', sent_at = ?, provider_message_id = ?, next_attempt_at = NULL, last_error = NULL
+          WHERE id = ?`,
+          [sentAt, provider_message_id, message.id]
+        );
+
+        summary.sent.push({
+          ...message,
+          status: 'sent',
+          attempts,
+          transport: transport.name,
+          provider_message_id,
+          next_attempt_at: null,
+          last_error: null,
+          sent_at: sentAt
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const permanent = error instanceof EmailDeliveryError && error.permanent;
+        const willRetry = !permanent && attempts < MAX_DELIVERY_ATTEMPTS;
+        console.error(`Outbox message ${message.id} error:`, error);
+
+        const nextAttemptAt = willRetry
+          ? new Date(now.getTime() + this.retryDelayMinutes(attempts) * 60000).toISOString()
+          : null;
+
+        await DatabaseUtils.executeQuery(
+          db,
+          'UPDATE email_outbox SET status = ?, last_error = ?, next_attempt_at = ? WHERE id = ?',
+          [willRetry ? 'pending' : 'failed', errorMessage, nextAttemptAt, message.id]
+        );
+
+        summary.failed.push({ id: message.id, to_address: message.to_address, error: errorMessage, will_retry: willRetry });
+      }
+    }
+
+    return summary;
+  }
+
+  // Records a bounce reported after the provider accepted the message; null unless it was sent
+  static async recordBounce(db: D1Database, id: string, reason: string): Promise<EmailOutboxMessage | null> {
+    return await DatabaseUtils.executeQueryFirst<EmailOutboxMessage>(
+      db,
+      `UPDATE email_outbox SET status = 'failed', bounced_at = ?, bounce_reason = ?
+      WHERE id = ? AND status = 'sent'
+      RETURNING *`,
+      [new Date().toISOString(), reason, id]
+    );
+  }
+
+  // Puts a failed message back in the queue with a fresh set of attempts; null unless it failed
+  static async requeue(db: D1Database, id: string): Promise<EmailOutboxMessage | null> {
+    return await DatabaseUtils.executeQueryFirst<EmailOutboxMessage>(
+      db,
+      `UPDATE email_outbox SET status = 'pending', attempts = 0, next_attempt_at = NULL
+      WHERE id = ? AND status = 'failed'
+      RETURNING *`,
+      [id]
+    );
+  }
+}
\ No newline at end of file
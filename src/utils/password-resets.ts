@@ -0,0 +1,89 @@
+import type { PasswordResetToken, User } from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { EmailUtils } from './email';
+import { OutboxUtils } from './outbox';
+
+// How long a reset link stays usable
+const TOKEN_TTL_MINUTES = 60;
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class PasswordResetUtils {
+  static generateToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  static async hashToken(token: string): Promise<string> {
+    return await sha256(token);
+  }
+
+  // Issues a new reset token for the user and queues the email carrying it. Links sent
+  // earlier stop working, so only the latest email can be used.
+  static async issue(uow: UnitOfWork, user: User, appUrl: string): Promise<PasswordResetToken> {
+    const token = this.generateToken();
+    const now = new Date();
+
+    const { subject, body } = await EmailUtils.renderTemplate(uow.db, 'password_reset', {
+      user: { first_name: user.first_name, last_name: user.last_name, email: user.email },
+      reset_url: `${appUrl.replace(/\/+$/, '')}/reset-password?token=${token}`,
+      expires_in_minutes: TOKEN_TTL_MINUTES
+    });
+
+    uow.add('DELETE FROM password_reset_tokens WHERE user_id = ? AND used_at IS NULL', [user.id]);
+
+    const resetToken = uow.insert<PasswordResetToken>('password_reset_tokens', {
+      id: DatabaseUtils.generateId('pwr'),
+      user_id: user.id,
+      token_hash: await this.hashToken(token),
+      expires_at: new Date(now.getTime() + TOKEN_TTL_MINUTES * 60000).toISOString(),
+      used_at: null,
+      created_at: now.toISOString()
+    });
+
+    OutboxUtils.enqueue(uow, {
+      to_address: user.email,
+      subject,
+      body,
+      template_key: 'password_reset',
+      source_type: 'password_reset',
+      source_id: resetToken.id
+    });
+
+    return resetToken;
+  }
+
+  // The unused, unexpired token matching the one from a reset link, or null
+  static async findUsable(db: D1Database, token: string): Promise<PasswordResetToken | null> {
+    return await DatabaseUtils.executeQueryFirst<PasswordResetToken>(
+      db,
+      'SELECT * FROM password_reset_tokens WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?',
+      [await this.hashToken(token), new Date().toISOString()]
+    );
+  }
+
+  // Sets the new password and uses up the token. The token is marked used with a
+  // compare-and-set, so of two requests racing with the same link only one commits.
+  static consume(uow: UnitOfWork, resetToken: PasswordResetToken, passwordHash: string): void {
+    uow.contend('password_reset_tokens');
+
+    // A token used in the meantime sets expires_at to NULL, which the NOT NULL constraint rejects
+    uow.add(
+      `UPDATE password_reset_tokens
+      SET used_at = ?, expires_at = CASE WHEN used_at IS NULL THEN expires_at ELSE NULL END
+      WHERE id = ?`,
+      [new Date().toISOString(), resetToken.id]
+    );
+
+    uow.update('users', resetToken.user_id, { password_hash: passwordHash });
+
+    uow.add(
+      'DELETE FROM password_reset_tokens WHERE user_id = ? AND used_at IS NULL',
+      [resetToken.user_id]
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { DatabaseUtils } from './database';
+
+export interface OpenBillAsOf {
+  id: string;
+  bill_number: string;
+  vendor_id: string;
+  vendor_name: string;
+  bill_date: string;
+  due_date: string;
+  total_amount: number;
+  balance_due: number;
+  // Amounts are in the bill's currency; base_balance_due is the balance at the rate it was booked at
+  currency: string;
+  exchange_rate: number;
+  base_balance_due: number;
+}
+
+// A bill voided after the as-of date was still owed on it. Voiding reverses the posting with
+// an entry dated on the day of the void, so that entry tells when it happened.
+const VOIDED_AFTER_AS_OF = `EXISTS (
+  SELECT 1 FROM journal_entries je
+  WHERE je.source_type = 'bill' AND je.source_id = b.id
+    AND je.reversal_of_id IS NOT NULL AND je.entry_date > ?1
+)`;
+
+export class PayablesUtils {
+  // Bills with something owed at the end of `asOf`, with balance_due as it stood then: only
+  // bills dated by then, less the vendor payments dated by then. A payment deleted since takes
+  // its applications with it, so its bills show as owed in full.
+  static async openBillsAsOf(db: D1Database, asOf: string, vendorId?: string): Promise<OpenBillAsOf[]> {
+    const params: any[] = [asOf];
+    let vendorFilter = '';
+
+    if (vendorId) {
+      vendorFilter = 'AND b.vendor_id = ?2';
+      params.push(vendorId);
+    }
+
+    const result = await DatabaseUtils.executeQuery<OpenBillAsOf>(
+      db,
+      `SELECT *, ROUND(balance_due * exchange_rate, 2) as base_balance_due FROM (
+        SELECT b.id, b.bill_number, b.vendor_id, v.company_name as vendor_name, b.bill_date, b.due_date,
+          b.total_amount, b.currency, b.exchange_rate,
+          ROUND(b.total_amount
+            - COALESCE((SELECT SUM(pa.applied_amount) FROM payment_applications pa
+                JOIN payments p ON pa.payment_id = p.id
+                WHERE pa.bill_id = b.id AND p.payment_date <= ?1), 0), 2) as balance_due
+        FROM bills b
+        JOIN vendors v ON b.vendor_id = v.id
+        WHERE b.bill_date <= ?1 ${vendorFilter}
+          AND (b.status != 'void' OR ${VOIDED_AFTER_AS_OF})
+      )
+      WHERE balance_due > 0
+      ORDER BY due_date ASC, bill_number ASC`,
+      params
+    );
+
+    return result.results;
+  }
+}
\ No newline at end of file
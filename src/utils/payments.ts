@@ -0,0 +1,250 @@
+import type { Bill, Invoice, Payment, PaymentApplication } from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { JournalUtils } from './journal';
+import { InvoiceStatusUtils } from './invoice-status';
+
+export interface InvoiceApplicationInput {
+  invoice_id: string;
+  amount: number;
+}
+
+export interface BillApplicationInput {
+  bill_id: string;
+  amount: number;
+}
+
+export class PaymentUtils {
+  static async getAppliedAmount(db: D1Database, paymentId: string): Promise<number> {
+    const result = await DatabaseUtils.executeQueryFirst<{ total: number }>(
+      db,
+      'SELECT COALESCE(SUM(applied_amount), 0) as total FROM payment_applications WHERE payment_id = ?',
+      [paymentId]
+    );
+
+    return result?.total || 0;
+  }
+
+  // Returns an error message when the applications cannot be made, null otherwise. Amounts are
+  // in the payment's currency, which has to be the invoices' too. Credit notes are applied to
+  // invoices under the same rules, with source 'credit note'.
+  static async validateInvoiceApplications(
+    db: D1Database,
+    payment: Pick<Payment, 'customer_id' | 'amount' | 'currency'>,
+    alreadyApplied: number,
+    applications: InvoiceApplicationInput[],
+    source: string = 'payment'
+  ): Promise<string | null> {
+    const invoiceIds = applications.map(application => application.invoice_id);
+    if (new Set(invoiceIds).size !== invoiceIds.length) {
+      return 'Each invoice can only appear once per application request';
+    }
+
+    const requestedCents = applications.reduce((sum, application) => sum + JournalUtils.toCents(application.amount), 0);
+    const availableCents = JournalUtils.toCents(payment.amount) - JournalUtils.toCents(alreadyApplied);
+
+    if (requestedCents > availableCents) {
+      return `Applied amount ${JournalUtils.fromCents(requestedCents).toFixed(2)} exceeds the unapplied ${source} amount ${JournalUtils.fromCents(availableCents).toFixed(2)}`;
+    }
+
+    for (const application of applications) {
+      const invoice = await DatabaseUtils.executeQueryFirst<Invoice>(
+        db,
+        'SELECT * FROM invoices WHERE id = ?',
+        [application.invoice_id]
+      );
+
+      if (!invoice) {
+        return `Invoice ${application.invoice_id} not found`;
+      }
+
+      if (invoice.customer_id !== payment.customer_id) {
+        return `Invoice ${invoice.invoice_number} belongs to a different customer`;
+      }
+
+      if (invoice.currency !== payment.currency) {
+        return `Invoice ${invoice.invoice_number} is in ${invoice.currency}, not ${payment.currency}`;
+      }
+
+      if (['draft', 'void', 'paid'].includes(invoice.status)) {
+        return `Invoice ${invoice.invoice_number} is ${invoice.status} and cannot receive ${source}s`;
+      }
+
+      if (JournalUtils.toCents(application.amount) > JournalUtils.toCents(invoice.balance_due)) {
+        return `Applied amount exceeds the balance due on invoice ${invoice.invoice_number}`;
+      }
+    }
+
+    return null;
+  }
+
+  static insertInvoiceApplications(
+    uow: UnitOfWork,
+    paymentId: string,
+    applications: InvoiceApplicationInput[]
+  ): PaymentApplication[] {
+    const inserted = applications.map(application => {
+      const row = uow.insert<PaymentApplication>('payment_applications', {
+        id: DatabaseUtils.generateId('papp'),
+        payment_id: paymentId,
+        invoice_id: application.invoice_id,
+        applied_amount: JournalUtils.fromCents(JournalUtils.toCents(application.amount)),
+        created_at: new Date().toISOString()
+      });
+
+      this.refreshInvoiceBalance(uow, application.invoice_id);
+      return row;
+    });
+
+    this.guardAppliedAmount(uow, paymentId);
+    return inserted;
+  }
+
+  // Validation reads the unapplied amount before the batch, so a concurrent application of the
+  // same payment could take it past its amount. Setting amount to NULL then fails the batch on
+  // the NOT NULL constraint and the unit is retried, re-validating against the committed state.
+  static guardAppliedAmount(uow: UnitOfWork, paymentId: string): void {
+    const applied = 'ROUND((SELECT COALESCE(SUM(applied_amount), 0) FROM payment_applications WHERE payment_id = payments.id), 2)';
+
+    uow.contend('payments');
+    uow.add(
+      `UPDATE payments SET amount = CASE WHEN ${applied} > ROUND(amount, 2) THEN NULL ELSE amount END WHERE id = ?`,
+      [paymentId]
+    );
+  }
+
+  // Recomputes paid_amount, credited_amount, balance_due and status from the invoice's payment
+  // and credit note applications, so applying and unapplying are both just a matter of changing
+  // the applications. A fully unapplied invoice reopens as sent, viewed or overdue. This runs as
+  // SQL inside the batch so it sees the applications queued before it. Applications are
+  // validated against balance_due read before the batch; if a concurrent application got in
+  // first and the invoice would be over-settled, balance_due is set to NULL, which the NOT NULL
+  // constraint rejects, and the unit is retried.
+  static refreshInvoiceBalance(uow: UnitOfWork, invoiceId: string): void {
+    const paid = 'ROUND((SELECT COALESCE(SUM(applied_amount), 0) FROM payment_applications WHERE invoice_id = invoices.id), 2)';
+    const credited = 'ROUND((SELECT COALESCE(SUM(applied_amount), 0) FROM credit_note_applications WHERE invoice_id = invoices.id), 2)';
+    const settled = `(${paid} + ${credited})`;
+
+    uow.contend('invoices');
+    uow.add(
+      `UPDATE invoices SET
+        paid_amount = ${paid},
+        credited_amount = ${credited},
+        balance_due = CASE WHEN ${settled} > ROUND(total_amount, 2) THEN NULL ELSE ROUND(total_amount - ${settled}, 2) END,
+        status = CASE
+          WHEN status IN ('draft', 'void') THEN status
+          WHEN ${settled} >= ROUND(total_amount, 2) AND total_amount > 0 THEN 'paid'
+          WHEN ${settled} > 0 THEN 'partial'
+          WHEN status IN ('partial', 'paid') THEN ${InvoiceStatusUtils.OPEN_STATUS_SQL}
+          ELSE status
+        END,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+      [invoiceId]
+    );
+  }
+
+  static async validateBillApplications(
+    db: D1Database,
+    payment: Pick<Payment, 'vendor_id' | 'amount' | 'currency'>,
+    alreadyApplied: number,
+    applications: BillApplicationInput[]
+  ): Promise<string | null> {
+    const billIds = applications.map(application => application.bill_id);
+    if (new Set(billIds).size !== billIds.length) {
+      return 'Each bill can only appear once per application request';
+    }
+
+    const requestedCents = applications.reduce((sum, application) => sum + JournalUtils.toCents(application.amount), 0);
+    const availableCents = JournalUtils.toCents(payment.amount) - JournalUtils.toCents(alreadyApplied);
+
+    if (requestedCents > availableCents) {
+      return `Applied amount ${JournalUtils.fromCents(requestedCents).toFixed(2)} exceeds the unapplied payment amount ${JournalUtils.fromCents(availableCents).toFixed(2)}`;
+    }
+
+    for (const application of applications) {
+      const bill = await DatabaseUtils.executeQueryFirst<Bill>(
+        db,
+        'SELECT * FROM bills WHERE id = ?',
+        [application.bill_id]
+      );
+
+      if (!bill) {
+        return `Bill ${application.bill_id} not found`;
+      }
+
+      if (bill.vendor_id !== payment.vendor_id) {
+        return `Bill ${bill.bill_number} belongs to a different vendor`;
+      }
+
+      if (bill.currency !== payment.currency) {
+        return `Bill ${bill.bill_number} is in ${bill.currency}, not ${payment.currency}`;
+      }
+
+      if (['void', 'paid'].includes(bill.status)) {
+        return `Bill ${bill.bill_number} is ${bill.status} and cannot receive payments`;
+      }
+
+      if (JournalUtils.toCents(application.amount) > JournalUtils.toCents(bill.balance_due)) {
+        return `Applied amount exceeds the balance due on bill ${bill.bill_number}`;
+      }
+    }
+
+    return null;
+  }
+
+  static insertBillApplications(
+    uow: UnitOfWork,
+    paymentId: string,
+    applications: BillApplicationInput[]
+  ): PaymentApplication[] {
+    const inserted = applications.map(application => {
+      const row = uow.insert<PaymentApplication>('payment_applications', {
+        id: DatabaseUtils.generateId('papp'),
+        payment_id: paymentId,
+        bill_id: application.bill_id,
+        applied_amount: JournalUtils.fromCents(JournalUtils.toCents(application.amount)),
+        created_at: new Date().toISOString()
+      });
+
+      this.refreshBillBalance(uow, application.bill_id);
+      return row;
+    });
+
+    this.guardAppliedAmount(uow, paymentId);
+    return inserted;
+  }
+
+  // Bills move open -> partial -> paid purely from their vendor payment applications. As with
+  // invoices, a bill that a concurrent application would over-pay fails the batch for a retry.
+  static refreshBillBalance(uow: UnitOfWork, billId: string): void {
+    const paid = 'ROUND((SELECT COALESCE(SUM(applied_amount), 0) FROM payment_applications WHERE bill_id = bills.id), 2)';
+
+    uow.contend('bills');
+    uow.add(
+      `UPDATE bills SET
+        paid_amount = ${paid},
+        balance_due = CASE WHEN ${paid} > ROUND(total_amount, 2) THEN NULL ELSE ROUND(total_amount - ${paid}, 2) END,
+        status = CASE
+          WHEN status = 'void' THEN status
+          WHEN ${paid} >= ROUND(total_amount, 2) AND total_amount > 0 THEN 'paid'
+          WHEN ${paid} > 0 THEN 'partial'
+          ELSE 'open'
+        END,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+      [billId]
+    );
+  }
+
+  // Refreshes whichever document an application pointed at
+  static refreshApplicationTarget(uow: UnitOfWork, application: PaymentApplication): void {
+    if (application.invoice_id) {
+      this.refreshInvoiceBalance(uow, application.invoice_id);
+    }
+
+    if (application.bill_id) {
+      this.refreshBillBalance(uow, application.bill_id);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,307 @@
+// A small PDF writer for generated documents. It needs nothing beyond the Workers runtime:
+// text uses the standard Helvetica fonts every viewer provides, and JPEG images are embedded
+// as-is (DCTDecode), so nothing has to be decoded or rasterized.
+//
+// Coordinates are in points from the top-left corner of the page.
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  colorSpace: 'DeviceGray' | 'DeviceRGB' | 'DeviceCMYK';
+}
+
+export const PaperSizePoints = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 }
+} as const;
+
+// Glyph widths (1/1000 em) for printable ASCII, from the Adobe Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside printable ASCII are measured as an average glyph
+const DEFAULT_GLYPH_WIDTH = 556;
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private current = -1;
+  private images: PdfImage[] = [];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  get pageIndex(): number {
+    return this.current;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  // Switches drawing to an existing page, e.g. to add "Page x of y" footers at the end
+  goToPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`Page ${index} does not exist`);
+    }
+    this.current = index;
+  }
+
+  static textWidth(text: string, size: number, bold: boolean = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH;
+    }
+    return (total * size) / 1000;
+  }
+
+  // Splits text into lines no wider than maxWidth, breaking on spaces (and inside overlong words)
+  static wrapText(text: string, maxWidth: number, size: number, bold: boolean = false): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = '';
+
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.textWidth(candidate, size, bold) <= maxWidth) {
+          line = candidate;
+          continue;
+        }
+
+        if (line) {
+          lines.push(line);
+        }
+
+        line = word;
+        while (this.textWidth(line, size, bold) > maxWidth && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && this.textWidth(line.slice(0, cut), size, bold) > maxWidth) {
+            cut--;
+          }
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  static hexColor(hex: string): PdfColor {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const size = options.size || 10;
+    const width = PdfDocument.textWidth(text, size, options.bold);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    const [r, g, b] = options.color || [0, 0, 0];
+
+    // y is the top of the line; the baseline sits about 80% of the font size below it
+    this.draw(
+      `BT /${options.bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(r)} ${num(g)} ${num(b)} rg ` +
+      `${num(left)} ${num(this.height - y - size * 0.8)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; color?: PdfColor } = {}): void {
+    const [r, g, b] = options.color || [0, 0, 0];
+    this.draw(
+      `${num(options.width || 0.5)} w ${num(r)} ${num(g)} ${num(b)} RG ` +
+      `${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): void {
+    const [r, g, b] = fill;
+    this.draw(`${num(r)} ${num(g)} ${num(b)} rg ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void {
+    let index = this.images.indexOf(image);
+    if (index === -1) {
+      this.images.push(image);
+      index = this.images.length - 1;
+    }
+
+    this.draw(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /Im${index} Do Q`);
+  }
+
+  // Reads the dimensions and color model of a baseline or progressive JPEG; null if it is not one
+  static readJpeg(data: Uint8Array): PdfImage | null {
+    if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+      return null;
+    }
+
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) {
+        return null;
+      }
+
+      const marker = data[offset + 1];
+      const length = (data[offset + 2] << 8) | data[offset + 3];
+
+      // SOF0-SOF15 except DHT (C4), JPG (C8) and DAC (CC) carry the frame size
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        const height = (data[offset + 5] << 8) | data[offset + 6];
+        const width = (data[offset + 7] << 8) | data[offset + 8];
+        const components = data[offset + 9];
+        const colorSpace = components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB';
+        return width && height ? { data, width, height, colorSpace } : null;
+      }
+
+      offset += 2 + length;
+    }
+
+    return null;
+  }
+
+  toBytes(): Uint8Array {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let size = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? latin1(chunk) : chunk;
+      chunks.push(bytes);
+      size += bytes.length;
+    };
+
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = size;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    // 1 catalog, 2 page tree, 3-4 fonts, then images, then a page and content stream per page
+    const firstImageId = 5;
+    const firstPageId = firstImageId + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.images.forEach((image, index) => {
+      object(
+        firstImageId + index,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+        image.data
+      );
+    });
+
+    const xObjects = this.images.map((_, index) => `/Im${index} ${firstImageId + index} 0 R`).join(' ');
+
+    this.pages.forEach((operations, index) => {
+      const content = latin1(operations.join('\n'));
+      object(
+        pageIds[index],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> ` +
+        `/Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      object(pageIds[index] + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    const objectCount = firstPageId + this.pages.length * 2;
+    const xrefOffset = size;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const output = new Uint8Array(size);
+    let position = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, position);
+      position += chunk.length;
+    }
+    return output;
+  }
+
+  private draw(operation: string): void {
+    if (this.current === -1) {
+      this.addPage();
+    }
+    this.pages[this.current].push(operation);
+  }
+}
+
+function num(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+}
+
+// Strings are written in WinAnsiEncoding; characters it cannot represent become '?'
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+export function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value.replace(/^data:[^;]+;base64,/, '').replace(/\s/g, ''));
+  return latin1(binary);
+}
\ No newline at end of file
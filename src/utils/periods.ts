@@ -0,0 +1,110 @@
+import type { FiscalPeriod, FiscalPeriodStatusType, UserRole } from '../types';
+import { DateSchema } from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { AuthUtils } from './auth';
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Minimum role allowed to post into a period in each state
+const POSTING_ROLE: Record<FiscalPeriodStatusType, UserRole> = {
+  open: 'accountant',
+  soft_closed: 'manager',
+  closed: 'admin'
+};
+
+export class PeriodUtils {
+  static async findPeriodForDate(db: D1Database, date: string): Promise<FiscalPeriod | null> {
+    return await DatabaseUtils.executeQueryFirst<FiscalPeriod>(
+      db,
+      'SELECT * FROM fiscal_periods WHERE start_date <= ? AND end_date >= ? LIMIT 1',
+      [date, date]
+    );
+  }
+
+  static async findOverlapping(
+    db: D1Database,
+    startDate: string,
+    endDate: string,
+    excludeId?: string
+  ): Promise<FiscalPeriod | null> {
+    return await DatabaseUtils.executeQueryFirst<FiscalPeriod>(
+      db,
+      'SELECT * FROM fiscal_periods WHERE start_date <= ? AND end_date >= ? AND id != ? LIMIT 1',
+      [endDate, startDate, excludeId || '']
+    );
+  }
+
+  // Returns an error message when the user may not post on this date, null otherwise.
+  // Well-formed dates outside any defined period are treated as open; anything else is
+  // rejected, as it would match no period and slip past the lock. Posting into a restricted
+  // period by a user senior enough to do so is recorded in the audit log, as part of
+  // the unit of work when one is given.
+  static async checkPostingDate(
+    db: D1Database,
+    date: string,
+    userId: string,
+    context: string,
+    uow?: UnitOfWork
+  ): Promise<string | null> {
+    if (!DateSchema.safeParse(date).success) {
+      return `Posting date ${date} is not a valid YYYY-MM-DD date`;
+    }
+
+    const period = await this.findPeriodForDate(db, date);
+    if (!period || period.status === 'open') {
+      return null;
+    }
+
+    const user = await DatabaseUtils.executeQueryFirst<{ role: UserRole }>(
+      db,
+      'SELECT role FROM users WHERE id = ?',
+      [userId]
+    );
+
+    const requiredRole = POSTING_ROLE[period.status];
+    if (!user || !AuthUtils.hasPermission(user.role, requiredRole)) {
+      const state = period.status === 'closed' ? 'closed' : 'soft-closed';
+      return `Fiscal period ${period.name} is ${state}; only a ${requiredRole} can post entries dated ${date}`;
+    }
+
+    const overrideValues = { posting_override: { entry_date: date, role: user.role, context } };
+    if (uow) {
+      uow.audit('fiscal_periods', period.id, 'update', userId, { status: period.status }, overrideValues);
+    } else {
+      await DatabaseUtils.logAudit(db, 'fiscal_periods', period.id, 'update', userId, { status: period.status }, overrideValues);
+    }
+
+    return null;
+  }
+
+  // The fiscal year a date falls in, named after the calendar year that fiscal year starts in
+  static fiscalYearOf(date: string, startMonth: number): number {
+    const year = parseInt(date.slice(0, 4));
+    return parseInt(date.slice(5, 7)) >= startMonth ? year : year - 1;
+  }
+
+  // The first and last day of a fiscal year
+  static fiscalYearRange(fiscalYear: number, startMonth: number): { start_date: string; end_date: string } {
+    return {
+      start_date: DatabaseUtils.formatDate(new Date(Date.UTC(fiscalYear, startMonth - 1, 1))),
+      end_date: DatabaseUtils.formatDate(new Date(Date.UTC(fiscalYear + 1, startMonth - 1, 0)))
+    };
+  }
+
+  // The twelve months of a fiscal year, each named after the calendar month it covers
+  static monthlyPeriods(fiscalYear: number, startMonth: number): Array<{ name: string; start_date: string; end_date: string }> {
+    return MONTH_NAMES.map((_, offset) => {
+      const monthStart = new Date(Date.UTC(fiscalYear, startMonth - 1 + offset, 1));
+
+      return {
+        name: `${MONTH_NAMES[monthStart.getUTCMonth()]} ${monthStart.getUTCFullYear()}`,
+        start_date: DatabaseUtils.formatDate(monthStart),
+        end_date: DatabaseUtils.formatDate(new Date(Date.UTC(fiscalYear, startMonth + offset, 0)))
+      };
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { DatabaseUtils } from './database';
+
+export interface OpenInvoiceAsOf {
+  id: string;
+  invoice_number: string;
+  customer_id: string;
+  customer_name: string;
+  invoice_date: string;
+  due_date: string;
+  total_amount: number;
+  balance_due: number;
+  // Amounts are in the invoice's currency; base_balance_due is the balance at the rate it was booked at
+  currency: string;
+  exchange_rate: number;
+  base_balance_due: number;
+}
+
+// An invoice voided after the as-of date was still owed on it. Voiding reverses the posting
+// with an entry dated on the day of the void, so that entry tells when it happened.
+const VOIDED_AFTER_AS_OF = `EXISTS (
+  SELECT 1 FROM journal_entries je
+  WHERE je.source_type = 'invoice' AND je.source_id = i.id
+    AND je.reversal_of_id IS NOT NULL AND je.entry_date > ?1
+)`;
+
+export class ReceivablesUtils {
+  // Invoices with something owed at the end of `asOf`, with balance_due as it stood then:
+  // only invoices dated by then, less the payments and credit notes dated by then. This
+  // reproduces an earlier day's receivables after the fact, except where a payment has since
+  // been deleted or a credit note voided, as those take their applications with them.
+  static async openInvoicesAsOf(db: D1Database, asOf: string, customerId?: string): Promise<OpenInvoiceAsOf[]> {
+    const params: any[] = [asOf];
+    let customerFilter = '';
+
+    if (customerId) {
+      customerFilter = 'AND i.customer_id = ?2';
+      params.push(customerId);
+    }
+
+    const result = await DatabaseUtils.executeQuery<OpenInvoiceAsOf>(
+      db,
+      `SELECT *, ROUND(balance_due * exchange_rate, 2) as base_balance_due FROM (
+        SELECT i.id, i.invoice_number, i.customer_id, i.invoice_date, i.due_date, i.total_amount,
+          i.currency, i.exchange_rate,
+          COALESCE(c.company_name, TRIM(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, ''))) as customer_name,
+          ROUND(i.total_amount
+            - COALESCE((SELECT SUM(pa.applied_amount) FROM payment_applications pa
+                JOIN payments p ON pa.payment_id = p.id
+                WHERE pa.invoice_id = i.id AND p.payment_date <= ?1), 0)
+            - COALESCE((SELECT SUM(ca.applied_amount) FROM credit_note_applications ca
+                JOIN credit_notes cn ON ca.credit_note_id = cn.id
+                WHERE ca.invoice_id = i.id AND cn.credit_date <= ?1), 0), 2) as balance_due
+        FROM invoices i
+        JOIN customers c ON i.customer_id = c.id
+        WHERE i.status != 'draft' AND i.invoice_date <= ?1 ${customerFilter}
+          AND (i.status != 'void' OR ${VOIDED_AFTER_AS_OF})
+      )
+      WHERE balance_due > 0
+      ORDER BY due_date ASC, invoice_number ASC`,
+      params
+    );
+
+    return result.results;
+  }
+}
\ No newline at end of file
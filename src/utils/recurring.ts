@@ -0,0 +1,213 @@
+import type { CreateInvoiceInput, Invoice, RecurringFrequency, RecurringInvoice } from '../types';
+import { DatabaseUtils } from './database';
+import { PostingError } from './journal';
+import { LedgerUtils } from './ledger';
+import { PeriodUtils } from './periods';
+import { InvoiceUtils } from './invoices';
+
+const FREQUENCY_MONTHS: Record<Exclude<RecurringFrequency, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+// A template that fell behind (the cron did not run, or it was created with a past start date)
+// catches up at most this many runs per invocation
+const MAX_CATCH_UP_RUNS = 12;
+
+export interface RecurringRunPreview {
+  run_date: string;
+  invoice_date: string;
+  due_date: string;
+  total_amount: number;
+}
+
+export interface RecurringRunSummary {
+  generated: Array<{ recurring_invoice_id: string; invoice_id: string; invoice_number: string; run_date: string }>;
+  failed: Array<{ recurring_invoice_id: string; error: string }>;
+}
+
+export class RecurringUtils {
+  // Run dates are counted from the start date rather than from the previous run, so a
+  // schedule starting on the 31st runs on the last day of shorter months without drifting
+  static occurrence(template: Pick<RecurringInvoice, 'frequency' | 'start_date'>, index: number): string {
+    if (template.frequency === 'weekly') {
+      return LedgerUtils.addDays(template.start_date, index * 7);
+    }
+
+    return LedgerUtils.addMonths(template.start_date, index * FREQUENCY_MONTHS[template.frequency]);
+  }
+
+  // Null once the schedule has run past its end date
+  static nextRunDate(
+    template: Pick<RecurringInvoice, 'frequency' | 'start_date' | 'end_date'>,
+    runCount: number
+  ): string | null {
+    const runDate = this.occurrence(template, runCount);
+    return template.end_date && runDate > template.end_date ? null : runDate;
+  }
+
+  // Schedule position after the template's frequency or dates change: the first run after the
+  // last invoice already generated, so edits never regenerate or skip a period
+  static reschedule(
+    template: Pick<RecurringInvoice, 'frequency' | 'start_date' | 'end_date'>,
+    lastRunDate: string | null
+  ): { run_count: number; next_run_date: string | null } {
+    let runCount = 0;
+    while (lastRunDate && this.occurrence(template, runCount) <= lastRunDate) {
+      runCount++;
+    }
+
+    return { run_count: runCount, next_run_date: this.nextRunDate(template, runCount) };
+  }
+
+  static parseLineItems(template: Pick<RecurringInvoice, 'line_items'>): CreateInvoiceInput['line_items'] {
+    return JSON.parse(template.line_items);
+  }
+
+  static buildInvoiceData(template: RecurringInvoice, runDate: string): CreateInvoiceInput {
+    return {
+      customer_id: template.customer_id,
+      invoice_date: runDate,
+      due_date: LedgerUtils.addDays(runDate, template.payment_terms_days),
+      notes: template.notes || undefined,
+      terms: template.terms || undefined,
+      line_items: this.parseLineItems(template)
+    };
+  }
+
+  // The next `count` runs of an active template, optionally only those on or before `until`
+  static preview(template: RecurringInvoice, count: number, until?: string): RecurringRunPreview[] {
+    const runs: RecurringRunPreview[] = [];
+    if (!template.is_active || !template.next_run_date) {
+      return runs;
+    }
+
+    const { total_amount } = InvoiceUtils.calculateTotals(this.parseLineItems(template));
+
+    for (let index = template.run_count; runs.length < count; index++) {
+      const runDate = this.nextRunDate(template, index);
+      if (!runDate || (until && runDate > until)) {
+        break;
+      }
+
+      runs.push({
+        run_date: runDate,
+        invoice_date: runDate,
+        due_date: LedgerUtils.addDays(runDate, template.payment_terms_days),
+        total_amount
+      });
+    }
+
+    return runs;
+  }
+
+  // Generates the template's next invoice if it is due on or before `today`. Returns null when
+  // nothing is due. The template is re-read and its run_count compared-and-set inside the unit
+  // of work, so overlapping cron invocations cannot generate the same run twice.
+  static async generateNext(db: D1Database, templateId: string, today: string): Promise<{ invoice: Invoice; run_date: string } | null> {
+    return await DatabaseUtils.transaction(db, async (tx) => {
+      const template = await DatabaseUtils.executeQueryFirst<RecurringInvoice>(
+        tx.db,
+        'SELECT * FROM recurring_invoices WHERE id = ?',
+        [templateId]
+      );
+
+      if (!template || !template.is_active || !template.next_run_date || template.next_run_date > today) {
+        return null;
+      }
+
+      const customer = await DatabaseUtils.executeQueryFirst<{ is_active: number }>(
+        tx.db,
+        'SELECT is_active FROM customers WHERE id = ?',
+        [template.customer_id]
+      );
+
+      if (!customer || !customer.is_active) {
+        throw new PostingError('Customer is missing or inactive');
+      }
+
+      const runDate = template.next_run_date;
+      const context = `Recurring invoice ${template.name}`;
+
+      // Issued invoices are checked when they are posted; drafts are checked like manual invoices
+      if (!template.auto_send) {
+        const periodError = await PeriodUtils.checkPostingDate(tx.db, runDate, template.created_by, context, tx);
+        if (periodError) {
+          throw new PostingError(periodError);
+        }
+      }
+
+      const invoiceData = this.buildInvoiceData(template, runDate);
+      const rate = await InvoiceUtils.resolveRate(tx.db, template.customer_id, invoiceData.invoice_date);
+      if (typeof rate === 'string') {
+        throw new PostingError(rate);
+      }
+
+      const invoice = await InvoiceUtils.createInvoice(
+        tx,
+        invoiceData,
+        rate,
+        template.created_by,
+        { status: template.auto_send ? 'sent' : 'draft', recurring_invoice_id: template.id }
+      );
+
+      // A concurrent run that got here first leaves run_count changed, and NULL fails the batch
+      tx.contend('recurring_invoices');
+      tx.add(
+        `UPDATE recurring_invoices SET
+          run_count = CASE WHEN run_count = ? THEN ? ELSE NULL END,
+          next_run_date = ?,
+          last_run_at = CURRENT_TIMESTAMP,
+          last_error = NULL,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?`,
+        [template.run_count, template.run_count + 1, this.nextRunDate(template, template.run_count + 1), template.id]
+      );
+
+      return { invoice, run_date: runDate };
+    });
+  }
+
+  // Generates every due run of every active template. A template that fails keeps its
+  // next_run_date and records the error, so it is retried on the next invocation.
+  static async runDue(db: D1Database, today: string): Promise<RecurringRunSummary> {
+    const summary: RecurringRunSummary = { generated: [], failed: [] };
+
+    const dueTemplates = await DatabaseUtils.executeQuery<{ id: string }>(
+      db,
+      'SELECT id FROM recurring_invoices WHERE is_active = 1 AND next_run_date IS NOT NULL AND next_run_date <= ? ORDER BY next_run_date ASC',
+      [today]
+    );
+
+    for (const { id } of dueTemplates.results) {
+      try {
+        for (let run = 0; run < MAX_CATCH_UP_RUNS; run++) {
+          const result = await this.generateNext(db, id, today);
+          if (!result) {
+            break;
+          }
+
+          summary.generated.push({
+            recurring_invoice_id: id,
+            invoice_id: result.invoice.id,
+            invoice_number: result.invoice.invoice_number,
+            run_date: result.run_date
+          });
+        }
+      } catch (error) {
+        const message = error instanceof PostingError ? error.message : 'Failed to generate invoice';
+        console.error(`Recurring invoice ${id} error:`, error);
+        summary.failed.push({ recurring_invoice_id: id, error: message });
+
+        await DatabaseUtils.executeQuery(
+          db,
+          'UPDATE recurring_invoices SET last_error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [message, id]
+        );
+      }
+    }
+
+    return summary;
+  }
+}
\ No newline at end of file
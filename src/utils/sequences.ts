@@ -0,0 +1,110 @@
+import type { DocumentSequence, DocumentType } from '../types';
+import { DatabaseUtils } from './database';
+import type { UnitOfWork } from './database';
+import { PeriodUtils } from './periods';
+import { SettingsUtils } from './settings';
+
+export class SequenceUtils {
+  // The fiscal year a document's number is counted in, from the company's fiscal year start.
+  // Sequences that never reset keep a single counter under fiscal year 0.
+  static counterYear(sequence: DocumentSequence, documentDate: string, fiscalYearStartMonth: number): number {
+    return sequence.reset_yearly ? PeriodUtils.fiscalYearOf(documentDate, fiscalYearStartMonth) : 0;
+  }
+
+  static format(sequence: DocumentSequence, fiscalYear: number, value: number): string {
+    const number = value.toString().padStart(sequence.padding, '0');
+    return fiscalYear ? `${sequence.prefix}-${fiscalYear}-${number}` : `${sequence.prefix}-${number}`;
+  }
+
+  static async getSequence(db: D1Database, documentType: DocumentType): Promise<DocumentSequence> {
+    const sequence = await DatabaseUtils.executeQueryFirst<DocumentSequence>(
+      db,
+      'SELECT * FROM document_sequences WHERE document_type = ?',
+      [documentType]
+    );
+
+    if (!sequence) {
+      throw new Error(`No document sequence configured for ${documentType}`);
+    }
+
+    return sequence;
+  }
+
+  // Next value the counter will hand out, or null when nothing has been numbered in that year yet
+  static async peekValue(db: D1Database, documentType: DocumentType, fiscalYear: number): Promise<number | null> {
+    const counter = await DatabaseUtils.executeQueryFirst<{ next_value: number }>(
+      db,
+      'SELECT next_value FROM document_sequence_counters WHERE document_type = ? AND fiscal_year = ?',
+      [documentType, fiscalYear]
+    );
+
+    return counter ? counter.next_value : null;
+  }
+
+  // Sequences with the number the next document dated asOf would receive
+  static async listWithPreview(db: D1Database, asOf: string): Promise<Array<DocumentSequence & { next_number: string }>> {
+    const { results } = await DatabaseUtils.executeQuery<DocumentSequence>(
+      db,
+      'SELECT * FROM document_sequences ORDER BY document_type'
+    );
+    const settings = await SettingsUtils.getCompanySettings(db);
+
+    return await Promise.all(results.map(async sequence => {
+      const fiscalYear = this.counterYear(sequence, asOf, settings.fiscal_year_start_month);
+      const nextValue = await this.peekValue(db, sequence.document_type, fiscalYear);
+      return { ...sequence, next_number: this.format(sequence, fiscalYear, nextValue || 1) };
+    }));
+  }
+
+  static async updateSequence(
+    db: D1Database,
+    documentType: DocumentType,
+    changes: Partial<Pick<DocumentSequence, 'prefix' | 'padding' | 'reset_yearly'>>
+  ): Promise<DocumentSequence | null> {
+    const columns = Object.keys(changes);
+    const setClause = columns.map(col => `${col} = ?`).join(', ');
+
+    return await DatabaseUtils.executeQueryFirst<DocumentSequence>(
+      db,
+      `UPDATE document_sequences SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE document_type = ? RETURNING *`,
+      [...Object.values(changes), documentType]
+    );
+  }
+
+  // Allocates the next number for a document dated documentDate. The counter is advanced in
+  // the unit's batch with a compare-and-set, so the number is only consumed if the document
+  // is committed with it (no gaps), and a request that raced another for the same number
+  // fails its batch and is retried by DatabaseUtils.transaction (no duplicates).
+  static async next(uow: UnitOfWork, documentType: DocumentType, documentDate: string): Promise<string> {
+    const sequence = await this.getSequence(uow.db, documentType);
+    const settings = await SettingsUtils.getCompanySettings(uow.db);
+    const fiscalYear = this.counterYear(sequence, documentDate, settings.fiscal_year_start_month);
+
+    let counterExists = true;
+    const value = await uow.nextNumber(`${documentType}:${fiscalYear}`, async () => {
+      const nextValue = await this.peekValue(uow.db, documentType, fiscalYear);
+      counterExists = nextValue !== null;
+      return (nextValue || 1) - 1;
+    });
+
+    uow.contend('document_sequence_counters');
+
+    if (counterExists) {
+      // A stale expected value sets next_value to NULL, which the NOT NULL constraint rejects
+      uow.add(
+        `UPDATE document_sequence_counters
+        SET next_value = CASE WHEN next_value = ? THEN ? ELSE NULL END, updated_at = CURRENT_TIMESTAMP
+        WHERE document_type = ? AND fiscal_year = ?`,
+        [value, value + 1, documentType, fiscalYear]
+      );
+    } else {
+      // A concurrent first allocation collides on the primary key
+      uow.add(
+        'INSERT INTO document_sequence_counters (document_type, fiscal_year, next_value) VALUES (?, ?, ?)',
+        [documentType, fiscalYear, value + 1]
+      );
+    }
+
+    return this.format(sequence, fiscalYear, value);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import type { CompanySettings } from '../types';
+import { DatabaseUtils } from './database';
+import { PdfDocument, decodeBase64 } from './pdf';
+
+const SETTINGS_ID = 'default';
+
+export class SettingsUtils {
+  static async getCompanySettings(db: D1Database): Promise<CompanySettings> {
+    const settings = await DatabaseUtils.executeQueryFirst<CompanySettings>(
+      db,
+      'SELECT * FROM company_settings WHERE id = ?',
+      [SETTINGS_ID]
+    );
+
+    if (!settings) {
+      throw new Error('Company settings are missing; run the database migrations');
+    }
+
+    return settings;
+  }
+
+  // The currency the ledger is kept in
+  static async getBaseCurrency(db: D1Database): Promise<string> {
+    return (await this.getCompanySettings(db)).base_currency;
+  }
+
+  static async updateCompanySettings(db: D1Database, changes: Partial<CompanySettings>): Promise<CompanySettings> {
+    return await DatabaseUtils.updateRecord<CompanySettings>(db, 'company_settings', SETTINGS_ID, changes);
+  }
+
+  // Logos are embedded in PDFs as-is, so only JPEG data is accepted. Returns the bare base64
+  // string to store, or null if the value is not a JPEG.
+  static normalizeLogo(value: string): string | null {
+    try {
+      return PdfDocument.readJpeg(decodeBase64(value))
+        ? value.replace(/^data:[^;]+;base64,/, '').replace(/\s/g, '')
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Settings as returned by the API: the logo is reported rather than echoed back
+  static withoutLogo(settings: CompanySettings): Omit<CompanySettings, 'logo_data'> & { has_logo: boolean } {
+    const { logo_data, ...rest } = settings;
+    return { ...rest, has_logo: !!logo_data };
+  }
+}
\ No newline at end of file
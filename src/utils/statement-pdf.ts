@@ -0,0 +1,166 @@
+import type { CompanySettings } from '../types';
+import type { CustomerStatement } from './statements';
+import { PdfDocument } from './pdf';
+import {
+  LetterheadUtils, MARGIN, FOOTER_SPACE, BODY_SIZE, ROW_LINE_HEIGHT, MUTED, RULE, WHITE, formatAmount, joinParts
+} from './letterhead';
+
+export class StatementPdfUtils {
+  static filename(statement: CustomerStatement): string {
+    return `statement_${statement.customer.customer_code.replace(/[^A-Za-z0-9_-]/g, '_')}_${statement.to_date}.pdf`;
+  }
+
+  // Activity table with a running balance, followed by the aging summary
+  static render(statement: CustomerStatement, settings: CompanySettings): Uint8Array {
+    const { pdf, accent } = LetterheadUtils.createDocument(settings);
+    const right = pdf.width - MARGIN;
+    const bottom = pdf.height - FOOTER_SPACE;
+    const { customer } = statement;
+
+    pdf.addPage();
+    let y = LetterheadUtils.drawHeader(pdf, settings, 'STATEMENT', accent);
+
+    // Customer block and statement facts side by side
+    const address = [
+      customer.company_name ? joinParts([customer.first_name, customer.last_name], ' ') : null,
+      customer.address,
+      joinParts([customer.city, joinParts([customer.state, customer.postal_code], ' ')], ', '),
+      customer.country,
+      customer.email
+    ];
+
+    let customerY = y;
+    pdf.text(MARGIN, customerY, 'STATEMENT FOR', { size: 8, bold: true, color: MUTED });
+    customerY += 13;
+    pdf.text(MARGIN, customerY, customer.name, { size: 11, bold: true });
+    customerY += 15;
+    for (const line of address) {
+      if (line) {
+        pdf.text(MARGIN, customerY, line, { size: BODY_SIZE });
+        customerY += 12;
+      }
+    }
+
+    const facts: Array<[string, string]> = [
+      ['Customer', customer.customer_code],
+      ['Period', `${statement.from_date} to ${statement.to_date}`],
+      ['Amount Due', formatAmount(statement.closing_balance)]
+    ];
+
+    let factsY = y;
+    for (const [label, value] of facts) {
+      pdf.text(right - 130, factsY, label, { size: BODY_SIZE, color: MUTED, align: 'right' });
+      pdf.text(right, factsY, value, { size: BODY_SIZE, bold: true, align: 'right' });
+      factsY += 14;
+    }
+
+    y = Math.max(customerY, factsY) + 20;
+
+    // Activity table
+    const columns = {
+      date: MARGIN + 6,
+      description: MARGIN + 76,
+      charges: right - 160,
+      credits: right - 80,
+      balance: right - 6
+    };
+    const descriptionWidth = columns.charges - 70 - columns.description;
+
+    const tableHeader = () => {
+      pdf.rect(MARGIN, y, right - MARGIN, 18, accent);
+      const headerOptions = { size: 8, bold: true, color: WHITE };
+      pdf.text(columns.date, y + 5, 'DATE', headerOptions);
+      pdf.text(columns.description, y + 5, 'DESCRIPTION', headerOptions);
+      pdf.text(columns.charges, y + 5, 'CHARGES', { ...headerOptions, align: 'right' });
+      pdf.text(columns.credits, y + 5, 'CREDITS', { ...headerOptions, align: 'right' });
+      pdf.text(columns.balance, y + 5, 'BALANCE', { ...headerOptions, align: 'right' });
+      y += 24;
+    };
+
+    const ensureSpace = (height: number, repeatHeader: boolean) => {
+      if (y + height > bottom) {
+        pdf.addPage();
+        y = MARGIN;
+        if (repeatHeader) {
+          tableHeader();
+        }
+      }
+    };
+
+    const row = (date: string, description: string, amount: number | null, balance: number, bold: boolean = false) => {
+      const lines = PdfDocument.wrapText(description, descriptionWidth, BODY_SIZE, bold);
+      ensureSpace(lines.length * ROW_LINE_HEIGHT + 8, true);
+
+      pdf.text(columns.date, y, date, { size: BODY_SIZE, bold });
+      lines.forEach((line, index) => {
+        pdf.text(columns.description, y + index * ROW_LINE_HEIGHT, line, { size: BODY_SIZE, bold });
+      });
+      if (amount !== null) {
+        const column = amount < 0 ? columns.credits : columns.charges;
+        pdf.text(column, y, formatAmount(Math.abs(amount)), { size: BODY_SIZE, align: 'right' });
+      }
+      pdf.text(columns.balance, y, formatAmount(balance), { size: BODY_SIZE, bold, align: 'right' });
+
+      y += lines.length * ROW_LINE_HEIGHT + 4;
+      pdf.line(MARGIN, y, right, y, { color: RULE });
+      y += 6;
+    };
+
+    tableHeader();
+
+    row(statement.from_date, 'Opening balance', null, statement.opening_balance, true);
+    for (const line of statement.lines) {
+      row(line.date, line.description, line.amount, line.balance);
+    }
+    row(statement.to_date, 'Closing balance', null, statement.closing_balance, true);
+
+    // Period totals
+    const totals: Array<[string, number]> = [
+      ['Invoiced', statement.total_invoiced],
+      ['Paid', -statement.total_paid],
+      ['Credited', -statement.total_credited]
+    ];
+
+    ensureSpace(totals.length * 16 + 30, false);
+    y += 6;
+
+    for (const [label, value] of totals) {
+      pdf.text(columns.credits, y, label, { size: BODY_SIZE + 1, align: 'right' });
+      pdf.text(columns.balance, y, formatAmount(value), { size: BODY_SIZE + 1, align: 'right' });
+      y += 16;
+    }
+    y += 14;
+
+    // Aging summary: one box per bucket, then unapplied credit and the amount due
+    const cells: Array<[string, number]> = statement.aging.buckets.map(bucket => [
+      bucket.key === 'current' ? bucket.label : `${bucket.label} days`,
+      bucket.amount
+    ]);
+    if (statement.aging.unapplied_credits > 0) {
+      cells.push(['Unapplied', -statement.aging.unapplied_credits]);
+    }
+    cells.push(['Amount Due', statement.aging.total]);
+
+    ensureSpace(60, false);
+    pdf.text(MARGIN, y, `AGING AS OF ${statement.aging.as_of}`, { size: 8, bold: true, color: MUTED });
+    y += 13;
+
+    const cellWidth = (right - MARGIN) / cells.length;
+    cells.forEach(([label, value], index) => {
+      const last = index === cells.length - 1;
+      const x = MARGIN + index * cellWidth;
+
+      if (last) {
+        pdf.rect(x, y, cellWidth, 34, accent);
+      }
+      const color = last ? WHITE : undefined;
+      pdf.text(x + cellWidth / 2, y + 6, label, { size: 8, bold: true, color: last ? WHITE : MUTED, align: 'center' });
+      pdf.text(x + cellWidth / 2, y + 19, formatAmount(value), { size: BODY_SIZE + 1, bold: last, color, align: 'center' });
+    });
+    pdf.line(MARGIN, y + 34, right, y + 34, { color: RULE });
+
+    LetterheadUtils.drawFooters(pdf, settings, `Statement ${customer.customer_code}`);
+
+    return pdf.toBytes();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,180 @@
+import type { Customer } from '../types';
+import { DatabaseUtils } from './database';
+import { JournalUtils } from './journal';
+import { LedgerUtils } from './ledger';
+import { AgingUtils, DEFAULT_AGING_BUCKETS } from './aging';
+import { ReceivablesUtils } from './receivables';
+
+export type StatementLineType = 'invoice' | 'invoice_void' | 'payment' | 'credit_note';
+
+export interface StatementLine {
+  date: string;
+  type: StatementLineType;
+  id: string;
+  reference: string;
+  description: string;
+  // Charges are positive, payments and credits negative
+  amount: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  customer: Customer & { name: string };
+  from_date: string;
+  to_date: string;
+  opening_balance: number;
+  lines: StatementLine[];
+  total_invoiced: number;
+  total_paid: number;
+  total_credited: number;
+  closing_balance: number;
+  aging: {
+    as_of: string;
+    buckets: Array<{ key: string; label: string; amount: number }>;
+    // Payments and credit notes not yet applied to an invoice
+    unapplied_credits: number;
+    total: number;
+  };
+}
+
+interface ActivityRow {
+  date: string;
+  type: StatementLineType;
+  id: string;
+  reference: string;
+  detail: string | null;
+  amount: number;
+}
+
+// Everything that moves a customer's balance: issued invoices, their payments and credit notes.
+// Drafts never reached the customer's account. A voided invoice stays on the date it was issued
+// and is taken off again on the date of its reversing entry; a voided credit note gives up its
+// applications, so it is left out altogether.
+const ACTIVITY_SQL = `
+  SELECT i.invoice_date as date, 'invoice' as type, i.id, i.invoice_number as reference,
+    'due ' || i.due_date as detail, i.total_amount as amount, i.created_at
+  FROM invoices i
+  WHERE i.customer_id = ?1 AND i.status != 'draft' AND i.invoice_date BETWEEN ?2 AND ?3
+    AND (i.status != 'void' OR EXISTS (
+      SELECT 1 FROM journal_entries je
+      WHERE je.source_type = 'invoice' AND je.source_id = i.id AND je.reversal_of_id IS NOT NULL))
+  UNION ALL
+  SELECT je.entry_date, 'invoice_void', i.id, i.invoice_number,
+    NULL, -i.total_amount, je.created_at
+  FROM invoices i
+  JOIN journal_entries je ON je.source_type = 'invoice' AND je.source_id = i.id AND je.reversal_of_id IS NOT NULL
+  WHERE i.customer_id = ?1 AND i.status = 'void' AND je.entry_date BETWEEN ?2 AND ?3
+  UNION ALL
+  SELECT p.payment_date, 'payment', p.id, p.payment_number,
+    p.reference_number, -p.amount, p.created_at
+  FROM payments p
+  WHERE p.customer_id = ?1 AND p.payment_type = 'customer_payment' AND p.payment_date BETWEEN ?2 AND ?3
+  UNION ALL
+  SELECT cn.credit_date, 'credit_note', cn.id, cn.credit_note_number,
+    'against ' || ci.invoice_number, -cn.total_amount, cn.created_at
+  FROM credit_notes cn
+  JOIN invoices ci ON cn.invoice_id = ci.id
+  WHERE cn.customer_id = ?1 AND cn.status != 'void' AND cn.credit_date BETWEEN ?2 AND ?3`;
+
+const LINE_LABELS: Record<StatementLineType, string> = {
+  invoice: 'Invoice',
+  invoice_void: 'Void of invoice',
+  payment: 'Payment',
+  credit_note: 'Credit note'
+};
+
+export class StatementUtils {
+  static async getStatement(db: D1Database, customerId: string, fromDate: string, toDate: string): Promise<CustomerStatement | null> {
+    const customer = await DatabaseUtils.executeQueryFirst<Customer & { name: string }>(
+      db,
+      `SELECT *, COALESCE(company_name, TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, ''))) as name
+      FROM customers WHERE id = ?`,
+      [customerId]
+    );
+
+    if (!customer) {
+      return null;
+    }
+
+    const opening = await DatabaseUtils.executeQueryFirst<{ total: number }>(
+      db,
+      `SELECT COALESCE(SUM(amount), 0) as total FROM (${ACTIVITY_SQL})`,
+      [customerId, '0000-01-01', LedgerUtils.addDays(fromDate, -1)]
+    );
+
+    const activity = await DatabaseUtils.executeQuery<ActivityRow>(
+      db,
+      `${ACTIVITY_SQL} ORDER BY date ASC, created_at ASC`,
+      [customerId, fromDate, toDate]
+    );
+
+    // Running balance in cents so it always ends exactly on the closing balance
+    const openingCents = JournalUtils.toCents(opening?.total || 0);
+    const totals: Record<StatementLineType, number> = { invoice: 0, invoice_void: 0, payment: 0, credit_note: 0 };
+    let balanceCents = openingCents;
+
+    const lines = activity.results.map(row => {
+      const cents = JournalUtils.toCents(row.amount);
+      balanceCents += cents;
+      totals[row.type] += cents;
+
+      return {
+        date: row.date,
+        type: row.type,
+        id: row.id,
+        reference: row.reference,
+        description: [`${LINE_LABELS[row.type]} ${row.reference}`, row.detail].filter(Boolean).join(', '),
+        amount: JournalUtils.fromCents(cents),
+        balance: JournalUtils.fromCents(balanceCents)
+      };
+    });
+
+    return {
+      customer,
+      from_date: fromDate,
+      to_date: toDate,
+      opening_balance: JournalUtils.fromCents(openingCents),
+      lines,
+      total_invoiced: JournalUtils.fromCents(totals.invoice + totals.invoice_void),
+      total_paid: JournalUtils.fromCents(-totals.payment),
+      total_credited: JournalUtils.fromCents(-totals.credit_note),
+      closing_balance: JournalUtils.fromCents(balanceCents),
+      aging: await this.getAging(db, customerId, toDate, balanceCents)
+    };
+  }
+
+  // Ages what was still owed on each invoice at `asOf`, counting only the payments and credit
+  // notes dated by then. Whatever the closing balance does not account for is credit the
+  // customer has not had applied yet.
+  private static async getAging(
+    db: D1Database,
+    customerId: string,
+    asOf: string,
+    closingCents: number
+  ): Promise<CustomerStatement['aging']> {
+    const openInvoices = await ReceivablesUtils.openInvoicesAsOf(db, asOf, customerId);
+
+    const aging = AgingUtils.summarize(
+      openInvoices.map(invoice => ({
+        party_id: customerId,
+        party_name: '',
+        due_date: invoice.due_date,
+        balance_due: invoice.balance_due
+      })),
+      asOf
+    );
+
+    const agedCents = JournalUtils.toCents(aging.grand_total);
+
+    return {
+      as_of: asOf,
+      buckets: DEFAULT_AGING_BUCKETS.map(bucket => ({
+        key: bucket.key,
+        label: bucket.label,
+        amount: aging.totals[bucket.key]
+      })),
+      unapplied_credits: JournalUtils.fromCents(Math.max(agedCents - closingCents, 0)),
+      total: JournalUtils.fromCents(closingCents)
+    };
+  }
+}
\ No newline at end of file
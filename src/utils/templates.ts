@@ -0,0 +1,136 @@
+// A Handlebars-style renderer for the subset the email templates use: {{path}} lookups with
+// dotted paths, {{#if path}}...{{else}}...{{/if}}, {{#unless path}}...{{/unless}} and
+// {{#each path}}...{{/each}}. Inside #each, fields resolve against the current item first and
+// {{this}} and {{@index}} are available. Output is plain text, so nothing is escaped.
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string }
+  | { type: 'block'; helper: 'if' | 'unless' | 'each'; path: string; body: TemplateNode[]; inverse: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^}]*?)\s*\}\}/g;
+const BLOCK_HELPERS = ['if', 'unless', 'each'];
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+export class TemplateUtils {
+  static parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Open blocks, innermost last; `target` is where nodes are appended (body or else branch)
+    const stack: Array<{ node: Extract<TemplateNode, { type: 'block' }>; target: TemplateNode[] }> = [];
+    let target = root;
+    let position = 0;
+
+    for (const match of template.matchAll(TAG_PATTERN)) {
+      if (match.index! > position) {
+        target.push({ type: 'text', value: template.slice(position, match.index) });
+      }
+      position = match.index! + match[0].length;
+
+      const [, marker, content] = match;
+
+      if (marker === '#') {
+        const [helper, path] = content.split(/\s+/, 2);
+        if (!BLOCK_HELPERS.includes(helper) || !path) {
+          throw new TemplateError(`Unknown block {{#${content}}}`);
+        }
+
+        const node = { type: 'block' as const, helper: helper as 'if' | 'unless' | 'each', path, body: [], inverse: [] };
+        target.push(node);
+        stack.push({ node, target: node.body });
+        target = node.body;
+      } else if (marker === '/') {
+        const open = stack.pop();
+        if (!open || open.node.helper !== content) {
+          throw new TemplateError(`Unexpected {{/${content}}}`);
+        }
+        target = stack.length ? stack[stack.length - 1].target : root;
+      } else if (content === 'else') {
+        const open = stack[stack.length - 1];
+        if (!open) {
+          throw new TemplateError('{{else}} outside a block');
+        }
+        open.target = open.node.inverse;
+        target = open.node.inverse;
+      } else {
+        target.push({ type: 'value', path: content });
+      }
+    }
+
+    if (stack.length) {
+      throw new TemplateError(`Unclosed {{#${stack[stack.length - 1].node.helper}}}`);
+    }
+
+    if (position < template.length) {
+      target.push({ type: 'text', value: template.slice(position) });
+    }
+
+    return root;
+  }
+
+  // Null when the template parses, otherwise the reason it does not
+  static validate(template: string): string | null {
+    try {
+      this.parse(template);
+      return null;
+    } catch (error) {
+      return error instanceof TemplateError ? error.message : 'Invalid template';
+    }
+  }
+
+  static render(template: string, context: Record<string, any>): string {
+    return this.renderNodes(this.parse(template), [context]);
+  }
+
+  private static renderNodes(nodes: TemplateNode[], scopes: any[]): string {
+    let output = '';
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        output += node.value;
+      } else if (node.type === 'value') {
+        const value = this.lookup(node.path, scopes);
+        output += value === undefined || value === null ? '' : String(value);
+      } else {
+        const value = this.lookup(node.path, scopes);
+        const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+
+        if (node.helper === 'each') {
+          // Anything other than a list has nothing to iterate over
+          const items = Array.isArray(value) ? value : [];
+          output += items.length > 0
+            ? items.map((item, index) => this.renderNodes(node.body, [...scopes, { '@index': index }, item])).join('')
+            : this.renderNodes(node.inverse, scopes);
+        } else {
+          const branch = (node.helper === 'if') === truthy ? node.body : node.inverse;
+          output += this.renderNodes(branch, scopes);
+        }
+      }
+    }
+
+    return output;
+  }
+
+  // Resolves a dotted path against the innermost scope that has its first segment
+  private static lookup(path: string, scopes: any[]): any {
+    if (path === 'this') {
+      return scopes[scopes.length - 1];
+    }
+
+    const [head, ...rest] = path.replace(/^this\./, '').split('.');
+
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const scope = scopes[i];
+      if (scope !== null && typeof scope === 'object' && head in scope) {
+        return rest.reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), scope[head]);
+      }
+    }
+
+    return undefined;
+  }
+}
\ No newline at end of file
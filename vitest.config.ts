@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Backend specs run in Node against a local D1 database provided by Miniflare
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    hookTimeout: 60000
+  }
+});
\ No newline at end of file